@@ -19,6 +19,7 @@ import {
   Animated,
   Dimensions,
   useWindowDimensions,
+  Modal,
 } from 'react-native';
 import Svg, { Path } from 'react-native-svg';
 import { StatusBar } from 'expo-status-bar';
@@ -34,6 +35,32 @@ import { secureStorage } from './src/services/secureStorage';
 import { biometricService } from './src/services/biometric';
 import { openReturnUrl, parseSourceBrowser } from './src/services/browserReturn';
 import { transferSimApi } from './src/services/transferSim';
+import { scheduledTransferService } from './src/services/scheduledTransfers';
+import { billSplitService, describeBillSplitProgress, isBillSplitSettled } from './src/services/billSplits';
+import { payeeService, getPayeeName, searchPayees, toLookupResult } from './src/services/payees';
+import { contactsService } from './src/services/contacts';
+import { settlementService } from './src/services/settlement';
+import { getMerchantRole, getMerchantRoleLabel, hasMerchantPermission } from './src/services/merchantRoles';
+import { calculateTip, formatTipPreset, validateTipAmount } from './src/services/tips';
+import { calculateFee, calculateMerchantFee, describeFeeSchedule, getActiveFeeSchedule } from './src/services/fees';
+import {
+  formatFxRate,
+  formatMoney,
+  getAccountCharge,
+  getAccountCurrency,
+  getCurrencySymbol,
+  isFxQuoteExpired,
+  needsConversion,
+  normalizeCurrency,
+  parseAmount,
+  validateAmount,
+} from './src/services/currency';
+import { addMoney, formatMoneyValue, money, subtractMoney, toAmount, toAmountString, zeroMoney } from './src/services/money';
+import { localLedger } from './src/services/localLedger';
+import { buildTransferReceipt, buildCardPaymentReceipt } from './src/services/receipts';
+import { historyExportService, getExportDateRange, EXPORT_RANGE_PRESETS } from './src/services/historyExport';
+import type { ExportFormat, ExportRangePreset } from './src/services/historyExport';
+import { getRefundableAmount, getRefundedAmount, getRefundLabel, getRefundState, validateRefundAmount } from './src/services/refunds';
 import * as notificationService from './src/services/notifications';
 import { getEnvironmentName, isDevelopment, getEnvironmentDebugInfo } from './src/config/env';
 import { SplashScreen } from './src/components/SplashScreen';
@@ -46,8 +73,24 @@ import { MerchantProfileEditScreen } from './src/screens/MerchantProfileEdit';
 import { ContractsListScreen } from './src/screens/ContractsList';
 import { ContractDetailScreen } from './src/screens/ContractDetail';
 import { CreateContractScreen } from './src/screens/CreateContract';
+import { RequestMoneyScreen } from './src/screens/RequestMoney';
+import { RequestApprovalScreen } from './src/screens/RequestApproval';
+import { ScheduledTransfersScreen, FREQUENCY_LABELS } from './src/screens/ScheduledTransfers';
+import { ScheduleTransferScreen } from './src/screens/ScheduleTransfer';
+import { SplitBillScreen } from './src/screens/SplitBill';
+import { BillSplitDetailScreen } from './src/screens/BillSplitDetail';
+import { PayeesScreen } from './src/screens/Payees';
+import { PaymentHistoryScreen } from './src/screens/PaymentHistory';
+import { PaymentDetailScreen } from './src/screens/PaymentDetail';
+import { ReceiptScreen } from './src/screens/Receipt';
+import { MerchantQrPosterScreen } from './src/screens/MerchantQrPoster';
+import { MerchantInvoiceScreen } from './src/screens/MerchantInvoice';
+import { MerchantAnalyticsScreen } from './src/screens/MerchantAnalytics';
+import { MerchantSettlementScreen } from './src/screens/MerchantSettlement';
+import { MerchantStaffScreen } from './src/screens/MerchantStaff';
 import { ProfileAvatar } from './src/components/ProfileAvatar';
 import { NearbyUsersPanel } from './src/components/NearbyUsersPanel';
+import { ContactsPanel } from './src/components/ContactsPanel';
 import {
   registerForDiscovery,
   startAdvertising,
@@ -57,7 +100,7 @@ import {
   type BeaconRegistration,
 } from './src/services/bleDiscovery';
 import QRCode from 'react-native-qrcode-svg';
-import type { User, Card, Bank, PaymentRequest, PaymentCard, Alias, AliasLookupResult, P2PEnrollment, BankAccount, Transfer, ResolvedToken, ResolvedMerchantToken, P2PMode, MerchantProfile, MerchantCategory, TransferWithRecipientType } from './src/types';
+import type { User, Card, Bank, PaymentRequest, PaymentCard, Alias, AliasLookupResult, P2PEnrollment, BankAccount, Transfer, ResolvedToken, ResolvedMerchantToken, P2PMode, MerchantProfile, MerchantCategory, MerchantStaffInvitation, TipSettings, FeeSchedule, FxQuote, Money, TransferWithRecipientType, MoneyRequest, ScheduledTransfer, BillSplit, Payee, PaymentHistoryItem, TransferStatus, TransferHistoryFilters, Receipt } from './src/types';
 import { MERCHANT_CATEGORIES, P2P_THEME_COLORS } from './src/types';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
@@ -76,6 +119,9 @@ type Screen =
   | 'cardDetails'
   | 'paymentApproval'
   | 'qrScanner'
+  | 'paymentHistory'
+  | 'paymentDetail'
+  | 'receipt'
   | 'settings'
   | 'profileEdit'
   // P2P screens
@@ -88,12 +134,24 @@ type Screen =
   | 'transferHistory'
   | 'transferDetail'
   | 'p2pQrScan'
+  | 'requestMoney'
+  | 'requestApproval'
+  | 'scheduledTransfers'
+  | 'scheduleTransfer'
+  | 'splitBill'
+  | 'billSplitDetail'
+  | 'payees'
   // Micro Merchant screens
   | 'merchantEnrollment'
   | 'merchantDashboard'
   | 'merchantHistory'
   | 'merchantProfile'
   | 'merchantProfileEdit'
+  | 'merchantQrPoster'
+  | 'merchantInvoice'
+  | 'merchantAnalytics'
+  | 'merchantSettlement'
+  | 'merchantStaff'
   // Contract screens
   | 'contractsList'
   | 'contractDetail'
@@ -102,6 +160,47 @@ type Screen =
 // Home tabs
 type HomeTab = 'cards' | 'p2p';
 
+// Transfer history filters
+// Each status group maps to the set of TransferSim statuses it covers
+type HistoryStatusGroup = 'completed' | 'inProgress' | 'failed' | 'reversed' | 'cancelled';
+const HISTORY_STATUS_GROUPS: Record<HistoryStatusGroup, { label: string; statuses: TransferStatus[] }> = {
+  completed: { label: 'Completed', statuses: ['COMPLETED'] },
+  inProgress: { label: 'In progress', statuses: ['PENDING', 'RESOLVING', 'DEBITING', 'CREDITING'] },
+  failed: { label: 'Failed', statuses: ['DEBIT_FAILED', 'CREDIT_FAILED', 'RECIPIENT_NOT_FOUND'] },
+  reversed: { label: 'Reversed', statuses: ['REVERSED'] },
+  cancelled: { label: 'Cancelled / Expired', statuses: ['CANCELLED', 'EXPIRED'] },
+};
+type HistoryDateRange = 'all' | '7d' | '30d' | '90d';
+const HISTORY_DATE_RANGES: { value: HistoryDateRange; label: string; days: number | null }[] = [
+  { value: 'all', label: 'All time', days: null },
+  { value: '7d', label: 'Last 7 days', days: 7 },
+  { value: '30d', label: 'Last 30 days', days: 30 },
+  { value: '90d', label: 'Last 90 days', days: 90 },
+];
+const HISTORY_PAGE_SIZE = 50;
+
+// Build the getTransfers filters from the history screen's filter state
+const buildTransferHistoryFilters = (
+  statusGroups: HistoryStatusGroup[],
+  dateRange: HistoryDateRange,
+  query: string
+): TransferHistoryFilters => {
+  const filters: TransferHistoryFilters = {};
+  if (statusGroups.length > 0) {
+    filters.statuses = statusGroups.flatMap((group) => HISTORY_STATUS_GROUPS[group].statuses);
+  }
+  const days = HISTORY_DATE_RANGES.find((range) => range.value === dateRange)?.days;
+  if (days) {
+    const from = new Date();
+    from.setDate(from.getDate() - days);
+    filters.fromDate = `${from.getFullYear()}-${String(from.getMonth() + 1).padStart(2, '0')}-${String(from.getDate()).padStart(2, '0')}`;
+  }
+  if (query.trim()) {
+    filters.query = query.trim();
+  }
+  return filters;
+};
+
 // Animated path component for SVG
 const AnimatedPath = Animated.createAnimatedComponent(Path);
 
@@ -279,6 +378,14 @@ export default function App() {
   // Card details state
   const [selectedCard, setSelectedCard] = useState<Card | null>(null);
 
+  // Card payment history state
+  const [selectedPayment, setSelectedPayment] = useState<PaymentHistoryItem | null>(null);
+  const [paymentHistoryReturnScreen, setPaymentHistoryReturnScreen] = useState<'home' | 'cardDetails'>('home');
+
+  // Receipt state
+  const [selectedReceipt, setSelectedReceipt] = useState<Receipt | null>(null);
+  const [receiptReturnScreen, setReceiptReturnScreen] = useState<'transferDetail' | 'paymentDetail' | 'home'>('transferDetail');
+
   // Payment approval state
   const [paymentRequest, setPaymentRequest] = useState<PaymentRequest | null>(null);
   const [selectedPaymentCard, setSelectedPaymentCard] = useState<PaymentCard | null>(null);
@@ -312,6 +419,24 @@ export default function App() {
   const [transferDetailReturnScreen, setTransferDetailReturnScreen] = useState<'transferHistory' | 'home' | 'p2pHome'>('transferHistory');
   const [isViewingMerchantPayment, setIsViewingMerchantPayment] = useState(false);
 
+  // Money request state
+  const [incomingRequests, setIncomingRequests] = useState<MoneyRequest[]>([]);
+  const [selectedMoneyRequestId, setSelectedMoneyRequestId] = useState<string | null>(null);
+
+  // Scheduled transfer state
+  const [scheduledTransfers, setScheduledTransfers] = useState<ScheduledTransfer[]>([]);
+  const [selectedScheduleId, setSelectedScheduleId] = useState<string | null>(null);
+  const [scheduledTransfersRefreshTrigger, setScheduledTransfersRefreshTrigger] = useState(0);
+
+  // Bill split state
+  const [billSplits, setBillSplits] = useState<BillSplit[]>([]);
+  const [selectedBillSplitId, setSelectedBillSplitId] = useState<string | null>(null);
+  // Set when a split starts from a merchant QR payment
+  const [billSplitDraft, setBillSplitDraft] = useState<{ total: number; description: string; merchantName: string } | null>(null);
+
+  // Payee book (favourites on P2P home, suggestions on Send Money)
+  const [payees, setPayees] = useState<Payee[]>([]);
+
   // Contract state
   const [selectedContractId, setSelectedContractId] = useState<string | null>(null);
   const [contractRefreshTrigger, setContractRefreshTrigger] = useState(0);
@@ -334,10 +459,11 @@ export default function App() {
 
   // Send Money screen state
   const [sendStep, setSendStep] = useState<'input' | 'confirm' | 'success'>('input');
-  const [sendInputMode, setSendInputMode] = useState<'alias' | 'nearby'>('alias');
+  const [sendInputMode, setSendInputMode] = useState<'alias' | 'nearby' | 'contacts'>('alias');
   const [recipientAlias, setRecipientAlias] = useState('');
   const [sendAmount, setSendAmount] = useState('');
   const [sendNote, setSendNote] = useState('');
+  const [sendFxQuote, setSendFxQuote] = useState<FxQuote | null>(null); // Set when the recipient's currency differs
   const [recipientInfo, setRecipientInfo] = useState<AliasLookupResult | null>(null);
   const [selectedAccount, setSelectedAccount] = useState<BankAccount | null>(null);
   const [sendLoading, setSendLoading] = useState(false);
@@ -351,6 +477,24 @@ export default function App() {
   const [historyFilter, setHistoryFilter] = useState<'all' | 'sent' | 'received'>('all');
   const [historyTransfers, setHistoryTransfers] = useState<Transfer[]>([]);
   const [historyViewMode, setHistoryViewMode] = useState<'personal' | 'business'>('personal');
+  const [historyStatusGroups, setHistoryStatusGroups] = useState<HistoryStatusGroup[]>([]);
+  const [historyDateRange, setHistoryDateRange] = useState<HistoryDateRange>('all');
+  const [historySearchInput, setHistorySearchInput] = useState('');
+  const [historySearchQuery, setHistorySearchQuery] = useState(''); // Debounced copy of historySearchInput
+  const [historyTotal, setHistoryTotal] = useState(0);
+  const [historyLoadingMore, setHistoryLoadingMore] = useState(false);
+  const [showHistoryFilterSheet, setShowHistoryFilterSheet] = useState(false);
+  const [historyOffline, setHistoryOffline] = useState(false); // Showing the local ledger because TransferSim is unreachable
+  const [showHistoryExportSheet, setShowHistoryExportSheet] = useState(false);
+  const [historyExportPreset, setHistoryExportPreset] = useState<ExportRangePreset>('lastMonth');
+  const [historyExporting, setHistoryExporting] = useState<ExportFormat | null>(null);
+
+  // Merchant refund sheet state (transfer detail, business mode)
+  const [showRefundSheet, setShowRefundSheet] = useState(false);
+  const [refundMode, setRefundMode] = useState<'full' | 'partial'>('full');
+  const [refundAmountInput, setRefundAmountInput] = useState('');
+  const [refundReason, setRefundReason] = useState('');
+  const [refunding, setRefunding] = useState(false);
 
   // P2P QR Scanner screen state
   const [p2pQrScanned, setP2pQrScanned] = useState(false);
@@ -359,6 +503,10 @@ export default function App() {
   const [resolvedToken, setResolvedToken] = useState<ResolvedMerchantToken | null>(null);
   const [p2pSendAmount, setP2pSendAmount] = useState('');
   const [p2pSendNote, setP2pSendNote] = useState('');
+  const [p2pFxQuote, setP2pFxQuote] = useState<FxQuote | null>(null); // Set when the QR code and account currencies differ
+  // Tip for merchants with tip prompts: preset index, 'custom', or null for no tip
+  const [p2pTipChoice, setP2pTipChoice] = useState<number | 'custom' | null>(null);
+  const [p2pCustomTip, setP2pCustomTip] = useState('');
   const [p2pSelectedAccount, setP2pSelectedAccount] = useState<BankAccount | null>(null);
   const [p2pSending, setP2pSending] = useState(false);
 
@@ -368,6 +516,11 @@ export default function App() {
   const [merchantProfile, setMerchantProfile] = useState<MerchantProfile | null>(null);
   const [merchantLoading, setMerchantLoading] = useState(false);
   const [merchantTransfers, setMerchantTransfers] = useState<TransferWithRecipientType[]>([]);
+  // Active fee schedule from TransferSim (local fee table until loaded)
+  const [feeSchedule, setFeeSchedule] = useState<FeeSchedule>(getActiveFeeSchedule());
+  // Invitations to join someone else's merchant as staff (shown while not a merchant)
+  const [merchantInvitations, setMerchantInvitations] = useState<MerchantStaffInvitation[]>([]);
+  const [respondingInvitationId, setRespondingInvitationId] = useState<string | null>(null);
 
   // Merchant enrollment form state
   const [merchantBusinessName, setMerchantBusinessName] = useState('');
@@ -382,9 +535,11 @@ export default function App() {
 
   // Merchant dashboard stats (from /me/dashboard endpoint)
   const [merchantStats, setMerchantStats] = useState<{
-    todayRevenue: number;
+    todayRevenue: Money;
     todayTransactionCount: number;
-    weekRevenue: number;
+    weekRevenue: Money;
+    todayTips: Money;
+    weekTips: Money;
   } | null>(null);
 
   // Merchant payment success animation state
@@ -398,8 +553,11 @@ export default function App() {
   // Refs to track current state for notification callbacks (avoids stale closure)
   const p2pModeRef = useRef(p2pMode);
   const isMicroMerchantRef = useRef(isMicroMerchant);
+  const merchantCategoryRef = useRef(merchantProfile?.merchantCategory);
   const currentScreenRef = useRef(currentScreen);
   const selectedContractIdRef = useRef(selectedContractId);
+  // Incremented by every history (re)load so responses for an older filter/search are dropped
+  const historyRequestRef = useRef(0);
 
   // Track if we've handled the initial URL
   const initialUrlHandled = useRef(false);
@@ -418,10 +576,21 @@ export default function App() {
     p2pModeRef.current = p2pMode;
   }, [p2pMode]);
 
+  // Every scanned or deep-linked token starts without a tip or exchange rate
+  useEffect(() => {
+    setP2pTipChoice(null);
+    setP2pCustomTip('');
+    setP2pFxQuote(null);
+  }, [resolvedToken]);
+
   useEffect(() => {
     isMicroMerchantRef.current = isMicroMerchant;
   }, [isMicroMerchant]);
 
+  useEffect(() => {
+    merchantCategoryRef.current = merchantProfile?.merchantCategory;
+  }, [merchantProfile]);
+
   useEffect(() => {
     currentScreenRef.current = currentScreen;
   }, [currentScreen]);
@@ -456,32 +625,95 @@ export default function App() {
     setHistoryTransfers(recentTransfers);
   }, [recentTransfers]);
 
+  // Debounce the history search box so we don't query TransferSim on every keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => setHistorySearchQuery(historySearchInput), 350);
+    return () => clearTimeout(timer);
+  }, [historySearchInput]);
+
   // Function to load transfer history (silent - no pull-down animation)
   const loadHistoryTransfers = useCallback(async () => {
+    const requestId = ++historyRequestRef.current;
     setHistoryLoading(true);
+    const filters = buildTransferHistoryFilters(historyStatusGroups, historyDateRange, historySearchQuery);
+    const unfiltered = Object.keys(filters).length === 0;
+
+    // Show the local ledger straight away; the network result replaces it below
+    let ledgerTransfers: Transfer[] = [];
+    if (unfiltered) {
+      ledgerTransfers = (await localLedger.getRecords('transfers').catch(() => []))
+        .filter((t) => historyFilter === 'all' || t.direction === historyFilter);
+      if (ledgerTransfers.length > 0 && requestId === historyRequestRef.current) {
+        setHistoryTransfers(ledgerTransfers);
+      }
+    }
+
     try {
-      const result = await transferSimApi.getTransfers(historyFilter, 50, 0);
+      const result = await transferSimApi.getTransfers(historyFilter, HISTORY_PAGE_SIZE, 0, filters);
+      localLedger.upsertRecords('transfers', result.transfers).catch((e) => console.log('[History] Ledger update failed:', e));
+      if (requestId !== historyRequestRef.current) return;
       setHistoryTransfers(result.transfers);
+      setHistoryTotal(result.total);
+      setHistoryOffline(false);
     } catch (e: any) {
       console.error('[History] Load failed:', e);
-      Alert.alert('Error', 'Failed to load transfer history');
+      if (requestId !== historyRequestRef.current) return;
+      if (ledgerTransfers.length > 0) {
+        // Offline: keep the ledger copy on screen and stop infinite scroll from hitting the network
+        setHistoryOffline(true);
+        setHistoryTotal(ledgerTransfers.length);
+      } else {
+        Alert.alert('Error', 'Failed to load transfer history');
+      }
     } finally {
-      setHistoryLoading(false);
+      if (requestId === historyRequestRef.current) {
+        setHistoryLoading(false);
+      }
     }
-  }, [historyFilter]);
+  }, [historyFilter, historyStatusGroups, historyDateRange, historySearchQuery]);
 
   // Function to refresh transfer history (shows pull-down animation)
   const refreshHistoryTransfers = useCallback(async () => {
+    const requestId = ++historyRequestRef.current;
     setHistoryRefreshing(true);
     try {
-      const result = await transferSimApi.getTransfers(historyFilter, 50, 0);
+      const filters = buildTransferHistoryFilters(historyStatusGroups, historyDateRange, historySearchQuery);
+      const result = await transferSimApi.getTransfers(historyFilter, HISTORY_PAGE_SIZE, 0, filters);
+      localLedger.upsertRecords('transfers', result.transfers).catch((e) => console.log('[History] Ledger update failed:', e));
+      if (requestId !== historyRequestRef.current) return;
       setHistoryTransfers(result.transfers);
+      setHistoryTotal(result.total);
+      setHistoryOffline(false);
     } catch (e: any) {
       console.error('[History] Refresh failed:', e);
     } finally {
       setHistoryRefreshing(false);
     }
-  }, [historyFilter]);
+  }, [historyFilter, historyStatusGroups, historyDateRange, historySearchQuery]);
+
+  // Function to load the next page of transfer history (infinite scroll)
+  const loadMoreHistoryTransfers = useCallback(async () => {
+    if (historyLoading || historyLoadingMore || historyTransfers.length >= historyTotal) return;
+    // A page requested for the previous filter/search must not be appended to the new list
+    const requestId = historyRequestRef.current;
+    setHistoryLoadingMore(true);
+    try {
+      const filters = buildTransferHistoryFilters(historyStatusGroups, historyDateRange, historySearchQuery);
+      const result = await transferSimApi.getTransfers(historyFilter, HISTORY_PAGE_SIZE, historyTransfers.length, filters);
+      localLedger.upsertRecords('transfers', result.transfers).catch((e) => console.log('[History] Ledger update failed:', e));
+      if (requestId !== historyRequestRef.current) return;
+      // Skip duplicates in case new transfers shifted the offset since the last page
+      setHistoryTransfers((prev) => {
+        const seen = new Set(prev.map((t) => t.transferId));
+        return [...prev, ...result.transfers.filter((t) => !seen.has(t.transferId))];
+      });
+      setHistoryTotal(result.total);
+    } catch (e: any) {
+      console.error('[History] Load more failed:', e);
+    } finally {
+      setHistoryLoadingMore(false);
+    }
+  }, [historyFilter, historyStatusGroups, historyDateRange, historySearchQuery, historyLoading, historyLoadingMore, historyTransfers.length, historyTotal]);
 
   // Load transfers when history filter changes (only when on transferHistory screen in personal mode)
   // Also reloads when transferHistoryRefreshTrigger changes (e.g., from notification tap)
@@ -527,7 +759,7 @@ export default function App() {
         setResolvedToken(resolved);
 
         if (resolved.amount) {
-          setP2pSendAmount(resolved.amount.toString());
+          setP2pSendAmount(toAmountString(money(resolved.amount, resolved.currency)));
         }
         if (resolved.description) {
           setP2pSendNote(resolved.description);
@@ -632,7 +864,7 @@ export default function App() {
         setResolvedToken(resolved);
 
         if (resolved.amount) {
-          setP2pSendAmount(resolved.amount.toString());
+          setP2pSendAmount(toAmountString(money(resolved.amount, resolved.currency)));
         }
         if (resolved.description) {
           setP2pSendNote(resolved.description);
@@ -718,7 +950,7 @@ export default function App() {
             setResolvedToken(resolved);
 
             if (resolved.amount) {
-              setP2pSendAmount(resolved.amount.toString());
+              setP2pSendAmount(toAmountString(money(resolved.amount, resolved.currency)));
             }
             if (resolved.description) {
               setP2pSendNote(resolved.description);
@@ -908,6 +1140,21 @@ export default function App() {
           onPress: handleClosePayment,
           style: 'cancel',
         },
+        {
+          text: 'View Receipt',
+          onPress: async () => {
+            // Build the receipt before handleClosePayment clears the request and card
+            const receipt = paymentRequest
+              ? buildCardPaymentReceipt({ ...paymentRequest, status: 'approved' }, selectedPaymentCard || undefined)
+              : null;
+            await handleClosePayment();
+            if (receipt) {
+              setSelectedReceipt(receipt);
+              setReceiptReturnScreen('home');
+              setCurrentScreen('receipt');
+            }
+          },
+        },
       ]
     );
   };
@@ -1080,11 +1327,10 @@ export default function App() {
       case 'RequestApproval':
         if (params.requestId) {
           console.log('[Notifications] Deep linking to request:', params.requestId);
-          // TODO: Implement dedicated request approval screen
-          // For now, navigate to P2P home where pending requests are shown
-          setP2pHomeRefreshTrigger(prev => prev + 1); // Force refresh on notification tap
+          setSelectedMoneyRequestId(params.requestId);
+          setP2pHomeRefreshTrigger(prev => prev + 1); // Refresh pending requests when we return
           setActiveHomeTab('p2p');
-          setCurrentScreen('home');
+          setCurrentScreen('requestApproval');
         }
         break;
 
@@ -1149,10 +1395,13 @@ export default function App() {
             console.log('[Notifications] Transfer received in business mode, refreshing merchant dashboard...');
             loadMerchantDashboard();
 
-            // Show payment success animation
-            const amount = notifData.amount ? `$${notifData.amount.toFixed(2)}` : 'Payment';
+            // Show payment success animation (with the net after the estimated fee)
+            const amount = notifData.amount ? formatMoney(notifData.amount) : 'Payment';
             const sender = notifData.senderName || 'Customer';
-            setMerchantPaymentSuccessMessage(`${amount} from ${sender}`);
+            const net = notifData.amount
+              ? ` · ${formatMoneyValue(subtractMoney(money(notifData.amount), money(calculateMerchantFee(notifData.amount, merchantCategoryRef.current))))} after fees`
+              : '';
+            setMerchantPaymentSuccessMessage(`${amount} from ${sender}${net}`);
             setShowMerchantPaymentSuccess(true);
           }
 
@@ -1627,6 +1876,12 @@ export default function App() {
     setAliases([]);
     setBankAccounts([]);
     setRecentTransfers([]);
+    setIncomingRequests([]);
+    setScheduledTransfers([]);
+    setBillSplits([]);
+    setPayees([]);
+    // The local ledger holds this user's history, so don't leave it for the next login
+    localLedger.clearAll().catch((e) => console.log('[Logout] Failed to clear ledger:', e));
     // Reset to cards tab so user doesn't land on P2P tab after re-login
     setActiveHomeTab('cards');
     setCurrentScreen('welcome');
@@ -1667,6 +1922,17 @@ export default function App() {
     setAliases([]);
     setBankAccounts([]);
     setRecentTransfers([]);
+    setIncomingRequests([]);
+    setScheduledTransfers([]);
+    setBillSplits([]);
+    setPayees([]);
+    // Scheduled transfers, bill splits, payees, contact matches and closed-day reports are stored on the device, so clear them with the rest of the device data
+    await scheduledTransferService.clearAll();
+    await billSplitService.clearAll();
+    await payeeService.clearAll();
+    await contactsService.clearAll();
+    await settlementService.clearAll();
+    await localLedger.clearAll();
     // Reset to cards tab so user doesn't land on P2P tab after re-login
     setActiveHomeTab('cards');
     setCurrentScreen('welcome');
@@ -1696,6 +1962,22 @@ export default function App() {
     }
   };
 
+  // Lock an exchange rate for a transfer; alerts and returns null when no rate is available
+  const requestFxQuote = async (fromCurrency: string, toCurrency: string, amount: number): Promise<FxQuote | null> => {
+    try {
+      const quote = await transferSimApi.getFxQuote(fromCurrency, toCurrency, amount);
+      if (!quote) throw new Error('No rate');
+      return quote;
+    } catch (e: any) {
+      console.error('[FX] Quote failed:', e);
+      Alert.alert(
+        'Exchange Rate Unavailable',
+        `We couldn't get a ${fromCurrency} to ${toCurrency} rate right now. Please try again.`
+      );
+      return null;
+    }
+  };
+
   const handleOpenP2pQrScanner = async () => {
     // Request camera permission using expo-camera hook
     const result = await requestCameraPermission();
@@ -1827,7 +2109,7 @@ export default function App() {
 
       // Pre-fill amount if specified in token
       if (resolved.amount) {
-        setP2pSendAmount(resolved.amount.toString());
+        setP2pSendAmount(toAmountString(money(resolved.amount, resolved.currency)));
       }
       if (resolved.description) {
         setP2pSendNote(resolved.description);
@@ -1931,17 +2213,46 @@ export default function App() {
   const loadP2PData = async () => {
     console.log('[loadP2PData] Starting...');
     try {
-      // Load aliases, accounts, and recent transfers in parallel
-      const [aliasesResult, accountsResult, transfersResult] = await Promise.all([
+      // Send any scheduled transfers that have fallen due before loading recent transfers
+      try {
+        const scheduledResult = await scheduledTransferService.runDueTransfers();
+        if (scheduledResult.sent > 0 || scheduledResult.failed > 0) {
+          console.log('[loadP2PData] Scheduled transfers - sent:', scheduledResult.sent, 'failed:', scheduledResult.failed);
+        }
+      } catch (e) {
+        console.log('[loadP2PData] runDueTransfers error:', e);
+      }
+
+      // Load aliases, accounts, recent transfers, and pending requests in parallel
+      const [aliasesResult, accountsResult, transfersResult, requestsResult] = await Promise.all([
         transferSimApi.getAliases().catch((e) => { console.log('[loadP2PData] getAliases error:', e); return []; }),
         transferSimApi.getAccounts().catch((e) => { console.log('[loadP2PData] getAccounts error:', e); return []; }),
         transferSimApi.getTransfers('all', 10).catch((e) => { console.log('[loadP2PData] getTransfers error:', e); return { transfers: [], total: 0 }; }),
+        transferSimApi.listMoneyRequests('incoming', 'PENDING', 10).catch((e) => { console.log('[loadP2PData] listMoneyRequests error:', e); return { requests: [], total: 0 }; }),
       ]);
 
+      // Recent transfers: sync the local ledger and read from it, so the list still renders offline
+      let recent: Transfer[] = transfersResult.transfers || [];
+      if (recent.length > 0) {
+        await localLedger.upsertRecords('transfers', recent).catch((e) => console.log('[loadP2PData] Ledger update failed:', e));
+      } else {
+        recent = (await localLedger.getRecords('transfers').catch(() => [])).slice(0, 10);
+      }
+      setRecentTransfers(recent);
+      localLedger.syncCollection('transfers').catch((e) => console.log('[loadP2PData] Ledger sync failed:', e));
+
       console.log('[loadP2PData] Results - aliases:', aliasesResult.length, 'accounts:', accountsResult.length, 'transfers:', transfersResult.transfers?.length || 0);
       setAliases(aliasesResult);
       setBankAccounts(accountsResult);
-      setRecentTransfers(transfersResult.transfers || []);
+      setIncomingRequests(requestsResult.requests || []);
+      setScheduledTransfers(await scheduledTransferService.getScheduledTransfers().catch(() => []));
+      setBillSplits(await billSplitService.getBillSplits().catch(() => []));
+
+      // Learn payees from completed transfers, then re-check stale ones in the background
+      payeeService.recordTransfers(transfersResult.transfers || [])
+        .then(() => payeeService.syncPayees())
+        .then((result) => setPayees(result.payees))
+        .catch((e) => console.log('[loadP2PData] Payee sync failed:', e));
 
       // Also check if user is a Micro Merchant
       await loadMerchantData();
@@ -1950,15 +2261,32 @@ export default function App() {
     }
   };
 
+  // Open Send Money with a saved payee already looked up
+  const handleSendToPayee = (payee: Payee) => {
+    if (payee.aliasRemoved) {
+      Alert.alert('Payee Unavailable', `${payee.alias} is no longer registered. Ask ${getPayeeName(payee)} for their new alias.`);
+      return;
+    }
+    setSendInputMode('alias');
+    setSelectedNearbyUser(null);
+    setSendStep('input');
+    setRecipientAlias(payee.alias);
+    setRecipientInfo(toLookupResult(payee));
+    setCurrentScreen('sendMoney');
+  };
+
   // Load Micro Merchant data
   const loadMerchantData = async () => {
+    // Fee schedule is used by payers and merchants alike; it never throws
+    transferSimApi.getFeeSchedule().then(setFeeSchedule);
     try {
       setMerchantLoading(true);
       const profile = await transferSimApi.getMerchantProfile();
       if (profile) {
         setIsMicroMerchant(true);
         setMerchantProfile(profile);
-        console.log('[Merchant] Profile loaded:', profile.merchantName);
+        setMerchantInvitations([]);
+        console.log('[Merchant] Profile loaded:', profile.merchantName, getMerchantRole(profile));
 
         // Load saved p2pMode preference
         const savedMode = await AsyncStorage.getItem('p2pMode');
@@ -1971,6 +2299,7 @@ export default function App() {
         setIsMicroMerchant(false);
         setMerchantProfile(null);
         setMerchantStats(null);
+        setMerchantInvitations(await transferSimApi.getStaffInvitations());
       }
     } catch (e) {
       console.log('[Merchant] Failed to load merchant data:', e);
@@ -1992,6 +2321,38 @@ export default function App() {
     }
   };
 
+  // Accept or decline an invitation to join a merchant as staff
+  const handleStaffInvitation = async (invitation: MerchantStaffInvitation, accept: boolean) => {
+    try {
+      setRespondingInvitationId(invitation.invitationId);
+      await transferSimApi.respondToStaffInvitation(invitation.invitationId, accept);
+      setMerchantInvitations((prev) => prev.filter((i) => i.invitationId !== invitation.invitationId));
+      if (accept) {
+        await loadMerchantData();
+        setP2pMode('business');
+        await AsyncStorage.setItem('p2pMode', 'business');
+        loadMerchantDashboard();
+      }
+    } catch (e: any) {
+      console.log('[Merchant] Invitation response failed:', e);
+      Alert.alert('Error', e.response?.data?.message || 'Failed to respond to the invitation');
+    } finally {
+      setRespondingInvitationId(null);
+    }
+  };
+
+  // Deactivate the merchant account (owner only) and fall back to personal mode
+  const handleDeactivateMerchant = async () => {
+    await transferSimApi.deactivateMerchant();
+    setIsMicroMerchant(false);
+    setMerchantProfile(null);
+    setMerchantStats(null);
+    setP2pMode('personal');
+    await AsyncStorage.setItem('p2pMode', 'personal');
+    setActiveHomeTab('p2p');
+    setCurrentScreen('home');
+  };
+
   // Handle Micro Merchant enrollment
   const handleMerchantEnrollment = async () => {
     if (!merchantBusinessName.trim()) {
@@ -2087,8 +2448,21 @@ export default function App() {
   const loadMerchantTransfers = async () => {
     try {
       setHistoryLoading(true);
-      const result = await transferSimApi.getMerchantTransfers(50, 0);
-      setMerchantTransfers(result.transfers);
+      // Render the local ledger copy while the network request is in flight
+      const ledgerTransfers = await localLedger.getRecords('merchantTransfers').catch(() => []);
+      if (ledgerTransfers.length > 0) {
+        setMerchantTransfers(ledgerTransfers);
+      }
+      try {
+        const result = await transferSimApi.getMerchantTransfers(50, 0);
+        setMerchantTransfers(result.transfers);
+        setHistoryOffline(false);
+        localLedger.upsertRecords('merchantTransfers', result.transfers).catch((e) => console.log('[Merchant] Ledger update failed:', e));
+        localLedger.syncCollection('merchantTransfers').catch((e) => console.log('[Merchant] Ledger sync failed:', e));
+      } catch (e) {
+        setHistoryOffline(ledgerTransfers.length > 0);
+        throw e;
+      }
     } catch (e) {
       console.log('[Merchant] Failed to load transfers:', e);
     } finally {
@@ -2198,6 +2572,12 @@ export default function App() {
             try {
               // Clear all stored data
               await secureStorage.clearAll();
+              await scheduledTransferService.clearAll();
+              await billSplitService.clearAll();
+              await payeeService.clearAll();
+              await contactsService.clearAll();
+              await settlementService.clearAll();
+              await localLedger.clearAll();
 
               // Generate new device ID
               const newDeviceId = uuidv4();
@@ -2714,6 +3094,17 @@ export default function App() {
               <Text style={styles.qrScanButtonIcon}>📷</Text>
               <Text style={styles.qrScanButtonText}>Scan QR Code to Pay</Text>
             </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.outlineButton, { marginTop: 12 }]}
+              onPress={() => {
+                setPaymentHistoryReturnScreen('home');
+                setCurrentScreen('paymentHistory');
+              }}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.outlineButtonText}>Payment History</Text>
+            </TouchableOpacity>
           </>
         )}
       </ScrollView>
@@ -2754,6 +3145,9 @@ export default function App() {
       }
 
       // Enrolled state - show P2P home
+      const upcomingSchedules = scheduledTransfers.filter((s) => s.status === 'ACTIVE' || s.status === 'PAUSED');
+      const favouritePayees = payees.filter((p) => p.isFavourite);
+
       // Render Personal mode content (current P2P)
       const renderPersonalMode = () => (
         <>
@@ -2781,6 +3175,31 @@ export default function App() {
               <Text style={styles.p2pQuickActionText}>Receive</Text>
             </TouchableOpacity>
 
+            <TouchableOpacity
+              style={styles.p2pQuickAction}
+              onPress={() => setCurrentScreen('requestMoney')}
+              activeOpacity={0.7}
+            >
+              <View style={[styles.p2pQuickActionIcon, { backgroundColor: '#e0f2fe' }]}>
+                <Text style={{ fontSize: 24 }}>🙋</Text>
+              </View>
+              <Text style={styles.p2pQuickActionText}>Request</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.p2pQuickAction}
+              onPress={() => {
+                setBillSplitDraft(null);
+                setCurrentScreen('splitBill');
+              }}
+              activeOpacity={0.7}
+            >
+              <View style={[styles.p2pQuickActionIcon, { backgroundColor: '#ecfccb' }]}>
+                <Text style={{ fontSize: 24 }}>🍽️</Text>
+              </View>
+              <Text style={styles.p2pQuickActionText}>Split</Text>
+            </TouchableOpacity>
+
             <TouchableOpacity
               style={styles.p2pQuickAction}
               onPress={() => setCurrentScreen('aliasManagement')}
@@ -2815,6 +3234,88 @@ export default function App() {
             </TouchableOpacity>
           </View>
 
+          {/* Pending Payment Requests - only show if someone is asking us to pay */}
+          {incomingRequests.length > 0 && (
+            <View style={styles.p2pSection}>
+              <Text style={styles.sectionTitle}>Payment Requests</Text>
+              {incomingRequests.map((request) => (
+                <TouchableOpacity
+                  key={request.requestId}
+                  style={styles.p2pTransferItem}
+                  onPress={() => {
+                    setSelectedMoneyRequestId(request.requestId);
+                    setCurrentScreen('requestApproval');
+                  }}
+                  activeOpacity={0.7}
+                >
+                  <ProfileAvatar
+                    imageUrl={request.requesterProfileImageUrl}
+                    displayName={request.requesterDisplayName || request.requesterAlias || 'Unknown'}
+                    initialsColor={request.requesterInitialsColor}
+                    size="small"
+                  />
+                  <View style={styles.p2pTransferInfo}>
+                    <Text style={styles.p2pTransferName}>
+                      {request.requesterDisplayName || request.requesterAlias}
+                    </Text>
+                    <Text style={styles.p2pTransferDate} numberOfLines={1}>
+                      {request.description || `Requested ${new Date(request.createdAt).toLocaleDateString()}`}
+                    </Text>
+                  </View>
+                  <Text style={styles.p2pTransferAmount}>
+                    {formatMoneyValue(request.amount)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          {/* Favourites - starred payees, one tap to send */}
+          {payees.length > 0 && (
+            <View style={styles.p2pSection}>
+              <View style={styles.p2pSectionHeader}>
+                <Text style={styles.sectionTitle}>Favourites</Text>
+                <TouchableOpacity onPress={() => setCurrentScreen('payees')}>
+                  <Text style={styles.p2pSeeAllText}>See All</Text>
+                </TouchableOpacity>
+              </View>
+              {favouritePayees.length === 0 ? (
+                <TouchableOpacity
+                  style={styles.p2pAddAliasCard}
+                  onPress={() => setCurrentScreen('payees')}
+                  activeOpacity={0.7}
+                >
+                  <Text style={styles.p2pAddAliasText}>☆ Star a payee to pin them here</Text>
+                </TouchableOpacity>
+              ) : (
+                <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                  {favouritePayees.map((payee) => (
+                    <TouchableOpacity
+                      key={payee.payeeId}
+                      style={styles.p2pFavouriteItem}
+                      onPress={() => handleSendToPayee(payee)}
+                      activeOpacity={0.7}
+                    >
+                      <ProfileAvatar
+                        imageUrl={payee.isMerchant ? payee.merchantLogoUrl || payee.profileImageUrl : payee.profileImageUrl}
+                        displayName={getPayeeName(payee)}
+                        initialsColor={payee.initialsColor}
+                        size="small"
+                        variant={payee.isMerchant ? 'merchant' : 'user'}
+                      />
+                      <Text
+                        style={[styles.p2pFavouriteName, payee.aliasRemoved && { color: '#9ca3af' }]}
+                        numberOfLines={1}
+                      >
+                        {getPayeeName(payee)}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </ScrollView>
+              )}
+            </View>
+          )}
+
           {/* My Aliases */}
           <View style={styles.p2pSection}>
             <Text style={styles.sectionTitle}>My Aliases</Text>
@@ -2843,6 +3344,84 @@ export default function App() {
             )}
           </View>
 
+          {/* Scheduled Transfers */}
+          <View style={styles.p2pSection}>
+            <View style={styles.p2pSectionHeader}>
+              <Text style={styles.sectionTitle}>Scheduled</Text>
+              {scheduledTransfers.length > 0 && (
+                <TouchableOpacity onPress={() => setCurrentScreen('scheduledTransfers')}>
+                  <Text style={styles.p2pSeeAllText}>See All</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            {upcomingSchedules.length === 0 ? (
+              <TouchableOpacity
+                style={styles.p2pAddAliasCard}
+                onPress={() => {
+                  setSelectedScheduleId(null);
+                  setCurrentScreen('scheduleTransfer');
+                }}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.p2pAddAliasText}>+ Schedule a one-time or recurring transfer</Text>
+              </TouchableOpacity>
+            ) : (
+              upcomingSchedules.slice(0, 3).map((schedule) => (
+                <TouchableOpacity
+                  key={schedule.scheduleId}
+                  style={styles.p2pTransferItem}
+                  onPress={() => {
+                    setSelectedScheduleId(schedule.scheduleId);
+                    setCurrentScreen('scheduleTransfer');
+                  }}
+                  activeOpacity={0.7}
+                >
+                  <View style={styles.p2pTransferInfo}>
+                    <Text style={styles.p2pTransferName}>
+                      {schedule.recipientDisplayName || schedule.recipientAlias}
+                    </Text>
+                    <Text style={[styles.p2pTransferDate, !!schedule.lastError && { color: '#ef4444' }]}>
+                      {schedule.status === 'PAUSED'
+                        ? 'Paused'
+                        : schedule.lastError
+                          ? 'Last attempt failed'
+                          : `${FREQUENCY_LABELS[schedule.frequency]} · Next ${schedule.nextRunDate}`}
+                    </Text>
+                  </View>
+                  <Text style={styles.p2pTransferAmount}>
+                    {formatMoney(Number(schedule.amount || 0), schedule.currency)}
+                  </Text>
+                </TouchableOpacity>
+              ))
+            )}
+          </View>
+
+          {/* Bill Splits - only show once the user has split a bill */}
+          {billSplits.length > 0 && (
+            <View style={styles.p2pSection}>
+              <Text style={styles.sectionTitle}>Bill Splits</Text>
+              {billSplits.slice(0, 3).map((split) => (
+                <TouchableOpacity
+                  key={split.splitId}
+                  style={styles.p2pTransferItem}
+                  onPress={() => {
+                    setSelectedBillSplitId(split.splitId);
+                    setCurrentScreen('billSplitDetail');
+                  }}
+                  activeOpacity={0.7}
+                >
+                  <View style={styles.p2pTransferInfo}>
+                    <Text style={styles.p2pTransferName}>{split.description}</Text>
+                    <Text style={[styles.p2pTransferDate, isBillSplitSettled(split) && { color: '#10b981' }]}>
+                      {describeBillSplitProgress(split)}
+                    </Text>
+                  </View>
+                  <Text style={styles.p2pTransferAmount}>{formatMoney(split.total, split.currency)}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
           {/* Recent Transfers */}
           <View style={styles.p2pSection}>
             <View style={styles.p2pSectionHeader}>
@@ -2910,7 +3489,7 @@ export default function App() {
                           : transfer.direction === 'received' && styles.p2pTransferAmountReceived,
                       ]}
                     >
-                      {transfer.direction === 'sent' ? '-' : '+'}${Number(transfer.amount || 0).toFixed(2)}
+                      {transfer.direction === 'sent' ? '-' : '+'}{formatMoneyValue(transfer.amount)}
                     </Text>
                   </TouchableOpacity>
                 );
@@ -2918,6 +3497,37 @@ export default function App() {
             )}
           </View>
 
+          {/* Staff invitations - join someone else's business */}
+          {!isMicroMerchant && merchantInvitations.map((invitation) => (
+            <View key={invitation.invitationId} style={styles.p2pSection}>
+              <View style={styles.merchantCTACard}>
+                <View style={styles.merchantCTAIcon}>
+                  <Text style={{ fontSize: 28 }}>🤝</Text>
+                </View>
+                <View style={styles.merchantCTAContent}>
+                  <Text style={styles.merchantCTATitle}>Join {invitation.merchantName}</Text>
+                  <Text style={styles.merchantCTASubtitle}>
+                    {invitation.invitedByName ? `${invitation.invitedByName} invited you` : 'You were invited'} as {getMerchantRoleLabel(invitation.role).toLowerCase()}
+                  </Text>
+                  <View style={styles.merchantInvitationActions}>
+                    {respondingInvitationId === invitation.invitationId ? (
+                      <ActivityIndicator color="#10B981" />
+                    ) : (
+                      <>
+                        <TouchableOpacity onPress={() => handleStaffInvitation(invitation, false)}>
+                          <Text style={styles.merchantInvitationDecline}>Decline</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity onPress={() => handleStaffInvitation(invitation, true)}>
+                          <Text style={styles.merchantInvitationAccept}>Accept</Text>
+                        </TouchableOpacity>
+                      </>
+                    )}
+                  </View>
+                </View>
+              </View>
+            </View>
+          ))}
+
           {/* Become a Merchant CTA - only show if not already a merchant */}
           {!isMicroMerchant && (
             <View style={styles.p2pSection}>
@@ -2964,15 +3574,28 @@ export default function App() {
                   {aliases.find(a => a.isPrimary)?.value || '@business'}
                 </Text>
               </View>
-              <TouchableOpacity
-                style={styles.merchantEditButton}
-                onPress={() => setCurrentScreen('merchantProfileEdit')}
-              >
-                <Text style={styles.merchantEditButtonText}>Edit</Text>
-              </TouchableOpacity>
+              {hasMerchantPermission(merchantProfile, 'editProfile') ? (
+                <TouchableOpacity
+                  style={styles.merchantEditButton}
+                  onPress={() => setCurrentScreen('merchantProfileEdit')}
+                >
+                  <Text style={styles.merchantEditButtonText}>Edit</Text>
+                </TouchableOpacity>
+              ) : hasMerchantPermission(merchantProfile, 'manageStaff') ? (
+                <TouchableOpacity
+                  style={styles.merchantEditButton}
+                  onPress={() => setCurrentScreen('merchantStaff')}
+                >
+                  <Text style={styles.merchantEditButtonText}>Staff</Text>
+                </TouchableOpacity>
+              ) : null}
             </View>
             <View style={styles.merchantBadge}>
-              <Text style={styles.merchantBadgeText}>Micro Merchant</Text>
+              <Text style={styles.merchantBadgeText}>
+                {getMerchantRole(merchantProfile) === 'OWNER'
+                  ? 'Micro Merchant'
+                  : `Micro Merchant · ${getMerchantRoleLabel(getMerchantRole(merchantProfile))}`}
+              </Text>
             </View>
           </View>
 
@@ -3034,8 +3657,22 @@ export default function App() {
                 >
                   <Text style={styles.merchantQRActionText}>Refresh</Text>
                 </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.merchantQRAction}
+                  onPress={() => setCurrentScreen('merchantQrPoster')}
+                  activeOpacity={0.7}
+                >
+                  <Text style={styles.merchantQRActionText}>Print</Text>
+                </TouchableOpacity>
               </View>
             )}
+            <TouchableOpacity
+              style={styles.merchantInvoiceButton}
+              onPress={() => setCurrentScreen('merchantInvoice')}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.merchantInvoiceButtonText}>🧾 Create Itemized Invoice</Text>
+            </TouchableOpacity>
           </View>
 
 
@@ -3043,13 +3680,13 @@ export default function App() {
           <View style={styles.merchantStatsSection}>
             <View style={styles.merchantStatCard}>
               <Text style={[styles.merchantStatValue, isTablet && { fontSize: 32 }]}>
-                ${merchantStats?.todayRevenue?.toFixed(2) || '0.00'}
+                {formatMoneyValue(merchantStats?.todayRevenue || zeroMoney())}
               </Text>
               <Text style={[styles.merchantStatLabel, isTablet && { fontSize: 16 }]}>Today</Text>
             </View>
             <View style={styles.merchantStatCard}>
               <Text style={[styles.merchantStatValue, isTablet && { fontSize: 32 }]}>
-                ${merchantStats?.weekRevenue?.toFixed(2) || '0.00'}
+                {formatMoneyValue(merchantStats?.weekRevenue || zeroMoney())}
               </Text>
               <Text style={[styles.merchantStatLabel, isTablet && { fontSize: 16 }]}>This Week</Text>
             </View>
@@ -3060,6 +3697,45 @@ export default function App() {
               <Text style={[styles.merchantStatLabel, isTablet && { fontSize: 16 }]}>Transactions</Text>
             </View>
           </View>
+          {/* Tips, reported separately (already included in the totals above) */}
+          {(merchantProfile?.tipSettings?.enabled || (merchantStats?.weekTips.minor || 0) > 0) && (
+            <View style={styles.merchantTipsRow}>
+              <Text style={styles.merchantTipsLabel}>💝 Tips</Text>
+              <Text style={styles.merchantTipsValue}>
+                {formatMoneyValue(merchantStats?.todayTips || zeroMoney())} today · {formatMoneyValue(merchantStats?.weekTips || zeroMoney())} this week
+              </Text>
+            </View>
+          )}
+          {/* Current fee schedule for this business */}
+          <View style={styles.merchantTipsRow}>
+            <Text style={styles.merchantTipsLabel}>Fees</Text>
+            <Text style={[styles.merchantTipsValue, { flex: 1, textAlign: 'right', marginLeft: 12 }]}>
+              {describeFeeSchedule(feeSchedule, merchantProfile?.merchantCategory)
+                .map((row) => `${row.value} ${row.label.toLowerCase()}`)
+                .join(' · ')}
+            </Text>
+          </View>
+          {/* Reports - not available to cashiers */}
+          {hasMerchantPermission(merchantProfile, 'viewReports') && (
+            <>
+              <TouchableOpacity
+                style={[styles.merchantAnalyticsLink, { marginBottom: 8 }]}
+                onPress={() => setCurrentScreen('merchantAnalytics')}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.merchantAnalyticsLinkText}>📊 View Analytics</Text>
+                <Text style={styles.merchantAnalyticsLinkChevron}>›</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.merchantAnalyticsLink}
+                onPress={() => setCurrentScreen('merchantSettlement')}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.merchantAnalyticsLinkText}>🧮 End of Day</Text>
+                <Text style={styles.merchantAnalyticsLinkChevron}>›</Text>
+              </TouchableOpacity>
+            </>
+          )}
 
           {/* Recent Business Payments */}
           <View style={styles.p2pSection}>
@@ -3107,11 +3783,11 @@ export default function App() {
                   </View>
                   <View style={styles.merchantTransferAmounts}>
                     <Text style={styles.merchantTransferGross}>
-                      +${Number(transfer.grossAmount || transfer.amount || 0).toFixed(2)}
+                      +{formatMoneyValue(transfer.grossAmount || transfer.amount)}
                     </Text>
-                    {transfer.feeAmount && (
+                    {!!transfer.feeAmount && (
                       <Text style={styles.merchantTransferFee}>
-                        Fee: ${transfer.feeAmount.toFixed(2)}
+                        Fee: {formatMoneyValue(transfer.feeAmount)}
                       </Text>
                     )}
                   </View>
@@ -3711,6 +4387,11 @@ export default function App() {
 
   // Send Money Screen
   if (currentScreen === 'sendMoney') {
+    // Amounts are entered in the source account's currency
+    const sendCurrency = getAccountCurrency(selectedAccount);
+    // Parsed once (grouping commas removed) for validation, the FX quote, the prompt and the transfer
+    const parsedSendAmount = parseAmount(sendAmount) ?? 0;
+
     const handleLookupRecipient = async () => {
       if (!recipientAlias.trim()) {
         Alert.alert('Error', 'Please enter a recipient alias');
@@ -3732,7 +4413,20 @@ export default function App() {
       }
     };
 
-    const handleProceedToConfirm = () => {
+    // Lock an exchange rate when the recipient holds a different currency
+    const fetchSendFxQuote = async (): Promise<boolean> => {
+      if (!needsConversion(sendCurrency, recipientInfo?.currency)) {
+        setSendFxQuote(null);
+        return true;
+      }
+      const quote = await requestFxQuote(sendCurrency, recipientInfo!.currency!, parsedSendAmount);
+      if (quote) {
+        setSendFxQuote(quote);
+      }
+      return !!quote;
+    };
+
+    const handleProceedToConfirm = async () => {
       // In nearby mode, selectedNearbyUser is valid (recipientInfo is set async)
       const hasValidRecipient = sendInputMode === 'nearby'
         ? !!selectedNearbyUser
@@ -3742,15 +4436,21 @@ export default function App() {
         Alert.alert('Error', 'Please look up a valid recipient first');
         return;
       }
-      if (!sendAmount || parseFloat(sendAmount) <= 0) {
-        Alert.alert('Error', 'Please enter a valid amount');
+      const amountError = validateAmount(sendAmount, sendCurrency);
+      if (amountError) {
+        Alert.alert('Error', amountError);
         return;
       }
       if (!selectedAccount) {
         Alert.alert('Error', 'Please select a source account');
         return;
       }
-      setSendStep('confirm');
+      setSendLoading(true);
+      const quoted = await fetchSendFxQuote();
+      setSendLoading(false);
+      if (quoted) {
+        setSendStep('confirm');
+      }
     };
 
     const handleSendMoney = async () => {
@@ -3758,7 +4458,15 @@ export default function App() {
 
       // Biometric authentication before sending
       const recipientName = recipientInfo.displayName || recipientAlias.trim();
-      const amountFormatted = `$${parseFloat(sendAmount).toFixed(2)}`;
+      // Rates are only held briefly; show the new one before sending
+      if (sendFxQuote && isFxQuoteExpired(sendFxQuote)) {
+        if (await fetchSendFxQuote()) {
+          Alert.alert('Rate Updated', 'The exchange rate expired. Please review the new rate and confirm again.');
+        }
+        return;
+      }
+
+      const amountFormatted = formatMoney(parsedSendAmount, sendCurrency);
       const authResult = await biometricService.authenticateForTransfer(amountFormatted, recipientName);
 
       if (!authResult.success) {
@@ -3774,11 +4482,15 @@ export default function App() {
         const aliasType = recipientInfo?.aliasType;
         const result = await transferSimApi.sendMoney(
           recipientAlias.trim(),
-          parseFloat(sendAmount),
+          parsedSendAmount,
           selectedAccount.accountId,
           selectedAccount.bsimId,
           sendNote.trim() || undefined,
-          aliasType
+          aliasType,
+          undefined,
+          undefined,
+          sendCurrency,
+          sendFxQuote?.quoteId || undefined
         );
         setCompletedTransfer(result);
         setSendStep('success');
@@ -3788,6 +4500,13 @@ export default function App() {
           try {
             const updatedTransfer = await transferSimApi.getTransfer(result.transferId);
             setCompletedTransfer({ transferId: updatedTransfer.transferId, status: updatedTransfer.status });
+            // Save the recipient to the payee book with the details from the lookup
+            if (updatedTransfer.status === 'COMPLETED') {
+              await payeeService.recordTransfer(
+                { ...updatedTransfer, direction: 'sent', recipientAlias: updatedTransfer.recipientAlias || recipientAlias.trim() },
+                recipientInfo
+              ).catch((e) => console.log('[Send] Failed to save payee:', e));
+            }
             // Also refresh P2P data in background to update balances and transfer list
             loadP2PData();
           } catch (e) {
@@ -3813,6 +4532,7 @@ export default function App() {
       setSendNote('');
       setRecipientInfo(null);
       setCompletedTransfer(null);
+      setSendFxQuote(null);
     };
 
     // Success Screen
@@ -3857,8 +4577,13 @@ export default function App() {
             </View>
             <Text style={styles.sendSuccessTitle}>{statusConfig.title}</Text>
             <Text style={styles.sendSuccessAmount}>
-              ${parseFloat(sendAmount).toFixed(2)} CAD
+              {formatMoney(parsedSendAmount, sendCurrency)} {sendCurrency}
             </Text>
+            {sendFxQuote && (
+              <Text style={styles.sendSuccessRecipient}>
+                {formatMoney(sendFxQuote.targetAmount, sendFxQuote.toCurrency)} {sendFxQuote.toCurrency} received
+              </Text>
+            )}
             <Text style={styles.sendSuccessRecipient}>
               to {recipientInfo?.displayName || recipientAlias}
             </Text>
@@ -3901,10 +4626,25 @@ export default function App() {
                 <View style={styles.sendConfirmRow}>
                   <Text style={styles.sendConfirmLabel}>Amount</Text>
                   <Text style={styles.sendConfirmValueLarge}>
-                    ${parseFloat(sendAmount).toFixed(2)} CAD
+                    {formatMoney(parsedSendAmount, sendCurrency)} {sendCurrency}
                   </Text>
                 </View>
 
+                {sendFxQuote && (
+                  <>
+                    <View style={styles.sendConfirmDivider} />
+                    <View style={styles.sendConfirmRow}>
+                      <Text style={styles.sendConfirmLabel}>They receive</Text>
+                      <View>
+                        <Text style={styles.sendConfirmValue}>
+                          {formatMoney(sendFxQuote.targetAmount, sendFxQuote.toCurrency)} {sendFxQuote.toCurrency}
+                        </Text>
+                        <Text style={styles.sendConfirmValueSub}>{formatFxRate(sendFxQuote)}</Text>
+                      </View>
+                    </View>
+                  </>
+                )}
+
                 <View style={styles.sendConfirmDivider} />
 
                 <View style={styles.sendConfirmRow}>
@@ -3982,7 +4722,7 @@ export default function App() {
             <View style={{ width: 50 }} />
           </View>
 
-          {/* Tab Selector: Alias | Nearby */}
+          {/* Tab Selector: Alias | Nearby | Contacts */}
           <View style={styles.sendTabContainer}>
             <TouchableOpacity
               style={[
@@ -4015,13 +4755,30 @@ export default function App() {
                 sendInputMode === 'nearby' && styles.sendTabTextActive
               ]}>Nearby</Text>
             </TouchableOpacity>
-          </View>
-
-          {/* Nearby Users Panel */}
-          {sendInputMode === 'nearby' ? (
-            <View style={{ flex: 1 }}>
-              {selectedNearbyUser ? (
-                <ScrollView style={styles.sendScrollContent} showsVerticalScrollIndicator={false}>
+            <TouchableOpacity
+              style={[
+                styles.sendTab,
+                sendInputMode === 'contacts' && styles.sendTabActive
+              ]}
+              onPress={() => {
+                setSendInputMode('contacts');
+                setSelectedNearbyUser(null);
+                setRecipientInfo(null);
+                setRecipientAlias('');
+              }}
+            >
+              <Text style={[
+                styles.sendTabText,
+                sendInputMode === 'contacts' && styles.sendTabTextActive
+              ]}>Contacts</Text>
+            </TouchableOpacity>
+          </View>
+
+          {/* Nearby Users Panel */}
+          {sendInputMode === 'nearby' ? (
+            <View style={{ flex: 1 }}>
+              {selectedNearbyUser ? (
+                <ScrollView style={styles.sendScrollContent} showsVerticalScrollIndicator={false}>
                   {/* Selected Nearby User */}
                   <View style={styles.sendSection}>
                     <Text style={styles.sendSectionLabel}>Send to</Text>
@@ -4051,7 +4808,7 @@ export default function App() {
                   <View style={styles.sendSection}>
                     <Text style={styles.sendSectionLabel}>Amount</Text>
                     <View style={styles.amountInputContainer}>
-                      <Text style={styles.amountCurrency}>$</Text>
+                      <Text style={styles.amountCurrency}>{getCurrencySymbol(sendCurrency)}</Text>
                       <TextInput
                         style={styles.amountInput}
                         placeholder="0.00"
@@ -4059,7 +4816,7 @@ export default function App() {
                         onChangeText={setSendAmount}
                         keyboardType="decimal-pad"
                       />
-                      <Text style={styles.amountCurrencyCode}>CAD</Text>
+                      <Text style={styles.amountCurrencyCode}>{sendCurrency}</Text>
                     </View>
                   </View>
 
@@ -4082,7 +4839,7 @@ export default function App() {
                         </View>
                         <View style={styles.accountOptionBalance}>
                           <Text style={styles.accountOptionBalanceAmount}>
-                            ${account.balance?.toFixed(2) || '—'}
+                            {account.balance !== undefined ? formatMoney(account.balance, account.currency) : '—'}
                           </Text>
                           {selectedAccount?.accountId === account.accountId && (
                             <Text style={styles.accountOptionCheck}>✓</Text>
@@ -4122,6 +4879,16 @@ export default function App() {
                 />
               )}
             </View>
+          ) : sendInputMode === 'contacts' ? (
+            <ContactsPanel
+              isActive={sendInputMode === 'contacts'}
+              onSelectContact={(contact) => {
+                // The contact's phone number/email is the alias; continue on the Alias tab
+                setRecipientAlias(contact.match.identifier.value);
+                setRecipientInfo(contact.match.lookup);
+                setSendInputMode('alias');
+              }}
+            />
           ) : (
           <ScrollView style={styles.sendScrollContent} showsVerticalScrollIndicator={false}>
             {/* Recipient Input */}
@@ -4153,6 +4920,37 @@ export default function App() {
                 </TouchableOpacity>
               </View>
 
+              {/* Payee Suggestions - saved payees matching what's typed (recent payees when empty) */}
+              {!recipientInfo && searchPayees(payees, recipientAlias).length > 0 && (
+                <View style={styles.payeeSuggestions}>
+                  {searchPayees(payees, recipientAlias).map((payee) => (
+                    <TouchableOpacity
+                      key={payee.payeeId}
+                      style={styles.payeeSuggestionItem}
+                      onPress={() => {
+                        setRecipientAlias(payee.alias);
+                        setRecipientInfo(toLookupResult(payee));
+                      }}
+                      activeOpacity={0.7}
+                    >
+                      <ProfileAvatar
+                        imageUrl={payee.isMerchant ? payee.merchantLogoUrl || payee.profileImageUrl : payee.profileImageUrl}
+                        displayName={getPayeeName(payee)}
+                        initialsColor={payee.initialsColor}
+                        size="small"
+                        variant={payee.isMerchant ? 'merchant' : 'user'}
+                      />
+                      <View style={styles.payeeSuggestionInfo}>
+                        <Text style={styles.recipientInfoName}>
+                          {payee.isFavourite ? '★ ' : ''}{getPayeeName(payee)}
+                        </Text>
+                        <Text style={styles.recipientInfoBank}>{payee.alias}</Text>
+                      </View>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+
               {/* Recipient Info */}
               {recipientInfo && (
                 <View style={[
@@ -4189,7 +4987,7 @@ export default function App() {
             <View style={styles.sendSection}>
               <Text style={styles.sendSectionLabel}>Amount</Text>
               <View style={styles.amountInputContainer}>
-                <Text style={styles.amountCurrency}>$</Text>
+                <Text style={styles.amountCurrency}>{getCurrencySymbol(sendCurrency)}</Text>
                 <TextInput
                   style={styles.amountInput}
                   placeholder="0.00"
@@ -4197,7 +4995,7 @@ export default function App() {
                   onChangeText={setSendAmount}
                   keyboardType="decimal-pad"
                 />
-                <Text style={styles.amountCurrencyCode}>CAD</Text>
+                <Text style={styles.amountCurrencyCode}>{sendCurrency}</Text>
               </View>
             </View>
 
@@ -4220,7 +5018,7 @@ export default function App() {
                   </View>
                   <View style={styles.accountOptionBalance}>
                     <Text style={styles.accountOptionBalanceAmount}>
-                      ${account.balance?.toFixed(2) || '—'}
+                      {account.balance !== undefined ? formatMoney(account.balance, account.currency) : '—'}
                     </Text>
                     {selectedAccount?.accountId === account.accountId && (
                       <Text style={styles.accountOptionCheck}>✓</Text>
@@ -4348,6 +5146,16 @@ export default function App() {
       }
     };
 
+    // Status/date filters live in the sheet; search is separate
+    const activeHistoryFilterCount = historyStatusGroups.length + (historyDateRange !== 'all' ? 1 : 0);
+    const hasHistoryFilters = activeHistoryFilterCount > 0 || historySearchQuery.trim().length > 0;
+    const clearHistoryFilters = () => {
+      setHistoryStatusGroups([]);
+      setHistoryDateRange('all');
+      setHistorySearchInput('');
+      setHistorySearchQuery('');
+    };
+
     return (
       <View style={styles.container}>
         <StatusBar style="dark" />
@@ -4365,7 +5173,13 @@ export default function App() {
             <Text style={styles.historyTitle}>
               {historyViewMode === 'business' ? 'Payment History' : 'Transfer History'}
             </Text>
-            <View style={{ width: 50 }} />
+            {historyViewMode === 'personal' || hasMerchantPermission(merchantProfile, 'export') ? (
+              <TouchableOpacity onPress={() => setShowHistoryExportSheet(true)} style={{ width: 50, alignItems: 'flex-end' }}>
+                <Text style={styles.historyExportText}>Export</Text>
+              </TouchableOpacity>
+            ) : (
+              <View style={{ width: 50 }} />
+            )}
           </View>
 
           {/* Filter Tabs - only show for personal mode */}
@@ -4392,6 +5206,49 @@ export default function App() {
             </View>
           )}
 
+          {/* Search + Filters - only show for personal mode */}
+          {historyViewMode === 'personal' && (
+            <>
+              <View style={styles.historySearchRow}>
+                <TextInput
+                  style={styles.historySearchInput}
+                  placeholder="Search by name or alias"
+                  value={historySearchInput}
+                  onChangeText={setHistorySearchInput}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  clearButtonMode="while-editing"
+                />
+                <TouchableOpacity
+                  style={[styles.historyFilterButton, activeHistoryFilterCount > 0 && styles.historyFilterButtonActive]}
+                  onPress={() => setShowHistoryFilterSheet(true)}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.historyFilterButtonText, activeHistoryFilterCount > 0 && styles.historyFilterButtonTextActive]}>
+                    {activeHistoryFilterCount > 0 ? `Filters (${activeHistoryFilterCount})` : 'Filters'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+              {hasHistoryFilters && (
+                <View style={styles.historyActiveFiltersRow}>
+                  <Text style={styles.historyActiveFiltersText}>
+                    {historyLoading ? 'Searching...' : `${historyTotal} matching transfer${historyTotal === 1 ? '' : 's'}`}
+                  </Text>
+                  <TouchableOpacity onPress={clearHistoryFilters}>
+                    <Text style={styles.historyClearFiltersText}>Clear</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+            </>
+          )}
+
+          {/* Offline banner - list is coming from the local ledger */}
+          {historyOffline && (
+            <View style={styles.historyOfflineBanner}>
+              <Text style={styles.historyOfflineText}>Offline - showing saved history. Pull to refresh.</Text>
+            </View>
+          )}
+
           {/* Transfer List */}
           <ScrollView
             style={styles.historyList}
@@ -4401,17 +5258,31 @@ export default function App() {
                 onRefresh={historyViewMode === 'business' ? loadMerchantTransfers : refreshHistoryTransfers}
               />
             }
+            onScroll={({ nativeEvent }) => {
+              // Infinite scroll: fetch the next page when near the bottom (personal mode only)
+              if (historyViewMode !== 'personal') return;
+              const { layoutMeasurement, contentOffset, contentSize } = nativeEvent;
+              if (layoutMeasurement.height + contentOffset.y >= contentSize.height - 300) {
+                loadMoreHistoryTransfers();
+              }
+            }}
+            scrollEventThrottle={200}
+            keyboardShouldPersistTaps="handled"
           >
             {(historyViewMode === 'business' ? merchantTransfers : historyTransfers).length === 0 ? (
               <View style={styles.historyEmpty}>
                 <Text style={styles.historyEmptyIcon}>📋</Text>
                 <Text style={styles.historyEmptyText}>
-                  {historyViewMode === 'business' ? 'No payments yet' : 'No transfers yet'}
+                  {historyViewMode === 'business'
+                    ? 'No payments yet'
+                    : hasHistoryFilters ? 'No matching transfers' : 'No transfers yet'}
                 </Text>
                 <Text style={styles.historyEmptySubtext}>
                   {historyViewMode === 'business'
                     ? 'Payments you receive will appear here'
-                    : 'Your transfer history will appear here'}
+                    : hasHistoryFilters
+                      ? 'Try a different search or clear your filters'
+                      : 'Your transfer history will appear here'}
                 </Text>
               </View>
             ) : (
@@ -4455,13 +5326,16 @@ export default function App() {
                           { color: isFailedTransfer(transfer.status) ? '#9ca3af' : '#22c55e' },
                           isFailedTransfer(transfer.status) && { textDecorationLine: 'line-through' }
                         ]}>
-                          +${Number((transfer as TransferWithRecipientType).grossAmount || transfer.amount || 0).toFixed(2)}
+                          +{formatMoneyValue((transfer as TransferWithRecipientType).grossAmount || transfer.amount)}
                         </Text>
-                        {(transfer as TransferWithRecipientType).feeAmount && (
+                        {!!(transfer as TransferWithRecipientType).feeAmount && (
                           <Text style={styles.merchantTransferFee}>
-                            Fee: ${(transfer as TransferWithRecipientType).feeAmount?.toFixed(2)}
+                            Fee: {formatMoneyValue((transfer as TransferWithRecipientType).feeAmount!)}
                           </Text>
                         )}
+                        {getRefundLabel(transfer) && (
+                          <Text style={styles.merchantTransferRefund}>{getRefundLabel(transfer)}</Text>
+                        )}
                       </View>
                     </>
                   ) : (
@@ -4511,15 +5385,172 @@ export default function App() {
                         },
                         isFailedTransfer(transfer.status) && { textDecorationLine: 'line-through' }
                       ]}>
-                        {transfer.direction === 'sent' ? '-' : '+'}${Number(transfer.amount || 0).toFixed(2)}
+                        {transfer.direction === 'sent' ? '-' : '+'}{formatMoneyValue(transfer.amount)}
                       </Text>
                     </>
                   )}
                 </TouchableOpacity>
               ))
             )}
+            {historyViewMode === 'personal' && historyLoadingMore && (
+              <ActivityIndicator style={{ marginVertical: 16 }} color="#3b82f6" />
+            )}
           </ScrollView>
         </View>
+
+        {/* Filter Sheet */}
+        <Modal
+          visible={showHistoryFilterSheet}
+          transparent
+          animationType="slide"
+          onRequestClose={() => setShowHistoryFilterSheet(false)}
+        >
+          <Pressable style={styles.historySheetBackdrop} onPress={() => setShowHistoryFilterSheet(false)} />
+          <View style={styles.historySheet}>
+            <View style={styles.historySheetHandle} />
+            <Text style={styles.historySheetTitle}>Filter Transfers</Text>
+
+            <Text style={styles.historySheetLabel}>Status</Text>
+            <View style={styles.historySheetChips}>
+              {(Object.keys(HISTORY_STATUS_GROUPS) as HistoryStatusGroup[]).map((group) => {
+                const isSelected = historyStatusGroups.includes(group);
+                return (
+                  <TouchableOpacity
+                    key={group}
+                    style={[styles.historySheetChip, isSelected && styles.historySheetChipActive]}
+                    onPress={() => setHistoryStatusGroups((prev) =>
+                      isSelected ? prev.filter((g) => g !== group) : [...prev, group]
+                    )}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={[styles.historySheetChipText, isSelected && styles.historySheetChipTextActive]}>
+                      {HISTORY_STATUS_GROUPS[group].label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <Text style={styles.historySheetLabel}>Date</Text>
+            <View style={styles.historySheetChips}>
+              {HISTORY_DATE_RANGES.map((range) => {
+                const isSelected = historyDateRange === range.value;
+                return (
+                  <TouchableOpacity
+                    key={range.value}
+                    style={[styles.historySheetChip, isSelected && styles.historySheetChipActive]}
+                    onPress={() => setHistoryDateRange(range.value)}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={[styles.historySheetChipText, isSelected && styles.historySheetChipTextActive]}>
+                      {range.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <View style={styles.historySheetActions}>
+              <TouchableOpacity
+                style={[styles.outlineButton, { flex: 1, paddingVertical: 14 }]}
+                onPress={() => {
+                  setHistoryStatusGroups([]);
+                  setHistoryDateRange('all');
+                }}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.outlineButtonText}>Reset</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.primaryButton, { flex: 1, paddingVertical: 14 }]}
+                onPress={() => setShowHistoryFilterSheet(false)}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.primaryButtonText}>Done</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </Modal>
+
+        {/* Export Sheet */}
+        <Modal
+          visible={showHistoryExportSheet}
+          transparent
+          animationType="slide"
+          onRequestClose={() => setShowHistoryExportSheet(false)}
+        >
+          <Pressable
+            style={styles.historySheetBackdrop}
+            onPress={() => !historyExporting && setShowHistoryExportSheet(false)}
+          />
+          <View style={styles.historySheet}>
+            <View style={styles.historySheetHandle} />
+            <Text style={styles.historySheetTitle}>
+              {historyViewMode === 'business' ? 'Export Payments' : 'Export Transfers'}
+            </Text>
+
+            <Text style={styles.historySheetLabel}>Period</Text>
+            <View style={styles.historySheetChips}>
+              {EXPORT_RANGE_PRESETS.map((preset) => {
+                const isSelected = historyExportPreset === preset.value;
+                return (
+                  <TouchableOpacity
+                    key={preset.value}
+                    style={[styles.historySheetChip, isSelected && styles.historySheetChipActive]}
+                    onPress={() => setHistoryExportPreset(preset.value)}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={[styles.historySheetChipText, isSelected && styles.historySheetChipTextActive]}>
+                      {preset.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <Text style={styles.historyExportHint}>
+              CSV includes every transfer with its status. OFX includes completed transfers only
+              {historyViewMode === 'business' ? ', at the net amount after fees' : ''}.
+            </Text>
+
+            <View style={styles.historySheetActions}>
+              {(['csv', 'ofx'] as const).map((format) => (
+                <TouchableOpacity
+                  key={format}
+                  style={[styles.primaryButton, { flex: 1, paddingVertical: 14 }, !!historyExporting && { opacity: 0.6 }]}
+                  disabled={!!historyExporting}
+                  onPress={async () => {
+                    setHistoryExporting(format);
+                    try {
+                      const isBusiness = historyViewMode === 'business';
+                      const accountId = isBusiness
+                        ? merchantProfile?.merchantId
+                        : (aliases.find((a) => a.isPrimary) || aliases[0])?.value;
+                      await historyExportService.exportHistory(
+                        isBusiness ? 'merchant' : 'personal',
+                        format,
+                        getExportDateRange(historyExportPreset),
+                        accountId
+                      );
+                      setShowHistoryExportSheet(false);
+                    } catch (e: any) {
+                      console.error('[Export] Failed:', e);
+                      Alert.alert('Export Failed', e.message || 'Could not export history');
+                    } finally {
+                      setHistoryExporting(null);
+                    }
+                  }}
+                  activeOpacity={0.7}
+                >
+                  {historyExporting === format ? (
+                    <ActivityIndicator color="#fff" />
+                  ) : (
+                    <Text style={styles.primaryButtonText}>{format.toUpperCase()}</Text>
+                  )}
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        </Modal>
       </View>
     );
   }
@@ -4550,6 +5581,55 @@ export default function App() {
         ? selectedTransfer.recipientBankName
         : selectedTransfer.senderBankName;
 
+    // Refunds: merchants (owner/manager) can refund what is left of the net amount; payers see the refund state
+    const refundState = getRefundState(selectedTransfer);
+    const refundableAmount = isViewingMerchantPayment && hasMerchantPermission(merchantProfile, 'refund')
+      ? getRefundableAmount(selectedTransfer)
+      : 0;
+
+    const handleOpenRefundSheet = () => {
+      setRefundMode('full');
+      setRefundAmountInput('');
+      setRefundReason('');
+      setShowRefundSheet(true);
+    };
+
+    const handleConfirmRefund = () => {
+      const amount = refundMode === 'full' ? refundableAmount : parseAmount(refundAmountInput) ?? NaN;
+      const validationError = validateRefundAmount(selectedTransfer, amount);
+      if (validationError) {
+        Alert.alert('Invalid Refund', validationError);
+        return;
+      }
+      Alert.alert(
+        'Refund Payment',
+        `Refund ${formatMoney(amount, selectedTransfer.currency)} to the customer? This cannot be undone.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Refund',
+            style: 'destructive',
+            onPress: async () => {
+              setRefunding(true);
+              try {
+                const updated = await transferSimApi.refundTransfer(merchantTransfer, amount, refundReason.trim() || undefined);
+                setSelectedTransfer(updated);
+                setMerchantTransfers((prev) => prev.map((t) => (t.transferId === updated.transferId ? updated : t)));
+                localLedger.upsertRecords('merchantTransfers', [updated]).catch((e) => console.log('[Refund] Ledger update failed:', e));
+                setShowRefundSheet(false);
+                Alert.alert('Refund Sent', `${formatMoney(amount, selectedTransfer.currency)} is on its way back to the customer.`);
+              } catch (e: any) {
+                console.error('[Refund] Failed:', e);
+                Alert.alert('Refund Failed', e.response?.data?.message || e.message || 'Could not refund this payment');
+              } finally {
+                setRefunding(false);
+              }
+            },
+          },
+        ]
+      );
+    };
+
     const formatFullDate = (dateString: string) => {
       const date = new Date(dateString);
       return date.toLocaleDateString('en-US', {
@@ -4632,8 +5712,17 @@ export default function App() {
                     { color: isTransferFailed ? '#9ca3af' : isSent ? '#dc2626' : '#16a34a' },
                     isTransferFailed && { textDecorationLine: 'line-through' }
                   ]}>
-                    {isSent ? '-' : '+'}${Number(selectedTransfer.amount || 0).toFixed(2)} {selectedTransfer.currency}
+                    {isSent ? '-' : '+'}{formatMoneyValue(selectedTransfer.amount)} {selectedTransfer.currency}
                   </Text>
+                  {selectedTransfer.targetCurrency && selectedTransfer.targetAmount !== undefined &&
+                    needsConversion(selectedTransfer.currency, selectedTransfer.targetCurrency) && (
+                    <Text style={styles.transferDetailRefundNote}>
+                      Converted to {formatMoneyValue(selectedTransfer.targetAmount)} {selectedTransfer.targetCurrency}
+                      {selectedTransfer.fxRate
+                        ? ` at 1 ${selectedTransfer.currency} = ${selectedTransfer.fxRate.toFixed(4)} ${selectedTransfer.targetCurrency}`
+                        : ''}
+                    </Text>
+                  )}
                   <View style={[
                     styles.transferDetailStatusBadge,
                     { backgroundColor: getStatusColor(selectedTransfer.status) + '20' }
@@ -4645,6 +5734,11 @@ export default function App() {
                       {getStatusText(selectedTransfer.status)}
                     </Text>
                   </View>
+                  {refundState === 'partial' && (
+                    <Text style={styles.transferDetailRefundNote}>
+                      {getRefundLabel(selectedTransfer)}
+                    </Text>
+                  )}
                 </View>
               );
             })()}
@@ -4696,19 +5790,57 @@ export default function App() {
                   <View style={styles.transferDetailRow}>
                     <Text style={styles.transferDetailLabel}>Gross Amount</Text>
                     <Text style={styles.transferDetailValue}>
-                      ${Number(merchantTransfer.grossAmount || selectedTransfer.amount || 0).toFixed(2)}
+                      {formatMoneyValue(merchantTransfer.grossAmount || selectedTransfer.amount)}
                     </Text>
                   </View>
+                  {(merchantTransfer.tipAmount?.minor || 0) > 0 && (
+                    <View style={styles.transferDetailRow}>
+                      <Text style={styles.transferDetailLabel}>Includes Tip</Text>
+                      <Text style={styles.transferDetailValue}>
+                        {formatMoneyValue(merchantTransfer.tipAmount!)}
+                      </Text>
+                    </View>
+                  )}
                   <View style={styles.transferDetailRow}>
                     <Text style={styles.transferDetailLabel}>Processing Fee</Text>
                     <Text style={[styles.transferDetailValue, { color: '#ef4444' }]}>
-                      -${merchantTransfer.feeAmount.toFixed(2)}
+                      -{formatMoneyValue(merchantTransfer.feeAmount)}
                     </Text>
                   </View>
                   <View style={[styles.transferDetailRow, { borderBottomWidth: 0 }]}>
                     <Text style={[styles.transferDetailLabel, { fontWeight: '600' }]}>Net Amount</Text>
                     <Text style={[styles.transferDetailValue, { fontWeight: '600', color: '#16a34a' }]}>
-                      ${Number(selectedTransfer.amount || 0).toFixed(2)}
+                      {formatMoneyValue(selectedTransfer.amount)}
+                    </Text>
+                  </View>
+                </View>
+              </View>
+            )}
+
+            {/* Refunds (merchant view and the payer's view of a refunded payment) */}
+            {refundState !== 'none' && (
+              <View style={styles.transferDetailSection}>
+                <Text style={styles.transferDetailSectionTitle}>
+                  {isViewingMerchantPayment ? 'Refunds' : 'Refunded to you'}
+                </Text>
+                <View style={styles.transferDetailInfoCard}>
+                  {(selectedTransfer.refunds || []).map((refund) => (
+                    <View key={refund.refundId} style={styles.transferDetailRow}>
+                      <View style={{ flex: 1 }}>
+                        <Text style={styles.transferDetailLabel}>{formatFullDate(refund.createdAt)}</Text>
+                        {!!refund.reason && (
+                          <Text style={styles.transferDetailRefundReason}>{refund.reason}</Text>
+                        )}
+                      </View>
+                      <Text style={[styles.transferDetailValue, refund.status !== 'COMPLETED' && { color: '#9ca3af' }]}>
+                        {formatMoneyValue(refund.amount)}{refund.status === 'PENDING' ? ' (pending)' : refund.status === 'FAILED' ? ' (failed)' : ''}
+                      </Text>
+                    </View>
+                  ))}
+                  <View style={[styles.transferDetailRow, { borderBottomWidth: 0 }]}>
+                    <Text style={[styles.transferDetailLabel, { fontWeight: '600' }]}>Total refunded</Text>
+                    <Text style={[styles.transferDetailValue, { fontWeight: '600', color: '#d97706' }]}>
+                      {formatMoney(getRefundedAmount(selectedTransfer), selectedTransfer.currency)}
                     </Text>
                   </View>
                 </View>
@@ -4751,8 +5883,110 @@ export default function App() {
                 </View>
               </View>
             </View>
+
+            {/* Refund (merchant only, while there is net amount left to refund) */}
+            {refundableAmount > 0 && (
+              <TouchableOpacity
+                style={[styles.outlineButton, styles.transferDetailRefundButton]}
+                onPress={handleOpenRefundSheet}
+              >
+                <Text style={[styles.outlineButtonText, { color: '#d97706' }]}>↩️ Refund Payment</Text>
+              </TouchableOpacity>
+            )}
+
+            {/* Receipt (proof of payment) */}
+            <TouchableOpacity
+              style={[styles.outlineButton, { marginBottom: 32 }]}
+              onPress={() => {
+                setSelectedReceipt(buildTransferReceipt(selectedTransfer, isViewingMerchantPayment));
+                setReceiptReturnScreen('transferDetail');
+                setCurrentScreen('receipt');
+              }}
+            >
+              <Text style={styles.outlineButtonText}>🧾 View Receipt</Text>
+            </TouchableOpacity>
           </ScrollView>
         </View>
+
+        {/* Refund Sheet */}
+        <Modal
+          visible={showRefundSheet}
+          transparent
+          animationType="slide"
+          onRequestClose={() => !refunding && setShowRefundSheet(false)}
+        >
+          <Pressable
+            style={styles.historySheetBackdrop}
+            onPress={() => !refunding && setShowRefundSheet(false)}
+          />
+          <View style={styles.historySheet}>
+            <View style={styles.historySheetHandle} />
+            <Text style={styles.historySheetTitle}>Refund Payment</Text>
+
+            <Text style={styles.historySheetLabel}>Amount</Text>
+            <View style={styles.historySheetChips}>
+              {(['full', 'partial'] as const).map((mode) => {
+                const isSelected = refundMode === mode;
+                return (
+                  <TouchableOpacity
+                    key={mode}
+                    style={[styles.historySheetChip, isSelected && styles.historySheetChipActive]}
+                    onPress={() => setRefundMode(mode)}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={[styles.historySheetChipText, isSelected && styles.historySheetChipTextActive]}>
+                      {mode === 'full' ? `Full (${formatMoney(refundableAmount, selectedTransfer.currency)})` : 'Partial'}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            {refundMode === 'partial' && (
+              <TextInput
+                style={[styles.input, { marginTop: 12 }]}
+                placeholder={`Up to ${formatMoney(refundableAmount, selectedTransfer.currency)}`}
+                value={refundAmountInput}
+                onChangeText={setRefundAmountInput}
+                keyboardType="decimal-pad"
+              />
+            )}
+
+            <Text style={styles.historySheetLabel}>Reason (optional)</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="e.g. Item returned"
+              value={refundReason}
+              onChangeText={setRefundReason}
+              maxLength={140}
+            />
+            <Text style={styles.historyExportHint}>
+              Refunds come out of the net amount you received. The processing fee is not returned.
+            </Text>
+
+            <View style={styles.historySheetActions}>
+              <TouchableOpacity
+                style={[styles.outlineButton, { flex: 1, paddingVertical: 14 }]}
+                onPress={() => setShowRefundSheet(false)}
+                disabled={refunding}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.outlineButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.primaryButton, { flex: 1, paddingVertical: 14 }, refunding && { opacity: 0.6 }]}
+                onPress={handleConfirmRefund}
+                disabled={refunding}
+                activeOpacity={0.7}
+              >
+                {refunding ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <Text style={styles.primaryButtonText}>Refund</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </Modal>
       </View>
     );
   }
@@ -4795,7 +6029,7 @@ export default function App() {
 
         // Pre-fill amount if specified in token
         if (resolved.amount) {
-          setP2pSendAmount(resolved.amount.toString());
+          setP2pSendAmount(toAmountString(money(resolved.amount, resolved.currency)));
         }
         if (resolved.description) {
           setP2pSendNote(resolved.description);
@@ -4818,20 +6052,63 @@ export default function App() {
       }
     };
 
+    // Tip prompt, only for merchants that turned it on
+    const qrTipSettings = resolvedToken?.recipientType === 'merchant' && resolvedToken.tipSettings?.enabled
+      ? resolvedToken.tipSettings
+      : null;
+    const getP2pQrTip = (billAmount: number): number => {
+      if (!qrTipSettings || p2pTipChoice === null) return 0;
+      if (p2pTipChoice === 'custom') return parseAmount(p2pCustomTip) ?? 0;
+      const preset = qrTipSettings.presets[p2pTipChoice];
+      return preset ? calculateTip(billAmount, preset, qrCurrency) : 0;
+    };
+
+    // Fixed amounts are in the recipient's currency; typed amounts in the payer's account currency
+    const qrCurrency = resolvedToken?.amount && resolvedToken.currency
+      ? normalizeCurrency(resolvedToken.currency)
+      : getAccountCurrency(p2pSelectedAccount);
+    // The other side of the conversion when the QR code and the account use different currencies:
+    // what the recipient receives for a typed amount, or what the account is charged for a fixed one
+    const qrAccountCurrency = getAccountCurrency(p2pSelectedAccount);
+    const qrFxCurrency = resolvedToken?.currency && needsConversion(qrAccountCurrency, resolvedToken.currency)
+      ? (qrCurrency === qrAccountCurrency ? normalizeCurrency(resolvedToken.currency) : qrAccountCurrency)
+      : null;
+
     const handleP2pQrSend = async () => {
       if (!resolvedToken || !p2pSelectedAccount) return;
 
-      const amount = parseFloat(p2pSendAmount);
-      if (!amount || amount <= 0) {
-        Alert.alert('Error', 'Please enter a valid amount');
+      const billAmount = parseAmount(p2pSendAmount) ?? 0;
+      const amountError = resolvedToken.amount ? null : validateAmount(p2pSendAmount, qrCurrency);
+      if (!billAmount || billAmount <= 0 || amountError) {
+        Alert.alert('Error', amountError || 'Please enter a valid amount');
         return;
       }
+      const tipAmount = getP2pQrTip(billAmount);
+      const tipError = validateTipAmount(tipAmount, billAmount);
+      if (tipError) {
+        Alert.alert('Invalid Tip', tipError);
+        return;
+      }
+      // The tip is sent inside the total and recorded separately as tipAmount
+      const amount = toAmount(addMoney(money(billAmount, qrCurrency), money(tipAmount, qrCurrency)));
+
+      // Lock a rate for the total, and show it on screen and in the prompt
+      let fxQuote: FxQuote | null = null;
+      if (qrFxCurrency) {
+        setP2pSending(true);
+        fxQuote = await requestFxQuote(qrCurrency, qrFxCurrency, amount);
+        setP2pSending(false);
+        setP2pFxQuote(fxQuote);
+        if (!fxQuote) return;
+      }
 
       // Biometric authentication before sending
-      const amountFormatted = `$${amount.toFixed(2)}`;
+      const amountFormatted = formatMoney(amount, qrCurrency);
       const recipientName = resolvedToken.merchantName || resolvedToken.recipientDisplayName || resolvedToken.recipientAlias || 'recipient';
       const authResult = await biometricService.authenticateForTransfer(
-        amountFormatted,
+        fxQuote
+          ? `${amountFormatted} (${formatMoney(fxQuote.targetAmount, fxQuote.toCurrency)} ${fxQuote.toCurrency})`
+          : amountFormatted,
         recipientName
       );
 
@@ -4842,35 +6119,57 @@ export default function App() {
         return;
       }
 
+      // A fixed amount in another currency is charged as the quoted amount in the account's currency
+      const charge = getAccountCharge(amount, tipAmount, qrCurrency, qrAccountCurrency, fxQuote);
+
       setP2pSending(true);
       try {
         console.log('[P2P QR] Sending transfer:', {
           recipientAlias: resolvedToken.recipientAlias,
           recipientAliasType: resolvedToken.recipientAliasType,
-          amount,
+          amount: charge.amount,
+          currency: charge.currency,
           accountId: p2pSelectedAccount.accountId,
           bsimId: p2pSelectedAccount.bsimId,
           note: p2pSendNote.trim() || undefined,
+          tipAmount: charge.tipAmount,
         });
         await transferSimApi.sendMoney(
           resolvedToken.recipientAlias,
-          amount,
+          charge.amount,
           p2pSelectedAccount.accountId,
           p2pSelectedAccount.bsimId,
           p2pSendNote.trim() || undefined,
-          resolvedToken.recipientAliasType
+          resolvedToken.recipientAliasType,
+          undefined,
+          charge.tipAmount > 0 ? charge.tipAmount : undefined,
+          charge.currency,
+          fxQuote?.quoteId || undefined
         );
 
         Alert.alert(
           'Money Sent!',
-          `$${amount.toFixed(2)} sent to ${recipientName}`,
-          [{
-            text: 'Done',
-            onPress: () => {
-              setActiveHomeTab('p2p');
-              setCurrentScreen('home');
-            }
-          }]
+          tipAmount > 0
+            ? `${amountFormatted} sent to ${recipientName} (including a ${formatMoney(tipAmount, qrCurrency)} tip)`
+            : `${amountFormatted} sent to ${recipientName}`,
+          [
+            ...(resolvedToken.recipientType === 'merchant'
+              ? [{
+                text: 'Split Bill',
+                onPress: () => {
+                  setBillSplitDraft({ total: amount, description: recipientName, merchantName: recipientName });
+                  setCurrentScreen('splitBill');
+                },
+              }]
+              : []),
+            {
+              text: 'Done',
+              onPress: () => {
+                setActiveHomeTab('p2p');
+                setCurrentScreen('home');
+              }
+            },
+          ]
         );
       } catch (e: any) {
         console.error('[P2P QR] Send failed:', e);
@@ -4892,6 +6191,14 @@ export default function App() {
 
     // Show confirm screen after resolving
     if (resolvedToken) {
+      const p2pBillAmount = parseAmount(p2pSendAmount) ?? 0;
+      const p2pTip = getP2pQrTip(p2pBillAmount);
+      // The last locked rate is only shown while it still matches what would be sent
+      const p2pShownFxQuote = p2pFxQuote
+        && p2pFxQuote.toCurrency === qrFxCurrency
+        && p2pFxQuote.sourceAmount === toAmount(addMoney(money(p2pBillAmount, qrCurrency), money(p2pTip, qrCurrency)))
+        ? p2pFxQuote
+        : null;
       return (
         <View style={styles.container}>
           <StatusBar style="dark" />
@@ -4960,16 +6267,26 @@ export default function App() {
                 {/* Fee notice for merchant payments */}
                 {resolvedToken.recipientType === 'merchant' && (
                   <Text style={styles.p2pMerchantFeeNote}>
-                    Merchant pays a small fee • You pay the full amount
+                    {p2pBillAmount > 0
+                      ? `Merchant pays a ${formatMoney(calculateFee(p2pBillAmount + p2pTip, feeSchedule, resolvedToken.merchantCategory), qrCurrency)} fee`
+                      : 'Merchant pays a small fee'} • You pay the full amount
                   </Text>
                 )}
               </View>
 
+              {/* Itemized invoice from the merchant */}
+              {resolvedToken.orderDetails && (
+                <View style={styles.sendSection}>
+                  <Text style={styles.sendSectionLabel}>Invoice</Text>
+                  <OrderSummary orderDetails={resolvedToken.orderDetails} currency={normalizeCurrency(resolvedToken.currency)} />
+                </View>
+              )}
+
               {/* Amount Input */}
               <View style={styles.sendSection}>
                 <Text style={styles.sendSectionLabel}>Amount</Text>
                 <View style={styles.amountInputContainer}>
-                  <Text style={styles.amountCurrency}>$</Text>
+                  <Text style={styles.amountCurrency}>{getCurrencySymbol(qrCurrency)}</Text>
                   <TextInput
                     style={styles.amountInput}
                     placeholder="0.00"
@@ -4978,15 +6295,88 @@ export default function App() {
                     keyboardType="decimal-pad"
                     editable={!resolvedToken.amount} // Disable if amount is fixed
                   />
-                  <Text style={styles.amountCurrencyCode}>CAD</Text>
+                  <Text style={styles.amountCurrencyCode}>{qrCurrency}</Text>
                 </View>
+                {qrFxCurrency && (
+                  <Text style={styles.p2pQrFixedAmountNote}>
+                    {qrFxCurrency === qrAccountCurrency
+                      ? `Charged to your ${qrAccountCurrency} account`
+                      : `${resolvedToken.recipientDisplayName || resolvedToken.merchantName || 'The recipient'} receives ${qrFxCurrency}`}
+                    {p2pShownFxQuote
+                      ? `: ${formatMoney(p2pShownFxQuote.targetAmount, qrFxCurrency)} ${qrFxCurrency} at ${formatFxRate(p2pShownFxQuote)}`
+                      : ', at the rate locked when you send'}
+                  </Text>
+                )}
                 {resolvedToken.amount && (
                   <Text style={styles.p2pQrFixedAmountNote}>
-                    Amount set by recipient
+                    {resolvedToken.orderDetails ? 'Invoice total set by merchant' : 'Amount set by recipient'}
                   </Text>
                 )}
               </View>
 
+              {/* Tip selector (merchants with tip prompts) */}
+              {qrTipSettings && (
+                <View style={styles.sendSection}>
+                  <Text style={styles.sendSectionLabel}>Add a tip</Text>
+                  <View style={styles.p2pTipOptions}>
+                    <TouchableOpacity
+                      style={[styles.p2pTipOption, p2pTipChoice === null && styles.p2pTipOptionSelected]}
+                      onPress={() => setP2pTipChoice(null)}
+                      activeOpacity={0.7}
+                    >
+                      <Text style={[styles.p2pTipOptionLabel, p2pTipChoice === null && styles.p2pTipOptionLabelSelected]}>
+                        No tip
+                      </Text>
+                    </TouchableOpacity>
+                    {qrTipSettings.presets.map((preset, index) => (
+                      <TouchableOpacity
+                        key={index}
+                        style={[styles.p2pTipOption, p2pTipChoice === index && styles.p2pTipOptionSelected]}
+                        onPress={() => setP2pTipChoice(index)}
+                        activeOpacity={0.7}
+                      >
+                        <Text style={[styles.p2pTipOptionLabel, p2pTipChoice === index && styles.p2pTipOptionLabelSelected]}>
+                          {formatTipPreset(preset, qrCurrency)}
+                        </Text>
+                        {preset.type === 'PERCENT' && p2pBillAmount > 0 && (
+                          <Text style={styles.p2pTipOptionAmount}>
+                            {formatMoney(calculateTip(p2pBillAmount, preset, qrCurrency), qrCurrency)}
+                          </Text>
+                        )}
+                      </TouchableOpacity>
+                    ))}
+                    {qrTipSettings.allowCustom && (
+                      <TouchableOpacity
+                        style={[styles.p2pTipOption, p2pTipChoice === 'custom' && styles.p2pTipOptionSelected]}
+                        onPress={() => setP2pTipChoice('custom')}
+                        activeOpacity={0.7}
+                      >
+                        <Text style={[styles.p2pTipOptionLabel, p2pTipChoice === 'custom' && styles.p2pTipOptionLabelSelected]}>
+                          Custom
+                        </Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                  {p2pTipChoice === 'custom' && (
+                    <View style={[styles.amountInputContainer, { marginTop: 12 }]}>
+                      <Text style={styles.amountCurrency}>$</Text>
+                      <TextInput
+                        style={styles.amountInput}
+                        placeholder="0.00"
+                        value={p2pCustomTip}
+                        onChangeText={setP2pCustomTip}
+                        keyboardType="decimal-pad"
+                      />
+                    </View>
+                  )}
+                  {p2pTip > 0 && (
+                    <Text style={styles.p2pQrFixedAmountNote}>
+                      Total {formatMoney(p2pBillAmount + p2pTip, qrCurrency)} including a {formatMoney(p2pTip, qrCurrency)} tip
+                    </Text>
+                  )}
+                </View>
+              )}
+
               {/* Source Account */}
               <View style={styles.sendSection}>
                 <Text style={styles.sendSectionLabel}>From account</Text>
@@ -5006,7 +6396,7 @@ export default function App() {
                     </View>
                     <View style={styles.accountOptionBalance}>
                       <Text style={styles.accountOptionBalanceAmount}>
-                        ${account.balance?.toFixed(2) || '—'}
+                        {account.balance !== undefined ? formatMoney(account.balance, account.currency) : '—'}
                       </Text>
                       {p2pSelectedAccount?.accountId === account.accountId && (
                         <Text style={styles.accountOptionCheck}>✓</Text>
@@ -5179,14 +6569,12 @@ export default function App() {
             {/* Fee Info */}
             <View style={styles.merchantEnrollFeeCard}>
               <Text style={styles.merchantEnrollFeeTitle}>Simple, Transparent Fees</Text>
-              <View style={styles.merchantEnrollFeeRow}>
-                <Text style={styles.merchantEnrollFeeLabel}>Under $200</Text>
-                <Text style={styles.merchantEnrollFeeValue}>$0.25/transaction</Text>
-              </View>
-              <View style={styles.merchantEnrollFeeRow}>
-                <Text style={styles.merchantEnrollFeeLabel}>$200 or more</Text>
-                <Text style={styles.merchantEnrollFeeValue}>$0.50/transaction</Text>
-              </View>
+              {describeFeeSchedule(feeSchedule, merchantCategory).map((row) => (
+                <View key={row.label} style={styles.merchantEnrollFeeRow}>
+                  <Text style={styles.merchantEnrollFeeLabel}>{row.label}</Text>
+                  <Text style={styles.merchantEnrollFeeValue}>{row.value}</Text>
+                </View>
+              ))}
               <Text style={styles.merchantEnrollFeeNote}>
                 Fees are deducted automatically. No monthly fees or minimums.
               </Text>
@@ -5295,6 +6683,134 @@ export default function App() {
     );
   }
 
+  // Request Money Screen
+  if (currentScreen === 'requestMoney') {
+    return (
+      <RequestMoneyScreen
+        currency={getAccountCurrency(bankAccounts[0])}
+        onBack={() => setCurrentScreen('home')}
+        onRequestSent={() => setCurrentScreen('home')}
+      />
+    );
+  }
+
+  // Request Approval Screen
+  if (currentScreen === 'requestApproval' && selectedMoneyRequestId) {
+    return (
+      <RequestApprovalScreen
+        requestId={selectedMoneyRequestId}
+        accounts={bankAccounts}
+        onBack={() => {
+          setSelectedMoneyRequestId(null);
+          setCurrentScreen('home');
+        }}
+        onComplete={() => {
+          setSelectedMoneyRequestId(null);
+          loadP2PData();
+          setCurrentScreen('home');
+        }}
+      />
+    );
+  }
+
+  // Scheduled Transfers Screen
+  if (currentScreen === 'scheduledTransfers') {
+    return (
+      <ScheduledTransfersScreen
+        onBack={() => {
+          loadP2PData();
+          setCurrentScreen('home');
+        }}
+        onCreateSchedule={() => {
+          setSelectedScheduleId(null);
+          setCurrentScreen('scheduleTransfer');
+        }}
+        onEditSchedule={(scheduleId) => {
+          setSelectedScheduleId(scheduleId);
+          setCurrentScreen('scheduleTransfer');
+        }}
+        refreshTrigger={scheduledTransfersRefreshTrigger}
+      />
+    );
+  }
+
+  // Create/Edit Scheduled Transfer Screen
+  if (currentScreen === 'scheduleTransfer') {
+    return (
+      <ScheduleTransferScreen
+        accounts={bankAccounts}
+        scheduleId={selectedScheduleId}
+        onBack={() => setCurrentScreen('scheduledTransfers')}
+        onSaved={() => {
+          setSelectedScheduleId(null);
+          setScheduledTransfersRefreshTrigger(prev => prev + 1);
+          setCurrentScreen('scheduledTransfers');
+        }}
+      />
+    );
+  }
+
+  // Split Bill Screen
+  if (currentScreen === 'splitBill') {
+    return (
+      <SplitBillScreen
+        accounts={bankAccounts}
+        initialTotal={billSplitDraft?.total}
+        initialDescription={billSplitDraft?.description}
+        merchantName={billSplitDraft?.merchantName}
+        onBack={() => {
+          setBillSplitDraft(null);
+          setActiveHomeTab('p2p');
+          setCurrentScreen('home');
+        }}
+        onCreated={(split) => {
+          setBillSplitDraft(null);
+          setSelectedBillSplitId(split.splitId);
+          setCurrentScreen('billSplitDetail');
+        }}
+      />
+    );
+  }
+
+  // Payee Book Screen
+  if (currentScreen === 'payees') {
+    return (
+      <PayeesScreen
+        onBack={() => {
+          // Pick up favourites and nicknames changed on the screen
+          payeeService.getPayees().then(setPayees).catch(() => {});
+          setActiveHomeTab('p2p');
+          setCurrentScreen('home');
+        }}
+        onSendTo={(payee) => {
+          payeeService.getPayees().then(setPayees).catch(() => {});
+          handleSendToPayee(payee);
+        }}
+      />
+    );
+  }
+
+  // Bill Split Tracker Screen
+  if (currentScreen === 'billSplitDetail' && selectedBillSplitId) {
+    return (
+      <BillSplitDetailScreen
+        splitId={selectedBillSplitId}
+        onBack={() => {
+          setSelectedBillSplitId(null);
+          loadP2PData();
+          setActiveHomeTab('p2p');
+          setCurrentScreen('home');
+        }}
+        onDeleted={() => {
+          setSelectedBillSplitId(null);
+          loadP2PData();
+          setActiveHomeTab('p2p');
+          setCurrentScreen('home');
+        }}
+      />
+    );
+  }
+
   // Contracts List Screen
   if (currentScreen === 'contractsList') {
     return (
@@ -5493,19 +7009,88 @@ export default function App() {
     };
 
     return (
-      <ProfileEditScreen
-        user={user}
-        onBack={() => setCurrentScreen('settings')}
-        onSave={handleSaveProfile}
-        onPickImage={handlePickImage}
+      <ProfileEditScreen
+        user={user}
+        onBack={() => setCurrentScreen('settings')}
+        onSave={handleSaveProfile}
+        onPickImage={handlePickImage}
+      />
+    );
+  }
+
+  // Merchant Analytics Screen
+  if (currentScreen === 'merchantAnalytics' && hasMerchantPermission(merchantProfile, 'viewReports')) {
+    return (
+      <MerchantAnalyticsScreen
+        onBack={() => {
+          setActiveHomeTab('p2p');
+          setCurrentScreen('home');
+        }}
+      />
+    );
+  }
+
+  // Merchant Settlement Screen (end-of-day report)
+  if (currentScreen === 'merchantSettlement' && merchantProfile && hasMerchantPermission(merchantProfile, 'viewReports')) {
+    return (
+      <MerchantSettlementScreen
+        merchant={merchantProfile}
+        onBack={() => {
+          setActiveHomeTab('p2p');
+          setCurrentScreen('home');
+        }}
+      />
+    );
+  }
+
+  // Merchant Invoice Screen (itemized invoice QR)
+  if (currentScreen === 'merchantInvoice' && merchantProfile) {
+    return (
+      <MerchantInvoiceScreen
+        merchant={merchantProfile}
+        onBack={() => {
+          setActiveHomeTab('p2p');
+          setCurrentScreen('home');
+        }}
+      />
+    );
+  }
+
+  // Merchant QR Poster Screen (printable static QR for the counter)
+  if (currentScreen === 'merchantQrPoster' && merchantProfile) {
+    return (
+      <MerchantQrPosterScreen
+        merchant={merchantProfile}
+        alias={merchantProfile.primaryAlias || aliases.find((a) => a.isPrimary)?.value}
+        onBack={() => {
+          setActiveHomeTab('p2p');
+          setCurrentScreen('home');
+        }}
+      />
+    );
+  }
+
+  // Merchant Staff Screen (owners and managers)
+  if (currentScreen === 'merchantStaff' && merchantProfile && hasMerchantPermission(merchantProfile, 'manageStaff')) {
+    return (
+      <MerchantStaffScreen
+        merchant={merchantProfile}
+        onBack={() => {
+          if (hasMerchantPermission(merchantProfile, 'editProfile')) {
+            setCurrentScreen('merchantProfileEdit');
+          } else {
+            setActiveHomeTab('p2p');
+            setCurrentScreen('home');
+          }
+        }}
       />
     );
   }
 
   // Merchant Profile Edit Screen
-  if (currentScreen === 'merchantProfileEdit' && merchantProfile) {
+  if (currentScreen === 'merchantProfileEdit' && merchantProfile && hasMerchantPermission(merchantProfile, 'editProfile')) {
     const handleSaveMerchantProfile = async (
-      updates: { merchantName: string; description?: string },
+      updates: { merchantName: string; description?: string; tipSettings?: TipSettings },
       logoUri?: string | null
     ) => {
       console.log('Saving merchant profile:', { updates, logoUri });
@@ -5529,6 +7114,7 @@ export default function App() {
         const updatedProfile = await transferSimApi.updateMerchantProfile({
           merchantName: updates.merchantName,
           description: updates.description,
+          tipSettings: updates.tipSettings,
         });
 
         console.log('Merchant profile API response:', JSON.stringify(updatedProfile, null, 2));
@@ -5536,6 +7122,8 @@ export default function App() {
         // Update local state - preserve description if API doesn't return it
         setMerchantProfile({
           ...updatedProfile,
+          role: updatedProfile.role ?? merchantProfile.role,
+          tipSettings: updatedProfile.tipSettings ?? updates.tipSettings ?? merchantProfile.tipSettings,
           description: updatedProfile.description ?? updates.description,
           logoImageUrl: newLogoUrl,
         });
@@ -5627,6 +7215,8 @@ export default function App() {
         onBack={() => setCurrentScreen('home')}
         onSave={handleSaveMerchantProfile}
         onPickImage={handlePickMerchantLogo}
+        onManageStaff={hasMerchantPermission(merchantProfile, 'manageStaff') ? () => setCurrentScreen('merchantStaff') : undefined}
+        onDeactivate={hasMerchantPermission(merchantProfile, 'deactivate') ? handleDeactivateMerchant : undefined}
       />
     );
   }
@@ -5697,6 +7287,17 @@ export default function App() {
 
           {/* Actions */}
           <View style={styles.cardActionsSection}>
+            <TouchableOpacity
+              style={styles.outlineButton}
+              onPress={() => {
+                setPaymentHistoryReturnScreen('cardDetails');
+                setCurrentScreen('paymentHistory');
+              }}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.outlineButtonText}>View Transactions</Text>
+            </TouchableOpacity>
+
             {!selectedCard.isDefault && (
               <TouchableOpacity
                 style={styles.primaryButton}
@@ -5726,6 +7327,52 @@ export default function App() {
     );
   }
 
+  // Card Payment History Screen
+  if (currentScreen === 'paymentHistory') {
+    return (
+      <PaymentHistoryScreen
+        cards={cards}
+        initialCardId={paymentHistoryReturnScreen === 'cardDetails' ? selectedCard?.id : undefined}
+        onBack={() => setCurrentScreen(paymentHistoryReturnScreen)}
+        onPaymentSelect={(payment) => {
+          setSelectedPayment(payment);
+          setCurrentScreen('paymentDetail');
+        }}
+      />
+    );
+  }
+
+  // Card Payment Detail Screen
+  if (currentScreen === 'paymentDetail' && selectedPayment) {
+    return (
+      <PaymentDetailScreen
+        payment={selectedPayment}
+        onBack={() => {
+          setSelectedPayment(null);
+          setCurrentScreen('paymentHistory');
+        }}
+        onViewReceipt={() => {
+          setSelectedReceipt(buildCardPaymentReceipt(selectedPayment));
+          setReceiptReturnScreen('paymentDetail');
+          setCurrentScreen('receipt');
+        }}
+      />
+    );
+  }
+
+  // Receipt Screen
+  if (currentScreen === 'receipt' && selectedReceipt) {
+    return (
+      <ReceiptScreen
+        receipt={selectedReceipt}
+        onBack={() => {
+          setSelectedReceipt(null);
+          setCurrentScreen(receiptReturnScreen);
+        }}
+      />
+    );
+  }
+
   // Payment Approval Screen
   if (currentScreen === 'paymentApproval') {
     // Format currency
@@ -6977,11 +8624,13 @@ const styles = StyleSheet.create({
   },
   p2pQuickActions: {
     flexDirection: 'row',
-    justifyContent: 'space-around',
-    marginBottom: 24,
+    flexWrap: 'wrap',
+    marginBottom: 12,
   },
   p2pQuickAction: {
+    width: '25%',
     alignItems: 'center',
+    marginBottom: 12,
   },
   p2pQuickActionIcon: {
     width: 56,
@@ -7023,6 +8672,17 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#6b7280',
   },
+  p2pFavouriteItem: {
+    width: 72,
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  p2pFavouriteName: {
+    fontSize: 12,
+    color: '#374151',
+    marginTop: 6,
+    textAlign: 'center',
+  },
   p2pAliasCard: {
     backgroundColor: '#ffffff',
     borderRadius: 12,
@@ -7510,6 +9170,25 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     fontSize: 14,
   },
+  payeeSuggestions: {
+    backgroundColor: '#ffffff',
+    borderRadius: 8,
+    marginTop: 8,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  payeeSuggestionItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  payeeSuggestionInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
   recipientInfoCard: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -7767,6 +9446,134 @@ const styles = StyleSheet.create({
   historyFilterTabTextActive: {
     color: '#fff',
   },
+  historySearchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    marginBottom: 12,
+    gap: 8,
+  },
+  historySearchInput: {
+    flex: 1,
+    backgroundColor: '#f3f4f6',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#111827',
+  },
+  historyFilterButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#f3f4f6',
+  },
+  historyFilterButtonActive: {
+    backgroundColor: '#dbeafe',
+  },
+  historyFilterButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#6b7280',
+  },
+  historyFilterButtonTextActive: {
+    color: '#1d4ed8',
+  },
+  historyActiveFiltersRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    marginBottom: 12,
+  },
+  historyActiveFiltersText: {
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  historyClearFiltersText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1d4ed8',
+  },
+  historyExportText: {
+    fontSize: 16,
+    color: '#3b82f6',
+  },
+  historyExportHint: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 12,
+  },
+  historyOfflineBanner: {
+    backgroundColor: '#fef3c7',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  historyOfflineText: {
+    fontSize: 13,
+    color: '#92400e',
+    textAlign: 'center',
+  },
+  historySheetBackdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  historySheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingHorizontal: 24,
+    paddingTop: 12,
+    paddingBottom: 40,
+  },
+  historySheetHandle: {
+    alignSelf: 'center',
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#d1d5db',
+    marginBottom: 16,
+  },
+  historySheetTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  historySheetLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  historySheetChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  historySheetChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#f3f4f6',
+  },
+  historySheetChipActive: {
+    backgroundColor: '#1d4ed8',
+  },
+  historySheetChipText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  historySheetChipTextActive: {
+    color: '#fff',
+    fontWeight: '500',
+  },
+  historySheetActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 28,
+  },
   historyList: {
     flex: 1,
     paddingHorizontal: 24,
@@ -7902,6 +9709,20 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  transferDetailRefundNote: {
+    fontSize: 13,
+    color: '#d97706',
+    marginTop: 8,
+  },
+  transferDetailRefundReason: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  transferDetailRefundButton: {
+    borderColor: '#d97706',
+    marginBottom: 12,
+  },
   transferDetailSection: {
     marginBottom: 24,
   },
@@ -8080,6 +9901,38 @@ const styles = StyleSheet.create({
     fontStyle: 'italic',
     marginTop: 4,
   },
+  p2pTipOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  p2pTipOption: {
+    minWidth: 64,
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#ffffff',
+  },
+  p2pTipOptionSelected: {
+    borderColor: '#10B981',
+    backgroundColor: '#D1FAE5',
+  },
+  p2pTipOptionLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  p2pTipOptionLabelSelected: {
+    color: '#065F46',
+  },
+  p2pTipOptionAmount: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
   // P2P Mode Toggle styles
   p2pModeToggle: {
     flexDirection: 'row',
@@ -8160,6 +10013,22 @@ const styles = StyleSheet.create({
     color: '#10B981',
     fontWeight: '600',
   },
+  merchantInvitationActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 24,
+    marginTop: 12,
+  },
+  merchantInvitationDecline: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  merchantInvitationAccept: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#10B981',
+  },
   // Merchant Dashboard styles
   merchantDashboardHeader: {
     alignItems: 'center',
@@ -8281,12 +10150,59 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#047857',
   },
+  merchantInvoiceButton: {
+    marginTop: 12,
+    paddingVertical: 8,
+  },
+  merchantInvoiceButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#10B981',
+  },
   // Merchant Stats styles
   merchantStatsSection: {
     flexDirection: 'row',
-    marginBottom: 24,
+    marginBottom: 12,
     gap: 12,
   },
+  merchantTipsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginBottom: 8,
+  },
+  merchantTipsLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#065F46',
+  },
+  merchantTipsValue: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  merchantAnalyticsLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginBottom: 24,
+  },
+  merchantAnalyticsLinkText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#065F46',
+  },
+  merchantAnalyticsLinkChevron: {
+    fontSize: 20,
+    color: '#9ca3af',
+  },
   merchantStatCard: {
     flex: 1,
     backgroundColor: '#ffffff',
@@ -8340,6 +10256,12 @@ const styles = StyleSheet.create({
     color: '#9ca3af',
     marginTop: 2,
   },
+  merchantTransferRefund: {
+    fontSize: 12,
+    color: '#d97706',
+    fontWeight: '500',
+    marginTop: 2,
+  },
   merchantEmptyHint: {
     fontSize: 13,
     color: '#9ca3af',
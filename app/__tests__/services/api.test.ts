@@ -708,6 +708,287 @@ describe('API Service', () => {
         expect(result).toEqual(mockResponse);
       });
     });
+
+    describe('getPaymentHistory', () => {
+      it('should get a page of payment history', async () => {
+        const mockResponse = {
+          payments: [
+            {
+              requestId: 'req-1',
+              status: 'completed',
+              merchantName: 'Merchant A',
+              amount: 50.00,
+              currency: 'CAD',
+              orderId: 'order-1',
+              cardId: 'card-1',
+              cardLastFour: '4242',
+              createdAt: '2025-01-01T00:00:00Z',
+            },
+          ],
+          total: 41,
+        };
+        mockGet.mockResolvedValueOnce({ data: mockResponse });
+
+        const result = await api.getPaymentHistory(20, 20);
+
+        expect(mockGet).toHaveBeenCalledWith('/mobile/payment/history', {
+          params: { limit: 20, offset: 20 },
+        });
+        expect(result).toEqual(mockResponse);
+      });
+
+      it('should default to an empty list', async () => {
+        mockGet.mockResolvedValueOnce({ data: {} });
+
+        const result = await api.getPaymentHistory();
+
+        expect(mockGet).toHaveBeenCalledWith('/mobile/payment/history', {
+          params: { limit: 20, offset: 0 },
+        });
+        expect(result).toEqual({ payments: [], total: 0 });
+      });
+    });
+  });
+
+  // ==================
+  // Contract Endpoints
+  // ==================
+
+  describe('Contract Endpoints', () => {
+    describe('getContracts', () => {
+      it('should parse decimal-string pots', async () => {
+        mockGet.mockResolvedValueOnce({
+          data: {
+            contracts: [{ id: 'c-1', title: 'Game night', totalPot: '20.10', currency: 'CAD' }],
+            total: 1,
+          },
+        });
+
+        const result = await api.getContracts();
+
+        expect(mockGet).toHaveBeenCalledWith('/mobile/contracts', { params: { limit: 20, offset: 0 } });
+        expect(result.contracts[0].totalPot).toEqual({ minor: 2010, currency: 'CAD' });
+        expect(result.total).toBe(1);
+      });
+    });
+
+    describe('getContract', () => {
+      it('should parse stakes and the settled amount exactly', async () => {
+        mockGet.mockResolvedValueOnce({
+          data: {
+            id: 'c-1',
+            totalPot: 0.30000000000000004,
+            currency: 'CAD',
+            parties: [
+              { id: 'p-1', displayName: 'Alice', stake: { amount: '0.10', currency: 'CAD' } },
+              { id: 'p-2', displayName: 'Bob', stake: { amount: 0.2, currency: 'CAD' } },
+            ],
+            counterparty: { id: 'p-2', displayName: 'Bob', stake: { amount: 0.2, currency: 'CAD' } },
+            outcome: { result: 'party_a_wins', settledAmount: '0.30' },
+          },
+        });
+
+        const result = await api.getContract('c-1');
+
+        expect(result.totalPot).toEqual({ minor: 30, currency: 'CAD' });
+        expect(result.parties.map((p) => p.stake)).toEqual([
+          { minor: 10, currency: 'CAD' },
+          { minor: 20, currency: 'CAD' },
+        ]);
+        expect(result.counterparty?.stake).toEqual({ minor: 20, currency: 'CAD' });
+        expect(result.outcome?.settledAmount).toEqual({ minor: 30, currency: 'CAD' });
+      });
+    });
+
+    describe('pools', () => {
+      it('should parse every payout of a settled pool', async () => {
+        mockGet.mockResolvedValueOnce({
+          data: {
+            id: 'c-2',
+            totalPot: '30.00',
+            currency: 'CAD',
+            settlementType: 'proportional',
+            myPartyId: 'p-3',
+            parties: [
+              { id: 'p-1', role: 'creator', stake: { amount: '10.00', currency: 'CAD' } },
+              { id: 'p-2', role: 'participant', stake: { amount: '5.00', currency: 'CAD' } },
+              { id: 'p-3', role: 'participant', stake: { amount: '15.00', currency: 'CAD' } },
+            ],
+            outcome: {
+              result: 'pool_settled',
+              winnerIds: ['p-2', 'p-3'],
+              payouts: [{ partyId: 'p-2', amount: '7.50' }, { partyId: 'p-3', amount: 22.499999999 }],
+            },
+          },
+        });
+
+        const result = await api.getContract('c-2');
+
+        expect(result.counterparty).toBeUndefined();
+        expect(result.outcome?.payouts).toEqual([
+          { partyId: 'p-2', amount: { minor: 750, currency: 'CAD' } },
+          { partyId: 'p-3', amount: { minor: 2250, currency: 'CAD' } },
+        ]);
+      });
+
+      it('should send a participant prediction when accepting', async () => {
+        const contract = { id: 'c-2', totalPot: '30.00', currency: 'CAD', parties: [] };
+        mockPost.mockResolvedValueOnce({ data: contract }).mockResolvedValueOnce({ data: contract });
+
+        await api.acceptContract('c-2', 'team_b');
+        await api.acceptContract('c-1');
+
+        expect(mockPost).toHaveBeenNthCalledWith(1, '/mobile/contracts/c-2/accept', { consent: true, prediction: 'team_b' });
+        expect(mockPost).toHaveBeenNthCalledWith(2, '/mobile/contracts/c-1/accept', { consent: true });
+      });
+    });
+
+    describe('milestones', () => {
+      it('should return milestones in order with exact amounts', async () => {
+        mockGet.mockResolvedValueOnce({
+          data: {
+            id: 'c-3',
+            type: 'milestone',
+            totalPot: '60.00',
+            currency: 'CAD',
+            parties: [],
+            milestones: [
+              { id: 'm-2', index: 1, title: 'Final files', amount: '20.00', status: 'pending' },
+              { id: 'm-1', index: 0, title: 'Draft', amount: 40.004, status: 'released' },
+            ],
+          },
+        });
+
+        const result = await api.getContract('c-3');
+
+        expect(result.milestones?.map((m) => [m.id, m.amount.minor])).toEqual([['m-1', 4000], ['m-2', 2000]]);
+      });
+
+      it('should deliver, release and reject milestones', async () => {
+        const contract = { id: 'c-3', totalPot: '60.00', currency: 'CAD', parties: [] };
+        mockPost
+          .mockResolvedValueOnce({ data: contract })
+          .mockResolvedValueOnce({ data: contract })
+          .mockResolvedValueOnce({ data: contract });
+
+        await api.deliverMilestone('c-3', 'm-1', 'Uploaded to the shared folder');
+        await api.releaseMilestone('c-3', 'm-1', 'key-1');
+        await api.rejectMilestone('c-3', 'm-2', 'Wrong colours');
+
+        expect(mockPost).toHaveBeenNthCalledWith(1, '/mobile/contracts/c-3/milestones/m-1/deliver', {
+          note: 'Uploaded to the shared folder',
+        });
+        expect(mockPost).toHaveBeenNthCalledWith(2, '/mobile/contracts/c-3/milestones/m-1/release', {}, {
+          headers: { 'Idempotency-Key': 'key-1' },
+        });
+        expect(mockPost).toHaveBeenNthCalledWith(3, '/mobile/contracts/c-3/milestones/m-2/reject', {
+          reason: 'Wrong colours',
+        });
+      });
+    });
+
+    describe('counter-offers', () => {
+      it('should return the negotiation thread in order with exact stakes', async () => {
+        const offerTerms = { expiresAt: '2026-03-20T12:00:00.000Z' };
+        mockGet.mockResolvedValueOnce({
+          data: {
+            id: 'c-1',
+            totalPot: '20.00',
+            currency: 'CAD',
+            parties: [],
+            offers: [
+              { id: 'o-2', revision: 2, status: 'pending', terms: { ...offerTerms, creatorStake: '10.00', counterpartyStake: 4.999 } },
+              { id: 'o-1', revision: 1, status: 'superseded', terms: { ...offerTerms, creatorStake: '10.00', counterpartyStake: '10.00' } },
+            ],
+          },
+        });
+
+        const result = await api.getContract('c-1');
+
+        expect(result.offers?.map((o) => [o.id, o.terms.creatorStake.minor, o.terms.counterpartyStake.minor])).toEqual([
+          ['o-1', 1000, 1000],
+          ['o-2', 1000, 500],
+        ]);
+      });
+
+      it('should post a counter-offer and accept an offer', async () => {
+        const contract = { id: 'c-1', totalPot: '20.00', currency: 'CAD', parties: [] };
+        mockPost.mockResolvedValueOnce({ data: contract }).mockResolvedValueOnce({ data: contract });
+
+        await api.counterOffer('c-1', { counterpartyStake: 5, message: 'Half?' });
+        await api.acceptOffer('c-1', 'o-2');
+
+        expect(mockPost).toHaveBeenNthCalledWith(1, '/mobile/contracts/c-1/counter', {
+          counterpartyStake: 5,
+          message: 'Half?',
+        });
+        expect(mockPost).toHaveBeenNthCalledWith(2, '/mobile/contracts/c-1/offers/o-2/accept', { consent: true });
+      });
+    });
+
+    describe('disputeContract', () => {
+      it('should post the reason and return the sanitized contract', async () => {
+        mockPost.mockResolvedValueOnce({
+          data: { id: 'c-1', status: 'disputed', totalPot: '20.00', currency: 'CAD', parties: [] },
+        });
+
+        const result = await api.disputeContract('c-1', { reason: 'Wrong score', url: 'https://example.com/box-score' });
+
+        expect(mockPost).toHaveBeenCalledWith('/mobile/contracts/c-1/dispute', {
+          reason: 'Wrong score',
+          url: 'https://example.com/box-score',
+        });
+        expect(result.status).toBe('disputed');
+        expect(result.totalPot).toEqual({ minor: 2000, currency: 'CAD' });
+      });
+    });
+
+    describe('addDisputeEvidence', () => {
+      it('should send statements and links as JSON', async () => {
+        mockPost.mockResolvedValueOnce({ data: { id: 'ev-1', type: 'url' } });
+
+        await api.addDisputeEvidence('c-1', { type: 'url', url: 'https://example.com', description: 'Official result' });
+
+        expect(mockPost).toHaveBeenCalledWith('/mobile/contracts/c-1/dispute/evidence', {
+          type: 'url',
+          url: 'https://example.com',
+          description: 'Official result',
+        });
+      });
+
+      it('should upload photos as multipart form data', async () => {
+        mockPost.mockResolvedValueOnce({ data: { id: 'ev-2', type: 'photo', url: 'https://cdn.example.com/ev-2.png' } });
+
+        const result = await api.addDisputeEvidence('c-1', { type: 'photo', imageUri: 'file:///tmp/screenshot.PNG' });
+
+        const [endpoint, body, config] = mockPost.mock.calls[0];
+        expect(endpoint).toBe('/mobile/contracts/c-1/dispute/evidence');
+        expect(body).toBeInstanceOf(FormData);
+        expect(config).toEqual({ headers: { 'Content-Type': 'multipart/form-data' } });
+        expect(result.url).toBe('https://cdn.example.com/ev-2.png');
+      });
+    });
+
+    describe('getDisputeHistory', () => {
+      it('should return events oldest first', async () => {
+        mockGet.mockResolvedValueOnce({
+          data: {
+            dispute: { id: 'd-1', status: 'resolved', resolution: 'Refunded both stakes' },
+            events: [
+              { id: 'e-3', type: 'resolved', createdAt: '2026-03-03T10:00:00.000Z' },
+              { id: 'e-1', type: 'raised', partyId: 'p-1', createdAt: '2026-03-01T10:00:00.000Z' },
+              { id: 'e-2', type: 'evidence_added', partyId: 'p-2', createdAt: '2026-03-02T10:00:00.000Z' },
+            ],
+          },
+        });
+
+        const result = await api.getDisputeHistory('c-1');
+
+        expect(mockGet).toHaveBeenCalledWith('/mobile/contracts/c-1/dispute/history');
+        expect(result.events.map((e) => e.id)).toEqual(['e-1', 'e-2', 'e-3']);
+        expect(result.dispute.resolution).toBe('Refunded both stakes');
+      });
+    });
   });
 
   // ==================
@@ -0,0 +1,342 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  billSplitService,
+  calculateBillShares,
+  describeBillSplitProgress,
+  getBillSplitProgress,
+  getShareIdempotencyKey,
+  getShareStatusForRequest,
+  getShareStatusForTransfer,
+  validateBillSplit,
+  BILL_SPLIT_ORGANIZER_ID,
+  type BillSplitInput,
+} from '../../src/services/billSplits';
+import { transferSimApi } from '../../src/services/transferSim';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+let mockUuidCounter = 0;
+jest.mock('uuid', () => ({
+  v4: () => `split-${++mockUuidCounter}`,
+}));
+
+jest.mock('../../src/services/transferSim', () => ({
+  transferSimApi: {
+    sendMoney: jest.fn(),
+    createMoneyRequest: jest.fn(),
+    getMoneyRequest: jest.fn(),
+    getTransfer: jest.fn(),
+    cancelMoneyRequest: jest.fn(),
+  },
+}));
+
+const mockedSendMoney = transferSimApi.sendMoney as jest.Mock;
+const mockedCreateMoneyRequest = transferSimApi.createMoneyRequest as jest.Mock;
+const mockedGetMoneyRequest = transferSimApi.getMoneyRequest as jest.Mock;
+const mockedCancelMoneyRequest = transferSimApi.cancelMoneyRequest as jest.Mock;
+const mockedGetTransfer = transferSimApi.getTransfer as jest.Mock;
+
+const baseInput: BillSplitInput = {
+  description: 'Friday dinner',
+  total: 100,
+  method: 'EVEN',
+  settleMode: 'REQUEST',
+  includeOrganizer: true,
+  participants: [
+    { participantId: 'p-1', alias: '@alice', displayName: 'Alice' },
+    { participantId: 'p-2', alias: '@bob', displayName: 'Bob' },
+  ],
+};
+
+describe('Bill Splits Service', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await AsyncStorage.clear();
+    let requestCounter = 0;
+    mockedCreateMoneyRequest.mockImplementation(async () => ({ requestId: `req-${++requestCounter}`, status: 'PENDING' }));
+    mockedSendMoney.mockResolvedValue({ transferId: 'tr-1', status: 'PENDING' });
+    mockedCancelMoneyRequest.mockResolvedValue(undefined);
+  });
+
+  describe('calculateBillShares', () => {
+    it('should split evenly with leftover cents going to the organizer first', () => {
+      expect(calculateBillShares(baseInput)).toEqual({ [BILL_SPLIT_ORGANIZER_ID]: 33.34, 'p-1': 33.33, 'p-2': 33.33 });
+    });
+
+    it('should leave the organizer out when not included', () => {
+      expect(calculateBillShares({ ...baseInput, includeOrganizer: false })).toEqual({ 'p-1': 50, 'p-2': 50 });
+    });
+
+    it('should split by shares', () => {
+      const shares = calculateBillShares({
+        ...baseInput,
+        method: 'SHARES',
+        organizerShares: 2,
+        participants: [
+          { ...baseInput.participants[0], shares: 1 },
+          { ...baseInput.participants[1], shares: 1 },
+        ],
+      });
+      expect(shares).toEqual({ [BILL_SPLIT_ORGANIZER_ID]: 50, 'p-1': 25, 'p-2': 25 });
+    });
+
+    it('should split by item and spread tax and tip in proportion', () => {
+      const shares = calculateBillShares({
+        ...baseInput,
+        total: 60,
+        method: 'ITEMS',
+        items: [
+          { itemId: 'i-1', name: 'Pasta', amount: 20, participantIds: [BILL_SPLIT_ORGANIZER_ID] },
+          { itemId: 'i-2', name: 'Pizza', amount: 20, participantIds: ['p-1'] },
+          { itemId: 'i-3', name: 'Wine', amount: 10, participantIds: ['p-1', 'p-2'] },
+        ],
+      });
+      // Item subtotals 20 / 25 / 5 of 50, scaled up to the 60 total
+      expect(shares).toEqual({ [BILL_SPLIT_ORGANIZER_ID]: 24, 'p-1': 30, 'p-2': 6 });
+    });
+
+    it('should always add up to the total', () => {
+      const shares = calculateBillShares({
+        ...baseInput,
+        total: 47.11,
+        method: 'ITEMS',
+        items: [
+          { itemId: 'i-1', name: 'Nachos', amount: 13.33, participantIds: [BILL_SPLIT_ORGANIZER_ID, 'p-1', 'p-2'] },
+          { itemId: 'i-2', name: 'Burger', amount: 17.99, participantIds: ['p-2'] },
+        ],
+      });
+      const sum = Object.values(shares).reduce((total, amount) => total + Math.round(amount * 100), 0);
+      expect(sum).toBe(4711);
+    });
+  });
+
+  describe('validateBillSplit', () => {
+    it('should accept a valid split', () => {
+      expect(validateBillSplit(baseInput)).toBeNull();
+    });
+
+    it('should require a total and participants', () => {
+      expect(validateBillSplit({ ...baseInput, total: 0 })).toBe('Please enter the bill total');
+      expect(validateBillSplit({ ...baseInput, participants: [] })).toBe('Add at least one person to split with');
+    });
+
+    it('should check items', () => {
+      const itemsInput: BillSplitInput = { ...baseInput, method: 'ITEMS', items: [] };
+      expect(validateBillSplit(itemsInput)).toBe('Add the items on the bill');
+      expect(validateBillSplit({
+        ...itemsInput,
+        items: [{ itemId: 'i-1', name: 'Pasta', amount: 20, participantIds: [] }],
+      })).toBe('Choose who had Pasta');
+      expect(validateBillSplit({
+        ...itemsInput,
+        items: [{ itemId: 'i-1', name: 'Pasta', amount: 120, participantIds: ['p-1', 'p-2'] }],
+      })).toBe('The items add up to more than the total');
+      expect(validateBillSplit({
+        ...itemsInput,
+        items: [{ itemId: 'i-1', name: 'Pasta', amount: 20, participantIds: ['p-1'] }],
+      })).toBe('Bob has no items on the bill');
+    });
+
+    it('should reject totals too small to split', () => {
+      expect(validateBillSplit({ ...baseInput, total: 0.02 })).toBe('The total is too small to split between 3 people');
+    });
+  });
+
+  describe('status helpers', () => {
+    it('should map money request statuses', () => {
+      expect(getShareStatusForRequest('APPROVED')).toBe('PAID');
+      expect(getShareStatusForRequest('PENDING')).toBe('REQUESTED');
+      expect(getShareStatusForRequest('DECLINED')).toBe('DECLINED');
+      expect(getShareStatusForRequest('EXPIRED')).toBe('DECLINED');
+    });
+
+    it('should only treat completed transfers as paid', () => {
+      expect(getShareStatusForTransfer('COMPLETED')).toBe('PAID');
+      expect(getShareStatusForTransfer('PENDING')).toBe('SENT');
+      expect(getShareStatusForTransfer('CREDITING')).toBe('SENT');
+      expect(getShareStatusForTransfer('DEBIT_FAILED')).toBe('FAILED');
+      expect(getShareStatusForTransfer('REVERSED')).toBe('FAILED');
+    });
+
+    it('should build a stable idempotency key per share and attempt', () => {
+      expect(getShareIdempotencyKey('s-1', 'p-1')).toBe('split-s-1-p-1');
+      expect(getShareIdempotencyKey('s-1', 'p-1', 2)).toBe('split-s-1-p-1-2');
+    });
+  });
+
+  describe('createBillSplit', () => {
+    it('should save the split with pending shares', async () => {
+      const split = await billSplitService.createBillSplit(baseInput);
+
+      expect(split.organizerAmount).toBe(33.34);
+      expect(split.currency).toBe('CAD');
+      expect(split.participants.map((p) => [p.amount, p.status])).toEqual([[33.33, 'PENDING'], [33.33, 'PENDING']]);
+      expect(await billSplitService.getBillSplits()).toHaveLength(1);
+    });
+
+    it('should reject invalid splits', async () => {
+      await expect(billSplitService.createBillSplit({ ...baseInput, participants: [] }))
+        .rejects.toThrow('Add at least one person to split with');
+      await expect(billSplitService.createBillSplit({ ...baseInput, settleMode: 'SEND' }))
+        .rejects.toThrow('Choose an account to send from');
+    });
+  });
+
+  describe('issueRequests', () => {
+    it('should request each share and record failures', async () => {
+      mockedCreateMoneyRequest
+        .mockResolvedValueOnce({ requestId: 'req-1', status: 'PENDING' })
+        .mockRejectedValueOnce({ message: 'Request failed', response: { data: { message: 'Alias not found' } } });
+      const split = await billSplitService.createBillSplit(baseInput);
+
+      const updated = await billSplitService.issueRequests(split.splitId);
+
+      expect(mockedCreateMoneyRequest).toHaveBeenCalledWith({
+        payerAlias: '@alice',
+        payerAliasType: undefined,
+        amount: 33.33,
+        currency: 'CAD',
+        description: 'Friday dinner',
+      });
+      expect(updated.participants[0]).toMatchObject({ status: 'REQUESTED', requestId: 'req-1' });
+      expect(updated.participants[1]).toMatchObject({ status: 'FAILED', lastError: 'Alias not found' });
+
+      // Retrying only requests the failed share
+      mockedCreateMoneyRequest.mockClear();
+      const retried = await billSplitService.issueRequests(split.splitId);
+      expect(mockedCreateMoneyRequest).toHaveBeenCalledTimes(1);
+      expect(retried.participants[1].status).toBe('REQUESTED');
+    });
+  });
+
+  describe('refreshStatuses', () => {
+    it('should track who has paid', async () => {
+      const split = await billSplitService.createBillSplit(baseInput);
+      await billSplitService.issueRequests(split.splitId);
+      mockedGetMoneyRequest.mockImplementation(async (requestId: string) =>
+        requestId === 'req-1'
+          ? { requestId, status: 'APPROVED', transferId: 'tr-9' }
+          : { requestId, status: 'PENDING' }
+      );
+
+      const updated = await billSplitService.refreshStatuses(split.splitId);
+
+      expect(updated.participants[0]).toMatchObject({ status: 'PAID', transferId: 'tr-9' });
+      expect(updated.participants[1].status).toBe('REQUESTED');
+      expect(getBillSplitProgress(updated)).toEqual({ paidCount: 1, participantCount: 2, collected: 33.33, outstanding: 33.33 });
+      expect(describeBillSplitProgress(updated)).toBe('1 of 2 paid · $33.33 outstanding');
+    });
+
+    it('should keep the last status when a request cannot be fetched', async () => {
+      const split = await billSplitService.createBillSplit(baseInput);
+      await billSplitService.issueRequests(split.splitId);
+      mockedGetMoneyRequest.mockRejectedValue(new Error('Network Error'));
+
+      const updated = await billSplitService.refreshStatuses(split.splitId);
+
+      expect(updated.participants.every((p) => p.status === 'REQUESTED')).toBe(true);
+    });
+  });
+
+  describe('sendShares', () => {
+    it('should send each share with a per-share idempotency key', async () => {
+      const split = await billSplitService.createBillSplit({
+        ...baseInput,
+        settleMode: 'SEND',
+        sourceAccountId: 'acc-1',
+        senderBsimId: 'bsim-1',
+      });
+
+      const updated = await billSplitService.sendShares(split.splitId);
+
+      expect(mockedSendMoney).toHaveBeenCalledTimes(2);
+      expect(mockedSendMoney).toHaveBeenCalledWith(
+        '@alice',
+        33.33,
+        'acc-1',
+        'bsim-1',
+        'Friday dinner',
+        undefined,
+        getShareIdempotencyKey(split.splitId, 'p-1'),
+        undefined,
+        'CAD'
+      );
+      expect(updated.participants.every((p) => p.status === 'SENT' && p.transferId === 'tr-1')).toBe(true);
+      expect(getBillSplitProgress(updated).paidCount).toBe(0);
+
+      // Sent shares are never sent again
+      mockedSendMoney.mockClear();
+      await billSplitService.sendShares(split.splitId);
+      expect(mockedSendMoney).not.toHaveBeenCalled();
+    });
+
+    it('should mark a sent share paid only once its transfer completes', async () => {
+      const split = await billSplitService.createBillSplit({
+        ...baseInput,
+        settleMode: 'SEND',
+        sourceAccountId: 'acc-1',
+        senderBsimId: 'bsim-1',
+      });
+      await billSplitService.sendShares(split.splitId);
+      mockedGetTransfer
+        .mockResolvedValueOnce({ transferId: 'tr-1', status: 'COMPLETED' })
+        .mockResolvedValueOnce({ transferId: 'tr-1', status: 'CREDITING' });
+
+      const updated = await billSplitService.refreshStatuses(split.splitId);
+
+      expect(mockedGetTransfer).toHaveBeenCalledWith('tr-1');
+      expect(updated.participants.map((p) => p.status)).toEqual(['PAID', 'SENT']);
+      expect(describeBillSplitProgress(updated)).toBe('1 of 2 paid · $33.33 outstanding');
+    });
+
+    it('should resend a failed transfer as a new attempt', async () => {
+      const split = await billSplitService.createBillSplit({
+        ...baseInput,
+        settleMode: 'SEND',
+        sourceAccountId: 'acc-1',
+        senderBsimId: 'bsim-1',
+        participants: [baseInput.participants[0]],
+      });
+      mockedSendMoney.mockResolvedValueOnce({ transferId: 'tr-1', status: 'DEBIT_FAILED' });
+
+      const failed = await billSplitService.sendShares(split.splitId);
+      expect(failed.participants[0]).toMatchObject({ status: 'FAILED', sendAttempt: 1, lastError: 'Transfer debit failed' });
+
+      const retried = await billSplitService.sendShares(split.splitId);
+      expect(mockedSendMoney).toHaveBeenLastCalledWith(
+        '@alice',
+        50,
+        'acc-1',
+        'bsim-1',
+        'Friday dinner',
+        undefined,
+        getShareIdempotencyKey(split.splitId, 'p-1', 1),
+        undefined,
+        'CAD'
+      );
+      expect(retried.participants[0]).toMatchObject({ status: 'SENT', sendAttempt: 1 });
+      expect(retried.participants[0].lastError).toBeUndefined();
+    });
+  });
+
+  describe('markSharePaid / deleteBillSplit', () => {
+    it('should mark a share paid outside the app', async () => {
+      const split = await billSplitService.createBillSplit(baseInput);
+      const updated = await billSplitService.markSharePaid(split.splitId, 'p-2');
+      expect(updated.participants[1]).toMatchObject({ status: 'PAID', paidManually: true });
+    });
+
+    it('should cancel open requests when deleting', async () => {
+      const split = await billSplitService.createBillSplit(baseInput);
+      await billSplitService.issueRequests(split.splitId);
+
+      await billSplitService.deleteBillSplit(split.splitId);
+
+      expect(mockedCancelMoneyRequest).toHaveBeenCalledWith('req-1');
+      expect(mockedCancelMoneyRequest).toHaveBeenCalledWith('req-2');
+      expect(await billSplitService.getBillSplits()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,228 @@
+import { createHash } from 'crypto';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Contacts from 'expo-contacts';
+import {
+  contactsService,
+  hashIdentifier,
+  normalizeEmail,
+  normalizePhoneNumber,
+  searchContacts,
+  toDeviceContacts,
+} from '../../src/services/contacts';
+import { transferSimApi } from '../../src/services/transferSim';
+import type { DeviceContact } from '../../src/types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('expo-contacts', () => ({
+  Fields: { Name: 'name', PhoneNumbers: 'phoneNumbers', Emails: 'emails', Image: 'image' },
+  getPermissionsAsync: jest.fn(),
+  requestPermissionsAsync: jest.fn(),
+  getContactsAsync: jest.fn(),
+}));
+
+jest.mock('expo-crypto', () => ({
+  CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+  digestStringAsync: jest.fn(async (_algorithm: string, value: string) =>
+    require('crypto').createHash('sha256').update(value).digest('hex')
+  ),
+}));
+
+jest.mock('../../src/services/transferSim', () => ({
+  transferSimApi: {
+    lookupAliases: jest.fn(),
+  },
+}));
+
+const mockedLookupAliases = transferSimApi.lookupAliases as jest.Mock;
+const mockedGetPermissions = Contacts.getPermissionsAsync as jest.Mock;
+const mockedRequestPermissions = Contacts.requestPermissionsAsync as jest.Mock;
+const mockedGetContacts = Contacts.getContactsAsync as jest.Mock;
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+
+const addressBook = [
+  {
+    id: 'c-1',
+    name: 'Alice Smith',
+    contactType: 'person',
+    phoneNumbers: [
+      { number: '(416) 555-0123', label: 'mobile' },
+      { number: '+1 416 555 0123', label: 'home' },
+    ],
+    emails: [{ email: ' Alice@Example.com ', label: 'work' }],
+  },
+  {
+    id: 'c-2',
+    name: 'Bob Jones',
+    contactType: 'person',
+    phoneNumbers: [{ number: '604-555-0199', label: 'mobile' }],
+  },
+  {
+    id: 'c-3',
+    name: 'Pizza Place',
+    contactType: 'company',
+    phoneNumbers: [{ number: '555-0100', label: 'work' }],
+  },
+] as unknown as Contacts.ExistingContact[];
+
+describe('Contacts Service', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await AsyncStorage.clear();
+    mockedLookupAliases.mockImplementation(async (aliases: { aliasHash: string }[]) =>
+      aliases.map(({ aliasHash }) =>
+        aliasHash === sha256('+14165550123')
+          ? { aliasHash, found: true, displayName: 'Alice S.', aliasType: 'PHONE' }
+          : { aliasHash, found: false }
+      )
+    );
+  });
+
+  describe('normalizePhoneNumber', () => {
+    it('should normalize North American numbers to E.164', () => {
+      expect(normalizePhoneNumber('(416) 555-0123')).toBe('+14165550123');
+      expect(normalizePhoneNumber('1-416-555-0123')).toBe('+14165550123');
+      expect(normalizePhoneNumber('+1 (416) 555-0123 ext. 22')).toBe('+14165550123');
+    });
+
+    it('should keep international numbers', () => {
+      expect(normalizePhoneNumber('+44 20 7946 0958')).toBe('+442079460958');
+      expect(normalizePhoneNumber('0044 20 7946 0958')).toBe('+442079460958');
+      expect(normalizePhoneNumber('020 7946 0958', '44')).toBe('+442079460958');
+    });
+
+    it('should reject numbers that cannot be valid', () => {
+      expect(normalizePhoneNumber('555-0100')).toBeNull();
+      expect(normalizePhoneNumber('+1234')).toBeNull();
+      expect(normalizePhoneNumber('')).toBeNull();
+    });
+  });
+
+  describe('normalizeEmail', () => {
+    it('should trim and lowercase valid emails', () => {
+      expect(normalizeEmail(' Alice@Example.COM ')).toBe('alice@example.com');
+      expect(normalizeEmail('not an email')).toBeNull();
+    });
+  });
+
+  describe('toDeviceContacts', () => {
+    it('should keep only usable, de-duplicated identifiers', () => {
+      const contacts = toDeviceContacts(addressBook);
+
+      expect(contacts).toHaveLength(2);
+      expect(contacts[0].identifiers).toEqual([
+        { value: '+14165550123', aliasType: 'PHONE', label: 'mobile' },
+        { value: 'alice@example.com', aliasType: 'EMAIL', label: 'work' },
+      ]);
+    });
+  });
+
+  describe('hashIdentifier', () => {
+    it('should hash the normalized value', async () => {
+      const [alice] = toDeviceContacts(addressBook);
+      expect(await Promise.all(alice.identifiers.map(hashIdentifier))).toEqual([
+        'd5fbfc3c185de35d67c70381c3ceaf20a0640bcf9558aa6627ca0be551359315',
+        'ff8d9819fc0e12bf0d24892e45987e249a28dce836a85cad60e28eaaa8c6d976',
+      ]);
+    });
+  });
+
+  describe('searchContacts', () => {
+    it('should match names, emails and phone digits', () => {
+      const contacts = toDeviceContacts(addressBook);
+      expect(searchContacts(contacts, 'bob').map((c) => c.contactId)).toEqual(['c-2']);
+      expect(searchContacts(contacts, 'example.com').map((c) => c.contactId)).toEqual(['c-1']);
+      expect(searchContacts(contacts, '604-555').map((c) => c.contactId)).toEqual(['c-2']);
+    });
+  });
+
+  describe('resolveContacts', () => {
+    const now = new Date('2026-03-10T12:00:00.000Z');
+
+    it('should send only hashed identifiers and mark contacts on mwsim', async () => {
+      const result = await contactsService.resolveContacts(toDeviceContacts(addressBook), { now });
+
+      expect(mockedLookupAliases).toHaveBeenCalledWith([
+        { aliasHash: sha256('+14165550123'), aliasType: 'PHONE' },
+        { aliasHash: sha256('alice@example.com'), aliasType: 'EMAIL' },
+        { aliasHash: sha256('+16045550199'), aliasType: 'PHONE' },
+      ]);
+      const sent = JSON.stringify(mockedLookupAliases.mock.calls);
+      for (const plaintext of ['Alice Smith', '4165550123', 'alice@example.com', '6045550199']) {
+        expect(sent).not.toContain(plaintext);
+      }
+      expect(result.matched).toBe(1);
+      expect(result.contacts[0]).toMatchObject({
+        contactId: 'c-1',
+        match: { identifier: { value: '+14165550123' }, lookup: { displayName: 'Alice S.' } },
+      });
+      expect(result.contacts[1].match).toBeUndefined();
+    });
+
+    it('should answer recently checked identifiers from the cache', async () => {
+      const contacts = toDeviceContacts(addressBook);
+      await contactsService.resolveContacts(contacts, { now });
+      mockedLookupAliases.mockClear();
+
+      const cached = await contactsService.resolveContacts(contacts, { now });
+      expect(mockedLookupAliases).not.toHaveBeenCalled();
+      expect(cached).toMatchObject({ matched: 1, lookedUp: 0 });
+
+      const nextWeek = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
+      await contactsService.resolveContacts(contacts, { now: nextWeek });
+      expect(mockedLookupAliases).toHaveBeenCalledTimes(1);
+    });
+
+    it('should look up in batches of 50', async () => {
+      const many: DeviceContact[] = Array.from({ length: 120 }, (_, i) => ({
+        contactId: `c-${i}`,
+        name: `Contact ${i}`,
+        identifiers: [{ value: `+1416555${String(i).padStart(4, '0')}`, aliasType: 'PHONE' }],
+      }));
+
+      await contactsService.resolveContacts(many, { now });
+
+      expect(mockedLookupAliases.mock.calls.map(([batch]) => batch.length)).toEqual([50, 50, 20]);
+    });
+
+    it('should retry identifiers whose lookup failed', async () => {
+      mockedLookupAliases.mockRejectedValueOnce(new Error('Network Error'));
+      const contacts = toDeviceContacts(addressBook);
+
+      const failed = await contactsService.resolveContacts(contacts, { now });
+      expect(failed.matched).toBe(0);
+
+      const retried = await contactsService.resolveContacts(contacts, { now });
+      expect(retried.lookedUp).toBe(3);
+      expect(retried.matched).toBe(1);
+    });
+  });
+
+  describe('permissions', () => {
+    it('should only turn on when permission is granted', async () => {
+      mockedRequestPermissions.mockResolvedValueOnce({ granted: false });
+      expect(await contactsService.enable()).toBe(false);
+      expect(await contactsService.isEnabled()).toBe(false);
+
+      mockedRequestPermissions.mockResolvedValueOnce({ granted: true });
+      expect(await contactsService.enable()).toBe(true);
+      expect(await contactsService.isEnabled()).toBe(true);
+
+      await contactsService.disable();
+      expect(await contactsService.isEnabled()).toBe(false);
+    });
+
+    it('should not read the address book without permission', async () => {
+      mockedGetPermissions.mockResolvedValueOnce({ granted: false });
+      await expect(contactsService.getContacts()).rejects.toThrow('Contacts permission not granted');
+      expect(mockedGetContacts).not.toHaveBeenCalled();
+
+      mockedGetPermissions.mockResolvedValueOnce({ granted: true });
+      mockedGetContacts.mockResolvedValueOnce({ data: addressBook, hasNextPage: false, hasPreviousPage: false });
+      expect(await contactsService.getContacts()).toHaveLength(2);
+    });
+  });
+});
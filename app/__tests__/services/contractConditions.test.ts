@@ -0,0 +1,107 @@
+import {
+  describeConditions,
+  describePredicate,
+  getDefaultCondition,
+  getEventFields,
+  getOperatorsForField,
+  toPredicate,
+  validateCondition,
+} from '../../src/services/contractConditions';
+import type { OracleEventField } from '../../src/types';
+
+const teams = [
+  { id: 'tor', name: 'Toronto' },
+  { id: 'mtl', name: 'Montreal' },
+];
+
+const fields: OracleEventField[] = [
+  { name: 'winner', label: 'Winner', type: 'team' },
+  { name: 'total_score', label: 'Total score', type: 'number', unit: 'points' },
+  { name: 'went_to_overtime', label: 'Overtime', type: 'boolean' },
+  { name: 'first_scorer', label: 'First scorer', type: 'string' },
+];
+
+describe('Contract Conditions', () => {
+  describe('getEventFields', () => {
+    it('should fill team options from the event teams', () => {
+      const result = getEventFields({ fields }, teams);
+      expect(result).toHaveLength(4);
+      expect(result[0].options).toEqual(teams);
+    });
+
+    it('should fall back to the winner for events without a schema', () => {
+      expect(getEventFields({}, teams)).toEqual([{ name: 'winner', label: 'Winner', type: 'team', options: teams }]);
+      expect(getEventFields({})).toEqual([]);
+    });
+  });
+
+  describe('getOperatorsForField', () => {
+    it('should only offer operators that fit the field type', () => {
+      expect(getOperatorsForField(fields[1])).toEqual(['equals', 'not_equals', 'greater_than', 'less_than', 'in']);
+      expect(getOperatorsForField(fields[2])).toEqual(['equals', 'not_equals']);
+      expect(getOperatorsForField(fields[3])).toContain('contains');
+      expect(getOperatorsForField(undefined)).toEqual([]);
+    });
+  });
+
+  it('should start from the team the user predicted', () => {
+    const eventFields = getEventFields({ fields }, teams);
+    expect(getDefaultCondition(eventFields, 'mtl')).toEqual({ field: 'winner', operator: 'equals', value: 'mtl' });
+    expect(getDefaultCondition(eventFields, 'nyc')).toEqual({ field: 'winner', operator: 'equals', value: '' });
+    expect(getDefaultCondition([])).toBeNull();
+  });
+
+  describe('validateCondition', () => {
+    const eventFields = getEventFields({ fields }, teams);
+
+    it('should accept values that match the field type', () => {
+      expect(validateCondition(eventFields, { field: 'total_score', operator: 'greater_than', value: '45' })).toBeNull();
+      expect(validateCondition(eventFields, { field: 'winner', operator: 'in', value: 'tor, Montreal' })).toBeNull();
+      expect(validateCondition(eventFields, { field: 'went_to_overtime', operator: 'equals', value: 'Yes' })).toBeNull();
+    });
+
+    it('should reject values and operators the schema does not allow', () => {
+      expect(validateCondition(eventFields, { field: 'total_score', operator: 'greater_than', value: 'lots' }))
+        .toBe('Total score must be a number');
+      expect(validateCondition(eventFields, { field: 'winner', operator: 'greater_than', value: 'tor' }))
+        .toBe('"is more than" doesn\'t work with winner');
+      expect(validateCondition(eventFields, { field: 'winner', operator: 'equals', value: 'Ottawa' }))
+        .toBe("Ottawa isn't in this event");
+      expect(validateCondition(eventFields, { field: 'winner', operator: 'in', value: 'tor' }))
+        .toBe('Pick at least two values for "is one of"');
+      expect(validateCondition(eventFields, { field: 'total_score', operator: 'equals', value: ' ' }))
+        .toBe('Enter a value for total score');
+      expect(validateCondition(eventFields, { field: 'attendance', operator: 'equals', value: '1' }))
+        .toBe('Choose what the condition is about');
+    });
+  });
+
+  describe('summaries', () => {
+    const eventFields = getEventFields({ fields }, teams);
+
+    it('should build typed predicates', () => {
+      expect(toPredicate(eventFields, { field: 'total_score', operator: 'greater_than', value: '1,045' }))
+        .toEqual({ field: 'total_score', operator: 'greater_than', value: 1045 });
+      expect(toPredicate(eventFields, { field: 'winner', operator: 'in', value: 'Toronto,mtl' }))
+        .toEqual({ field: 'winner', operator: 'in', value: ['tor', 'mtl'] });
+      expect(toPredicate(eventFields, { field: 'went_to_overtime', operator: 'equals', value: 'no' }).value).toBe(false);
+    });
+
+    it('should describe conditions in plain English', () => {
+      const predicates = [
+        toPredicate(eventFields, { field: 'winner', operator: 'equals', value: 'tor' }),
+        toPredicate(eventFields, { field: 'total_score', operator: 'greater_than', value: '45' }),
+      ];
+      expect(describeConditions(predicates, 'and', eventFields))
+        .toBe('Winner is Toronto and total score is more than 45 points');
+      expect(describeConditions(predicates, 'or', eventFields))
+        .toBe('Winner is Toronto or total score is more than 45 points');
+      expect(describePredicate({ field: 'winner', operator: 'in', value: ['tor', 'mtl'] }, eventFields))
+        .toBe('winner is one of Toronto or Montreal');
+    });
+
+    it('should describe predicates without a schema', () => {
+      expect(describePredicate({ field: 'homeScore', operator: 'less_than', value: 3 })).toBe('home score is less than 3');
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import {
+  describeAutoRelease,
+  formatAutoReleaseWindow,
+  getMilestoneActions,
+  getMilestoneProgress,
+  getReleaseIdempotencyKey,
+  isMilestoneContractType,
+  validateMilestones,
+} from '../../src/services/contractMilestones';
+import { money } from '../../src/services/money';
+import type { ContractMilestone } from '../../src/types';
+
+const makeMilestone = (overrides: Partial<ContractMilestone> = {}): ContractMilestone => ({
+  id: 'm-1',
+  index: 0,
+  title: 'Logo draft',
+  amount: money(40),
+  status: 'pending',
+  ...overrides,
+});
+
+describe('Contract Milestones', () => {
+  describe('getMilestoneActions', () => {
+    const active = { status: 'active' as const };
+    const payer = { role: 'creator' as const };
+    const payee = { role: 'counterparty' as const };
+
+    it('should let the payee deliver, and deliver again after a rejection', () => {
+      expect(getMilestoneActions(active, makeMilestone(), payee)).toEqual(['deliver']);
+      expect(getMilestoneActions(active, makeMilestone({ status: 'rejected' }), payee)).toEqual(['deliver']);
+      expect(getMilestoneActions(active, makeMilestone({ status: 'delivered' }), payee)).toEqual([]);
+    });
+
+    it('should let the payer release or reject delivered milestones', () => {
+      expect(getMilestoneActions(active, makeMilestone({ status: 'delivered' }), payer)).toEqual(['release', 'reject']);
+      expect(getMilestoneActions(active, makeMilestone(), payer)).toEqual([]);
+      expect(getMilestoneActions(active, makeMilestone({ status: 'released' }), payer)).toEqual([]);
+    });
+
+    it('should not allow anything until the contract is active', () => {
+      expect(getMilestoneActions({ status: 'funding' }, makeMilestone(), payee)).toEqual([]);
+      expect(getMilestoneActions({ status: 'ACTIVE' as any }, makeMilestone(), payee)).toEqual(['deliver']);
+      expect(getMilestoneActions(active, makeMilestone(), undefined)).toEqual([]);
+    });
+  });
+
+  describe('getMilestoneProgress', () => {
+    it('should add up released and remaining amounts exactly', () => {
+      const progress = getMilestoneProgress({
+        currency: 'CAD',
+        milestones: [
+          makeMilestone({ id: 'm-1', amount: money(0.1), status: 'released' }),
+          makeMilestone({ id: 'm-2', amount: money(0.2), status: 'released' }),
+          makeMilestone({ id: 'm-3', amount: money(0.3), status: 'delivered' }),
+        ],
+      });
+
+      expect(progress).toEqual({ releasedCount: 2, milestoneCount: 3, released: 0.3, remaining: 0.3 });
+    });
+  });
+
+  describe('auto-release', () => {
+    const now = new Date('2026-03-10T12:00:00.000Z');
+
+    it('should count down to the auto-release of a delivered escrow', () => {
+      const delivered = makeMilestone({ status: 'delivered', autoReleaseAt: '2026-03-13T12:00:00.000Z' });
+      expect(describeAutoRelease(delivered, now)).toBe('Releases automatically in 3 days');
+      expect(describeAutoRelease({ ...delivered, autoReleaseAt: '2026-03-10T13:00:00.000Z' }, now))
+        .toBe('Releases automatically in 1 hour');
+      expect(describeAutoRelease({ ...delivered, autoReleaseAt: '2026-03-10T11:00:00.000Z' }, now))
+        .toBe('Releasing automatically');
+      expect(describeAutoRelease({ ...delivered, status: 'rejected' }, now)).toBeNull();
+    });
+
+    it('should label release windows in days or weeks', () => {
+      expect(formatAutoReleaseWindow(72)).toBe('3 days');
+      expect(formatAutoReleaseWindow(168)).toBe('1 week');
+      expect(formatAutoReleaseWindow(336)).toBe('2 weeks');
+    });
+
+    it('should build a stable release idempotency key per milestone', () => {
+      expect(getReleaseIdempotencyKey('c-1', 'm-1')).toBe('release-c-1-m-1');
+      expect(getReleaseIdempotencyKey('c-1', 'm-1')).toBe(getReleaseIdempotencyKey('c-1', 'm-1'));
+      expect(getReleaseIdempotencyKey('c-1', 'm-2')).not.toBe(getReleaseIdempotencyKey('c-1', 'm-1'));
+    });
+  });
+
+  describe('validateMilestones', () => {
+    it('should need a description and an amount for every milestone', () => {
+      expect(validateMilestones([])).toBe('Add at least one milestone');
+      expect(validateMilestones([{ title: ' ', amount: 10 }])).toBe('Milestone 1 needs a description');
+      expect(validateMilestones([{ title: 'Draft', amount: 10 }, { title: 'Final', amount: 0 }]))
+        .toBe('Enter an amount for Final');
+      expect(validateMilestones([{ title: 'Draft', amount: 10 }])).toBeNull();
+    });
+  });
+
+  it('should only treat escrow and milestone contracts as milestone contracts', () => {
+    expect(isMilestoneContractType('escrow')).toBe(true);
+    expect(isMilestoneContractType('MILESTONE')).toBe(true);
+    expect(isMilestoneContractType('wager')).toBe(false);
+  });
+});
@@ -0,0 +1,132 @@
+import {
+  canCounterOffer,
+  diffTerms,
+  getCurrentTerms,
+  getOfferChanges,
+  getPendingOffer,
+  isAwaitingMyResponse,
+  toCounterOfferRequest,
+  validateCounterOffer,
+} from '../../src/services/contractOffers';
+import { money } from '../../src/services/money';
+import type { ContractOffer, ContractParty, ContractTerms } from '../../src/types';
+
+const makeParty = (overrides: Partial<ContractParty> = {}): ContractParty => ({
+  id: 'p-1',
+  walletId: 'w-1',
+  role: 'creator',
+  displayName: 'Alice',
+  stake: money(10),
+  outcomeIfTrue: 'win',
+  outcomeIfFalse: 'lose',
+  accepted: true,
+  funded: false,
+  ...overrides,
+} as ContractParty);
+
+const terms: ContractTerms = {
+  creatorStake: money(10),
+  counterpartyStake: money(10),
+  expiresAt: '2026-03-20T12:00:00.000Z',
+  prediction: 'team_a',
+};
+
+const makeOffer = (overrides: Partial<ContractOffer> = {}): ContractOffer => ({
+  id: 'o-1',
+  revision: 1,
+  partyId: 'p-1',
+  terms,
+  status: 'superseded',
+  createdAt: '2026-03-10T12:00:00.000Z',
+  ...overrides,
+});
+
+const creator = makeParty();
+const counterparty = makeParty({ id: 'p-2', role: 'counterparty', displayName: 'Bob', accepted: false });
+
+const makeContract = (offers?: ContractOffer[]) => ({
+  status: 'proposed' as const,
+  type: 'wager' as const,
+  currency: 'CAD',
+  expiresAt: terms.expiresAt,
+  parties: [creator, counterparty],
+  offers,
+});
+
+const countered = makeContract([
+  makeOffer(),
+  makeOffer({ id: 'o-2', revision: 2, partyId: 'p-2', status: 'pending', terms: { ...terms, counterpartyStake: money(5) } }),
+]);
+
+describe('Contract Offers', () => {
+  describe('terms', () => {
+    it('should use the latest revision, or the parties before any negotiation', () => {
+      expect(getCurrentTerms(countered).counterpartyStake).toEqual(money(5));
+      expect(getCurrentTerms(makeContract())).toEqual({
+        creatorStake: money(10),
+        counterpartyStake: money(10),
+        expiresAt: terms.expiresAt,
+        prediction: undefined,
+      });
+    });
+
+    it('should list only the terms that changed', () => {
+      expect(diffTerms(terms, { ...terms, creatorStake: money(10.001), prediction: ' team_a ' })).toEqual([]);
+      expect(diffTerms(terms, { ...terms, counterpartyStake: money(5), expiresAt: '2026-03-21T12:00:00.000Z' })).toEqual([
+        { field: 'counterpartyStake', from: money(10), to: money(5) },
+        { field: 'expiresAt', from: terms.expiresAt, to: '2026-03-21T12:00:00.000Z' },
+      ]);
+    });
+
+    it('should diff each revision against the one before it', () => {
+      expect(getOfferChanges(countered, countered.offers![1])).toEqual([{ field: 'counterpartyStake', from: money(10), to: money(5) }]);
+      expect(getOfferChanges(countered, countered.offers![0])).toEqual([]);
+    });
+  });
+
+  describe('negotiation state', () => {
+    it('should only treat a pending counter-offer as pending', () => {
+      expect(getPendingOffer(countered)?.id).toBe('o-2');
+      expect(getPendingOffer(makeContract([makeOffer({ status: 'pending' })]))).toBeUndefined();
+    });
+
+    it('should wait for the side that did not make the counter-offer', () => {
+      expect(isAwaitingMyResponse(countered, creator)).toBe(true);
+      expect(isAwaitingMyResponse(countered, counterparty)).toBe(false);
+      expect(isAwaitingMyResponse({ ...countered, status: 'funding' }, creator)).toBe(false);
+    });
+
+    it('should let the counterparty counter, and the creator counter back', () => {
+      expect(canCounterOffer(makeContract(), counterparty)).toBe(true);
+      expect(canCounterOffer(makeContract(), creator)).toBe(false);
+      expect(canCounterOffer(countered, counterparty)).toBe(false);
+      expect(canCounterOffer(countered, creator)).toBe(true);
+    });
+
+    it('should not negotiate pools, milestone contracts or accepted contracts', () => {
+      const pool = { ...makeContract(), parties: [creator, makeParty({ id: 'p-3', role: 'participant' })] };
+      expect(canCounterOffer(pool, counterparty)).toBe(false);
+      expect(canCounterOffer({ ...makeContract(), type: 'escrow' }, counterparty)).toBe(false);
+      expect(canCounterOffer({ ...makeContract(), status: 'funding' }, counterparty)).toBe(false);
+    });
+  });
+
+  describe('counter-offers', () => {
+    const now = new Date('2026-03-10T12:00:00.000Z');
+
+    it('should need positive stakes, a future expiry and at least one change', () => {
+      expect(validateCounterOffer(terms, { ...terms, counterpartyStake: money(0) }, now))
+        .toBe('Both stakes must be more than zero');
+      expect(validateCounterOffer(terms, { ...terms, expiresAt: '2026-03-09T12:00:00.000Z' }, now))
+        .toBe('Choose an expiry in the future');
+      expect(validateCounterOffer(terms, terms, now)).toBe('Change at least one term');
+      expect(validateCounterOffer(terms, { ...terms, creatorStake: money(15) }, now)).toBeNull();
+    });
+
+    it('should send only the changed terms and the message', () => {
+      expect(toCounterOfferRequest(terms, { ...terms, creatorStake: money(15), prediction: ' team_b ' }, ' Deal? '))
+        .toEqual({ creatorStake: 15, prediction: 'team_b', message: 'Deal?' });
+      expect(toCounterOfferRequest(terms, { ...terms, counterpartyStake: money(5) }, ' ')).toEqual({ counterpartyStake: 5 });
+    });
+  });
+});
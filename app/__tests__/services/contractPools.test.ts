@@ -0,0 +1,120 @@
+import {
+  calculatePoolPayouts,
+  describePoolProgress,
+  getMyParty,
+  getProjectedPayout,
+  isPoolContract,
+  validatePool,
+} from '../../src/services/contractPools';
+import { money, toAmount } from '../../src/services/money';
+import type { Contract, ContractParty, SettlementType } from '../../src/types';
+
+const makeParty = (overrides: Partial<ContractParty> = {}): ContractParty => ({
+  id: 'p-1',
+  walletId: 'w-1',
+  role: 'participant',
+  displayName: 'Alice',
+  stake: money(10),
+  outcomeIfTrue: 'win',
+  outcomeIfFalse: 'lose',
+  accepted: true,
+  funded: true,
+  ...overrides,
+} as ContractParty);
+
+const makePool = (settlementType: SettlementType = 'winner_takes_all') => ({
+  currency: 'CAD',
+  settlementType,
+  parties: [
+    makeParty({ id: 'p-1', role: 'creator', displayName: 'Alice', stake: money(10), prediction: 'Team A', payoutShare: 50 }),
+    makeParty({ id: 'p-2', displayName: 'Bob', stake: money(5), prediction: 'team a ', payoutShare: 20 }),
+    makeParty({ id: 'p-3', displayName: 'Carol', stake: money(15), prediction: 'Team B', payoutShare: 30 }),
+    makeParty({ id: 'p-4', displayName: 'Dan', stake: money(3.33), accepted: false, funded: false }),
+  ],
+});
+
+describe('Contract Pools', () => {
+  describe('parties', () => {
+    it('should find my party by ID before falling back to the role', () => {
+      const pool = makePool();
+      expect(getMyParty({ ...pool, myRole: 'participant', myPartyId: 'p-3' })?.displayName).toBe('Carol');
+      expect(getMyParty({ ...pool, myRole: 'creator' })?.displayName).toBe('Alice');
+    });
+
+    it('should only treat contracts with more than two sides as pools', () => {
+      expect(isPoolContract(makePool())).toBe(true);
+      expect(isPoolContract({
+        parties: [makeParty({ role: 'creator' }), makeParty({ id: 'p-2', role: 'counterparty' })],
+      })).toBe(false);
+    });
+  });
+
+  describe('calculatePoolPayouts', () => {
+    it('should split the pot evenly between winners without losing a cent', () => {
+      const payouts = calculatePoolPayouts(makePool(), ['p-1', 'p-2', 'p-3']);
+      expect(payouts.map((p) => toAmount(p.amount))).toEqual([11.11, 11.11, 11.11]);
+
+      const pair = calculatePoolPayouts(makePool(), ['p-2', 'p-4']);
+      expect(pair).toEqual([{ partyId: 'p-2', amount: money(16.67) }, { partyId: 'p-4', amount: money(16.66) }]);
+    });
+
+    it('should pay proportional pools by stake', () => {
+      const payouts = calculatePoolPayouts(makePool('proportional'), ['p-1', 'p-2']);
+      expect(payouts).toEqual([{ partyId: 'p-1', amount: money(22.22) }, { partyId: 'p-2', amount: money(11.11) }]);
+    });
+
+    it('should pay custom pools by the agreed shares', () => {
+      const payouts = calculatePoolPayouts(makePool('custom'), ['p-1', 'p-3']);
+      expect(payouts).toEqual([{ partyId: 'p-1', amount: money(20.83) }, { partyId: 'p-3', amount: money(12.5) }]);
+    });
+
+    it('should refund every stake when nobody wins', () => {
+      expect(calculatePoolPayouts(makePool(), []).map((p) => toAmount(p.amount))).toEqual([10, 5, 15, 3.33]);
+    });
+  });
+
+  describe('getProjectedPayout', () => {
+    it('should share with everyone who made the same prediction', () => {
+      const pool = makePool('proportional');
+      expect(getProjectedPayout(pool, 'p-2')).toEqual(money(11.11));
+      expect(getProjectedPayout(pool, 'p-3')).toEqual(money(33.33));
+      expect(getProjectedPayout(pool, 'p-4')).toBeNull();
+    });
+  });
+
+  describe('describePoolProgress', () => {
+    it('should count acceptance and funding', () => {
+      expect(describePoolProgress(makePool())).toBe('3 of 4 accepted · 3 funded');
+      expect(describePoolProgress({ parties: [makeParty(), makeParty({ id: 'p-2' })] })).toBe('Everyone has funded');
+    });
+  });
+
+  describe('validatePool', () => {
+    const participants = [
+      { alias: '@bob', stake: 5, payoutShare: 30 },
+      { alias: '@carol', stake: 15, payoutShare: 30 },
+    ];
+
+    it('should accept a valid pool', () => {
+      expect(validatePool({ participants, settlementType: 'proportional', myStake: 10 })).toBeNull();
+      expect(validatePool({ participants, settlementType: 'custom', myStake: 10, myPayoutShare: 40 })).toBeNull();
+    });
+
+    it('should need enough distinct people with stakes', () => {
+      expect(validatePool({ participants: participants.slice(0, 1), settlementType: 'winner_takes_all', myStake: 10 }))
+        .toBe('Add at least 2 people to the pool');
+      expect(validatePool({
+        participants: [...participants, { alias: '@BOB', stake: 5 }],
+        settlementType: 'winner_takes_all',
+        myStake: 10,
+      })).toBe('@BOB is in the pool twice');
+      expect(validatePool({ participants, settlementType: 'winner_takes_all', myStake: 0 })).toBe('Everyone needs a stake');
+    });
+
+    it('should need custom shares that add up to 100%', () => {
+      expect(validatePool({ participants, settlementType: 'custom', myStake: 10 })).toBe('Everyone needs a payout share');
+      expect(validatePool({ participants, settlementType: 'custom', myStake: 10, myPayoutShare: 30 }))
+        .toBe('Payout shares must add up to 100% (currently 90%)');
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import {
+  convertAmount,
+  formatFxRate,
+  formatMoney,
+  getAccountCharge,
+  getAccountCurrency,
+  getCurrencyDecimals,
+  isFxQuoteExpired,
+  needsConversion,
+  normalizeCurrency,
+  parseAmount,
+  roundToCurrency,
+  sanitizeFxQuote,
+  toMinorUnits,
+  validateAmount,
+} from '../../src/services/currency';
+import type { FxQuote } from '../../src/types';
+
+const quote: FxQuote = {
+  quoteId: 'q-1',
+  fromCurrency: 'CAD',
+  toCurrency: 'USD',
+  rate: 0.7312,
+  sourceAmount: 100,
+  targetAmount: 73.13,
+  expiresAt: '2026-03-10T12:01:00Z',
+};
+
+describe('Currency Service', () => {
+  describe('normalizeCurrency', () => {
+    it('should uppercase codes and default to CAD', () => {
+      expect(normalizeCurrency('usd')).toBe('USD');
+      expect(normalizeCurrency(undefined)).toBe('CAD');
+      expect(normalizeCurrency('dollars')).toBe('CAD');
+      expect(getAccountCurrency({ currency: 'eur' })).toBe('EUR');
+      expect(getAccountCurrency(null)).toBe('CAD');
+    });
+  });
+
+  describe('minor units', () => {
+    it('should use the currency minor unit', () => {
+      expect(getCurrencyDecimals('CAD')).toBe(2);
+      expect(getCurrencyDecimals('JPY')).toBe(0);
+      expect(getCurrencyDecimals('KWD')).toBe(3);
+    });
+
+    it('should round through integer minor units', () => {
+      expect(toMinorUnits(0.1 + 0.2, 'CAD')).toBe(30);
+      expect(toMinorUnits(1.005, 'CAD')).toBe(100);
+      expect(roundToCurrency(1250.6, 'JPY')).toBe(1251);
+      expect(roundToCurrency(10.12345, 'KWD')).toBe(10.123);
+    });
+  });
+
+  describe('formatMoney', () => {
+    it('should format with the currency symbol and decimals', () => {
+      expect(formatMoney(12.5)).toBe('$12.50');
+      expect(formatMoney(12.5, 'USD')).toBe('US$12.50');
+      expect(formatMoney(1250, 'JPY')).toBe('JP¥1,250');
+    });
+  });
+
+  describe('parseAmount / validateAmount', () => {
+    it('should parse plain and grouped amounts', () => {
+      expect(parseAmount('12.5')).toBe(12.5);
+      expect(parseAmount('1,250.00')).toBe(1250);
+      expect(parseAmount('abc')).toBeNull();
+      expect(parseAmount('.')).toBeNull();
+    });
+
+    it('should reject more decimals than the currency allows', () => {
+      expect(validateAmount('10.50', 'CAD')).toBeNull();
+      expect(validateAmount('10.505', 'CAD')).toBe('CAD amounts can have at most 2 decimal places');
+      expect(validateAmount('1000', 'JPY')).toBeNull();
+      expect(validateAmount('1000.5', 'JPY')).toBe("JPY amounts can't include cents");
+    });
+
+    it('should reject empty, zero and over-limit amounts', () => {
+      expect(validateAmount('', 'CAD')).toBe('Please enter a valid amount');
+      expect(validateAmount('0', 'CAD')).toBe('Please enter a valid amount');
+      expect(validateAmount('100.01', 'CAD', 100)).toBe('The most you can send is $100.00');
+      expect(validateAmount('100', 'CAD', 100)).toBeNull();
+    });
+  });
+
+  describe('FX', () => {
+    it('should only convert between different currencies', () => {
+      expect(needsConversion('CAD', 'usd')).toBe(true);
+      expect(needsConversion('CAD', 'cad')).toBe(false);
+      expect(needsConversion('CAD', undefined)).toBe(false);
+    });
+
+    it('should convert and describe the rate', () => {
+      expect(convertAmount(100, 0.73125, 'USD')).toBe(73.13);
+      expect(convertAmount(100, 109.456, 'JPY')).toBe(10946);
+      expect(formatFxRate(quote)).toBe('1 CAD = 0.7312 USD');
+    });
+
+    it('should expire quotes at expiresAt', () => {
+      expect(isFxQuoteExpired(quote, new Date('2026-03-10T12:00:59Z'))).toBe(false);
+      expect(isFxQuoteExpired(quote, new Date('2026-03-10T12:01:00Z'))).toBe(true);
+    });
+
+    it('should sanitize quotes and compute a missing target amount', () => {
+      const sanitized = sanitizeFxQuote({ quoteId: 'q-2', rate: '0.5', expiresAt: quote.expiresAt }, 'cad', 'usd', 10.01);
+      expect(sanitized).toEqual({
+        quoteId: 'q-2',
+        fromCurrency: 'CAD',
+        toCurrency: 'USD',
+        rate: 0.5,
+        sourceAmount: 10.01,
+        targetAmount: 5.01,
+        expiresAt: quote.expiresAt,
+      });
+      expect(sanitizeFxQuote({ rate: 0 }, 'CAD', 'USD', 10)).toBeNull();
+      expect(sanitizeFxQuote(null, 'CAD', 'USD', 10)).toBeNull();
+    });
+
+    it('should charge a foreign-priced payment in the account currency', () => {
+      const usdToCad = { ...quote, fromCurrency: 'USD', toCurrency: 'CAD', rate: 1.3675, sourceAmount: 23, targetAmount: 31.45 };
+      expect(getAccountCharge(23, 3, 'USD', 'cad', usdToCad)).toEqual({ amount: 31.45, tipAmount: 4.1, currency: 'CAD' });
+      expect(getAccountCharge(23, 3, 'CAD', 'CAD', null)).toEqual({ amount: 23, tipAmount: 3, currency: 'CAD' });
+    });
+  });
+});
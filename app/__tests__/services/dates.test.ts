@@ -0,0 +1,28 @@
+import { isValidDateString, parseDateString, toDateString } from '../../src/services/dates';
+
+describe('Dates', () => {
+  describe('toDateString', () => {
+    it('should format local dates as YYYY-MM-DD', () => {
+      expect(toDateString(new Date(2026, 0, 5))).toBe('2026-01-05');
+      expect(toDateString(new Date(2026, 0, 5, 23, 59))).toBe('2026-01-05');
+    });
+  });
+
+  describe('parseDateString', () => {
+    it('should parse as local midnight', () => {
+      expect(parseDateString('2026-01-05')).toEqual(new Date(2026, 0, 5));
+    });
+  });
+
+  describe('isValidDateString', () => {
+    it('should accept real calendar dates', () => {
+      expect(isValidDateString('2026-02-28')).toBe(true);
+    });
+
+    it('should reject malformed or impossible dates', () => {
+      expect(isValidDateString('2026-2-28')).toBe(false);
+      expect(isValidDateString('2026-02-30')).toBe(false);
+      expect(isValidDateString('next week')).toBe(false);
+    });
+  });
+});
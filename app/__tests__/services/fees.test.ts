@@ -0,0 +1,105 @@
+import {
+  DEFAULT_FEE_SCHEDULE,
+  calculateFee,
+  calculateMerchantFee,
+  describeFeeSchedule,
+  describeFeeTier,
+  sanitizeFeeSchedule,
+  setActiveFeeSchedule,
+} from '../../src/services/fees';
+import type { FeeSchedule } from '../../src/types';
+
+const percentageSchedule: FeeSchedule = {
+  scheduleId: 'pct',
+  currency: 'CAD',
+  tiers: [{ minAmount: 0, percentage: 2.9, flat: 0.3, minFee: 0.5, maxFee: 5 }],
+  categoryTiers: {
+    FOOD_AND_BEVERAGE: [{ minAmount: 0, percentage: 1.5 }],
+  },
+};
+
+describe('Fees Service', () => {
+  afterEach(() => {
+    setActiveFeeSchedule(null);
+  });
+
+  describe('calculateFee', () => {
+    it('should apply the fallback tiers at the $200 boundary', () => {
+      expect(calculateFee(199.99, DEFAULT_FEE_SCHEDULE)).toBe(0.25);
+      expect(calculateFee(200, DEFAULT_FEE_SCHEDULE)).toBe(0.5);
+      expect(calculateFee(1500, DEFAULT_FEE_SCHEDULE)).toBe(0.5);
+    });
+
+    it('should charge nothing for zero or negative amounts', () => {
+      expect(calculateFee(0, DEFAULT_FEE_SCHEDULE)).toBe(0);
+      expect(calculateFee(-10, DEFAULT_FEE_SCHEDULE)).toBe(0);
+    });
+
+    it('should combine percentage and flat fees with a minimum and cap', () => {
+      expect(calculateFee(100, percentageSchedule)).toBe(3.2);
+      expect(calculateFee(5, percentageSchedule)).toBe(0.5);
+      expect(calculateFee(1000, percentageSchedule)).toBe(5);
+    });
+
+    it('should use category overrides when present', () => {
+      expect(calculateFee(10, percentageSchedule, 'FOOD_AND_BEVERAGE')).toBe(0.15);
+      expect(calculateFee(10, percentageSchedule, 'RETAIL')).toBe(0.59);
+    });
+
+    it('should never charge more than the payment', () => {
+      expect(calculateFee(0.1, DEFAULT_FEE_SCHEDULE)).toBe(0.1);
+    });
+  });
+
+  describe('describeFeeSchedule', () => {
+    it('should label each tier by its amount range', () => {
+      expect(describeFeeSchedule(DEFAULT_FEE_SCHEDULE)).toEqual([
+        { label: 'Under $200.00', value: '$0.25/transaction' },
+        { label: '$200.00 or more', value: '$0.50/transaction' },
+      ]);
+    });
+
+    it('should format amounts in the schedule currency', () => {
+      expect(describeFeeSchedule({ ...DEFAULT_FEE_SCHEDULE, currency: 'USD' })[0]).toEqual({
+        label: 'Under US$200.00',
+        value: 'US$0.25/transaction',
+      });
+    });
+
+    it('should describe a single percentage tier', () => {
+      expect(describeFeeSchedule(percentageSchedule)).toEqual([
+        { label: 'Every payment', value: '2.9% + $0.30, min $0.50, max $5.00' },
+      ]);
+      expect(describeFeeTier({ minAmount: 0, percentage: 1.5 })).toBe('1.5%');
+    });
+  });
+
+  describe('sanitizeFeeSchedule', () => {
+    it('should sort tiers and keep valid category overrides', () => {
+      const schedule = sanitizeFeeSchedule({
+        scheduleId: 's-2',
+        tiers: [{ minAmount: 200, flat: 0.75 }, { minAmount: 0, flat: 0.3 }],
+        categoryTiers: { RETAIL: [{ minAmount: 0, percentage: 1 }], OTHER: 'bad' },
+      });
+      expect(schedule?.tiers.map((t) => t.minAmount)).toEqual([0, 200]);
+      expect(schedule?.categoryTiers).toEqual({ RETAIL: [expect.objectContaining({ percentage: 1 })] });
+      expect(schedule?.currency).toBe('CAD');
+    });
+
+    it('should reject schedules without usable tiers', () => {
+      expect(sanitizeFeeSchedule(null)).toBeNull();
+      expect(sanitizeFeeSchedule({ tiers: [] })).toBeNull();
+      expect(sanitizeFeeSchedule({ tiers: [{ minAmount: 0, flat: -1 }] })).toBeNull();
+      expect(sanitizeFeeSchedule({ tiers: [{ flat: 0.25 }] })).toBeNull();
+    });
+  });
+
+  describe('calculateMerchantFee', () => {
+    it('should use the active schedule and fall back to the defaults', () => {
+      setActiveFeeSchedule(percentageSchedule);
+      expect(calculateMerchantFee(100)).toBe(3.2);
+      setActiveFeeSchedule(null);
+      expect(calculateMerchantFee(100)).toBe(0.25);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { File } from 'expo-file-system/next';
+import * as Sharing from 'expo-sharing';
+import {
+  buildCsv,
+  buildOfx,
+  getExportDateRange,
+  historyExportService,
+  toExportRows,
+} from '../../src/services/historyExport';
+import { transferSimApi } from '../../src/services/transferSim';
+import { money } from '../../src/services/money';
+import type { Transfer, TransferWithRecipientType } from '../../src/types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('uuid', () => ({
+  v4: () => 'uuid',
+}));
+
+const mockWrite = jest.fn();
+jest.mock('expo-file-system/next', () => ({
+  Paths: { cache: 'file:///cache' },
+  File: jest.fn().mockImplementation((dir: string, name: string) => ({
+    uri: `${dir}/${name}`,
+    create: jest.fn(),
+    write: mockWrite,
+  })),
+}));
+
+jest.mock('expo-sharing', () => ({
+  isAvailableAsync: jest.fn().mockResolvedValue(true),
+  shareAsync: jest.fn(),
+}));
+
+jest.mock('../../src/services/transferSim', () => ({
+  transferSimApi: {
+    getTransfers: jest.fn(),
+    getMerchantTransfersSince: jest.fn(),
+  },
+}));
+
+const mockedGetMerchantTransfersSince = transferSimApi.getMerchantTransfersSince as jest.Mock;
+const mockedGetTransfers = transferSimApi.getTransfers as jest.Mock;
+
+const merchantPayment = (id: string, createdAt: Date, overrides: Partial<TransferWithRecipientType> = {}): TransferWithRecipientType => ({
+  transferId: id,
+  direction: 'received',
+  amount: money(9.75),
+  currency: 'CAD',
+  status: 'COMPLETED',
+  senderDisplayName: 'Jane D.',
+  senderAlias: '@jane',
+  feeAmount: money(0.25),
+  grossAmount: money(10),
+  createdAt: createdAt.toISOString(),
+  ...overrides,
+});
+
+const sentTransfer: Transfer = {
+  transferId: 'tr-sent',
+  direction: 'sent',
+  amount: money(25),
+  currency: 'CAD',
+  status: 'COMPLETED',
+  recipientDisplayName: 'Smith, "Bob"',
+  recipientAlias: '@bob',
+  description: '=SUM(A1)',
+  createdAt: '2026-03-05T12:00:00.000Z',
+};
+
+describe('History Export Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getExportDateRange', () => {
+    const today = new Date(2026, 2, 15);
+
+    it('should cover the whole of last month', () => {
+      expect(getExportDateRange('lastMonth', today)).toEqual({ fromDate: '2026-02-01', toDate: '2026-02-28' });
+    });
+
+    it('should include today in the last 30 days', () => {
+      expect(getExportDateRange('last30Days', today)).toEqual({ fromDate: '2026-02-14', toDate: '2026-03-15' });
+    });
+
+    it('should roll back into last year for January', () => {
+      expect(getExportDateRange('lastMonth', new Date(2026, 0, 10))).toEqual({ fromDate: '2025-12-01', toDate: '2025-12-31' });
+    });
+  });
+
+  describe('toExportRows', () => {
+    it('should split merchant payments into gross, fee and net', () => {
+      const [row] = toExportRows([merchantPayment('m-1', new Date(2026, 2, 1))], 'merchant');
+
+      expect(row).toMatchObject({ gross: 10, fee: 0.25, net: 9.75, counterpartyAlias: '@jane' });
+    });
+
+    it('should not apply fees to personal transfers', () => {
+      const [row] = toExportRows([sentTransfer], 'personal');
+
+      expect(row).toMatchObject({ gross: 25, fee: 0, net: 25, counterpartyName: 'Smith, "Bob"' });
+    });
+  });
+
+  describe('buildCsv', () => {
+    it('should quote separators and neutralize formulas', () => {
+      const csv = buildCsv(toExportRows([sentTransfer], 'personal'));
+      const [header, line] = csv.split('\r\n');
+
+      expect(header).toBe('Date,Reference,Direction,Status,Counterparty,Counterparty Alias,Description,Gross,Fee,Net,Currency');
+      expect(line).toBe('2026-03-05T12:00:00.000Z,tr-sent,sent,COMPLETED,"Smith, ""Bob""",@bob,\'=SUM(A1),-25.00,0.00,-25.00,CAD');
+    });
+  });
+
+  describe('buildOfx', () => {
+    it('should post only completed transfers at their net amount', () => {
+      const rows = toExportRows([
+        merchantPayment('m-1', new Date(2026, 2, 1)),
+        merchantPayment('m-2', new Date(2026, 2, 2), { status: 'REVERSED' }),
+      ], 'merchant');
+
+      const ofx = buildOfx(rows, { fromDate: '2026-03-01', toDate: '2026-03-31' }, 'merchant-1');
+
+      expect(ofx).toContain('<FITID>m-1');
+      expect(ofx).not.toContain('<FITID>m-2');
+      expect(ofx).toContain('<TRNTYPE>CREDIT');
+      expect(ofx).toContain('<TRNAMT>9.75');
+      expect(ofx).toContain('<MEMO>Gross 10.00 Fee 0.25');
+      expect(ofx).toContain('<ACCTID>merchant-1');
+    });
+  });
+
+  describe('exportHistory', () => {
+    it('should fetch merchant history from the start of the range and drop later payments', async () => {
+      const inRange = Array.from({ length: 100 }, (_, i) => merchantPayment(`m-${i}`, new Date(2026, 2, 20, 12, 0, 0, -i * 1000)));
+      const later = [merchantPayment('next-month', new Date(2026, 3, 2))];
+      mockedGetMerchantTransfersSince.mockResolvedValueOnce([...later, ...inRange]);
+
+      const count = await historyExportService.exportHistory(
+        'merchant',
+        'csv',
+        { fromDate: '2026-03-01', toDate: '2026-03-31' },
+        'merchant-1'
+      );
+
+      expect(count).toBe(100);
+      expect(mockedGetMerchantTransfersSince).toHaveBeenCalledWith(new Date(2026, 2, 1), 5000);
+      expect(File).toHaveBeenCalledWith('file:///cache', 'mwsim-merchant-2026-03-01-to-2026-03-31.csv');
+      expect(Sharing.shareAsync).toHaveBeenCalledWith(
+        'file:///cache/mwsim-merchant-2026-03-01-to-2026-03-31.csv',
+        expect.objectContaining({ mimeType: 'text/csv' })
+      );
+    });
+
+    it('should pass the date range to TransferSim for personal history', async () => {
+      mockedGetTransfers.mockResolvedValue({ transfers: [sentTransfer], total: 1 });
+
+      await historyExportService.exportHistory('personal', 'ofx', { fromDate: '2026-03-01', toDate: '2026-03-31' });
+
+      expect(mockedGetTransfers).toHaveBeenCalledWith('all', 100, 0, { fromDate: '2026-03-01', toDate: '2026-03-31' });
+      expect(mockWrite.mock.calls[0][0]).toContain('<TRNAMT>-25.00');
+    });
+
+    it('should reject an empty range', async () => {
+      mockedGetTransfers.mockResolvedValue({ transfers: [], total: 0 });
+
+      await expect(
+        historyExportService.exportHistory('personal', 'csv', { fromDate: '2026-03-01', toDate: '2026-03-31' })
+      ).rejects.toThrow('No transactions in this date range');
+      expect(Sharing.shareAsync).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { localLedger, MAX_LEDGER_RECORDS } from '../../src/services/localLedger';
+import { transferSimApi } from '../../src/services/transferSim';
+import { money } from '../../src/services/money';
+import type { Transfer } from '../../src/types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('../../src/services/transferSim', () => ({
+  transferSimApi: {
+    getTransfers: jest.fn(),
+    getMerchantTransfers: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/services/api', () => ({
+  api: {
+    getPaymentHistory: jest.fn(),
+    getContracts: jest.fn(),
+  },
+}));
+
+const mockedGetTransfers = transferSimApi.getTransfers as jest.Mock;
+
+// Transfer N was created N minutes after midnight, so larger N is newer
+const makeTransfer = (n: number, status: Transfer['status'] = 'COMPLETED'): Transfer => ({
+  transferId: `tr-${n}`,
+  amount: money(n),
+  currency: 'CAD',
+  status,
+  direction: 'sent',
+  createdAt: new Date(Date.UTC(2026, 2, 1) + n * 60000).toISOString(),
+});
+
+// Newest-first list, like the server returns
+const makeTransfers = (from: number, to: number): Transfer[] => {
+  const transfers: Transfer[] = [];
+  for (let n = to; n >= from; n--) transfers.push(makeTransfer(n));
+  return transfers;
+};
+
+const servePages = (all: Transfer[]) => {
+  mockedGetTransfers.mockImplementation(async (_direction: string, limit: number, offset: number) => ({
+    transfers: all.slice(offset, offset + limit),
+    total: all.length,
+  }));
+};
+
+describe('Local Ledger Service', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await AsyncStorage.clear();
+  });
+
+  describe('upsertRecords', () => {
+    it('should store records newest first without moving the cursor', async () => {
+      await localLedger.upsertRecords('transfers', [makeTransfer(2), makeTransfer(5), makeTransfer(3)]);
+
+      const records = await localLedger.getRecords('transfers');
+      expect(records.map((t) => t.transferId)).toEqual(['tr-5', 'tr-3', 'tr-2']);
+      const info = await localLedger.getSyncInfo('transfers');
+      expect(info.cursor).toBeNull();
+    });
+
+    it('should replace existing records with the same ID', async () => {
+      await localLedger.upsertRecords('transfers', [makeTransfer(4, 'PENDING')]);
+      await localLedger.upsertRecords('transfers', [makeTransfer(4, 'COMPLETED')]);
+
+      const records = await localLedger.getRecords('transfers');
+      expect(records).toHaveLength(1);
+      expect(records[0].status).toBe('COMPLETED');
+    });
+  });
+
+  describe('syncCollection', () => {
+    it('should fetch everything on the first sync', async () => {
+      servePages(makeTransfers(1, 20));
+
+      const result = await localLedger.syncCollection('transfers');
+
+      expect(result.added).toBe(20);
+      expect(mockedGetTransfers).toHaveBeenCalledTimes(1);
+      const info = await localLedger.getSyncInfo('transfers');
+      expect(info.cursor).toBe(makeTransfer(20).createdAt);
+      expect(info.lastSyncedAt).not.toBeNull();
+    });
+
+    it('should stop paging once a page reaches the cursor', async () => {
+      servePages(makeTransfers(1, 20));
+      await localLedger.syncCollection('transfers');
+      mockedGetTransfers.mockClear();
+      // 90 newer transfers arrived: the second page of 50 reaches the cursor
+      servePages(makeTransfers(1, 110));
+
+      const result = await localLedger.syncCollection('transfers');
+
+      expect(mockedGetTransfers.mock.calls.map((call) => call[2])).toEqual([0, 50]);
+      expect(result.added).toBe(90);
+      expect(result.records).toHaveLength(110);
+    });
+
+    it('should refresh the status of recent records', async () => {
+      await localLedger.upsertRecords('transfers', [makeTransfer(2), makeTransfer(3, 'PENDING')]);
+      servePages([makeTransfer(3, 'COMPLETED'), makeTransfer(2)]);
+
+      const result = await localLedger.syncCollection('transfers');
+
+      expect(result.added).toBe(0);
+      expect(result.records[0].status).toBe('COMPLETED');
+    });
+
+    it('should share a sync that is already in flight', async () => {
+      servePages(makeTransfers(1, 5));
+
+      const [first, second] = await Promise.all([
+        localLedger.syncCollection('transfers'),
+        localLedger.syncCollection('transfers'),
+      ]);
+
+      expect(mockedGetTransfers).toHaveBeenCalledTimes(1);
+      expect(second).toBe(first);
+    });
+
+    it('should keep records upserted while the sync was fetching', async () => {
+      mockedGetTransfers.mockImplementationOnce(async () => {
+        await localLedger.upsertRecords('transfers', [makeTransfer(9)]);
+        return { transfers: makeTransfers(1, 3), total: 3 };
+      });
+
+      const result = await localLedger.syncCollection('transfers');
+
+      expect(result.records.map((t) => t.transferId)).toEqual(['tr-9', 'tr-3', 'tr-2', 'tr-1']);
+      expect(await localLedger.getRecords('transfers')).toHaveLength(4);
+    });
+
+    it('should keep stored records when the network fails', async () => {
+      await localLedger.upsertRecords('transfers', [makeTransfer(1)]);
+      mockedGetTransfers.mockRejectedValue(new Error('Network Error'));
+
+      await expect(localLedger.syncCollection('transfers')).rejects.toThrow('Network Error');
+
+      const records = await localLedger.getRecords('transfers');
+      expect(records).toHaveLength(1);
+    });
+  });
+
+  it('should cap stored records', async () => {
+    await localLedger.upsertRecords('transfers', makeTransfers(1, MAX_LEDGER_RECORDS + 10));
+
+    const records = await localLedger.getRecords('transfers');
+    expect(records).toHaveLength(MAX_LEDGER_RECORDS);
+    expect(records[0].transferId).toBe(`tr-${MAX_LEDGER_RECORDS + 10}`);
+    expect(records[records.length - 1].transferId).toBe('tr-11');
+  });
+
+  it('should clear all collections', async () => {
+    await localLedger.upsertRecords('transfers', [makeTransfer(1)]);
+    await localLedger.clearAll();
+
+    expect(await localLedger.getRecords('transfers')).toEqual([]);
+  });
+
+  it('should ignore ledgers saved with decimal amounts and clear them on logout', async () => {
+    const legacy = { records: [{ ...makeTransfer(1), amount: 1 }], cursor: null, lastSyncedAt: null };
+    await AsyncStorage.setItem('mwsim_ledger_transfers', JSON.stringify(legacy));
+
+    expect(await localLedger.getRecords('transfers')).toEqual([]);
+
+    await localLedger.clearAll();
+    expect(await AsyncStorage.getItem('mwsim_ledger_transfers')).toBeNull();
+  });
+});
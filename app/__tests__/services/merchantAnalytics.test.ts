@@ -0,0 +1,169 @@
+import {
+  summarizePeriodStats,
+  summarizeTransfers,
+  percentChange,
+  buildDailySeries,
+  buildActivityHeatmap,
+  countRepeatCustomers,
+  computeMerchantAnalytics,
+  merchantAnalyticsService,
+} from '../../src/services/merchantAnalytics';
+import { transferSimApi } from '../../src/services/transferSim';
+import { money } from '../../src/services/money';
+import type { MerchantDashboardResponse, TransferWithRecipientType } from '../../src/types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('uuid', () => ({
+  v4: () => 'uuid',
+}));
+
+jest.mock('../../src/services/transferSim', () => ({
+  transferSimApi: {
+    getMerchantDashboard: jest.fn(),
+    getMerchantTransfersSince: jest.fn(),
+  },
+}));
+
+const mockedGetMerchantDashboard = transferSimApi.getMerchantDashboard as jest.Mock;
+const mockedGetMerchantTransfersSince = transferSimApi.getMerchantTransfersSince as jest.Mock;
+
+const payment = (id: string, createdAt: Date, overrides: Partial<TransferWithRecipientType> = {}): TransferWithRecipientType => ({
+  transferId: id,
+  direction: 'received',
+  amount: money(9.75),
+  currency: 'CAD',
+  status: 'COMPLETED',
+  senderAlias: '@jane',
+  feeAmount: money(0.25),
+  grossAmount: money(10),
+  createdAt: createdAt.toISOString(),
+  ...overrides,
+});
+
+const dashboard: MerchantDashboardResponse = {
+  merchantId: 'm-1',
+  merchantName: 'Corner Cafe',
+  today: { totalReceived: '20.00', totalTransactions: 2, totalFees: '0.50' },
+  last7Days: { totalReceived: '100.00', totalTransactions: 8, totalFees: '2.00' },
+  last30Days: { totalReceived: '400.00', totalTransactions: 32, totalFees: '8.00' },
+  allTime: { totalReceived: '1000.00', totalTransactions: 80, totalFees: '20.00' },
+  recentTransactions: [],
+};
+
+// Wednesday 2026-03-11, 15:00 local
+const now = new Date(2026, 2, 11, 15, 0, 0);
+
+describe('Merchant Analytics Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('summaries', () => {
+    it('should keep fees and all-time totals from the dashboard response', () => {
+      expect(summarizePeriodStats(dashboard.allTime)).toEqual({
+        gross: 1000,
+        fees: 20,
+        refunds: 0,
+        net: 980,
+        transactions: 80,
+        averageTicket: 12.5,
+      });
+      expect(summarizePeriodStats(undefined).transactions).toBe(0);
+    });
+
+    it('should total completed payments and subtract refunds from net', () => {
+      const summary = summarizeTransfers([
+        payment('a', now),
+        payment('b', now, { grossAmount: money(30), amount: money(29.75), refundedAmount: money(5) }),
+        payment('c', now, { status: 'REVERSED', refundedAmount: money(9.75) }),
+        payment('d', now, { status: 'DEBIT_FAILED' }),
+      ]);
+
+      expect(summary).toEqual({
+        gross: 50,
+        fees: 0.75,
+        refunds: 14.75,
+        net: 34.5,
+        transactions: 3,
+        averageTicket: 16.67,
+      });
+    });
+
+    it('should report percent change, or null without a baseline', () => {
+      expect(percentChange(150, 100)).toBe(50);
+      expect(percentChange(80, 100)).toBe(-20);
+      expect(percentChange(10, 0)).toBeNull();
+    });
+  });
+
+  describe('distributions', () => {
+    it('should fill every day of the series, including days without sales', () => {
+      const series = buildDailySeries([
+        payment('a', new Date(2026, 2, 9, 10)),
+        payment('b', new Date(2026, 2, 11, 9)),
+        payment('c', new Date(2026, 2, 11, 12)),
+      ], 3, now);
+
+      expect(series.map((day) => [day.date, day.gross, day.transactions])).toEqual([
+        ['2026-03-09', 10, 1],
+        ['2026-03-10', 0, 0],
+        ['2026-03-11', 20, 2],
+      ]);
+    });
+
+    it('should bucket payments by weekday and hour', () => {
+      const heatmap = buildActivityHeatmap([
+        payment('a', new Date(2026, 2, 11, 9, 15)),
+        payment('b', new Date(2026, 2, 11, 9, 45)),
+        payment('c', new Date(2026, 2, 8, 17, 0)),
+      ]);
+
+      expect(heatmap.cells[3][9]).toBe(2);
+      expect(heatmap.cells[0][17]).toBe(1);
+      expect(heatmap.byHour[9]).toBe(2);
+      expect(heatmap.byWeekday).toEqual([1, 0, 0, 2, 0, 0, 0]);
+      expect(heatmap.max).toBe(2);
+    });
+
+    it('should count repeat customers by sender alias', () => {
+      expect(countRepeatCustomers([
+        payment('a', now, { senderAlias: '@Jane' }),
+        payment('b', now, { senderAlias: '@jane' }),
+        payment('c', now, { senderAlias: '@bob' }),
+        payment('d', now, { senderAlias: undefined }),
+      ])).toEqual({ uniqueCustomers: 2, repeatCustomers: 1, repeatRate: 0.5 });
+    });
+  });
+
+  describe('computeMerchantAnalytics', () => {
+    it('should compare the period with the one before it', () => {
+      const analytics = computeMerchantAnalytics(dashboard, [
+        payment('now-1', new Date(2026, 2, 11, 9)),
+        payment('now-2', new Date(2026, 2, 5, 9)),
+        payment('prev-1', new Date(2026, 2, 4, 9)),
+        payment('old', new Date(2026, 1, 1, 9)),
+      ], '7d', now);
+
+      expect(analytics.current.transactions).toBe(2);
+      expect(analytics.previous.transactions).toBe(1);
+      expect(analytics.comparison.transactions).toBe(100);
+      expect(analytics.daily).toHaveLength(7);
+      expect(analytics.allTime.gross).toBe(1000);
+    });
+  });
+
+  describe('load', () => {
+    it('should fetch merchant transfers back to the start of the previous period', async () => {
+      mockedGetMerchantDashboard.mockResolvedValue(dashboard);
+      mockedGetMerchantTransfersSince.mockResolvedValue([payment('a', new Date(2026, 2, 10))]);
+
+      const analytics = await merchantAnalyticsService.load('7d', now);
+
+      expect(mockedGetMerchantTransfersSince).toHaveBeenCalledWith(new Date(2026, 1, 26));
+      expect(analytics.current.transactions).toBe(1);
+    });
+  });
+});
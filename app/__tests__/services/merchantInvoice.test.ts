@@ -0,0 +1,78 @@
+import {
+  calculateSubtotal,
+  buildInvoiceOrderDetails,
+  calculateOrderTotal,
+  validateInvoice,
+} from '../../src/services/merchantInvoice';
+import type { OrderLineItem } from '../../src/types';
+
+const items: OrderLineItem[] = [
+  { name: 'Latte', quantity: 2, unitPrice: 4.75 },
+  { name: 'Croissant', quantity: 1, unitPrice: 3.5 },
+];
+
+describe('Merchant Invoice Service', () => {
+  describe('calculateSubtotal', () => {
+    it('should sum quantity times unit price', () => {
+      expect(calculateSubtotal(items)).toBe(13);
+    });
+
+    it('should round weighted quantities to cents', () => {
+      expect(calculateSubtotal([{ name: 'Coffee beans', quantity: 0.333, unitPrice: 24.99 }])).toBe(8.32);
+    });
+  });
+
+  describe('buildInvoiceOrderDetails', () => {
+    it('should build items and subtotal without tax or discounts', () => {
+      const details = buildInvoiceOrderDetails({ items });
+
+      expect(details).toEqual({ version: 1, items, subtotal: 13 });
+      expect(calculateOrderTotal(details)).toBe(13);
+    });
+
+    it('should apply tax after discounts', () => {
+      const details = buildInvoiceOrderDetails({
+        items,
+        taxRate: 0.13,
+        taxLabel: 'HST',
+        discounts: [{ amount: 3, description: 'Loyalty' }],
+      });
+
+      expect(details.tax).toEqual({ amount: 1.3, rate: 0.13, label: 'HST' });
+      expect(calculateOrderTotal(details)).toBe(11.3);
+    });
+  });
+
+  describe('calculateOrderTotal', () => {
+    it('should include shipping and fees, and never go below zero', () => {
+      expect(calculateOrderTotal({
+        items,
+        shipping: { amount: 5 },
+        fees: [{ label: 'Bag', amount: 0.1 }],
+      })).toBe(18.1);
+      expect(calculateOrderTotal({ subtotal: 5, discounts: [{ amount: 10 }] })).toBe(0);
+    });
+  });
+
+  describe('validateInvoice', () => {
+    it('should accept a complete invoice', () => {
+      expect(validateInvoice({ items, taxRate: 0.05 })).toBeNull();
+    });
+
+    it('should reject missing items, names, quantities and prices', () => {
+      expect(validateInvoice({ items: [] })).toBe('Add at least one item');
+      expect(validateInvoice({ items: [{ name: ' ', quantity: 1, unitPrice: 1 }] })).toBe('Every item needs a name');
+      expect(validateInvoice({ items: [{ name: 'Tea', quantity: NaN, unitPrice: 1 }] })).toBe('Enter a quantity for Tea');
+      expect(validateInvoice({ items: [{ name: 'Tea', quantity: 1, unitPrice: NaN }] })).toBe('Enter a price for Tea');
+    });
+
+    it('should reject invalid tax rates and discounts', () => {
+      expect(validateInvoice({ items, taxRate: 1.3 })).toBe('Tax rate must be between 0% and 100%');
+      expect(validateInvoice({ items, discounts: [{ amount: NaN }] })).toBe('Discounts must be greater than zero');
+    });
+
+    it('should reject a zero total', () => {
+      expect(validateInvoice({ items, discounts: [{ amount: 20 }] })).toBe('Invoice total must be greater than zero');
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { merchantPosterService, renderMerchantPosterHtml } from '../../src/services/merchantPoster';
+import type { MerchantProfile } from '../../src/types';
+
+jest.mock('expo-print', () => ({
+  printAsync: jest.fn(),
+  printToFileAsync: jest.fn(),
+}));
+
+jest.mock('expo-sharing', () => ({
+  isAvailableAsync: jest.fn(),
+  shareAsync: jest.fn(),
+}));
+
+const merchant: MerchantProfile = {
+  merchantId: 'merchant-1',
+  merchantName: "Joe's <Java>",
+  merchantCategory: 'FOOD_AND_BEVERAGE',
+  primaryAlias: '@javajoes',
+  receivingAccountId: 'acc-1',
+  receivingBankName: 'BSIM Bank',
+  isActive: true,
+  createdAt: '2026-01-01T00:00:00.000Z',
+};
+
+describe('Merchant Poster Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('renderMerchantPosterHtml', () => {
+    it('should show the category icon when there is no logo', () => {
+      const html = renderMerchantPosterHtml({ merchant, qrImageBase64: 'QRDATA', paperSize: 'letter' });
+
+      expect(html).toContain('☕');
+      expect(html).toContain('Food &amp; Beverage');
+      expect(html).toContain("Joe&#39;s &lt;Java&gt;");
+      expect(html).toContain('data:image/png;base64,QRDATA');
+      expect(html).not.toContain('class="logo"');
+    });
+
+    it('should use the merchant logo when available', () => {
+      const html = renderMerchantPosterHtml({
+        merchant: { ...merchant, logoImageUrl: 'https://cdn.example/logo.png' },
+        qrImageBase64: 'QRDATA',
+        paperSize: 'a4',
+      });
+
+      expect(html).toContain('<img class="logo" src="https://cdn.example/logo.png" />');
+      expect(html).toContain('size: 595pt 842pt');
+    });
+
+    it('should print the alias for payers who cannot scan', () => {
+      const withDefault = renderMerchantPosterHtml({ merchant, qrImageBase64: 'QRDATA', paperSize: 'a5' });
+      const withOverride = renderMerchantPosterHtml({ merchant, qrImageBase64: 'QRDATA', paperSize: 'a5', alias: '@joe' });
+
+      expect(withDefault).toContain('<strong>@javajoes</strong>');
+      expect(withOverride).toContain('<strong>@joe</strong>');
+    });
+  });
+
+  it('should export the poster at the chosen paper size', async () => {
+    (Print.printToFileAsync as jest.Mock).mockResolvedValue({ uri: 'file:///tmp/poster.pdf' });
+    (Sharing.isAvailableAsync as jest.Mock).mockResolvedValue(true);
+
+    await merchantPosterService.sharePdf({ merchant, qrImageBase64: 'QRDATA', paperSize: 'card4x6' });
+
+    expect(Print.printToFileAsync).toHaveBeenCalledWith(expect.objectContaining({ width: 288, height: 432 }));
+    expect(Sharing.shareAsync).toHaveBeenCalledWith('file:///tmp/poster.pdf', expect.objectContaining({ mimeType: 'application/pdf' }));
+  });
+});
@@ -0,0 +1,106 @@
+import {
+  getMerchantRole,
+  hasMerchantPermission,
+  getAssignableRoles,
+  canManageStaffMember,
+  validateStaffInvite,
+} from '../../src/services/merchantRoles';
+import type { MerchantProfile, MerchantStaffMember, MerchantStaffRole } from '../../src/types';
+
+const merchant = (role?: MerchantStaffRole): MerchantProfile => ({
+  merchantId: 'm-1',
+  merchantName: 'Corner Cafe',
+  merchantCategory: 'FOOD_AND_BEVERAGE',
+  primaryAlias: '@cornercafe',
+  receivingAccountId: 'acct-123',
+  receivingBankName: 'Test Bank',
+  isActive: true,
+  createdAt: '2025-01-01T00:00:00Z',
+  role,
+});
+
+const member = (alias: string, role: MerchantStaffRole): MerchantStaffMember => ({
+  staffId: `staff-${alias}`,
+  alias,
+  role,
+  status: 'ACTIVE',
+  invitedAt: '2026-01-01T00:00:00Z',
+});
+
+describe('Merchant Roles', () => {
+  describe('getMerchantRole', () => {
+    it('should treat merchants without a role as owned by the user', () => {
+      expect(getMerchantRole(merchant())).toBe('OWNER');
+      expect(getMerchantRole(merchant('CASHIER'))).toBe('CASHIER');
+    });
+  });
+
+  describe('hasMerchantPermission', () => {
+    it('should keep full access for legacy merchants with no role or owner ID', () => {
+      const legacy = merchant();
+      for (const permission of ['editProfile', 'deactivate', 'refund', 'export', 'viewReports'] as const) {
+        expect(hasMerchantPermission(legacy, permission)).toBe(true);
+      }
+    });
+
+    it('should give owners every permission', () => {
+      const owner = merchant('OWNER');
+      expect(hasMerchantPermission(owner, 'editProfile')).toBe(true);
+      expect(hasMerchantPermission(owner, 'deactivate')).toBe(true);
+      expect(hasMerchantPermission(owner, 'refund')).toBe(true);
+    });
+
+    it('should let managers refund and export but not edit or deactivate', () => {
+      const manager = merchant('MANAGER');
+      expect(hasMerchantPermission(manager, 'refund')).toBe(true);
+      expect(hasMerchantPermission(manager, 'export')).toBe(true);
+      expect(hasMerchantPermission(manager, 'manageStaff')).toBe(true);
+      expect(hasMerchantPermission(manager, 'editProfile')).toBe(false);
+      expect(hasMerchantPermission(manager, 'deactivate')).toBe(false);
+    });
+
+    it('should limit cashiers to taking and seeing payments', () => {
+      const cashier = merchant('CASHIER');
+      expect(hasMerchantPermission(cashier, 'acceptPayments')).toBe(true);
+      expect(hasMerchantPermission(cashier, 'viewPayments')).toBe(true);
+      expect(hasMerchantPermission(cashier, 'refund')).toBe(false);
+      expect(hasMerchantPermission(cashier, 'export')).toBe(false);
+      expect(hasMerchantPermission(cashier, 'viewReports')).toBe(false);
+      expect(hasMerchantPermission(cashier, 'editProfile')).toBe(false);
+    });
+
+    it('should deny everything without a merchant', () => {
+      expect(hasMerchantPermission(null, 'viewPayments')).toBe(false);
+    });
+  });
+
+  describe('staff management', () => {
+    it('should never let anyone assign or manage the owner', () => {
+      expect(getAssignableRoles('OWNER')).toEqual(['MANAGER', 'CASHIER']);
+      expect(canManageStaffMember('OWNER', member('@owner', 'OWNER'))).toBe(false);
+      expect(canManageStaffMember('OWNER', member('@manager', 'MANAGER'))).toBe(true);
+    });
+
+    it('should let managers manage cashiers only', () => {
+      expect(getAssignableRoles('MANAGER')).toEqual(['CASHIER']);
+      expect(canManageStaffMember('MANAGER', member('@cashier', 'CASHIER'))).toBe(true);
+      expect(canManageStaffMember('MANAGER', member('@other', 'MANAGER'))).toBe(false);
+      expect(getAssignableRoles('CASHIER')).toEqual([]);
+    });
+  });
+
+  describe('validateStaffInvite', () => {
+    const staff = [member('@owner', 'OWNER'), member('@sam', 'CASHIER')];
+
+    it('should accept a new alias with an assignable role', () => {
+      expect(validateStaffInvite('@alex', 'CASHIER', 'MANAGER', staff)).toBeNull();
+    });
+
+    it('should reject empty aliases, duplicates and roles above the inviter', () => {
+      expect(validateStaffInvite('  ', 'CASHIER', 'OWNER', staff)).toBe('Enter the alias of the person to invite');
+      expect(validateStaffInvite('@SAM ', 'CASHIER', 'OWNER', staff)).toBe('@SAM is already on your staff list');
+      expect(validateStaffInvite('@alex', 'MANAGER', 'MANAGER', staff)).toBe("You can't give staff the Manager role");
+      expect(validateStaffInvite('@alex', 'OWNER', 'OWNER', staff)).toBe("You can't give staff the Owner role");
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  addMoney,
+  allocateMoney,
+  formatMoneyValue,
+  money,
+  parseMoney,
+  parseMoneyValue,
+  percentOf,
+  splitMoney,
+  subtractMoney,
+  sumMoney,
+  toAmount,
+  toAmountString,
+} from '../../src/services/money';
+import { calculateFee } from '../../src/services/fees';
+import { calculateTip, splitTipPool } from '../../src/services/tips';
+
+describe('Money Service', () => {
+  describe('parseMoney', () => {
+    it('should parse numbers and decimal strings into minor units', () => {
+      expect(parseMoney(12.5)).toEqual({ minor: 1250, currency: 'CAD' });
+      expect(parseMoney('500.00')).toEqual({ minor: 50000, currency: 'CAD' });
+      expect(parseMoney('1,250.5', 'usd')).toEqual({ minor: 125050, currency: 'USD' });
+      expect(parseMoney('-3.5')).toEqual({ minor: -350, currency: 'CAD' });
+      expect(parseMoney('1250', 'JPY')).toEqual({ minor: 1250, currency: 'JPY' });
+    });
+
+    it('should round extra decimals half away from zero', () => {
+      expect(parseMoney('0.125')).toEqual({ minor: 13, currency: 'CAD' });
+      expect(parseMoney('0.124')).toEqual({ minor: 12, currency: 'CAD' });
+      expect(parseMoney('-0.125')).toEqual({ minor: -13, currency: 'CAD' });
+      expect(parseMoney('1.0005', 'KWD')).toEqual({ minor: 1001, currency: 'KWD' });
+    });
+
+    it('should reject values that are not amounts', () => {
+      expect(parseMoney('abc')).toBeNull();
+      expect(parseMoney('.')).toBeNull();
+      expect(parseMoney(undefined)).toBeNull();
+      expect(parseMoney(NaN)).toBeNull();
+      expect(parseMoneyValue('abc', 'USD')).toEqual({ minor: 0, currency: 'USD' });
+      expect(parseMoneyValue('19.99')).toEqual({ minor: 1999, currency: 'CAD' });
+    });
+  });
+
+  describe('arithmetic', () => {
+    it('should add without floating-point drift', () => {
+      expect(toAmount(addMoney(money(0.1), money(0.2)))).toBe(0.3);
+      expect(toAmount(sumMoney([money(19.99), money(0.01), money(5.1)]))).toBe(25.1);
+      expect(toAmount(subtractMoney(money(10), money(9.99)))).toBe(0.01);
+    });
+
+    it('should refuse to mix currencies', () => {
+      expect(() => addMoney(money(1, 'CAD'), money(1, 'USD'))).toThrow('Cannot combine CAD and USD amounts');
+    });
+
+    it('should take exact percentages', () => {
+      expect(toAmount(percentOf(money(12.34), 15))).toBe(1.85);
+      expect(toAmount(percentOf(money(100), 2.9))).toBe(2.9);
+      expect(toAmount(percentOf(money(33.33), 2.9))).toBe(0.97);
+    });
+
+    it('should format and print amounts', () => {
+      expect(formatMoneyValue(money(12.5))).toBe('$12.50');
+      expect(toAmountString(money(12.5))).toBe('12.50');
+      expect(toAmountString(money(0.1 + 0.2))).toBe('0.30');
+      expect(toAmountString(money(1250, 'JPY'))).toBe('1250');
+      expect(toAmountString(money(-0.05))).toBe('-0.05');
+    });
+  });
+
+  describe('allocation', () => {
+    it('should split evenly and give leftover cents to the first shares', () => {
+      expect(splitMoney(money(10), 3).map(toAmount)).toEqual([3.34, 3.33, 3.33]);
+      expect(splitMoney(money(0.02), 3).map(toAmount)).toEqual([0.01, 0.01, 0]);
+      expect(splitMoney(money(10), 0)).toEqual([]);
+    });
+
+    it('should allocate by weight and always add up to the total', () => {
+      const shares = allocateMoney(money(100), [1, 1, 1, 2]);
+      expect(shares.map(toAmount)).toEqual([20, 20, 20, 40]);
+      const odd = allocateMoney(money(0.05), [1, 2]);
+      expect(odd.map(toAmount)).toEqual([0.02, 0.03]);
+      expect(toAmount(sumMoney(allocateMoney(money(99.99), [3, 5, 7])))).toBe(99.99);
+    });
+
+    it('should allocate negative amounts symmetrically', () => {
+      expect(splitMoney(money(-10), 3).map(toAmount)).toEqual([-3.34, -3.33, -3.33]);
+    });
+  });
+
+  describe('rounding across services', () => {
+    it('should round fees to the cent', () => {
+      const schedule = { scheduleId: 's-1', currency: 'CAD', tiers: [{ minAmount: 0, flat: 0.3, percentage: 2.9 }] };
+      expect(calculateFee(33.33, schedule)).toBe(1.27);
+      expect(calculateFee(0.1, schedule)).toBe(0.1);
+    });
+
+    it('should total contract stakes exactly', () => {
+      const pot = addMoney(parseMoney('0.10')!, parseMoney('0.20')!);
+      expect(toAmount(pot)).toBe(0.3);
+      expect(formatMoneyValue(pot)).toBe('$0.30');
+    });
+
+    it('should round tips and split tip pools without losing cents', () => {
+      expect(calculateTip(12.34, { type: 'PERCENT', value: 15 })).toBe(1.85);
+      const shares = splitTipPool(10, 3);
+      expect(shares).toEqual([3.34, 3.33, 3.33]);
+    });
+  });
+});
@@ -0,0 +1,281 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  payeeService,
+  getPayeeName,
+  needsSync,
+  searchPayees,
+  toLookupResult,
+} from '../../src/services/payees';
+import { transferSimApi } from '../../src/services/transferSim';
+import type { Payee, Transfer } from '../../src/types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+let mockUuidCounter = 0;
+jest.mock('uuid', () => ({
+  v4: () => `payee-${++mockUuidCounter}`,
+}));
+
+jest.mock('../../src/services/transferSim', () => ({
+  transferSimApi: {
+    lookupAlias: jest.fn(),
+  },
+}));
+
+const mockedLookupAlias = transferSimApi.lookupAlias as jest.Mock;
+
+const makeTransfer = (overrides: Partial<Transfer> = {}): Transfer => ({
+  transferId: 'tr-1',
+  amount: 25,
+  currency: 'CAD',
+  direction: 'sent',
+  status: 'COMPLETED',
+  recipientAlias: '@alice',
+  recipientDisplayName: 'Alice Smith',
+  createdAt: '2026-03-01T10:00:00.000Z',
+  ...overrides,
+} as Transfer);
+
+const makePayee = (overrides: Partial<Payee> = {}): Payee => ({
+  payeeId: 'p-1',
+  alias: '@alice',
+  displayName: 'Alice Smith',
+  isMerchant: false,
+  isFavourite: false,
+  source: 'TRANSFER',
+  transferCount: 1,
+  createdAt: '2026-03-01T10:00:00.000Z',
+  updatedAt: '2026-03-01T10:00:00.000Z',
+  ...overrides,
+});
+
+describe('Payees Service', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await AsyncStorage.clear();
+  });
+
+  describe('searchPayees', () => {
+    const payees = [
+      makePayee({ payeeId: 'p-1', alias: '@alice', displayName: 'Alice Smith', lastPaidAt: '2026-03-01T10:00:00.000Z' }),
+      makePayee({ payeeId: 'p-2', alias: '@malik', displayName: 'Malik Jones', transferCount: 5, lastPaidAt: '2026-03-05T10:00:00.000Z' }),
+      makePayee({ payeeId: 'p-3', alias: 'al@example.com', displayName: 'Al Brown', isFavourite: true }),
+      makePayee({ payeeId: 'p-4', alias: '@alex', displayName: 'Alex Gone', aliasRemoved: true }),
+    ];
+
+    it('should suggest recent payees when nothing is typed', () => {
+      expect(searchPayees(payees, '').map((p) => p.payeeId)).toEqual(['p-2', 'p-1']);
+    });
+
+    it('should rank prefix matches, then favourites, then frequent payees', () => {
+      // "al" starts @alice and al@example.com, and is inside @malik
+      expect(searchPayees(payees, 'AL').map((p) => p.payeeId)).toEqual(['p-3', 'p-1', 'p-2']);
+    });
+
+    it('should match on nickname and never suggest removed aliases', () => {
+      const withNickname = [...payees, makePayee({ payeeId: 'p-5', alias: '@mum', displayName: 'Jane Doe', nickname: 'Mum' })];
+      expect(searchPayees(withNickname, 'mu').map((p) => p.payeeId)).toEqual(['p-5']);
+      expect(searchPayees(payees, 'alex')).toEqual([]);
+    });
+  });
+
+  describe('helpers', () => {
+    it('should prefer the nickname for the payee name', () => {
+      expect(getPayeeName(makePayee({ nickname: 'Ali' }))).toBe('Ali');
+      expect(getPayeeName(makePayee({ displayName: undefined }))).toBe('@alice');
+    });
+
+    it('should turn a payee into a lookup result', () => {
+      expect(toLookupResult(makePayee({ aliasType: 'USERNAME', currency: 'USD' }))).toMatchObject({
+        found: true,
+        displayName: 'Alice Smith',
+        aliasType: 'USERNAME',
+        currency: 'USD',
+      });
+      expect(toLookupResult(makePayee({ aliasRemoved: true })).found).toBe(false);
+    });
+
+    it('should re-check payees once a day', () => {
+      const now = new Date('2026-03-02T12:00:00.000Z');
+      expect(needsSync(makePayee(), now)).toBe(true);
+      expect(needsSync(makePayee({ lastVerifiedAt: '2026-03-02T00:00:00.000Z' }), now)).toBe(false);
+      expect(needsSync(makePayee({ lastVerifiedAt: '2026-03-01T00:00:00.000Z' }), now)).toBe(true);
+    });
+  });
+
+  describe('recordTransfers', () => {
+    it('should learn payees from completed sent transfers only', async () => {
+      await payeeService.recordTransfers([
+        makeTransfer(),
+        makeTransfer({ transferId: 'tr-2', recipientAlias: '@bob', status: 'DEBIT_FAILED' }),
+        makeTransfer({ transferId: 'tr-3', direction: 'received', recipientAlias: undefined, senderAlias: '@carol' }),
+      ]);
+
+      const payees = await payeeService.getPayees();
+      expect(payees).toHaveLength(1);
+      expect(payees[0]).toMatchObject({ alias: '@alice', displayName: 'Alice Smith', transferCount: 1, source: 'TRANSFER' });
+    });
+
+    it('should not count the same transfer twice', async () => {
+      const transfers = [
+        makeTransfer({ transferId: 'tr-2', createdAt: '2026-03-02T10:00:00.000Z' }),
+        makeTransfer(),
+      ];
+      await payeeService.recordTransfers(transfers);
+      await payeeService.recordTransfers(transfers);
+      await payeeService.recordTransfers([makeTransfer({ transferId: 'tr-3', recipientAlias: '@Alice', createdAt: '2026-03-03T10:00:00.000Z' })]);
+
+      const [payee] = await payeeService.getPayees();
+      expect(payee.transferCount).toBe(3);
+      expect(payee.lastPaidAt).toBe('2026-03-03T10:00:00.000Z');
+    });
+
+    it('should keep lookup details from a just-sent transfer', async () => {
+      await payeeService.recordTransfer(makeTransfer(), {
+        found: true,
+        displayName: 'Alice Smith',
+        aliasType: 'USERNAME',
+        isMerchant: true,
+        merchantLogoUrl: 'https://example.com/logo.png',
+      });
+
+      const [payee] = await payeeService.getPayees();
+      expect(payee).toMatchObject({ aliasType: 'USERNAME', isMerchant: true, merchantLogoUrl: 'https://example.com/logo.png' });
+      expect(payee.lastVerifiedAt).toBeDefined();
+    });
+  });
+
+  describe('addPayee', () => {
+    it('should add a payee by hand and update an existing one', async () => {
+      const added = await payeeService.addPayee('@bob', { found: true, displayName: 'Bob' }, true);
+      expect(added).toMatchObject({ alias: '@bob', source: 'MANUAL', isFavourite: true, transferCount: 0 });
+
+      await payeeService.addPayee('@BOB', { found: true, displayName: 'Robert' });
+      const payees = await payeeService.getPayees();
+      expect(payees).toHaveLength(1);
+      expect(payees[0]).toMatchObject({ displayName: 'Robert', isFavourite: true });
+    });
+
+    it('should reject aliases that were not found', async () => {
+      await expect(payeeService.addPayee('@nobody', { found: false })).rejects.toThrow('No user found with that alias');
+    });
+  });
+
+  describe('favourites, nicknames and removal', () => {
+    it('should pin favourites first and keep nicknames', async () => {
+      await payeeService.recordTransfers([
+        makeTransfer(),
+        makeTransfer({ transferId: 'tr-2', recipientAlias: '@bob', recipientDisplayName: 'Bob', createdAt: '2026-03-02T10:00:00.000Z' }),
+      ]);
+      const [bob, alice] = await payeeService.getPayees();
+      expect(bob.alias).toBe('@bob');
+
+      await payeeService.setFavourite(alice.payeeId, true);
+      await payeeService.renamePayee(alice.payeeId, '  Ali ');
+      const payees = await payeeService.getPayees();
+      expect(payees.map((p) => getPayeeName(p))).toEqual(['Ali', 'Bob']);
+
+      await payeeService.renamePayee(alice.payeeId, '');
+      await payeeService.removePayee(bob.payeeId);
+      expect((await payeeService.getPayees()).map((p) => getPayeeName(p))).toEqual(['Alice Smith']);
+    });
+
+    it('should keep a removed payee removed when old history is recorded again', async () => {
+      const history = [makeTransfer(), makeTransfer({ transferId: 'tr-2', createdAt: '2026-03-02T10:00:00.000Z' })];
+      await payeeService.recordTransfers(history);
+      const [alice] = await payeeService.getPayees();
+
+      await payeeService.removePayee(alice.payeeId);
+      await payeeService.recordTransfers(history);
+      expect(await payeeService.getPayees()).toEqual([]);
+
+      // A new transfer, or adding them by hand, brings the payee back
+      await payeeService.recordTransfer(makeTransfer({ transferId: 'tr-3', createdAt: '2099-01-01T10:00:00.000Z' }));
+      expect(await payeeService.getPayees()).toHaveLength(1);
+    });
+
+    it('should let a removed payee be added back by hand', async () => {
+      await payeeService.recordTransfers([makeTransfer()]);
+      const [alice] = await payeeService.getPayees();
+      await payeeService.removePayee(alice.payeeId);
+
+      await payeeService.addPayee('@Alice', { found: true, displayName: 'Alice Smith' });
+
+      expect(await payeeService.getPayees()).toHaveLength(1);
+      expect(await AsyncStorage.getItem('mwsim_payees_removed')).toBe('{}');
+    });
+
+    it('should reject unknown payees', async () => {
+      await expect(payeeService.setFavourite('missing', true)).rejects.toThrow('Payee not found');
+    });
+  });
+
+  describe('syncPayees', () => {
+    const now = new Date('2026-03-10T12:00:00.000Z');
+
+    beforeEach(async () => {
+      await payeeService.recordTransfers([
+        makeTransfer(),
+        makeTransfer({ transferId: 'tr-2', recipientAlias: '@bob', recipientDisplayName: 'Bob', createdAt: '2026-03-02T10:00:00.000Z' }),
+      ]);
+    });
+
+    it('should pick up renamed and removed aliases', async () => {
+      mockedLookupAlias.mockImplementation(async (alias: string) =>
+        alias === '@alice' ? { found: true, displayName: 'Alice Jones', aliasType: 'USERNAME' } : { found: false }
+      );
+
+      const result = await payeeService.syncPayees({ now });
+
+      expect(result.updated).toBe(1);
+      expect(result.removed).toBe(1);
+      const alice = result.payees.find((p) => p.alias === '@alice')!;
+      const bob = result.payees.find((p) => p.alias === '@bob')!;
+      expect(alice).toMatchObject({ displayName: 'Alice Jones', aliasType: 'USERNAME', lastVerifiedAt: now.toISOString() });
+      expect(bob.aliasRemoved).toBe(true);
+
+      // Checked payees aren't looked up again the same day
+      mockedLookupAlias.mockClear();
+      await payeeService.syncPayees({ now });
+      expect(mockedLookupAlias).not.toHaveBeenCalled();
+
+      // Unless forced, and an alias that comes back is available again
+      mockedLookupAlias.mockResolvedValue({ found: true, displayName: 'Bob' });
+      const forced = await payeeService.syncPayees({ force: true, now });
+      expect(mockedLookupAlias).toHaveBeenCalledTimes(2);
+      expect(forced.removed).toBe(0);
+      expect(forced.payees.find((p) => p.alias === '@bob')!.aliasRemoved).toBe(false);
+    });
+
+    it('should keep changes made to payees while the lookups run', async () => {
+      const [alice, bob] = await payeeService.getPayees().then((payees) =>
+        ['@alice', '@bob'].map((alias) => payees.find((p) => p.alias === alias)!)
+      );
+      mockedLookupAlias.mockImplementation(async (alias: string) => {
+        if (alias === '@alice') {
+          await payeeService.setFavourite(alice.payeeId, true);
+          await payeeService.renamePayee(alice.payeeId, 'Ali');
+          await payeeService.removePayee(bob.payeeId);
+        }
+        return { found: true, displayName: `${alias} renamed` };
+      });
+
+      const result = await payeeService.syncPayees({ now });
+
+      expect(result.payees).toHaveLength(1);
+      expect(result.payees[0]).toMatchObject({ isFavourite: true, nickname: 'Ali', displayName: '@alice renamed' });
+      expect(await payeeService.getPayees()).toEqual(result.payees);
+    });
+
+    it('should leave payees unchanged when the lookup fails', async () => {
+      mockedLookupAlias.mockRejectedValue(new Error('Network Error'));
+
+      const result = await payeeService.syncPayees({ now });
+
+      expect(result).toMatchObject({ updated: 0, removed: 0 });
+      expect(result.payees.every((p) => !p.aliasRemoved && !p.lastVerifiedAt)).toBe(true);
+    });
+  });
+});
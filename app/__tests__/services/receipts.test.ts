@@ -0,0 +1,191 @@
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import {
+  buildTransferReceipt,
+  buildCardPaymentReceipt,
+  renderReceiptHtml,
+  receiptService,
+} from '../../src/services/receipts';
+import { money } from '../../src/services/money';
+import type { TransferWithRecipientType, PaymentHistoryItem, PaymentRequest } from '../../src/types';
+
+jest.mock('expo-print', () => ({
+  printToFileAsync: jest.fn(),
+}));
+
+jest.mock('expo-sharing', () => ({
+  isAvailableAsync: jest.fn(),
+  shareAsync: jest.fn(),
+}));
+
+jest.mock('react-native-view-shot', () => ({
+  captureRef: jest.fn(),
+}));
+
+const merchantPayment: TransferWithRecipientType = {
+  transferId: 'tr-merchant-1',
+  direction: 'received',
+  amount: money(49.75),
+  currency: 'CAD',
+  status: 'COMPLETED',
+  senderDisplayName: 'Jane D.',
+  senderBankName: 'Tangerine',
+  senderAccountLast4: '1234',
+  recipientType: 'merchant',
+  merchantName: 'Corner Cafe',
+  feeAmount: money(0.25),
+  grossAmount: money(50),
+  createdAt: '2026-03-01T15:00:00.000Z',
+  completedAt: '2026-03-01T15:00:05.000Z',
+};
+
+const cardPayment: PaymentHistoryItem = {
+  requestId: 'req-1',
+  status: 'approved',
+  merchantName: 'Book Shop',
+  amount: 33.9,
+  currency: 'CAD',
+  orderId: 'ORD-42',
+  cardType: 'VISA',
+  cardLastFour: '4242',
+  bankName: 'BSIM Bank',
+  createdAt: '2026-03-02T10:00:00.000Z',
+  orderDetails: {
+    items: [{ name: 'Novel <Hardcover>', quantity: 1, unitPrice: 30 }],
+    subtotal: 30,
+    tax: { amount: 3.9, rate: 0.13, label: 'HST' },
+  },
+};
+
+describe('Receipt Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('buildTransferReceipt', () => {
+    it('should show gross, fee and net for a merchant viewing a payment', () => {
+      const receipt = buildTransferReceipt(merchantPayment, true);
+
+      expect(receipt.kind).toBe('merchant');
+      expect(receipt.amount).toBe(50);
+      expect(receipt.feeAmount).toBe(0.25);
+      expect(receipt.netAmount).toBe(49.75);
+      expect(receipt.counterpartyName).toBe('Tangerine ****1234');
+    });
+
+    it('should derive the gross amount when only the fee is known', () => {
+      const receipt = buildTransferReceipt({ ...merchantPayment, grossAmount: undefined, amount: money(199.75) }, true);
+
+      expect(receipt.amount).toBe(200);
+      expect(receipt.netAmount).toBe(199.75);
+    });
+
+    it('should estimate the fee from the fee schedule when none was recorded', () => {
+      const receipt = buildTransferReceipt({ ...merchantPayment, feeAmount: undefined, grossAmount: money(250), amount: money(250) }, true);
+
+      expect(receipt.amount).toBe(250);
+      expect(receipt.feeAmount).toBe(0.5);
+      expect(receipt.netAmount).toBe(249.5);
+    });
+
+    it('should not show a fee breakdown to the payer', () => {
+      const receipt = buildTransferReceipt({
+        ...merchantPayment,
+        direction: 'sent',
+        amount: money(50),
+        recipientAlias: '@cornercafe',
+      });
+
+      expect(receipt.kind).toBe('p2p');
+      expect(receipt.counterpartyLabel).toBe('Paid to');
+      expect(receipt.counterpartyName).toBe('Corner Cafe');
+      expect(receipt.counterpartyDetail).toBe('@cornercafe');
+      expect(receipt.feeAmount).toBeUndefined();
+      expect(receipt.amount).toBe(50);
+    });
+
+    it('should mark failed transfers as unsuccessful', () => {
+      const receipt = buildTransferReceipt({ ...merchantPayment, status: 'REVERSED' });
+
+      expect(receipt.isSuccessful).toBe(false);
+      expect(receipt.statusLabel).toBe('Reversed');
+    });
+  });
+
+  describe('buildCardPaymentReceipt', () => {
+    it('should use the card stored on a history item', () => {
+      const receipt = buildCardPaymentReceipt(cardPayment);
+
+      expect(receipt.kind).toBe('card');
+      expect(receipt.statusLabel).toBe('Paid');
+      expect(receipt.paymentMethod).toBe('VISA •••• 4242 · BSIM Bank');
+      expect(receipt.orderDetails?.subtotal).toBe(30);
+    });
+
+    it('should use the selected card for a just-approved payment request', () => {
+      const request: PaymentRequest = {
+        requestId: 'req-2',
+        status: 'approved',
+        merchantName: 'Book Shop',
+        amount: 10,
+        currency: 'CAD',
+        orderId: 'ORD-43',
+        returnUrl: 'https://shop.example/return',
+        createdAt: '2026-03-02T10:00:00.000Z',
+        expiresAt: '2026-03-02T10:15:00.000Z',
+        cards: [],
+      };
+
+      const receipt = buildCardPaymentReceipt(request, {
+        id: 'card-1',
+        cardType: 'MC',
+        lastFour: '5555',
+        bankName: 'BSIM Bank',
+        isDefault: true,
+      });
+
+      expect(receipt.paymentMethod).toBe('MC •••• 5555 · BSIM Bank');
+    });
+  });
+
+  describe('renderReceiptHtml', () => {
+    it('should include the fee breakdown for merchant receipts', () => {
+      const html = renderReceiptHtml(buildTransferReceipt(merchantPayment, true));
+
+      expect(html).toContain('Gross amount');
+      expect(html).toContain('-$0.25');
+      expect(html).toContain('$49.75');
+    });
+
+    it('should escape order item names', () => {
+      const html = renderReceiptHtml(buildCardPaymentReceipt(cardPayment));
+
+      expect(html).toContain('Novel &lt;Hardcover&gt; × 1');
+      expect(html).toContain('HST (13%)');
+      expect(html).not.toContain('<Hardcover>');
+    });
+  });
+
+  describe('sharePdf', () => {
+    it('should print the receipt and open the share sheet', async () => {
+      (Print.printToFileAsync as jest.Mock).mockResolvedValue({ uri: 'file:///tmp/receipt.pdf' });
+      (Sharing.isAvailableAsync as jest.Mock).mockResolvedValue(true);
+
+      await receiptService.sharePdf(buildCardPaymentReceipt(cardPayment));
+
+      expect(Sharing.shareAsync).toHaveBeenCalledWith(
+        'file:///tmp/receipt.pdf',
+        expect.objectContaining({ mimeType: 'application/pdf' })
+      );
+    });
+
+    it('should fail when sharing is unavailable', async () => {
+      (Print.printToFileAsync as jest.Mock).mockResolvedValue({ uri: 'file:///tmp/receipt.pdf' });
+      (Sharing.isAvailableAsync as jest.Mock).mockResolvedValue(false);
+
+      await expect(receiptService.sharePdf(buildCardPaymentReceipt(cardPayment))).rejects.toThrow(
+        'Sharing is not available on this device'
+      );
+    });
+  });
+});
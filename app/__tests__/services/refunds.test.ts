@@ -0,0 +1,97 @@
+import {
+  getRefundedAmount,
+  getRefundableAmount,
+  getPendingRefundAmount,
+  getRefundState,
+  getRefundLabel,
+  validateRefundAmount,
+} from '../../src/services/refunds';
+import { money } from '../../src/services/money';
+import type { Transfer } from '../../src/types';
+
+const payment: Transfer = {
+  transferId: 'tr-1',
+  direction: 'received',
+  amount: money(49.75),
+  currency: 'CAD',
+  status: 'COMPLETED',
+  createdAt: '2026-03-01T15:00:00.000Z',
+};
+
+describe('Refund helpers', () => {
+  describe('getRefundedAmount', () => {
+    it('should prefer the server total', () => {
+      expect(getRefundedAmount({ ...payment, refundedAmount: money(10) })).toBe(10);
+    });
+
+    it('should sum completed refunds when there is no total', () => {
+      expect(getRefundedAmount({
+        ...payment,
+        refunds: [
+          { refundId: 'r1', amount: money(5.1), status: 'COMPLETED', createdAt: payment.createdAt },
+          { refundId: 'r2', amount: money(4.2), status: 'COMPLETED', createdAt: payment.createdAt },
+          { refundId: 'r3', amount: money(20), status: 'FAILED', createdAt: payment.createdAt },
+        ],
+      })).toBe(9.3);
+    });
+  });
+
+  describe('getRefundableAmount', () => {
+    it('should be the net amount less previous refunds', () => {
+      expect(getRefundableAmount(payment)).toBe(49.75);
+      expect(getRefundableAmount({ ...payment, refundedAmount: money(20.5) })).toBe(29.25);
+    });
+
+    it('should hold back refunds that are still pending', () => {
+      const refunding = {
+        ...payment,
+        refundedAmount: money(10),
+        refunds: [
+          { refundId: 'r1', amount: money(10), status: 'COMPLETED' as const, createdAt: payment.createdAt },
+          { refundId: 'r2', amount: money(15.25), status: 'PENDING' as const, createdAt: payment.createdAt },
+        ],
+      };
+      expect(getPendingRefundAmount(refunding)).toBe(15.25);
+      expect(getRefundableAmount(refunding)).toBe(24.5);
+      expect(validateRefundAmount(refunding, 24.51)).toBe('You can refund at most $24.50');
+      expect(validateRefundAmount({ ...refunding, refundedAmount: money(34.5) }, 1))
+        .toBe('The rest of this payment is already being refunded');
+    });
+
+    it('should be zero for payments that did not complete', () => {
+      expect(getRefundableAmount({ ...payment, status: 'REVERSED', refundedAmount: money(49.75) })).toBe(0);
+      expect(getRefundableAmount({ ...payment, status: 'PENDING' })).toBe(0);
+    });
+  });
+
+  describe('getRefundState', () => {
+    it('should distinguish none, partial and full refunds', () => {
+      expect(getRefundState(payment)).toBe('none');
+      expect(getRefundState({ ...payment, refundedAmount: money(10) })).toBe('partial');
+      expect(getRefundState({ ...payment, status: 'REVERSED', refundedAmount: money(49.75) })).toBe('full');
+      expect(getRefundLabel({ ...payment, refundedAmount: money(10) })).toBe('Partially refunded ($10.00)');
+      expect(getRefundLabel(payment)).toBeUndefined();
+    });
+  });
+
+  describe('validateRefundAmount', () => {
+    const partlyRefunded = { ...payment, refundedAmount: money(40) };
+
+    it('should allow refunding up to the remaining net amount', () => {
+      expect(validateRefundAmount(partlyRefunded, 9.75)).toBeNull();
+      expect(validateRefundAmount(partlyRefunded, 0.01)).toBeNull();
+    });
+
+    it('should reject refunds above the remaining net amount', () => {
+      expect(validateRefundAmount(partlyRefunded, 9.76)).toBe('You can refund at most $9.75');
+      expect(validateRefundAmount({ ...payment, refundedAmount: money(49.75) }, 1)).toBe('This payment has already been fully refunded');
+    });
+
+    it('should reject invalid amounts and incomplete payments', () => {
+      expect(validateRefundAmount(payment, 0)).toBe('Enter a refund amount greater than zero');
+      expect(validateRefundAmount(payment, NaN)).toBe('Enter a refund amount greater than zero');
+      expect(validateRefundAmount(payment, 1.005)).toBe('Refund amount can have at most 2 decimal places');
+      expect(validateRefundAmount({ ...payment, status: 'PENDING' }, 1)).toBe('Only completed payments can be refunded');
+    });
+  });
+});
@@ -0,0 +1,293 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  scheduledTransferService,
+  getNextRunDate,
+  getOccurrenceIdempotencyKey,
+} from '../../src/services/scheduledTransfers';
+import { transferSimApi } from '../../src/services/transferSim';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+let mockUuidCounter = 0;
+jest.mock('uuid', () => ({
+  v4: () => `schedule-${++mockUuidCounter}`,
+}));
+
+jest.mock('../../src/services/transferSim', () => ({
+  transferSimApi: {
+    sendMoney: jest.fn(),
+  },
+}));
+
+const mockedSendMoney = transferSimApi.sendMoney as jest.Mock;
+
+const baseInput = {
+  recipientAlias: '@landlord',
+  recipientDisplayName: 'Landlord L.',
+  amount: 1200,
+  description: 'Rent',
+  sourceAccountId: 'acc-1',
+  senderBsimId: 'bsim-1',
+};
+
+describe('Scheduled Transfers Service', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await AsyncStorage.clear();
+    mockedSendMoney.mockResolvedValue({ transferId: 'tr-1', status: 'PENDING' });
+  });
+
+  describe('getNextRunDate', () => {
+    it('should return null for one-off schedules', () => {
+      expect(getNextRunDate('2026-03-10', 'ONCE', '2026-03-10')).toBeNull();
+    });
+
+    it('should add 7 days for weekly schedules', () => {
+      expect(getNextRunDate('2026-03-28', 'WEEKLY', '2026-03-28')).toBe('2026-04-04');
+    });
+
+    it('should add 14 days for bi-weekly schedules', () => {
+      expect(getNextRunDate('2026-12-25', 'BIWEEKLY', '2026-12-25')).toBe('2027-01-08');
+    });
+
+    it('should keep the same day of month for monthly schedules', () => {
+      expect(getNextRunDate('2026-01-15', 'MONTHLY', '2026-01-15')).toBe('2026-02-15');
+      expect(getNextRunDate('2026-12-01', 'MONTHLY', '2026-12-01')).toBe('2027-01-01');
+    });
+
+    it('should clamp monthly schedules to the end of shorter months', () => {
+      expect(getNextRunDate('2026-01-31', 'MONTHLY', '2026-01-31')).toBe('2026-02-28');
+      expect(getNextRunDate('2026-02-28', 'MONTHLY', '2026-01-31')).toBe('2026-03-31');
+      expect(getNextRunDate('2028-01-31', 'MONTHLY', '2028-01-31')).toBe('2028-02-29');
+    });
+  });
+
+  describe('runDueTransfers', () => {
+    it('should send a due occurrence with a deterministic idempotency key', async () => {
+      const schedule = await scheduledTransferService.createScheduledTransfer({
+        ...baseInput,
+        frequency: 'MONTHLY',
+        startDate: '2026-03-01',
+      });
+
+      const result = await scheduledTransferService.runDueTransfers(new Date(2026, 2, 1));
+
+      expect(result).toEqual({ sent: 1, failed: 0 });
+      expect(mockedSendMoney).toHaveBeenCalledWith(
+        '@landlord',
+        1200,
+        'acc-1',
+        'bsim-1',
+        'Rent',
+        undefined,
+        getOccurrenceIdempotencyKey(schedule.scheduleId, '2026-03-01'),
+        undefined,
+        'CAD'
+      );
+
+      const updated = await scheduledTransferService.getScheduledTransfer(schedule.scheduleId);
+      expect(updated?.nextRunDate).toBe('2026-04-01');
+      expect(updated?.occurrenceCount).toBe(1);
+      expect(updated?.lastTransferId).toBe('tr-1');
+    });
+
+    it('should not send occurrences that are not yet due', async () => {
+      await scheduledTransferService.createScheduledTransfer({
+        ...baseInput,
+        frequency: 'WEEKLY',
+        startDate: '2026-03-10',
+      });
+
+      const result = await scheduledTransferService.runDueTransfers(new Date(2026, 2, 9));
+
+      expect(result).toEqual({ sent: 0, failed: 0 });
+      expect(mockedSendMoney).not.toHaveBeenCalled();
+    });
+
+    it('should send only the latest missed occurrence and skip the older ones', async () => {
+      const schedule = await scheduledTransferService.createScheduledTransfer({
+        ...baseInput,
+        frequency: 'WEEKLY',
+        startDate: '2026-03-01',
+      });
+
+      // Two months without opening the app
+      const result = await scheduledTransferService.runDueTransfers(new Date(2026, 4, 1));
+
+      expect(result).toEqual({ sent: 1, failed: 0 });
+      expect(mockedSendMoney).toHaveBeenCalledTimes(1);
+      expect(mockedSendMoney.mock.calls[0][6]).toBe(getOccurrenceIdempotencyKey(schedule.scheduleId, '2026-04-26'));
+      const updated = await scheduledTransferService.getScheduledTransfer(schedule.scheduleId);
+      expect(updated).toMatchObject({ nextRunDate: '2026-05-03', occurrenceCount: 1, status: 'ACTIVE' });
+    });
+
+    it('should complete one-off schedules after sending', async () => {
+      const schedule = await scheduledTransferService.createScheduledTransfer({
+        ...baseInput,
+        frequency: 'ONCE',
+        startDate: '2026-03-01',
+      });
+
+      await scheduledTransferService.runDueTransfers(new Date(2026, 2, 5));
+      await scheduledTransferService.runDueTransfers(new Date(2026, 2, 6));
+
+      expect(mockedSendMoney).toHaveBeenCalledTimes(1);
+      const updated = await scheduledTransferService.getScheduledTransfer(schedule.scheduleId);
+      expect(updated?.status).toBe('COMPLETED');
+    });
+
+    it('should retry a failed occurrence with the same idempotency key', async () => {
+      const schedule = await scheduledTransferService.createScheduledTransfer({
+        ...baseInput,
+        frequency: 'MONTHLY',
+        startDate: '2026-03-01',
+      });
+      mockedSendMoney.mockRejectedValueOnce(new Error('Network Error'));
+
+      const first = await scheduledTransferService.runDueTransfers(new Date(2026, 2, 1));
+      expect(first).toEqual({ sent: 0, failed: 1 });
+      const failed = await scheduledTransferService.getScheduledTransfer(schedule.scheduleId);
+      expect(failed?.nextRunDate).toBe('2026-03-01');
+      expect(failed?.lastError).toBe('Network Error');
+
+      const second = await scheduledTransferService.runDueTransfers(new Date(2026, 2, 2));
+      expect(second).toEqual({ sent: 1, failed: 0 });
+      expect(mockedSendMoney.mock.calls[0][6]).toBe(mockedSendMoney.mock.calls[1][6]);
+    });
+
+    it('should skip paused and cancelled schedules', async () => {
+      const paused = await scheduledTransferService.createScheduledTransfer({
+        ...baseInput,
+        frequency: 'WEEKLY',
+        startDate: '2026-03-01',
+      });
+      const cancelled = await scheduledTransferService.createScheduledTransfer({
+        ...baseInput,
+        frequency: 'WEEKLY',
+        startDate: '2026-03-01',
+      });
+      await scheduledTransferService.pauseScheduledTransfer(paused.scheduleId);
+      await scheduledTransferService.cancelScheduledTransfer(cancelled.scheduleId);
+
+      const result = await scheduledTransferService.runDueTransfers(new Date(2026, 2, 1));
+
+      expect(result).toEqual({ sent: 0, failed: 0 });
+      expect(mockedSendMoney).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('runDueTransfers with concurrent edits', () => {
+    it('should keep a pause made while an occurrence was being sent', async () => {
+      const schedule = await scheduledTransferService.createScheduledTransfer({
+        ...baseInput,
+        frequency: 'WEEKLY',
+        startDate: '2026-03-01',
+      });
+      mockedSendMoney.mockImplementationOnce(async () => {
+        await scheduledTransferService.pauseScheduledTransfer(schedule.scheduleId);
+        return { transferId: 'tr-1', status: 'PENDING' };
+      });
+
+      const result = await scheduledTransferService.runDueTransfers(new Date(2026, 2, 15));
+
+      expect(result).toEqual({ sent: 1, failed: 0 });
+      const updated = await scheduledTransferService.getScheduledTransfer(schedule.scheduleId);
+      expect(updated?.status).toBe('PAUSED');
+      expect(updated?.nextRunDate).toBe('2026-03-22');
+      expect(updated?.occurrenceCount).toBe(1);
+    });
+
+    it('should keep schedules created while the run was in progress', async () => {
+      await scheduledTransferService.createScheduledTransfer({
+        ...baseInput,
+        frequency: 'MONTHLY',
+        startDate: '2026-03-01',
+      });
+      mockedSendMoney.mockImplementationOnce(async () => {
+        await scheduledTransferService.createScheduledTransfer({
+          ...baseInput,
+          frequency: 'MONTHLY',
+          startDate: '2026-04-01',
+        });
+        return { transferId: 'tr-1', status: 'PENDING' };
+      });
+
+      await scheduledTransferService.runDueTransfers(new Date(2026, 2, 1));
+
+      expect(await scheduledTransferService.getScheduledTransfers()).toHaveLength(2);
+    });
+  });
+
+  describe('updateScheduledTransfer', () => {
+    it('should not rewind to the original start date when only the frequency changes', async () => {
+      const schedule = await scheduledTransferService.createScheduledTransfer({
+        ...baseInput,
+        frequency: 'MONTHLY',
+        startDate: '2026-01-01',
+      });
+
+      const updated = await scheduledTransferService.updateScheduledTransfer(
+        schedule.scheduleId,
+        { frequency: 'WEEKLY' },
+        new Date(2026, 2, 10)
+      );
+      expect(updated.nextRunDate).toBe('2026-03-12');
+
+      const result = await scheduledTransferService.runDueTransfers(new Date(2026, 2, 10));
+      expect(result).toEqual({ sent: 0, failed: 0 });
+    });
+
+    it('should reject a start date in the past', async () => {
+      const schedule = await scheduledTransferService.createScheduledTransfer({
+        ...baseInput,
+        frequency: 'MONTHLY',
+        startDate: '2026-01-01',
+      });
+
+      await expect(
+        scheduledTransferService.updateScheduledTransfer(
+          schedule.scheduleId,
+          { startDate: '2026-02-01' },
+          new Date(2026, 2, 10)
+        )
+      ).rejects.toThrow('The start date cannot be in the past');
+    });
+
+    it('should keep a past start date that was not changed', async () => {
+      const schedule = await scheduledTransferService.createScheduledTransfer({
+        ...baseInput,
+        frequency: 'MONTHLY',
+        startDate: '2026-01-01',
+      });
+
+      const updated = await scheduledTransferService.updateScheduledTransfer(
+        schedule.scheduleId,
+        { startDate: '2026-01-01', amount: 1300 },
+        new Date(2026, 2, 10)
+      );
+      expect(updated.amount).toBe(1300);
+      expect(updated.nextRunDate).toBe('2026-01-01');
+    });
+  });
+
+  describe('resumeScheduledTransfer', () => {
+    it('should skip occurrences that fell due while paused', async () => {
+      const schedule = await scheduledTransferService.createScheduledTransfer({
+        ...baseInput,
+        frequency: 'WEEKLY',
+        startDate: '2026-03-01',
+      });
+      await scheduledTransferService.pauseScheduledTransfer(schedule.scheduleId);
+
+      const resumed = await scheduledTransferService.resumeScheduledTransfer(
+        schedule.scheduleId,
+        new Date(2026, 2, 20)
+      );
+
+      expect(resumed.status).toBe('ACTIVE');
+      expect(resumed.nextRunDate).toBe('2026-03-22');
+    });
+  });
+});
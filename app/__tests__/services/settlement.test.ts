@@ -0,0 +1,229 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  getBusinessDayBounds,
+  getBusinessDate,
+  addBusinessDays,
+  buildSettlementReport,
+  buildSettlementCsv,
+  getDeviceTzOffset,
+  settlementService,
+  MAX_SNAPSHOTS,
+} from '../../src/services/settlement';
+import { transferSimApi } from '../../src/services/transferSim';
+import { money } from '../../src/services/money';
+import type { MerchantProfile, TransferWithRecipientType } from '../../src/types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('uuid', () => ({
+  v4: () => 'uuid',
+}));
+
+jest.mock('expo-file-system/next', () => ({
+  Paths: { cache: 'file:///cache' },
+  File: jest.fn(),
+}));
+
+jest.mock('expo-sharing', () => ({
+  isAvailableAsync: jest.fn().mockResolvedValue(true),
+  shareAsync: jest.fn(),
+}));
+
+jest.mock('../../src/services/transferSim', () => ({
+  transferSimApi: {
+    getMerchantTransfersSince: jest.fn(),
+  },
+}));
+
+const mockedGetMerchantTransfersSince = transferSimApi.getMerchantTransfersSince as jest.Mock;
+
+const merchant: MerchantProfile = {
+  merchantId: 'm-1',
+  merchantName: 'Corner Cafe',
+  merchantCategory: 'FOOD_AND_BEVERAGE',
+  primaryAlias: '@cornercafe',
+  receivingAccountId: 'acct-123',
+  receivingBankName: 'Test Bank',
+  isActive: true,
+  createdAt: '2025-01-01T00:00:00Z',
+};
+
+const payment = (id: string, createdAt: string, overrides: Partial<TransferWithRecipientType> = {}): TransferWithRecipientType => ({
+  transferId: id,
+  direction: 'received',
+  amount: money(9.75),
+  currency: 'CAD',
+  status: 'COMPLETED',
+  feeAmount: money(0.25),
+  grossAmount: money(10),
+  senderBankName: 'Other Bank',
+  senderAccountLast4: '4321',
+  createdAt,
+  ...overrides,
+});
+
+// Eastern Standard Time
+const EST = 300;
+
+describe('Settlement Service', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await AsyncStorage.clear();
+  });
+
+  describe('business days', () => {
+    it('should bound a business day in the merchant timezone', () => {
+      const { start, end } = getBusinessDayBounds('2026-03-10', EST);
+      expect(start.toISOString()).toBe('2026-03-10T05:00:00.000Z');
+      expect(end.toISOString()).toBe('2026-03-11T05:00:00.000Z');
+    });
+
+    it('should map an instant to its local business date', () => {
+      // 02:00 UTC on the 11th is still the evening of the 10th in EST
+      expect(getBusinessDate(new Date('2026-03-11T02:00:00Z'), EST)).toBe('2026-03-10');
+      expect(getBusinessDate(new Date('2026-03-11T06:00:00Z'), EST)).toBe('2026-03-11');
+    });
+
+    it('should shift business dates across month ends', () => {
+      expect(addBusinessDays('2026-03-01', -1)).toBe('2026-02-28');
+      expect(addBusinessDays('2026-12-31', 1)).toBe('2027-01-01');
+    });
+  });
+
+  describe('buildSettlementReport', () => {
+    it('should total gross, fees and net for the day only', () => {
+      const report = buildSettlementReport([
+        payment('t1', '2026-03-10T14:00:00Z'),
+        payment('t2', '2026-03-10T16:00:00Z', { amount: money(249.5), feeAmount: money(0.5), grossAmount: money(250) }),
+        payment('t3', '2026-03-10T04:59:00Z'), // Previous evening locally
+        payment('t4', '2026-03-11T05:00:00Z'), // Next day locally
+      ], merchant, '2026-03-10', EST);
+
+      expect(report.items.map((i) => i.transferId)).toEqual(['t1', 't2']);
+      expect(report.gross).toBe(260);
+      expect(report.fees).toBe(0.75);
+      expect(report.net).toBe(259.25);
+      expect(report.settledCount).toBe(2);
+      expect(report.receivingAccountId).toBe('acct-123');
+      expect(report.items[0].senderLabel).toBe('Other Bank ****4321');
+    });
+
+    it('should subtract refunds and keep fully refunded payments as settled', () => {
+      const report = buildSettlementReport([
+        payment('t1', '2026-03-10T14:00:00Z', { refundedAmount: money(4) }),
+        payment('t2', '2026-03-10T15:00:00Z', { status: 'REVERSED', refundedAmount: money(10) }),
+      ], merchant, '2026-03-10', EST);
+
+      expect(report.settledCount).toBe(2);
+      expect(report.refunds).toBe(14);
+      expect(report.net).toBe(5.5);
+      expect(report.exceptions).toEqual([]);
+    });
+
+    it('should list failed and reversed payments as exceptions, not settled', () => {
+      const report = buildSettlementReport([
+        payment('t1', '2026-03-10T14:00:00Z'),
+        payment('t2', '2026-03-10T15:00:00Z', { status: 'DEBIT_FAILED' }),
+        payment('t3', '2026-03-10T16:00:00Z', { status: 'REVERSED' }),
+        payment('t4', '2026-03-10T17:00:00Z', { status: 'PENDING' }),
+      ], merchant, '2026-03-10', EST);
+
+      expect(report.items.map((i) => i.transferId)).toEqual(['t1']);
+      expect(report.exceptions.map((i) => i.transferId)).toEqual(['t2', 't3']);
+      expect(report.gross).toBe(10);
+    });
+
+    it('should total tips separately within gross', () => {
+      const report = buildSettlementReport([
+        payment('t1', '2026-03-10T14:00:00Z', { grossAmount: money(11.5), amount: money(11.25), tipAmount: money(1.5) }),
+        payment('t2', '2026-03-10T15:00:00Z'),
+      ], merchant, '2026-03-10', EST);
+
+      expect(report.gross).toBe(21.5);
+      expect(report.tips).toBe(1.5);
+      expect(report.items[0].tip).toBe(1.5);
+      expect(report.items[1].tip).toBe(0);
+    });
+
+    it('should estimate fees from the fee schedule when none was recorded', () => {
+      const report = buildSettlementReport([
+        payment('t1', '2026-03-10T14:00:00Z', { feeAmount: undefined, amount: money(300), grossAmount: money(300) }),
+      ], merchant, '2026-03-10', EST);
+
+      expect(report.fees).toBe(0.5);
+      expect(report.net).toBe(299.5);
+    });
+
+    it('should total zero-decimal currencies in whole units', () => {
+      const yen = { currency: 'JPY', amount: money(975, 'JPY'), feeAmount: money(25, 'JPY'), grossAmount: money(1000, 'JPY') };
+      const report = buildSettlementReport([
+        payment('t1', '2026-03-10T14:00:00Z', yen),
+        payment('t2', '2026-03-10T15:00:00Z', { ...yen, tipAmount: money(150, 'JPY'), refundedAmount: money(300, 'JPY') }),
+      ], merchant, '2026-03-10', EST);
+
+      expect(report.currency).toBe('JPY');
+      expect(report.gross).toBe(2000);
+      expect(report.tips).toBe(150);
+      expect(report.net).toBe(1650);
+      expect(buildSettlementCsv(report).split('\r\n')).toEqual(expect.arrayContaining(['Currency,JPY', 'Net Deposited,1650']));
+    });
+  });
+
+  describe('buildSettlementCsv', () => {
+    it('should put the summary above the payment rows', () => {
+      const report = buildSettlementReport([payment('t1', '2026-03-10T14:00:00Z')], merchant, '2026-03-10', EST);
+      const lines = buildSettlementCsv(report).split('\r\n');
+
+      expect(lines[0]).toBe('Settlement Report,Corner Cafe');
+      expect(lines).toContain('Net Deposited,9.75');
+      expect(lines).toContain('Deposit Account,Test Bank acct-123');
+      expect(lines[lines.indexOf('') + 1]).toMatch(/^Date,/);
+      expect(lines[lines.indexOf('') + 2]).toContain('t1');
+    });
+  });
+
+  describe('settlementService', () => {
+    it('should fetch transfers from the start of the business day', async () => {
+      mockedGetMerchantTransfersSince.mockResolvedValue([]);
+      const report = await settlementService.loadReport(merchant, '2026-03-10');
+
+      expect(report.tzOffset).toBe(getDeviceTzOffset('2026-03-10'));
+      const { start } = getBusinessDayBounds('2026-03-10', report.tzOffset);
+      expect(mockedGetMerchantTransfersSince).toHaveBeenCalledWith(start);
+      expect(report.settledCount).toBe(0);
+    });
+
+    it('should store closed days and replace an earlier close of the same day', async () => {
+      const first = buildSettlementReport([payment('t1', '2026-03-10T14:00:00Z')], merchant, '2026-03-10', EST);
+      await settlementService.closeDay(first);
+      const second = buildSettlementReport([
+        payment('t1', '2026-03-10T14:00:00Z'),
+        payment('t2', '2026-03-10T15:00:00Z'),
+      ], merchant, '2026-03-10', EST);
+      const closed = await settlementService.closeDay(second);
+
+      expect(closed.closedAt).toBeDefined();
+      const snapshot = await settlementService.getSnapshot('m-1', '2026-03-10');
+      expect(snapshot?.settledCount).toBe(2);
+      expect(await settlementService.getSnapshot('m-1', '2026-03-11')).toBeNull();
+      expect(await settlementService.getSnapshot('m-2', '2026-03-10')).toBeNull();
+
+      await settlementService.clearAll();
+      expect(await settlementService.getSnapshot('m-1', '2026-03-10')).toBeNull();
+    });
+
+    it('should store each closed day under its own key and drop the oldest days', async () => {
+      for (let i = 0; i <= MAX_SNAPSHOTS; i++) {
+        const businessDate = addBusinessDays('2026-01-01', i);
+        await settlementService.closeDay(buildSettlementReport([], merchant, businessDate, EST));
+      }
+
+      expect(await settlementService.getSnapshot('m-1', '2026-01-01')).toBeNull();
+      expect(await settlementService.getSnapshot('m-1', '2026-01-02')).not.toBeNull();
+      expect(await AsyncStorage.getItem('mwsim_settlement_m-1_2026-01-01')).toBeNull();
+      expect(await AsyncStorage.getItem('mwsim_settlement_m-1_2026-01-02')).not.toBeNull();
+    });
+  });
+});
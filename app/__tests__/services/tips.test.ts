@@ -0,0 +1,97 @@
+import {
+  DEFAULT_TIP_SETTINGS,
+  calculateTip,
+  formatTipPreset,
+  splitTipPool,
+  supportsTips,
+  validateTipAmount,
+  validateTipSettings,
+} from '../../src/services/tips';
+
+describe('Tips Service', () => {
+  describe('supportsTips', () => {
+    it('should only offer tips to food & beverage merchants', () => {
+      expect(supportsTips('FOOD_AND_BEVERAGE')).toBe(true);
+      expect(supportsTips('RETAIL')).toBe(false);
+      expect(supportsTips(undefined)).toBe(false);
+    });
+  });
+
+  describe('calculateTip', () => {
+    it('should round percentage tips to the cent', () => {
+      expect(calculateTip(12.34, { type: 'PERCENT', value: 15 })).toBe(1.85);
+      expect(calculateTip(10, { type: 'PERCENT', value: 18 })).toBe(1.8);
+    });
+
+    it('should use flat tips as-is', () => {
+      expect(calculateTip(50, { type: 'FLAT', value: 2 })).toBe(2);
+    });
+
+    it('should round to whole units in zero-decimal currencies', () => {
+      expect(calculateTip(1234, { type: 'PERCENT', value: 15 }, 'JPY')).toBe(185);
+      expect(calculateTip(5000, { type: 'FLAT', value: 200.4 }, 'JPY')).toBe(200);
+    });
+  });
+
+  describe('formatTipPreset', () => {
+    it('should label percent and flat presets', () => {
+      expect(formatTipPreset({ type: 'PERCENT', value: 20 })).toBe('20%');
+      expect(formatTipPreset({ type: 'FLAT', value: 2 })).toBe('$2.00');
+      expect(formatTipPreset({ type: 'FLAT', value: 2.5 })).toBe('$2.50');
+      expect(formatTipPreset({ type: 'FLAT', value: 2 }, 'USD')).toBe('US$2.00');
+    });
+  });
+
+  describe('validateTipSettings', () => {
+    it('should accept the defaults and disabled settings', () => {
+      expect(validateTipSettings(DEFAULT_TIP_SETTINGS)).toBeNull();
+      expect(validateTipSettings({ enabled: false, presets: [], allowCustom: false })).toBeNull();
+    });
+
+    it('should reject out-of-range, duplicate and empty presets', () => {
+      expect(validateTipSettings({ enabled: true, presets: [{ type: 'PERCENT', value: 60 }], allowCustom: false }))
+        .toBe('Percentage tips can be at most 50%');
+      expect(validateTipSettings({ enabled: true, presets: [{ type: 'FLAT', value: 0 }], allowCustom: false }))
+        .toBe('Tip presets must be greater than zero');
+      expect(validateTipSettings({ enabled: true, presets: [{ type: 'FLAT', value: NaN }], allowCustom: false }))
+        .toBe('Tip presets must be greater than zero');
+      expect(validateTipSettings({
+        enabled: true,
+        presets: [{ type: 'PERCENT', value: 15 }, { type: 'PERCENT', value: 15 }],
+        allowCustom: false,
+      })).toBe('Tip presets must be different from each other');
+      expect(validateTipSettings({ enabled: true, presets: [], allowCustom: false }))
+        .toBe('Add at least one tip preset or allow custom tips');
+    });
+  });
+
+  describe('validateTipAmount', () => {
+    it('should allow no tip and tips up to the bill', () => {
+      expect(validateTipAmount(0, 10)).toBeNull();
+      expect(validateTipAmount(10, 10)).toBeNull();
+      expect(validateTipAmount(10.01, 10)).toBe("The tip can't be more than the bill");
+      expect(validateTipAmount(-1, 10)).toBe('Please enter a valid tip');
+    });
+  });
+
+  describe('splitTipPool', () => {
+    it('should split evenly and give leftover cents to the first shares', () => {
+      expect(splitTipPool(10, 3)).toEqual([3.34, 3.33, 3.33]);
+      expect(splitTipPool(0.05, 2)).toEqual([0.03, 0.02]);
+      expect(splitTipPool(12, 4)).toEqual([3, 3, 3, 3]);
+    });
+
+    it('should split zero-decimal currencies in whole units', () => {
+      expect(splitTipPool(1000, 3, 'JPY')).toEqual([334, 333, 333]);
+    });
+
+    it('should always add up to the pool', () => {
+      const shares = splitTipPool(17.89, 6);
+      expect(Math.round(shares.reduce((sum, s) => sum + s, 0) * 100)).toBe(1789);
+    });
+
+    it('should return no shares without staff', () => {
+      expect(splitTipPool(10, 0)).toEqual([]);
+    });
+  });
+});
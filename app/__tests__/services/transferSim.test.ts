@@ -0,0 +1,242 @@
+/**
+ * TransferSim Service Tests
+ *
+ * Tests for the TransferSim client endpoints: requests sent, query
+ * parameters, and sanitization of the responses.
+ */
+
+describe('TransferSim Service', () => {
+  // Mock functions
+  const mockGet = jest.fn();
+  const mockPost = jest.fn();
+  const mockCreate = jest.fn();
+
+  const mockSecureStorage = {
+    getP2PUserContext: jest.fn(),
+  };
+
+  let transferSimApi: typeof import('../../src/services/transferSim').transferSimApi;
+
+  beforeAll(() => {
+    mockCreate.mockReturnValue({
+      get: mockGet,
+      post: mockPost,
+      interceptors: {
+        request: { use: jest.fn() },
+        response: { use: jest.fn() },
+      },
+    });
+
+    // Mock modules before importing transferSim
+    jest.doMock('axios', () => ({
+      create: mockCreate,
+    }));
+
+    jest.doMock('../../src/services/environment', () => ({
+      getTransferSimUrl: jest.fn(() => 'https://transfer.banksim.ca'),
+      getEnvironmentConfig: jest.fn(() => ({ apiUrl: 'https://wsim.banksim.ca/api' })),
+    }));
+
+    jest.doMock('../../src/services/secureStorage', () => ({
+      secureStorage: mockSecureStorage,
+    }));
+
+    // Import after mocks are set up
+    transferSimApi = require('../../src/services/transferSim').transferSimApi;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSecureStorage.getP2PUserContext.mockResolvedValue(null);
+  });
+
+  afterAll(() => {
+    jest.resetModules();
+  });
+
+  describe('getTransfers', () => {
+    it('should send only the default paging params without filters', async () => {
+      mockGet.mockResolvedValueOnce({ data: { transfers: [], total: 0 } });
+
+      await transferSimApi.getTransfers('sent', 20, 40);
+
+      expect(mockGet).toHaveBeenCalledWith('/api/v1/transfers', {
+        params: { direction: 'sent', limit: 20, offset: 40 },
+      });
+    });
+
+    it('should send status, date range and search filters', async () => {
+      mockGet.mockResolvedValueOnce({
+        data: { transfers: [{ transferId: 'tr-1', amount: '12.50', status: 'COMPLETED' }], total: 1 },
+      });
+
+      const result = await transferSimApi.getTransfers('all', 20, 0, {
+        statuses: ['COMPLETED', 'PENDING'],
+        fromDate: '2026-03-01',
+        toDate: '2026-03-31',
+        query: '  bob ',
+      });
+
+      expect(mockGet).toHaveBeenCalledWith('/api/v1/transfers', {
+        params: {
+          direction: 'all',
+          limit: 20,
+          offset: 0,
+          status: 'COMPLETED,PENDING',
+          fromDate: '2026-03-01',
+          toDate: '2026-03-31',
+          tzOffset: new Date().getTimezoneOffset(),
+          q: 'bob',
+        },
+      });
+      expect(result.total).toBe(1);
+      expect(result.transfers[0]).toMatchObject({ transferId: 'tr-1', amount: { minor: 1250, currency: 'CAD' } });
+    });
+
+    it('should ignore empty status lists and blank searches', async () => {
+      mockGet.mockResolvedValueOnce({ data: { transfers: [], total: 0 } });
+
+      await transferSimApi.getTransfers(undefined, 20, 0, { statuses: [], query: '   ' });
+
+      expect(mockGet).toHaveBeenCalledWith('/api/v1/transfers', {
+        params: { direction: 'all', limit: 20, offset: 0 },
+      });
+    });
+
+    it('should parse amounts into Money in their own currencies', async () => {
+      mockGet.mockResolvedValueOnce({
+        data: {
+          transfers: [{
+            transferId: 'tr-1',
+            amount: '0.30',
+            currency: 'usd',
+            targetAmount: 41,
+            targetCurrency: 'JPY',
+            refundedAmount: 0.1,
+            refunds: [{ refundId: 'r-1', amount: '0.10', status: 'COMPLETED', createdAt: '2026-03-01T00:00:00Z' }],
+          }],
+          total: 1,
+        },
+      });
+
+      const [transfer] = (await transferSimApi.getTransfers('all', 20, 0)).transfers;
+
+      expect(transfer.amount).toEqual({ minor: 30, currency: 'USD' });
+      expect(transfer.targetAmount).toEqual({ minor: 41, currency: 'JPY' });
+      expect(transfer.refundedAmount).toEqual({ minor: 10, currency: 'USD' });
+      expect(transfer.refunds?.[0].amount).toEqual({ minor: 10, currency: 'USD' });
+    });
+  });
+
+  describe('lookupAliases', () => {
+    it('should post only alias hashes and types', async () => {
+      const aliases = [{ aliasHash: 'ab12', aliasType: 'PHONE' as const }];
+      mockPost.mockResolvedValueOnce({ data: { results: [{ aliasHash: 'ab12', found: true }] } });
+
+      const result = await transferSimApi.lookupAliases(aliases);
+
+      expect(mockPost).toHaveBeenCalledWith('/api/v1/aliases/lookup/batch', { aliases });
+      expect(result).toEqual([{ aliasHash: 'ab12', found: true }]);
+    });
+
+    it('should not call TransferSim for an empty batch', async () => {
+      expect(await transferSimApi.lookupAliases([])).toEqual([]);
+      expect(mockPost).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getMerchantTransfersSince', () => {
+    const page = (from: number, count: number, day: number) => ({
+      data: {
+        transactions: Array.from({ length: count }, (_, i) => ({
+          transferId: `tr-${from + i}`,
+          amount: 10,
+          status: 'COMPLETED',
+          createdAt: new Date(Date.UTC(2026, 2, day, 12, 0, 0) - i * 1000).toISOString(),
+        })),
+        total: 500,
+      },
+    });
+
+    it('should stop paging at the first page that reaches past the start date', async () => {
+      mockGet
+        .mockResolvedValueOnce(page(0, 100, 20))
+        .mockResolvedValueOnce(page(100, 100, 10));
+
+      const result = await transferSimApi.getMerchantTransfersSince(new Date(Date.UTC(2026, 2, 15)));
+
+      expect(mockGet).toHaveBeenCalledTimes(2);
+      expect(result).toHaveLength(100);
+      expect(result[0].transferId).toBe('tr-0');
+    });
+  });
+
+  describe('Money Requests', () => {
+    it('should create an outgoing request in a normalized currency', async () => {
+      mockPost.mockResolvedValueOnce({
+        data: { requestId: 'req-1', status: 'PENDING', amount: '25.50', currency: 'cad', createdAt: '2026-03-10T12:00:00.000Z' },
+      });
+
+      const result = await transferSimApi.createMoneyRequest({
+        payerAlias: '@bob',
+        amount: 25.5,
+        currency: 'cad',
+        description: 'Dinner',
+      });
+
+      expect(mockPost).toHaveBeenCalledWith('/api/v1/requests', {
+        payerAlias: '@bob',
+        amount: 25.5,
+        currency: 'CAD',
+        description: 'Dinner',
+      });
+      expect(result).toMatchObject({ requestId: 'req-1', direction: 'outgoing', amount: { minor: 2550, currency: 'CAD' }, currency: 'CAD' });
+    });
+
+    it('should list requests with filters and drop malformed entries', async () => {
+      mockGet.mockResolvedValueOnce({
+        data: { requests: [{ requestId: 'req-1', amount: 10 }, null, 'bad'], total: 1 },
+      });
+
+      const result = await transferSimApi.listMoneyRequests('incoming', 'PENDING');
+
+      expect(mockGet).toHaveBeenCalledWith('/api/v1/requests', {
+        params: { direction: 'incoming', limit: 20, offset: 0, status: 'PENDING' },
+      });
+      expect(result.total).toBe(1);
+      expect(result.requests).toHaveLength(1);
+      expect(result.requests[0]).toMatchObject({ requestId: 'req-1', direction: 'incoming', status: 'PENDING' });
+    });
+
+    it('should get a single request', async () => {
+      mockGet.mockResolvedValueOnce({ data: { requestId: 'req-2', amount: '7.25', currency: 'USD' } });
+
+      const result = await transferSimApi.getMoneyRequest('req-2');
+
+      expect(mockGet).toHaveBeenCalledWith('/api/v1/requests/req-2');
+      expect(result).toMatchObject({ requestId: 'req-2', amount: { minor: 725, currency: 'USD' }, currency: 'USD' });
+    });
+
+    it('should approve a request from the chosen account', async () => {
+      mockPost.mockResolvedValueOnce({ data: { transferId: 'tr-1' } });
+
+      const result = await transferSimApi.approveMoneyRequest('req-1', 'acct-1', 'bsim-1');
+
+      expect(mockPost).toHaveBeenCalledWith('/api/v1/requests/req-1/approve', {
+        sourceAccountId: 'acct-1',
+        senderBsimId: 'bsim-1',
+      });
+      expect(result).toEqual({ requestId: 'req-1', status: 'APPROVED', transferId: 'tr-1' });
+    });
+
+    it('should decline and cancel requests', async () => {
+      mockPost.mockResolvedValueOnce({ data: {} }).mockResolvedValueOnce({ data: {} });
+
+      await transferSimApi.declineMoneyRequest('req-1', 'Already paid');
+      await transferSimApi.cancelMoneyRequest('req-2');
+
+      expect(mockPost).toHaveBeenNthCalledWith(1, '/api/v1/requests/req-1/decline', { reason: 'Already paid' });
+      expect(mockPost).toHaveBeenNthCalledWith(2, '/api/v1/requests/req-2/cancel');
+    });
+  });
+});
@@ -0,0 +1,388 @@
+/**
+ * ContactsPanel Component
+ *
+ * Opt-in device contacts for the P2P Send Money flow. Contacts whose phone
+ * number or email is a registered alias are marked "on mwsim" and can be
+ * picked as the recipient.
+ */
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  FlatList,
+  Linking,
+  RefreshControl,
+} from 'react-native';
+import ProfileAvatar from './ProfileAvatar';
+import { contactsService, searchContacts } from '../services/contacts';
+import type { DeviceContact } from '../types';
+
+interface ContactsPanelProps {
+  /** Called when user picks a contact that is on mwsim */
+  onSelectContact: (contact: DeviceContact & { match: NonNullable<DeviceContact['match']> }) => void;
+  /** Whether the panel is currently visible/active */
+  isActive: boolean;
+}
+
+type PanelState = 'checking' | 'optIn' | 'loading' | 'ready' | 'denied' | 'error';
+
+export const ContactsPanel: React.FC<ContactsPanelProps> = ({ onSelectContact, isActive }) => {
+  const [state, setState] = useState<PanelState>('checking');
+  const [contacts, setContacts] = useState<DeviceContact[]>([]);
+  const [query, setQuery] = useState('');
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const loadContacts = useCallback(async (force: boolean = false) => {
+    try {
+      const deviceContacts = await contactsService.getContacts();
+      const result = await contactsService.resolveContacts(deviceContacts, { force });
+      setContacts(result.contacts);
+      setState('ready');
+    } catch (e: any) {
+      console.warn('[ContactsPanel] Failed to load contacts:', e.message);
+      setState(e.message === 'Contacts permission not granted' ? 'denied' : 'error');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isActive) return;
+
+    let mounted = true;
+    (async () => {
+      const enabled = await contactsService.isEnabled();
+      if (!mounted) return;
+      if (!enabled) {
+        setState('optIn');
+        return;
+      }
+      setState('loading');
+      await loadContacts();
+    })();
+
+    return () => {
+      mounted = false;
+    };
+  }, [isActive, loadContacts]);
+
+  const handleAllow = async () => {
+    setState('loading');
+    const granted = await contactsService.enable();
+    if (!granted) {
+      setState('denied');
+      return;
+    }
+    await loadContacts();
+  };
+
+  const handleTurnOff = async () => {
+    await contactsService.disable();
+    setContacts([]);
+    setState('optIn');
+  };
+
+  const handleRefresh = useCallback(async () => {
+    setIsRefreshing(true);
+    await loadContacts(true);
+    setIsRefreshing(false);
+  }, [loadContacts]);
+
+  const visibleContacts = useMemo(() => searchContacts(contacts, query), [contacts, query]);
+  const matchedCount = contacts.filter((c) => c.match).length;
+
+  // Render individual contact row
+  const renderContactRow = useCallback(({ item }: { item: DeviceContact }) => {
+    const match = item.match;
+    return (
+      <TouchableOpacity
+        style={[styles.contactRow, !match && styles.contactRowDisabled]}
+        onPress={() => match && onSelectContact({ ...item, match })}
+        disabled={!match}
+        activeOpacity={0.7}
+      >
+        <ProfileAvatar
+          imageUrl={match?.lookup.profileImageUrl || item.imageUri}
+          displayName={item.name}
+          size="small"
+          initialsColor={match?.lookup.initialsColor}
+          variant={match?.lookup.isMerchant ? 'merchant' : 'user'}
+        />
+        <View style={styles.contactInfo}>
+          <Text style={[styles.contactName, !match && styles.contactNameDisabled]} numberOfLines={1}>
+            {item.name}
+          </Text>
+          <Text style={styles.contactSubtitle} numberOfLines={1}>
+            {match ? match.identifier.value : item.identifiers[0].value}
+          </Text>
+        </View>
+        {match && (
+          <View style={styles.onMwsimBadge}>
+            <Text style={styles.onMwsimBadgeText}>on mwsim</Text>
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  }, [onSelectContact]);
+
+  // Render content based on state
+  const renderContent = () => {
+    switch (state) {
+      case 'checking':
+      case 'loading':
+        return (
+          <View style={styles.centerContent}>
+            <ActivityIndicator size="large" color="#1976D2" />
+            {state === 'loading' && <Text style={styles.statusText}>Finding contacts on mwsim...</Text>}
+          </View>
+        );
+
+      case 'optIn':
+        return (
+          <View style={styles.centerContent}>
+            <Text style={styles.emptyIcon}>👥</Text>
+            <Text style={styles.emptyTitle}>Find friends on mwsim</Text>
+            <Text style={styles.emptySubtitle}>
+              See which of your contacts can receive money by phone number or email. Their phone numbers and
+              email addresses are sent to mwsim as hashes to check for matches; names, photos and the rest of
+              your address book stay on your phone.
+            </Text>
+            <TouchableOpacity style={[styles.retryButton, { marginTop: 20 }]} onPress={handleAllow}>
+              <Text style={styles.retryButtonText}>Allow Contacts</Text>
+            </TouchableOpacity>
+          </View>
+        );
+
+      case 'denied':
+        return (
+          <View style={styles.centerContent}>
+            <Text style={styles.errorIcon}>!</Text>
+            <Text style={styles.errorText}>
+              mwsim doesn't have access to your contacts. You can allow it in Settings.
+            </Text>
+            <TouchableOpacity style={styles.retryButton} onPress={() => Linking.openSettings()}>
+              <Text style={styles.retryButtonText}>Open Settings</Text>
+            </TouchableOpacity>
+          </View>
+        );
+
+      case 'error':
+        return (
+          <View style={styles.centerContent}>
+            <Text style={styles.errorIcon}>!</Text>
+            <Text style={styles.errorText}>Couldn't load your contacts. Please try again.</Text>
+            <TouchableOpacity style={styles.retryButton} onPress={handleRefresh}>
+              <Text style={styles.retryButtonText}>Try Again</Text>
+            </TouchableOpacity>
+          </View>
+        );
+
+      case 'ready':
+        return (
+          <>
+            <View style={styles.searchContainer}>
+              <TextInput
+                style={styles.searchInput}
+                placeholder="Search contacts"
+                value={query}
+                onChangeText={setQuery}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+            </View>
+            <FlatList
+              data={visibleContacts}
+              renderItem={renderContactRow}
+              keyExtractor={(item) => item.contactId}
+              contentContainerStyle={styles.listContent}
+              keyboardShouldPersistTaps="handled"
+              refreshControl={
+                <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />
+              }
+              ListEmptyComponent={
+                <View style={styles.centerContent}>
+                  <Text style={styles.emptySubtitle}>
+                    {query ? 'No contacts match your search.' : 'No contacts with a phone number or email.'}
+                  </Text>
+                </View>
+              }
+            />
+          </>
+        );
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Contacts</Text>
+        {state === 'ready' && (
+          <View style={styles.headerRight}>
+            <Text style={styles.matchedText}>{matchedCount} on mwsim</Text>
+            <TouchableOpacity onPress={handleTurnOff}>
+              <Text style={styles.turnOffText}>Turn off</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+
+      {renderContent()}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  headerRight: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  matchedText: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginRight: 12,
+  },
+  turnOffText: {
+    fontSize: 13,
+    color: '#1976D2',
+    fontWeight: '500',
+  },
+  centerContent: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+    paddingVertical: 48,
+  },
+  statusText: {
+    fontSize: 15,
+    color: '#6b7280',
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  errorIcon: {
+    fontSize: 48,
+    color: '#ef4444',
+    marginBottom: 16,
+  },
+  errorText: {
+    fontSize: 15,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  retryButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    backgroundColor: '#1976D2',
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  emptyIcon: {
+    fontSize: 48,
+    marginBottom: 16,
+  },
+  emptyTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  emptySubtitle: {
+    fontSize: 15,
+    color: '#6b7280',
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  searchContainer: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  searchInput: {
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#111827',
+  },
+  listContent: {
+    paddingVertical: 8,
+  },
+  contactRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#ffffff',
+    marginHorizontal: 16,
+    marginVertical: 4,
+    borderRadius: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 1,
+  },
+  contactRowDisabled: {
+    opacity: 0.6,
+  },
+  contactInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  contactName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  contactNameDisabled: {
+    color: '#6b7280',
+  },
+  contactSubtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  onMwsimBadge: {
+    backgroundColor: '#dcfce7',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    marginLeft: 12,
+  },
+  onMwsimBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#15803d',
+  },
+});
+
+export default ContactsPanel;
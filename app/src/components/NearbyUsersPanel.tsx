@@ -16,6 +16,7 @@ import {
   RefreshControl,
 } from 'react-native';
 import ProfileAvatar from './ProfileAvatar';
+import { formatMoney } from '../services/currency';
 import {
   initializeBle,
   startScanning,
@@ -175,7 +176,7 @@ export const NearbyUsersPanel: React.FC<NearbyUsersPanelProps> = ({
 
           {item.metadata?.amount && (
             <Text style={styles.requestedAmount}>
-              Requesting ${item.metadata.amount.toFixed(2)}
+              Requesting {formatMoney(item.metadata.amount)}
             </Text>
           )}
         </View>
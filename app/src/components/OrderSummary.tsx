@@ -13,6 +13,7 @@ import {
   StyleSheet,
   TouchableOpacity,
 } from 'react-native';
+import { formatMoney } from '../services/currency';
 import type {
   OrderDetails,
   OrderLineItem as OrderLineItemType,
@@ -28,16 +29,6 @@ interface OrderSummaryProps {
 // Number of items to show before "View all" link
 const INITIAL_ITEMS_VISIBLE = 5;
 
-/**
- * Format a number as currency
- */
-function formatCurrency(amount: number, currency: string): string {
-  return new Intl.NumberFormat('en-CA', {
-    style: 'currency',
-    currency: currency,
-  }).format(amount);
-}
-
 /**
  * Format quantity (handles decimals for weight-based items)
  */
@@ -68,7 +59,7 @@ interface LineItemProps {
 function OrderLineItem({ item, currency, isLast }: LineItemProps) {
   const lineTotal = item.quantity * item.unitPrice;
   const displayName = truncateText(item.name);
-  const accessibilityLabel = `${item.name}, quantity ${formatQuantity(item.quantity)}, ${formatCurrency(lineTotal, currency)}`;
+  const accessibilityLabel = `${item.name}, quantity ${formatQuantity(item.quantity)}, ${formatMoney(lineTotal, currency)}`;
 
   return (
     <View
@@ -81,11 +72,11 @@ function OrderLineItem({ item, currency, isLast }: LineItemProps) {
           {displayName}
         </Text>
         <Text style={styles.lineItemQuantity}>
-          Qty: {formatQuantity(item.quantity)} × {formatCurrency(item.unitPrice, currency)}
+          Qty: {formatQuantity(item.quantity)} × {formatMoney(item.unitPrice, currency)}
         </Text>
       </View>
       <Text style={styles.lineItemTotal}>
-        {formatCurrency(lineTotal, currency)}
+        {formatMoney(lineTotal, currency)}
       </Text>
     </View>
   );
@@ -111,7 +102,7 @@ function CostBreakdownRow({
   isTotal = false,
   accessibilityLabel,
 }: BreakdownRowProps) {
-  const formattedAmount = formatCurrency(Math.abs(amount), currency);
+  const formattedAmount = formatMoney(Math.abs(amount), currency);
   const displayText = isDiscount ? `-${formattedAmount}` : formattedAmount;
 
   return (
@@ -264,7 +255,7 @@ export function OrderSummary({ orderDetails, currency, embedded = false }: Order
                 amount={discount.amount}
                 currency={currency}
                 isDiscount={true}
-                accessibilityLabel={`Discount, ${discount.code || discount.description || 'applied'}, minus ${formatCurrency(discount.amount, currency)}`}
+                accessibilityLabel={`Discount, ${discount.code || discount.description || 'applied'}, minus ${formatMoney(discount.amount, currency)}`}
               />
             ))}
           </View>
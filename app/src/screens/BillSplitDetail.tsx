@@ -0,0 +1,484 @@
+/**
+ * BillSplitDetailScreen - Group tracker for a bill split
+ *
+ * Shows each participant's share and whether they have paid. Requested
+ * shares are refreshed from their money requests on open and on pull to
+ * refresh. Failed shares can be retried, and shares settled outside the
+ * app can be marked as paid.
+ */
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  RefreshControl,
+} from 'react-native';
+import { biometricService } from '../services/biometric';
+import { billSplitService, getBillSplitProgress } from '../services/billSplits';
+import { formatMoney } from '../services/currency';
+import { formatMoneyValue, money, sumMoney } from '../services/money';
+import { ProfileAvatar } from '../components/ProfileAvatar';
+import { SPLIT_METHOD_LABELS } from './SplitBill';
+import type { BillSplit, BillSplitParticipant, BillSplitShareStatus } from '../types';
+
+interface BillSplitDetailScreenProps {
+  splitId: string;
+  onBack: () => void;
+  onDeleted: () => void;
+}
+
+const STATUS_INFO: Record<BillSplitShareStatus, { label: string; color: string; bgColor: string }> = {
+  PENDING: { label: 'Not sent', color: '#6B7280', bgColor: '#F3F4F6' },
+  REQUESTED: { label: 'Requested', color: '#B45309', bgColor: '#FEF3C7' },
+  SENT: { label: 'Sent', color: '#1D4ED8', bgColor: '#DBEAFE' },
+  PAID: { label: 'Paid', color: '#047857', bgColor: '#D1FAE5' },
+  DECLINED: { label: 'Declined', color: '#B91C1C', bgColor: '#FEE2E2' },
+  FAILED: { label: 'Failed', color: '#B91C1C', bgColor: '#FEE2E2' },
+};
+
+export const BillSplitDetailScreen: React.FC<BillSplitDetailScreenProps> = ({
+  splitId,
+  onBack,
+  onDeleted,
+}) => {
+  const [split, setSplit] = useState<BillSplit | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [retrying, setRetrying] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setSplit(await billSplitService.refreshStatuses(splitId));
+    } catch (e) {
+      console.error('[BillSplitDetail] Failed to refresh split:', e);
+      setSplit(await billSplitService.getBillSplit(splitId).catch(() => null));
+    }
+  }, [splitId]);
+
+  useEffect(() => {
+    refresh().finally(() => setLoading(false));
+  }, [refresh]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await refresh();
+    setRefreshing(false);
+  };
+
+  if (loading || !split) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        {loading ? <ActivityIndicator size="large" color="#1976D2" /> : <Text style={styles.emptyText}>Split not found</Text>}
+      </View>
+    );
+  }
+
+  const progress = getBillSplitProgress(split);
+  const retryable = split.participants.filter((p) =>
+    split.settleMode === 'SEND' ? p.status === 'FAILED' : p.status === 'FAILED' || p.status === 'DECLINED'
+  );
+
+  const handleRetry = async () => {
+    if (split.settleMode === 'SEND') {
+      const authResult = await biometricService.authenticateForTransfer(
+        formatMoneyValue(sumMoney(retryable.map((p) => money(p.amount, split.currency)), split.currency)),
+        `${retryable.length} ${retryable.length === 1 ? 'person' : 'people'}`
+      );
+      if (!authResult.success) {
+        if (authResult.error !== 'Authentication cancelled') {
+          Alert.alert('Authentication Failed', authResult.error || 'Please try again');
+        }
+        return;
+      }
+    }
+
+    setRetrying(true);
+    try {
+      setSplit(split.settleMode === 'SEND'
+        ? await billSplitService.sendShares(split.splitId)
+        : await billSplitService.issueRequests(split.splitId));
+    } catch (e: any) {
+      console.error('[BillSplitDetail] Retry failed:', e);
+      Alert.alert('Error', e.message || 'Failed to retry. Please try again.');
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  const handleMarkPaid = (participant: BillSplitParticipant) => {
+    const name = participant.displayName || participant.alias;
+    Alert.alert(
+      'Mark as Paid',
+      `Mark ${name}'s ${formatMoney(participant.amount, split.currency)} as paid outside the app?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Mark Paid',
+          onPress: async () => {
+            try {
+              setSplit(await billSplitService.markSharePaid(split.splitId, participant.participantId));
+            } catch (e: any) {
+              Alert.alert('Error', e.message || 'Failed to update the split');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleDelete = () => {
+    Alert.alert(
+      'Delete Split',
+      progress.paidCount < progress.participantCount && split.settleMode === 'REQUEST'
+        ? 'Requests that haven\'t been paid yet will be cancelled.'
+        : 'This removes the split from your device.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            await billSplitService.deleteBillSplit(split.splitId);
+            onDeleted();
+          },
+        },
+      ]
+    );
+  };
+
+  const progressPercent = progress.participantCount > 0 ? (progress.paidCount / progress.participantCount) * 100 : 0;
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <Text style={styles.backButtonText}>‹ Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Bill Split</Text>
+        <TouchableOpacity onPress={handleDelete} style={styles.headerAction}>
+          <Text style={styles.deleteText}>Delete</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+      >
+        {/* Summary */}
+        <View style={styles.summaryCard}>
+          <Text style={styles.description}>{split.description}</Text>
+          <Text style={styles.total}>{formatMoney(split.total, split.currency)}</Text>
+          <Text style={styles.summaryMeta}>
+            Split {SPLIT_METHOD_LABELS[split.method].toLowerCase()}
+            {split.merchantName ? ` · Paid to ${split.merchantName}` : ''}
+          </Text>
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: `${progressPercent}%` }]} />
+          </View>
+          <Text style={styles.progressText}>
+            {progress.paidCount} of {progress.participantCount} paid · {formatMoney(progress.collected, split.currency)}{' '}
+            {split.settleMode === 'SEND' ? 'sent' : 'collected'}
+          </Text>
+          {progress.outstanding > 0 && (
+            <Text style={styles.outstandingText}>{formatMoney(progress.outstanding, split.currency)} outstanding</Text>
+          )}
+        </View>
+
+        {/* Participants */}
+        <Text style={styles.sectionTitle}>Who's paid</Text>
+        <View style={styles.listCard}>
+          {split.includeOrganizer && (
+            <View style={styles.participantRow}>
+              <View style={styles.meBadge}>
+                <Text style={styles.meBadgeText}>Me</Text>
+              </View>
+              <View style={styles.participantInfo}>
+                <Text style={styles.participantName}>Your share</Text>
+              </View>
+              <Text style={styles.participantAmount}>{formatMoney(split.organizerAmount, split.currency)}</Text>
+            </View>
+          )}
+          {split.participants.map((participant) => {
+            const statusInfo = STATUS_INFO[participant.status];
+            return (
+              <View key={participant.participantId} style={styles.participantRow}>
+                <ProfileAvatar
+                  imageUrl={participant.profileImageUrl}
+                  displayName={participant.displayName || participant.alias}
+                  initialsColor={participant.initialsColor}
+                  size="small"
+                  variant="user"
+                />
+                <View style={styles.participantInfo}>
+                  <Text style={styles.participantName}>{participant.displayName || participant.alias}</Text>
+                  {participant.lastError ? (
+                    <Text style={styles.errorText} numberOfLines={2}>{participant.lastError}</Text>
+                  ) : participant.paidManually ? (
+                    <Text style={styles.participantMeta}>Marked paid</Text>
+                  ) : split.method === 'SHARES' && participant.shares ? (
+                    <Text style={styles.participantMeta}>
+                      {participant.shares} {participant.shares === 1 ? 'share' : 'shares'}
+                    </Text>
+                  ) : null}
+                  {participant.status !== 'PAID' && split.settleMode === 'REQUEST' && (
+                    <TouchableOpacity onPress={() => handleMarkPaid(participant)}>
+                      <Text style={styles.linkText}>Mark paid</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+                <View style={styles.participantRight}>
+                  <Text style={styles.participantAmount}>{formatMoney(participant.amount, split.currency)}</Text>
+                  <View style={[styles.statusBadge, { backgroundColor: statusInfo.bgColor }]}>
+                    <Text style={[styles.statusText, { color: statusInfo.color }]}>{statusInfo.label}</Text>
+                  </View>
+                </View>
+              </View>
+            );
+          })}
+        </View>
+
+        {/* Items */}
+        {split.method === 'ITEMS' && split.items && split.items.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Items</Text>
+            <View style={styles.listCard}>
+              {split.items.map((item) => (
+                <View key={item.itemId} style={styles.itemRow}>
+                  <Text style={styles.itemName}>{item.name}</Text>
+                  <Text style={styles.itemAmount}>{formatMoney(item.amount, split.currency)}</Text>
+                </View>
+              ))}
+            </View>
+          </>
+        )}
+
+        {retryable.length > 0 && (
+          <TouchableOpacity
+            style={[styles.retryButton, retrying && styles.buttonDisabled]}
+            onPress={handleRetry}
+            disabled={retrying}
+          >
+            {retrying ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Text style={styles.retryButtonText}>
+                {split.settleMode === 'SEND' ? 'Retry Failed Transfers' : `Request Again (${retryable.length})`}
+              </Text>
+            )}
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F7FA',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingRight: 16,
+    minWidth: 60,
+  },
+  backButtonText: {
+    fontSize: 17,
+    color: '#1976D2',
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  headerAction: {
+    paddingVertical: 8,
+    minWidth: 60,
+    alignItems: 'flex-end',
+  },
+  deleteText: {
+    fontSize: 16,
+    color: '#DC2626',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#6B7280',
+  },
+  summaryCard: {
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 24,
+    marginBottom: 24,
+  },
+  description: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  total: {
+    fontSize: 34,
+    fontWeight: '700',
+    color: '#111827',
+    marginTop: 8,
+  },
+  summaryMeta: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  progressTrack: {
+    alignSelf: 'stretch',
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#E5E7EB',
+    marginTop: 16,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 8,
+    backgroundColor: '#10B981',
+  },
+  progressText: {
+    fontSize: 14,
+    color: '#374151',
+    marginTop: 8,
+  },
+  outstandingText: {
+    fontSize: 13,
+    color: '#B45309',
+    marginTop: 4,
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  listCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    marginBottom: 24,
+  },
+  participantRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  meBadge: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#E3F2FD',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  meBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#1976D2',
+  },
+  participantInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  participantName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  participantMeta: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  participantRight: {
+    alignItems: 'flex-end',
+  },
+  participantAmount: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    marginTop: 4,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#DC2626',
+    marginTop: 2,
+  },
+  linkText: {
+    fontSize: 13,
+    color: '#1976D2',
+    fontWeight: '500',
+    marginTop: 4,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  itemName: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  itemAmount: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  retryButton: {
+    backgroundColor: '#1976D2',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginBottom: 32,
+  },
+  retryButtonText: {
+    color: '#fff',
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
+
+export default BillSplitDetailScreen;
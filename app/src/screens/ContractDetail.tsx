@@ -3,9 +3,12 @@
  *
  * Shows full contract information including:
  * - Status and type
- * - Both parties with their stakes
+ * - Both parties with their stakes (or the roster of a pool)
  * - Conditions and their status
+ * - Counter-offers and the negotiation thread while proposed
+ * - Milestones of escrow and milestone contracts, with deliver/release/reject
  * - Outcome if settled
+ * - Dispute timeline (each party's evidence and the resolution)
  * - Action buttons based on state
  */
 import React, { useState, useEffect, useCallback } from 'react';
@@ -19,12 +22,56 @@ import {
   Alert,
   RefreshControl,
   Platform,
+  TextInput,
+  Image,
+  Linking,
 } from 'react-native';
+import * as ImagePicker from 'expo-image-picker';
 import { v4 as uuidv4 } from 'uuid';
 import { api } from '../services/api';
+import { formatMoney, validateAmount } from '../services/currency';
+import { formatMoneyValue, parseMoneyValue, toAmountString, zeroMoney } from '../services/money';
+import { describePoolProgress, getMyParty, getProjectedPayout, isPoolContract } from '../services/contractPools';
+import {
+  MILESTONE_STATUS_INFO,
+  describeAutoRelease,
+  formatAutoReleaseWindow,
+  getMilestoneActions,
+  getMilestoneProgress,
+  getReleaseIdempotencyKey,
+  isMilestoneContractType,
+  isPayer,
+} from '../services/contractMilestones';
+import type { MilestoneAction } from '../services/contractMilestones';
+import { describeConditions } from '../services/contractConditions';
+import {
+  COUNTER_EXPIRY_OPTIONS,
+  OFFER_STATUS_INFO,
+  canCounterOffer,
+  diffTerms,
+  getCurrentTerms,
+  getOfferChanges,
+  getPendingOffer,
+  isAwaitingMyResponse,
+  toCounterOfferRequest,
+  validateCounterOffer,
+} from '../services/contractOffers';
+import type { TermChange, TermField } from '../services/contractOffers';
 import { ProfileAvatar } from '../components/ProfileAvatar';
-import type { Contract, ContractParty, ContractCondition, BankAccount } from '../types';
-import { CONTRACT_STATUS_INFO, CONTRACT_TYPE_INFO } from '../types';
+import type {
+  Contract,
+  ContractParty,
+  ContractCondition,
+  ContractDispute,
+  ContractMilestone,
+  ContractTerms,
+  BankAccount,
+  DisputeEvidence,
+  DisputeEvidenceType,
+  DisputeHistoryEvent,
+  Money,
+} from '../types';
+import { CONTRACT_STATUS_INFO, CONTRACT_TYPE_INFO, SETTLEMENT_TYPE_INFO } from '../types';
 
 interface ContractDetailScreenProps {
   contractId: string;
@@ -34,14 +81,6 @@ interface ContractDetailScreenProps {
   refreshTrigger?: number;
 }
 
-// Format currency amount
-const formatAmount = (amount: number, currency: string = 'CAD'): string => {
-  return new Intl.NumberFormat('en-CA', {
-    style: 'currency',
-    currency,
-  }).format(amount);
-};
-
 // Format date
 const formatDate = (dateString: string): string => {
   return new Date(dateString).toLocaleDateString('en-CA', {
@@ -73,13 +112,13 @@ const PartyCard: React.FC<{
           {isMe && <Text style={styles.meTag}>You</Text>}
         </View>
         <Text style={styles.partyRole}>
-          {party.role === 'creator' ? 'Creator' : 'Counterparty'}
+          {party.role === 'creator' ? 'Creator' : party.role === 'participant' ? 'Participant' : 'Counterparty'}
         </Text>
       </View>
     </View>
 
     <View style={styles.partyStake}>
-      <Text style={styles.stakeAmount}>{formatAmount(party.stake.amount, currency)}</Text>
+      <Text style={styles.stakeAmount}>{formatMoneyValue(party.stake)}</Text>
       <Text style={styles.stakeLabel}>Stake</Text>
     </View>
 
@@ -100,6 +139,56 @@ const PartyCard: React.FC<{
   </View>
 );
 
+// Pool roster: every party's prediction, stake, acceptance and funding
+const PoolRoster: React.FC<{ contract: Contract; myPartyId?: string }> = ({ contract, myPartyId }) => (
+  <View style={styles.partyCard}>
+    <Text style={styles.rosterSummary}>
+      {describePoolProgress(contract)} · {SETTLEMENT_TYPE_INFO[contract.settlementType]?.label || 'Split evenly'}
+    </Text>
+    {contract.parties.map((party) => {
+      const payout = contract.outcome?.payouts?.find((p) => p.partyId === party.id);
+      const projected = contract.outcome ? null : getProjectedPayout(contract, party.id);
+      return (
+        <View key={party.id} style={styles.rosterRow}>
+          <ProfileAvatar
+            imageUrl={party.profileImageUrl}
+            displayName={party.displayName}
+            initialsColor={party.initialsColor}
+            size="small"
+          />
+          <View style={styles.partyInfo}>
+            <View style={styles.partyNameRow}>
+              <Text style={styles.partyName} numberOfLines={1}>{party.displayName}</Text>
+              {party.id === myPartyId && <Text style={styles.meTag}>You</Text>}
+            </View>
+            <Text style={styles.partyRole} numberOfLines={1}>
+              {party.prediction ? `Predicts ${party.prediction}` : 'No prediction yet'}
+              {contract.settlementType === 'custom' && party.payoutShare != null ? ` · ${party.payoutShare}% if right` : ''}
+            </Text>
+            <Text style={styles.partyRole}>
+              <Text style={party.accepted ? styles.statusYes : styles.statusNo}>
+                {party.accepted ? 'Accepted' : 'Not accepted'}
+              </Text>
+              {' · '}
+              <Text style={party.funded ? styles.statusYes : styles.statusNo}>
+                {party.funded ? 'Funded' : 'Not funded'}
+              </Text>
+            </Text>
+          </View>
+          <View style={styles.rosterAmounts}>
+            <Text style={styles.rosterStake}>{formatMoneyValue(party.stake)}</Text>
+            {payout ? (
+              <Text style={styles.rosterPayout}>Paid {formatMoneyValue(payout.amount)}</Text>
+            ) : projected !== null ? (
+              <Text style={styles.stakeLabel}>Wins {formatMoneyValue(projected)}</Text>
+            ) : null}
+          </View>
+        </View>
+      );
+    })}
+  </View>
+);
+
 // Condition card component
 const ConditionCard: React.FC<{ condition: ContractCondition; index: number }> = ({
   condition,
@@ -124,9 +213,7 @@ const ConditionCard: React.FC<{ condition: ContractCondition; index: number }> =
       </View>
 
       <Text style={styles.conditionEvent}>Event: {condition.eventId}</Text>
-      <Text style={styles.conditionPredicate}>
-        {condition.predicate.field} {condition.predicate.operator} {JSON.stringify(condition.predicate.value)}
-      </Text>
+      <Text style={styles.conditionPredicate}>{describeConditions([condition.predicate])}</Text>
 
       {condition.result !== undefined && (
         <Text style={styles.conditionResult}>
@@ -137,6 +224,218 @@ const ConditionCard: React.FC<{ condition: ContractCondition; index: number }> =
   );
 };
 
+const DISPUTE_EVENT_LABELS: Record<DisputeHistoryEvent['type'], string> = {
+  raised: 'Dispute raised',
+  evidence_added: 'Evidence added',
+  under_review: 'Under review',
+  resolved: 'Dispute resolved',
+  rejected: 'Dispute rejected',
+};
+
+const EVIDENCE_TYPE_LABELS: Record<DisputeEvidenceType, string> = {
+  text: 'Statement',
+  url: 'Link',
+  photo: 'Photo',
+};
+
+const URL_PATTERN = /^https?:\/\/\S+$/i;
+
+// Evidence attached to a dispute timeline entry
+const EvidenceView: React.FC<{ evidence: DisputeEvidence }> = ({ evidence }) => (
+  <View style={styles.evidenceCard}>
+    {evidence.type === 'photo' && evidence.url && (
+      <TouchableOpacity onPress={() => Linking.openURL(evidence.url!)}>
+        <Image source={{ uri: evidence.url }} style={styles.evidencePhoto} resizeMode="cover" />
+      </TouchableOpacity>
+    )}
+    {evidence.type === 'url' && evidence.url && (
+      <TouchableOpacity onPress={() => Linking.openURL(evidence.url!)}>
+        <Text style={styles.evidenceLink} numberOfLines={2}>{evidence.url}</Text>
+      </TouchableOpacity>
+    )}
+    {evidence.description && <Text style={styles.evidenceText}>{evidence.description}</Text>}
+  </View>
+);
+
+// Milestone card component
+const MilestoneCard: React.FC<{
+  milestone: ContractMilestone;
+  currency: string;
+  actions: MilestoneAction[];
+  onAction: (action: MilestoneAction) => void;
+  disabled: boolean;
+}> = ({ milestone, currency, actions, onAction, disabled }) => {
+  const statusInfo = MILESTONE_STATUS_INFO[milestone.status] || MILESTONE_STATUS_INFO.pending;
+  const autoRelease = describeAutoRelease(milestone);
+
+  return (
+    <View style={styles.conditionCard}>
+      <View style={styles.conditionHeader}>
+        <Text style={styles.milestoneTitle}>{milestone.title}</Text>
+        <View style={[styles.conditionStatusBadge, { backgroundColor: statusInfo.color + '20' }]}>
+          <Text style={[styles.conditionStatusText, { color: statusInfo.color }]}>{statusInfo.label}</Text>
+        </View>
+      </View>
+      <Text style={styles.milestoneAmount}>{formatMoneyValue(milestone.amount)}</Text>
+      {milestone.description && <Text style={styles.conditionEvent}>{milestone.description}</Text>}
+      {milestone.dueAt && milestone.status !== 'released' && (
+        <Text style={styles.conditionEvent}>Due {formatDate(milestone.dueAt)}</Text>
+      )}
+      {milestone.deliveredAt && milestone.status !== 'pending' && (
+        <Text style={styles.conditionEvent}>
+          Delivered {formatDate(milestone.deliveredAt)}
+          {milestone.deliveryNote ? ` · "${milestone.deliveryNote}"` : ''}
+        </Text>
+      )}
+      {milestone.status === 'rejected' && milestone.rejectionReason && (
+        <Text style={styles.milestoneRejection}>Changes requested: {milestone.rejectionReason}</Text>
+      )}
+      {milestone.releasedAt && <Text style={styles.conditionEvent}>Released {formatDate(milestone.releasedAt)}</Text>}
+      {autoRelease && <Text style={styles.conditionEvent}>{autoRelease}</Text>}
+
+      {actions.length > 0 && (
+        <View style={styles.milestoneActions}>
+          {actions.map((action) => (
+            <TouchableOpacity
+              key={action}
+              style={[styles.chip, action !== 'reject' && styles.chipSelected]}
+              onPress={() => onAction(action)}
+              disabled={disabled}
+            >
+              <Text style={[styles.chipText, action !== 'reject' && styles.chipTextSelected]}>
+                {action === 'deliver'
+                  ? milestone.status === 'rejected' ? 'Deliver Again' : 'Mark Delivered'
+                  : action === 'release' ? 'Release Funds' : 'Request Changes'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+// Dispute timeline component
+const DisputeTimeline: React.FC<{
+  dispute: ContractDispute;
+  events: DisputeHistoryEvent[];
+  getPartyName: (partyId?: string) => string;
+}> = ({ dispute, events, getPartyName }) => {
+  // Older disputes may have no history yet; show the dispute itself
+  const entries: DisputeHistoryEvent[] = events.length > 0
+    ? events
+    : [{
+        id: dispute.id,
+        type: 'raised',
+        partyId: dispute.partyId,
+        description: dispute.reason,
+        createdAt: dispute.createdAt,
+      }];
+  const statusColor = dispute.status === 'resolved' ? '#10B981' : dispute.status === 'rejected' ? '#6B7280' : '#DC2626';
+
+  return (
+    <>
+      <View style={styles.conditionHeader}>
+        <Text style={styles.disputeReason}>{dispute.reason}</Text>
+        <View style={[styles.conditionStatusBadge, { backgroundColor: statusColor + '20' }]}>
+          <Text style={[styles.conditionStatusText, { color: statusColor }]}>
+            {dispute.status.charAt(0).toUpperCase() + dispute.status.slice(1)}
+          </Text>
+        </View>
+      </View>
+
+      <View style={styles.timeline}>
+        {entries.map((event) => (
+          <View key={event.id} style={styles.timelineItem}>
+            <Text style={styles.timelineLabel}>
+              {formatDate(event.createdAt)} · {getPartyName(event.partyId)}
+            </Text>
+            <Text style={styles.timelineValue}>
+              {event.type === 'evidence_added' && event.evidence
+                ? `${DISPUTE_EVENT_LABELS[event.type]}: ${EVIDENCE_TYPE_LABELS[event.evidence.type]}`
+                : DISPUTE_EVENT_LABELS[event.type] || event.type}
+            </Text>
+            {event.description && event.type !== 'evidence_added' && (
+              <Text style={styles.evidenceText}>{event.description}</Text>
+            )}
+            {event.evidence && <EvidenceView evidence={event.evidence} />}
+          </View>
+        ))}
+      </View>
+
+      {dispute.status !== 'pending' && dispute.resolution && (
+        <View style={[styles.outcomeCard, dispute.status === 'rejected' && styles.resolutionCardRejected]}>
+          <Text style={[styles.outcomeResult, dispute.status === 'rejected' && styles.resolutionTextRejected]}>
+            {dispute.status === 'resolved' ? 'RESOLUTION' : 'DISPUTE REJECTED'}
+          </Text>
+          <Text style={styles.outcomeWinner}>{dispute.resolution}</Text>
+          {dispute.resolvedAt && (
+            <Text style={styles.outcomeAmount}>{formatDate(dispute.resolvedAt)}</Text>
+          )}
+        </View>
+      )}
+    </>
+  );
+};
+
+// Format one side of a term change
+const formatTermValue = (field: TermField, value: Money | string | undefined): string => {
+  if (value === undefined || value === '') return 'None';
+  if (typeof value !== 'string') return formatMoneyValue(value);
+  if (field === 'expiresAt') return formatDate(value);
+  return value;
+};
+
+// Diff view: each changed term, old value struck through
+const TermChanges: React.FC<{
+  changes: TermChange[];
+  labels: Record<TermField, string>;
+}> = ({ changes, labels }) => (
+  <View>
+    {changes.map((change) => (
+      <View key={change.field} style={styles.termChangeRow}>
+        <Text style={styles.termChangeLabel}>{labels[change.field]}</Text>
+        <View style={styles.termChangeValues}>
+          <Text style={styles.termChangeFrom}>{formatTermValue(change.field, change.from)}</Text>
+          <Text style={styles.termChangeTo}>→ {formatTermValue(change.field, change.to)}</Text>
+        </View>
+      </View>
+    ))}
+  </View>
+);
+
+// Negotiation thread: every revision, with what it changed
+const NegotiationThread: React.FC<{
+  contract: Contract;
+  labels: Record<TermField, string>;
+  getPartyName: (partyId?: string) => string;
+}> = ({ contract, labels, getPartyName }) => (
+  <View style={styles.timeline}>
+    {(contract.offers || []).map((offer) => {
+      const statusInfo = OFFER_STATUS_INFO[offer.status];
+      const changes = getOfferChanges(contract, offer);
+      return (
+        <View key={offer.id} style={styles.timelineItem}>
+          <View style={styles.conditionHeader}>
+            <Text style={styles.timelineLabel}>
+              {offer.revision === 1 ? 'Original proposal' : `Counter-offer ${offer.revision - 1}`} ·{' '}
+              {getPartyName(offer.partyId)}
+            </Text>
+            {statusInfo && (
+              <View style={[styles.conditionStatusBadge, { backgroundColor: statusInfo.color + '20' }]}>
+                <Text style={[styles.conditionStatusText, { color: statusInfo.color }]}>{statusInfo.label}</Text>
+              </View>
+            )}
+          </View>
+          <Text style={styles.conditionEvent}>{formatDate(offer.createdAt)}</Text>
+          {offer.message && <Text style={styles.evidenceText}>{offer.message}</Text>}
+          {changes.length > 0 && <TermChanges changes={changes} labels={labels} />}
+        </View>
+      );
+    })}
+  </View>
+);
+
 export const ContractDetailScreen: React.FC<ContractDetailScreenProps> = ({
   contractId,
   onBack,
@@ -149,6 +448,26 @@ export const ContractDetailScreen: React.FC<ContractDetailScreenProps> = ({
   const [error, setError] = useState<string | null>(null);
   const [actionLoading, setActionLoading] = useState(false);
   const [accounts, setAccounts] = useState<BankAccount[]>([]);
+  const [disputeEvents, setDisputeEvents] = useState<DisputeHistoryEvent[]>([]);
+  // Dispute form: raise a dispute, or add evidence to an open one
+  const [disputeForm, setDisputeForm] = useState<'raise' | 'evidence' | null>(null);
+  const [disputeReason, setDisputeReason] = useState('');
+  const [evidenceType, setEvidenceType] = useState<DisputeEvidenceType>('text');
+  const [evidenceText, setEvidenceText] = useState('');
+  const [evidenceUrl, setEvidenceUrl] = useState('');
+  const [evidencePhotoUri, setEvidencePhotoUri] = useState<string | null>(null);
+  // Pool participants make their own prediction when accepting
+  const [prediction, setPrediction] = useState('');
+  // Milestone form: delivery note, or what needs to change when rejecting
+  const [milestoneForm, setMilestoneForm] = useState<{ milestoneId: string; action: 'deliver' | 'reject' } | null>(null);
+  const [milestoneNote, setMilestoneNote] = useState('');
+  // Counter-offer form, prefilled from the latest terms
+  const [counterForm, setCounterForm] = useState(false);
+  const [counterMyStake, setCounterMyStake] = useState('');
+  const [counterTheirStake, setCounterTheirStake] = useState('');
+  const [counterExpiryHours, setCounterExpiryHours] = useState<number | null>(null);
+  const [counterPrediction, setCounterPrediction] = useState('');
+  const [counterMessage, setCounterMessage] = useState('');
 
   const loadContract = useCallback(async (showLoader = true) => {
     if (showLoader) setLoading(true);
@@ -158,6 +477,19 @@ export const ContractDetailScreen: React.FC<ContractDetailScreenProps> = ({
       const data = await api.getContract(contractId);
       setContract(data);
 
+      // Load each party's submissions once there's a dispute
+      if (data.dispute || data.status === 'disputed') {
+        try {
+          const history = await api.getDisputeHistory(contractId);
+          setDisputeEvents(history.events);
+          if (history.dispute) {
+            setContract({ ...data, dispute: history.dispute });
+          }
+        } catch (historyErr: any) {
+          console.log('[ContractDetail] Dispute history unavailable:', historyErr.message);
+        }
+      }
+
       // Load accounts if we might need to fund (wagers auto-fund on accept)
       const isWager = data.type?.toLowerCase() === 'wager';
       if (data.status === 'funding' || (isWager && data.status === 'proposed')) {
@@ -182,8 +514,43 @@ export const ContractDetailScreen: React.FC<ContractDetailScreenProps> = ({
     loadContract(false);
   };
 
+  /**
+   * Fund the user's stake right after they accept a wager (or its new terms)
+   * @returns Whether the stake was funded; a failed fund is reported to the user
+   */
+  const autoFundWager = async (accepted: string): Promise<boolean> => {
+    console.log('[ContractDetail] Auto-funding wager after accept');
+    // Make sure we have accounts
+    let fundingAccounts = accounts;
+    if (fundingAccounts.length === 0) {
+      const { accounts: accts } = await api.getAccounts();
+      fundingAccounts = accts as BankAccount[];
+      setAccounts(fundingAccounts);
+    }
+    if (fundingAccounts.length === 0) {
+      Alert.alert('Accepted', `${accepted} accepted, but no bank account was found to fund it. You can fund it manually.`);
+      return false;
+    }
+
+    try {
+      const idempotencyKey = uuidv4();
+      await api.fundContract(contractId, fundingAccounts[0].accountId, idempotencyKey);
+      console.log('[ContractDetail] Auto-fund successful');
+      return true;
+    } catch (fundErr: any) {
+      console.error('[ContractDetail] Auto-fund failed:', fundErr);
+      Alert.alert('Accepted', `${accepted} accepted but auto-funding failed. You can fund it manually.`);
+      return false;
+    }
+  };
+
   const handleAccept = async () => {
     const isWager = contract?.type?.toLowerCase() === 'wager';
+    const isPool = !!contract && isPoolContract(contract);
+    if (isPool && !prediction.trim()) {
+      Alert.alert('Prediction Needed', 'Enter your prediction before joining the pool.');
+      return;
+    }
     const confirmMessage = isWager
       ? 'Are you sure you want to accept this wager? Your stake will be automatically funded.'
       : 'Are you sure you want to accept this contract?';
@@ -198,36 +565,14 @@ export const ContractDetailScreen: React.FC<ContractDetailScreenProps> = ({
           onPress: async () => {
             setActionLoading(true);
             try {
-              await api.acceptContract(contractId);
+              await api.acceptContract(contractId, isPool ? prediction.trim() : undefined);
 
               // Auto-fund wagers immediately after accepting
-              if (isWager) {
-                console.log('[ContractDetail] Auto-funding wager after accept');
-                // Make sure we have accounts
-                let fundingAccounts = accounts;
-                if (fundingAccounts.length === 0) {
-                  const { accounts: accts } = await api.getAccounts();
-                  fundingAccounts = accts as BankAccount[];
-                  setAccounts(fundingAccounts);
-                }
-
-                if (fundingAccounts.length > 0) {
-                  try {
-                    const idempotencyKey = uuidv4();
-                    await api.fundContract(contractId, fundingAccounts[0].accountId, idempotencyKey);
-                    console.log('[ContractDetail] Auto-fund successful');
-                    await loadContract(false);
-                    onRefreshNeeded?.();
-                    Alert.alert('Success', 'Wager accepted and funded!');
-                    return;
-                  } catch (fundErr: any) {
-                    console.error('[ContractDetail] Auto-fund failed:', fundErr);
-                    Alert.alert(
-                      'Accepted',
-                      'Wager accepted but auto-funding failed. You can fund it manually.'
-                    );
-                  }
-                }
+              if (isWager && (await autoFundWager('Wager'))) {
+                await loadContract(false);
+                onRefreshNeeded?.();
+                Alert.alert('Success', 'Wager accepted and funded!');
+                return;
               }
 
               await loadContract(false);
@@ -280,12 +625,12 @@ export const ContractDetailScreen: React.FC<ContractDetailScreenProps> = ({
 
     // For now, use the first account. In a real app, you'd show an account picker.
     const account = accounts[0];
-    const myParty = contract?.parties.find(p => p.role === contract.myRole);
-    const stakeAmount = myParty?.stake.amount || 0;
+    const myParty = contract ? getMyParty(contract) : undefined;
+    const stake = myParty?.stake || zeroMoney(contract?.currency);
 
     Alert.alert(
       'Fund Contract',
-      `This will place a hold of ${formatAmount(stakeAmount)} on your ${account.displayName} account.`,
+      `This will place a hold of ${formatMoneyValue(stake)} on your ${account.displayName} account.`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -297,7 +642,14 @@ export const ContractDetailScreen: React.FC<ContractDetailScreenProps> = ({
               await api.fundContract(contractId, account.accountId, idempotencyKey);
               await loadContract(false);
               onRefreshNeeded?.();
-              Alert.alert('Success', 'Contract funded! Waiting for counterparty to fund.');
+              Alert.alert(
+                'Success',
+                contract && isMilestoneContractType(contract.type)
+                  ? 'Contract funded! The money is held in escrow until you release it.'
+                  : contract && isPoolContract(contract)
+                    ? 'Contract funded! Waiting for the rest of the pool to fund.'
+                    : 'Contract funded! Waiting for counterparty to fund.'
+              );
             } catch (err: any) {
               Alert.alert('Error', err.message || 'Failed to fund contract');
             } finally {
@@ -335,19 +687,284 @@ export const ContractDetailScreen: React.FC<ContractDetailScreenProps> = ({
     );
   };
 
+  const resetDisputeForm = () => {
+    setDisputeForm(null);
+    setDisputeReason('');
+    setEvidenceType('text');
+    setEvidenceText('');
+    setEvidenceUrl('');
+    setEvidencePhotoUri(null);
+  };
+
+  const handlePickEvidencePhoto = () => {
+    const pick = async (source: 'camera' | 'library') => {
+      try {
+        const { status } = source === 'camera'
+          ? await ImagePicker.requestCameraPermissionsAsync()
+          : await ImagePicker.requestMediaLibraryPermissionsAsync();
+        if (status !== 'granted') {
+          Alert.alert('Permission Required', `${source === 'camera' ? 'Camera' : 'Photo library'} access is needed to add a photo.`);
+          return;
+        }
+        const options: ImagePicker.ImagePickerOptions = { mediaTypes: ['images'], quality: 0.8 };
+        const result = source === 'camera'
+          ? await ImagePicker.launchCameraAsync(options)
+          : await ImagePicker.launchImageLibraryAsync(options);
+        if (!result.canceled && result.assets[0]) {
+          setEvidencePhotoUri(result.assets[0].uri);
+        }
+      } catch (err) {
+        console.error('[ContractDetail] Image picker error:', err);
+        Alert.alert('Error', 'Failed to add photo.');
+      }
+    };
+
+    Alert.alert('Add Photo', 'Choose how you want to add a photo', [
+      { text: 'Take Photo', onPress: () => pick('camera') },
+      { text: 'Choose from Library', onPress: () => pick('library') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handleMilestoneAction = (milestone: ContractMilestone, action: MilestoneAction) => {
+    if (action !== 'release') {
+      setMilestoneNote('');
+      setMilestoneForm({ milestoneId: milestone.id, action });
+      return;
+    }
+
+    const payee = contract?.parties.find((p) => !isPayer(p));
+    Alert.alert(
+      'Release Funds',
+      `Pay ${formatMoneyValue(milestone.amount)} to ${payee?.displayName || 'the counterparty'} for "${milestone.title}"? This can't be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Release',
+          onPress: async () => {
+            setActionLoading(true);
+            try {
+              await api.releaseMilestone(contractId, milestone.id, getReleaseIdempotencyKey(contractId, milestone.id));
+              await loadContract(false);
+              onRefreshNeeded?.();
+            } catch (err: any) {
+              Alert.alert('Error', err.response?.data?.message || err.message || 'Failed to release funds');
+            } finally {
+              setActionLoading(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleSubmitMilestoneForm = async () => {
+    if (!milestoneForm) return;
+    if (milestoneForm.action === 'reject' && !milestoneNote.trim()) {
+      Alert.alert('Error', 'Please explain what needs to change');
+      return;
+    }
+
+    setActionLoading(true);
+    try {
+      if (milestoneForm.action === 'deliver') {
+        await api.deliverMilestone(contractId, milestoneForm.milestoneId, milestoneNote.trim());
+      } else {
+        await api.rejectMilestone(contractId, milestoneForm.milestoneId, milestoneNote.trim());
+      }
+      setMilestoneForm(null);
+      setMilestoneNote('');
+      await loadContract(false);
+      onRefreshNeeded?.();
+    } catch (err: any) {
+      Alert.alert('Error', err.response?.data?.message || err.message || 'Failed to update milestone');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleSubmitDispute = async () => {
+    if (!disputeReason.trim()) {
+      Alert.alert('Error', 'Please explain why you are disputing the outcome');
+      return;
+    }
+    if (evidenceUrl.trim() && !URL_PATTERN.test(evidenceUrl.trim())) {
+      Alert.alert('Error', 'Please enter a link starting with http:// or https://');
+      return;
+    }
+
+    setActionLoading(true);
+    try {
+      await api.disputeContract(contractId, {
+        reason: disputeReason.trim(),
+        description: evidenceText.trim() || undefined,
+        url: evidenceUrl.trim() || undefined,
+      });
+      resetDisputeForm();
+      await loadContract(false);
+      onRefreshNeeded?.();
+      Alert.alert('Dispute Raised', 'Settlement is on hold while the dispute is reviewed. You can add evidence at any time.');
+    } catch (err: any) {
+      Alert.alert('Error', err.response?.data?.message || err.message || 'Failed to dispute contract');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleSubmitEvidence = async () => {
+    if (evidenceType === 'text' && !evidenceText.trim()) {
+      Alert.alert('Error', 'Please enter your statement');
+      return;
+    }
+    if (evidenceType === 'url' && !URL_PATTERN.test(evidenceUrl.trim())) {
+      Alert.alert('Error', 'Please enter a link starting with http:// or https://');
+      return;
+    }
+    if (evidenceType === 'photo' && !evidencePhotoUri) {
+      Alert.alert('Error', 'Please choose a photo');
+      return;
+    }
+
+    const description = evidenceText.trim() || undefined;
+    setActionLoading(true);
+    try {
+      await api.addDisputeEvidence(
+        contractId,
+        evidenceType === 'text'
+          ? { type: 'text', description: description! }
+          : evidenceType === 'url'
+          ? { type: 'url', url: evidenceUrl.trim(), description }
+          : { type: 'photo', imageUri: evidencePhotoUri!, description }
+      );
+      resetDisputeForm();
+      await loadContract(false);
+    } catch (err: any) {
+      Alert.alert('Error', err.response?.data?.message || err.message || 'Failed to add evidence');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const openCounterForm = () => {
+    if (!contract) return;
+    const terms = getCurrentTerms(contract);
+    const isCreator = getMyParty(contract)?.role === 'creator';
+    setCounterMyStake(toAmountString(isCreator ? terms.creatorStake : terms.counterpartyStake));
+    setCounterTheirStake(toAmountString(isCreator ? terms.counterpartyStake : terms.creatorStake));
+    setCounterExpiryHours(null);
+    setCounterPrediction(terms.prediction || '');
+    setCounterMessage('');
+    setCounterForm(true);
+  };
+
+  // Terms as entered in the counter-offer form
+  const getCounterTerms = (current: ContractTerms, currency: string, isCreator: boolean): ContractTerms => {
+    const myStake = parseMoneyValue(counterMyStake, currency);
+    const theirStake = parseMoneyValue(counterTheirStake, currency);
+    return {
+      creatorStake: isCreator ? myStake : theirStake,
+      counterpartyStake: isCreator ? theirStake : myStake,
+      expiresAt: counterExpiryHours
+        ? new Date(Date.now() + counterExpiryHours * 60 * 60 * 1000).toISOString()
+        : current.expiresAt,
+      prediction: counterPrediction.trim() || undefined,
+    };
+  };
+
+  const handleSubmitCounterOffer = async () => {
+    if (!contract) return;
+    const stakeError = validateAmount(counterMyStake, contract.currency) ||
+      validateAmount(counterTheirStake, contract.currency);
+    if (stakeError) {
+      Alert.alert('Error', stakeError);
+      return;
+    }
+    const current = getCurrentTerms(contract);
+    const proposed = getCounterTerms(current, contract.currency, getMyParty(contract)?.role === 'creator');
+    const invalid = validateCounterOffer(current, proposed);
+    if (invalid) {
+      Alert.alert('Error', invalid);
+      return;
+    }
+
+    setActionLoading(true);
+    try {
+      await api.counterOffer(contractId, toCounterOfferRequest(current, proposed, counterMessage));
+      setCounterForm(false);
+      await loadContract(false);
+      onRefreshNeeded?.();
+      Alert.alert('Counter-Offer Sent', 'They can accept your terms or counter again.');
+    } catch (err: any) {
+      Alert.alert('Error', err.response?.data?.message || err.message || 'Failed to send counter-offer');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleAcceptOffer = () => {
+    const pendingOffer = contract ? getPendingOffer(contract) : undefined;
+    if (!pendingOffer) return;
+    const isWager = contract?.type?.toLowerCase() === 'wager';
+
+    Alert.alert(
+      'Accept Changes',
+      isWager
+        ? 'Are you sure you want to accept the new terms? Your stake will be automatically funded.'
+        : 'Are you sure you want to accept the new terms? Each of you then funds your stake.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Accept',
+          onPress: async () => {
+            setActionLoading(true);
+            try {
+              await api.acceptOffer(contractId, pendingOffer.id);
+
+              // Auto-fund wagers as soon as the new terms are accepted
+              if (isWager && (await autoFundWager('Terms'))) {
+                await loadContract(false);
+                onRefreshNeeded?.();
+                Alert.alert('Success', 'Terms accepted and your stake funded!');
+                return;
+              }
+
+              await loadContract(false);
+              onRefreshNeeded?.();
+              if (!isWager) {
+                Alert.alert('Success', 'Terms accepted! You can now fund your stake.');
+              }
+            } catch (err: any) {
+              Alert.alert('Error', err.response?.data?.message || err.message || 'Failed to accept the new terms');
+            } finally {
+              setActionLoading(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
   // Determine what actions are available
   const getActions = () => {
     if (!contract) return [];
     const actions: { label: string; onPress: () => void; style?: 'primary' | 'secondary' | 'danger' }[] = [];
 
-    const myParty = contract.parties.find(p => p.role === contract.myRole);
+    const myParty = getMyParty(contract);
     const isCreator = contract.myRole === 'creator';
-    const isCounterparty = contract.myRole === 'counterparty';
+    const isInvited = contract.myRole === 'counterparty' || contract.myRole === 'participant';
 
     switch (contract.status) {
       case 'proposed':
-        if (isCounterparty && !myParty?.accepted) {
+        // While a counter-offer is pending only its terms can be accepted
+        if (isAwaitingMyResponse(contract, myParty)) {
+          actions.push({ label: 'Accept Changes', onPress: handleAcceptOffer, style: 'primary' });
+        } else if (isInvited && !myParty?.accepted && !getPendingOffer(contract)) {
           actions.push({ label: 'Accept', onPress: handleAccept, style: 'primary' });
+        }
+        if (canCounterOffer(contract, myParty)) {
+          actions.push({ label: 'Counter-Offer', onPress: openCounterForm, style: 'secondary' });
+        }
+        if (isInvited && !myParty?.accepted) {
           actions.push({ label: 'Decline', onPress: handleDecline, style: 'danger' });
         }
         if (isCreator) {
@@ -356,7 +973,8 @@ export const ContractDetailScreen: React.FC<ContractDetailScreenProps> = ({
         break;
 
       case 'funding':
-        if (myParty && !myParty.funded) {
+        // Escrow and milestone payees put nothing in
+        if (myParty && !myParty.funded && myParty.stake.minor > 0) {
           actions.push({ label: 'Fund Your Stake', onPress: handleFund, style: 'primary' });
         }
         if (isCreator) {
@@ -368,8 +986,17 @@ export const ContractDetailScreen: React.FC<ContractDetailScreenProps> = ({
         // No actions during active state - waiting for oracle
         break;
 
+      case 'settling':
+        // Either party can dispute the oracle's outcome before it settles
+        if (myParty && !contract.dispute) {
+          actions.push({ label: 'Dispute Outcome', onPress: () => setDisputeForm('raise'), style: 'danger' });
+        }
+        break;
+
       case 'disputed':
-        // Future: Add dispute actions
+        if (myParty && contract.dispute?.status !== 'resolved' && contract.dispute?.status !== 'rejected') {
+          actions.push({ label: 'Add Evidence', onPress: () => setDisputeForm('evidence'), style: 'primary' });
+        }
         break;
     }
 
@@ -420,6 +1047,35 @@ export const ContractDetailScreen: React.FC<ContractDetailScreenProps> = ({
   const statusInfo = CONTRACT_STATUS_INFO[normalizedStatus] || { label: 'Unknown', color: '#9CA3AF', icon: '❓' };
   const typeInfo = CONTRACT_TYPE_INFO[normalizedType] || { label: 'Contract', icon: '📄', description: 'Contract' };
   const actions = getActions();
+  const myParty = getMyParty(contract);
+  const isPool = isPoolContract(contract);
+  const needsPrediction = isPool && contract.status === 'proposed' && myParty?.role === 'participant' && !myParty.accepted;
+  const hasMilestones = isMilestoneContractType(contract.type) && (contract.milestones?.length || 0) > 0;
+  const milestoneProgress = getMilestoneProgress(contract);
+
+  const getPartyName = (partyId?: string): string => {
+    if (!partyId) return 'ContractSim';
+    const party = contract.parties.find((p) => p.id === partyId);
+    if (!party) return 'Unknown party';
+    return party.id === myParty?.id ? 'You' : party.displayName;
+  };
+
+  // Negotiation: labels relative to the user, and the changes in the counter-offer form
+  const creatorParty = contract.parties.find((p) => p.role === 'creator');
+  const counterpartyParty = contract.parties.find((p) => p.role === 'counterparty');
+  const otherPartyName = contract.parties.find((p) => p.id !== myParty?.id)?.displayName || 'the other party';
+  const isMyTerm = (party?: ContractParty) => !!party && party.id === myParty?.id;
+  const termLabels: Record<TermField, string> = {
+    creatorStake: isMyTerm(creatorParty) ? 'Your stake' : `${creatorParty?.displayName || 'Creator'}'s stake`,
+    counterpartyStake: isMyTerm(counterpartyParty) ? 'Your stake' : `${counterpartyParty?.displayName || 'Counterparty'}'s stake`,
+    expiresAt: 'Expires',
+    prediction: isMyTerm(creatorParty) ? 'Your prediction' : `${creatorParty?.displayName || 'Creator'}'s prediction`,
+  };
+  const pendingOffer = getPendingOffer(contract);
+  const currentTerms = getCurrentTerms(contract);
+  const counterChanges = counterForm
+    ? diffTerms(currentTerms, getCounterTerms(currentTerms, contract.currency, isMyTerm(creatorParty)))
+    : [];
 
   return (
     <View style={styles.container}>
@@ -456,35 +1112,221 @@ export const ContractDetailScreen: React.FC<ContractDetailScreenProps> = ({
           )}
           <View style={styles.potContainer}>
             <Text style={styles.potLabel}>Total Pot</Text>
-            <Text style={styles.potAmount}>{formatAmount(contract.totalPot, contract.currency)}</Text>
+            <Text style={styles.potAmount}>{formatMoneyValue(contract.totalPot)}</Text>
           </View>
         </View>
 
         {/* Parties */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Parties</Text>
-          {contract.parties.map((party) => (
-            <PartyCard
-              key={party.id}
-              party={party}
-              isMe={party.role === contract.myRole}
-              currency={contract.currency}
-            />
-          ))}
-        </View>
-
-        {/* Conditions */}
-        <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Conditions</Text>
-          {contract.conditions.length > 0 ? (
-            contract.conditions.map((condition, index) => (
-              <ConditionCard key={index} condition={condition} index={index} />
-            ))
+          <Text style={styles.sectionTitle}>{isPool ? `Participants (${contract.parties.length})` : 'Parties'}</Text>
+          {isPool ? (
+            <PoolRoster contract={contract} myPartyId={myParty?.id} />
           ) : (
-            <Text style={styles.noConditions}>No conditions defined</Text>
+            contract.parties.map((party) => (
+              <PartyCard
+                key={party.id}
+                party={party}
+                isMe={party.id === myParty?.id}
+                currency={contract.currency}
+              />
+            ))
           )}
         </View>
 
+        {/* Negotiation (counter-offers while proposed) */}
+        {(contract.offers?.length || 0) > 1 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Negotiation</Text>
+            {pendingOffer && (
+              <View style={styles.pendingOfferCard}>
+                <Text style={styles.pendingOfferTitle}>
+                  {isAwaitingMyResponse(contract, myParty)
+                    ? `${getPartyName(pendingOffer.partyId)} proposed new terms`
+                    : `Waiting for ${otherPartyName} to respond`}
+                </Text>
+                <TermChanges changes={getOfferChanges(contract, pendingOffer)} labels={termLabels} />
+              </View>
+            )}
+            <NegotiationThread contract={contract} labels={termLabels} getPartyName={getPartyName} />
+          </View>
+        )}
+
+        {/* Counter-offer form */}
+        {counterForm && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Counter-Offer</Text>
+            <Text style={styles.formLabel}>Your stake</Text>
+            <TextInput
+              style={styles.formInput}
+              placeholder="0.00"
+              value={counterMyStake}
+              onChangeText={setCounterMyStake}
+              keyboardType="decimal-pad"
+            />
+            <Text style={styles.formLabel}>{otherPartyName}'s stake</Text>
+            <TextInput
+              style={styles.formInput}
+              placeholder="0.00"
+              value={counterTheirStake}
+              onChangeText={setCounterTheirStake}
+              keyboardType="decimal-pad"
+            />
+            <Text style={styles.formLabel}>Expires</Text>
+            <View style={styles.chipRow}>
+              {[null, ...COUNTER_EXPIRY_OPTIONS].map((hours) => (
+                <TouchableOpacity
+                  key={hours ?? 'current'}
+                  style={[styles.chip, counterExpiryHours === hours && styles.chipSelected]}
+                  onPress={() => setCounterExpiryHours(hours)}
+                >
+                  <Text style={[styles.chipText, counterExpiryHours === hours && styles.chipTextSelected]}>
+                    {hours === null ? 'Keep current' : `In ${formatAutoReleaseWindow(hours)}`}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.formLabel}>{termLabels.prediction}</Text>
+            <TextInput
+              style={styles.formInput}
+              placeholder="e.g. Team A wins"
+              value={counterPrediction}
+              onChangeText={setCounterPrediction}
+              maxLength={100}
+            />
+            <Text style={styles.formLabel}>Message (optional)</Text>
+            <TextInput
+              style={[styles.formInput, styles.formInputMultiline]}
+              placeholder="e.g. Happy to play if you match my stake"
+              value={counterMessage}
+              onChangeText={setCounterMessage}
+              multiline
+              maxLength={500}
+            />
+
+            {counterChanges.length > 0 && (
+              <View style={styles.pendingOfferCard}>
+                <Text style={styles.pendingOfferTitle}>Your changes</Text>
+                <TermChanges changes={counterChanges} labels={termLabels} />
+              </View>
+            )}
+
+            <TouchableOpacity
+              style={[styles.actionButton, styles.actionButtonPrimary]}
+              onPress={handleSubmitCounterOffer}
+              disabled={actionLoading}
+            >
+              {actionLoading ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.actionButtonText}>Send Counter-Offer</Text>
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.actionButtonSecondary]}
+              onPress={() => setCounterForm(false)}
+              disabled={actionLoading}
+            >
+              <Text style={[styles.actionButtonText, styles.actionButtonTextSecondary]}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {/* Pool prediction (made when accepting) */}
+        {needsPrediction && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Your Prediction</Text>
+            <Text style={styles.formLabel}>Everyone who predicts the outcome correctly shares the pot.</Text>
+            <TextInput
+              style={styles.formInput}
+              placeholder="e.g. Team A wins"
+              value={prediction}
+              onChangeText={setPrediction}
+              maxLength={100}
+            />
+          </View>
+        )}
+
+        {/* Milestones (escrow and milestone contracts) */}
+        {hasMilestones && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>
+              {normalizedType === 'escrow'
+                ? 'Delivery'
+                : `Milestones (${milestoneProgress.releasedCount} of ${milestoneProgress.milestoneCount} released)`}
+            </Text>
+            {contract.milestones!.map((milestone) => (
+              <MilestoneCard
+                key={milestone.id}
+                milestone={milestone}
+                currency={contract.currency}
+                actions={getMilestoneActions(contract, milestone, myParty)}
+                onAction={(action) => handleMilestoneAction(milestone, action)}
+                disabled={actionLoading}
+              />
+            ))}
+            <Text style={styles.noConditions}>
+              {formatMoney(milestoneProgress.released, contract.currency)} released ·{' '}
+              {formatMoney(milestoneProgress.remaining, contract.currency)} held in escrow
+            </Text>
+
+            {milestoneForm && (
+              <View style={styles.milestoneForm}>
+                <Text style={styles.formLabel}>
+                  {milestoneForm.action === 'deliver' ? 'Note for the payer (optional)' : 'What needs to change?'}
+                </Text>
+                <TextInput
+                  style={[styles.formInput, styles.formInputMultiline]}
+                  placeholder={milestoneForm.action === 'deliver' ? 'e.g. Files are in the shared folder' : 'e.g. The colours are wrong'}
+                  value={milestoneNote}
+                  onChangeText={setMilestoneNote}
+                  multiline
+                  maxLength={500}
+                />
+                <TouchableOpacity
+                  style={[styles.actionButton, styles.actionButtonPrimary]}
+                  onPress={handleSubmitMilestoneForm}
+                  disabled={actionLoading}
+                >
+                  {actionLoading ? (
+                    <ActivityIndicator size="small" color="#fff" />
+                  ) : (
+                    <Text style={styles.actionButtonText}>
+                      {milestoneForm.action === 'deliver' ? 'Mark Delivered' : 'Request Changes'}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.actionButton, styles.actionButtonSecondary]}
+                  onPress={() => setMilestoneForm(null)}
+                  disabled={actionLoading}
+                >
+                  <Text style={[styles.actionButtonText, styles.actionButtonTextSecondary]}>Cancel</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        )}
+
+        {/* Conditions */}
+        {(!hasMilestones || contract.conditions.length > 0) && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Conditions</Text>
+            {contract.conditions.length > 1 && (
+              <Text style={styles.conditionsIntro}>
+                Pays out if {contract.conditionLogic === 'or' ? 'any' : 'all'} of these are true
+                {contract.conditionsSummary ? `: ${contract.conditionsSummary}` : ''}
+              </Text>
+            )}
+            {contract.conditions.length > 0 ? (
+              contract.conditions.map((condition, index) => (
+                <ConditionCard key={index} condition={condition} index={index} />
+              ))
+            ) : (
+              <Text style={styles.noConditions}>No conditions defined</Text>
+            )}
+          </View>
+        )}
+
         {/* Outcome (if settled) */}
         {contract.outcome && (
           <View style={styles.section}>
@@ -496,15 +1338,136 @@ export const ContractDetailScreen: React.FC<ContractDetailScreenProps> = ({
               {contract.outcome.winnerDisplayName && (
                 <Text style={styles.outcomeWinner}>Winner: {contract.outcome.winnerDisplayName}</Text>
               )}
+              {!contract.outcome.winnerDisplayName && contract.outcome.winnerIds && contract.outcome.winnerIds.length > 0 && (
+                <Text style={styles.outcomeWinner}>
+                  {contract.outcome.winnerIds.length === 1 ? 'Winner' : 'Winners'}:{' '}
+                  {contract.outcome.winnerIds.map((id) => getPartyName(id)).join(', ')}
+                </Text>
+              )}
               {contract.outcome.settledAmount && (
                 <Text style={styles.outcomeAmount}>
-                  Settled: {formatAmount(contract.outcome.settledAmount, contract.currency)}
+                  Settled: {formatMoneyValue(contract.outcome.settledAmount)}
                 </Text>
               )}
             </View>
           </View>
         )}
 
+        {/* Dispute */}
+        {contract.dispute && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Dispute</Text>
+            <DisputeTimeline dispute={contract.dispute} events={disputeEvents} getPartyName={getPartyName} />
+          </View>
+        )}
+
+        {/* Dispute form */}
+        {disputeForm && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>
+              {disputeForm === 'raise' ? 'Dispute Outcome' : 'Add Evidence'}
+            </Text>
+
+            {disputeForm === 'raise' ? (
+              <>
+                <Text style={styles.formLabel}>Reason</Text>
+                <TextInput
+                  style={styles.formInput}
+                  placeholder="e.g. The final score was reported wrong"
+                  value={disputeReason}
+                  onChangeText={setDisputeReason}
+                  maxLength={200}
+                />
+                <Text style={styles.formLabel}>Details (optional)</Text>
+                <TextInput
+                  style={[styles.formInput, styles.formInputMultiline]}
+                  placeholder="What happened?"
+                  value={evidenceText}
+                  onChangeText={setEvidenceText}
+                  multiline
+                  maxLength={1000}
+                />
+                <Text style={styles.formLabel}>Supporting link (optional)</Text>
+                <TextInput
+                  style={styles.formInput}
+                  placeholder="https://"
+                  value={evidenceUrl}
+                  onChangeText={setEvidenceUrl}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  keyboardType="url"
+                />
+              </>
+            ) : (
+              <>
+                <View style={styles.chipRow}>
+                  {(Object.keys(EVIDENCE_TYPE_LABELS) as DisputeEvidenceType[]).map((type) => (
+                    <TouchableOpacity
+                      key={type}
+                      style={[styles.chip, evidenceType === type && styles.chipSelected]}
+                      onPress={() => setEvidenceType(type)}
+                    >
+                      <Text style={[styles.chipText, evidenceType === type && styles.chipTextSelected]}>
+                        {EVIDENCE_TYPE_LABELS[type]}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                {evidenceType === 'url' && (
+                  <TextInput
+                    style={styles.formInput}
+                    placeholder="https://"
+                    value={evidenceUrl}
+                    onChangeText={setEvidenceUrl}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    keyboardType="url"
+                  />
+                )}
+                {evidenceType === 'photo' && (
+                  <TouchableOpacity style={styles.photoPicker} onPress={handlePickEvidencePhoto}>
+                    {evidencePhotoUri ? (
+                      <Image source={{ uri: evidencePhotoUri }} style={styles.evidencePhoto} resizeMode="cover" />
+                    ) : (
+                      <Text style={styles.photoPickerText}>📷 Choose a photo</Text>
+                    )}
+                  </TouchableOpacity>
+                )}
+                <TextInput
+                  style={[styles.formInput, evidenceType === 'text' && styles.formInputMultiline]}
+                  placeholder={evidenceType === 'text' ? 'Your statement' : 'Caption (optional)'}
+                  value={evidenceText}
+                  onChangeText={setEvidenceText}
+                  multiline={evidenceType === 'text'}
+                  maxLength={1000}
+                />
+              </>
+            )}
+
+            <TouchableOpacity
+              style={[styles.actionButton, styles.actionButtonPrimary]}
+              onPress={disputeForm === 'raise' ? handleSubmitDispute : handleSubmitEvidence}
+              disabled={actionLoading}
+            >
+              {actionLoading ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.actionButtonText}>
+                  {disputeForm === 'raise' ? 'Submit Dispute' : 'Submit Evidence'}
+                </Text>
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.actionButtonSecondary]}
+              onPress={resetDisputeForm}
+              disabled={actionLoading}
+            >
+              <Text style={[styles.actionButtonText, styles.actionButtonTextSecondary]}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Timeline */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Timeline</Text>
@@ -531,7 +1494,7 @@ export const ContractDetailScreen: React.FC<ContractDetailScreenProps> = ({
         </View>
 
         {/* Actions */}
-        {actions.length > 0 && (
+        {actions.length > 0 && !disputeForm && !counterForm && (
           <View style={styles.actionsSection}>
             {actions.map((action, index) => (
               <TouchableOpacity
@@ -770,6 +1733,34 @@ const styles = StyleSheet.create({
   statusYes: {
     color: '#10B981',
   },
+  rosterSummary: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#374151',
+    marginBottom: 4,
+  },
+  rosterRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  rosterAmounts: {
+    alignItems: 'flex-end',
+    marginLeft: 8,
+  },
+  rosterStake: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  rosterPayout: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#10B981',
+    marginTop: 4,
+  },
   statusNo: {
     color: '#F59E0B',
   },
@@ -792,6 +1783,32 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#111827',
   },
+  milestoneTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+    marginRight: 8,
+  },
+  milestoneAmount: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  milestoneRejection: {
+    fontSize: 13,
+    color: '#DC2626',
+    marginBottom: 4,
+  },
+  milestoneActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  milestoneForm: {
+    marginTop: 16,
+  },
   conditionStatusBadge: {
     paddingHorizontal: 8,
     paddingVertical: 4,
@@ -817,6 +1834,11 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginTop: 8,
   },
+  conditionsIntro: {
+    fontSize: 14,
+    color: '#374151',
+    marginBottom: 12,
+  },
   noConditions: {
     fontSize: 14,
     color: '#9CA3AF',
@@ -898,6 +1920,137 @@ const styles = StyleSheet.create({
   actionButtonTextSecondary: {
     color: '#374151',
   },
+  disputeReason: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+    marginRight: 8,
+  },
+  evidenceCard: {
+    marginTop: 8,
+    backgroundColor: '#F9FAFB',
+    borderRadius: 8,
+    padding: 10,
+  },
+  evidenceText: {
+    fontSize: 14,
+    color: '#374151',
+    lineHeight: 20,
+    marginTop: 4,
+  },
+  evidenceLink: {
+    fontSize: 14,
+    color: '#1976D2',
+    textDecorationLine: 'underline',
+  },
+  evidencePhoto: {
+    width: '100%',
+    height: 180,
+    borderRadius: 8,
+  },
+  resolutionCardRejected: {
+    backgroundColor: '#F3F4F6',
+    borderColor: '#9CA3AF',
+  },
+  resolutionTextRejected: {
+    color: '#4B5563',
+  },
+  pendingOfferCard: {
+    backgroundColor: '#FFFBEB',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  pendingOfferTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#92400E',
+    marginBottom: 4,
+  },
+  termChangeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  termChangeLabel: {
+    fontSize: 14,
+    color: '#374151',
+    flex: 1,
+  },
+  termChangeValues: {
+    alignItems: 'flex-end',
+  },
+  termChangeFrom: {
+    fontSize: 13,
+    color: '#9CA3AF',
+    textDecorationLine: 'line-through',
+  },
+  termChangeTo: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  formLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#374151',
+    marginBottom: 6,
+  },
+  formInput: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#111827',
+    marginBottom: 16,
+  },
+  formInputMultiline: {
+    height: 96,
+    textAlignVertical: 'top',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#F3F4F6',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#1976D2',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  photoPicker: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderStyle: 'dashed',
+    borderRadius: 8,
+    minHeight: 120,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 16,
+    overflow: 'hidden',
+  },
+  photoPickerText: {
+    fontSize: 15,
+    color: '#6B7280',
+  },
   bottomSpacer: {
     height: 32,
   },
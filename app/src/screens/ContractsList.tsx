@@ -3,6 +3,7 @@
  *
  * Shows contracts where user is either creator or counterparty.
  * Displays status badge, counterparty info, stakes, and condition summary.
+ * Contracts saved in the local ledger render first and remain available offline.
  */
 import React, { useState, useEffect, useCallback } from 'react';
 import {
@@ -15,6 +16,8 @@ import {
   RefreshControl,
 } from 'react-native';
 import { api } from '../services/api';
+import { localLedger } from '../services/localLedger';
+import { formatMoneyValue } from '../services/money';
 import { ProfileAvatar } from '../components/ProfileAvatar';
 import type { ContractListItem, ContractStatus, ContractType } from '../types';
 import { CONTRACT_STATUS_INFO, CONTRACT_TYPE_INFO } from '../types';
@@ -33,14 +36,6 @@ const STATUS_FILTERS: { label: string; value: ContractStatus | 'all' | 'active'
   { label: 'Settled', value: 'settled' },
 ];
 
-// Format currency amount
-const formatAmount = (amount: number, currency: string = 'CAD'): string => {
-  return new Intl.NumberFormat('en-CA', {
-    style: 'currency',
-    currency,
-  }).format(amount);
-};
-
 // Format relative time
 const formatRelativeTime = (dateString: string): string => {
   const date = new Date(dateString);
@@ -102,7 +97,9 @@ const ContractListItemComponent: React.FC<{
         </View>
 
         <Text style={styles.counterpartyName} numberOfLines={1}>
-          {contract.myRole === 'creator' ? 'vs' : 'from'} {counterpartyDisplayName}
+          {contract.participantCount && contract.participantCount > 2
+            ? `Pool · ${contract.participantCount} people`
+            : `${contract.myRole === 'creator' ? 'vs' : 'from'} ${counterpartyDisplayName}`}
         </Text>
 
         {contract.conditionsSummary && (
@@ -123,7 +120,7 @@ const ContractListItemComponent: React.FC<{
 
       {/* Right: Stakes */}
       <View style={styles.stakesContainer}>
-        <Text style={styles.potAmount}>{formatAmount(contract.totalPot, contract.currency)}</Text>
+        <Text style={styles.potAmount}>{formatMoneyValue(contract.totalPot)}</Text>
         <Text style={styles.potLabel}>Total Pot</Text>
       </View>
     </TouchableOpacity>
@@ -142,16 +139,27 @@ export const ContractsListScreen: React.FC<ContractsListScreenProps> = ({
   const [activeFilter, setActiveFilter] = useState<ContractStatus | 'all' | 'active'>('all');
 
   const loadContracts = useCallback(async (showLoader = true) => {
-    if (showLoader) setLoading(true);
     setError(null);
 
+    // Render saved contracts from the local ledger while the API request is in flight
+    const saved = (await localLedger.getRecords('contracts').catch(() => []))
+      .filter((c) => activeFilter === 'all' || c.status?.toLowerCase() === activeFilter);
+    if (saved.length > 0) {
+      setContracts(saved);
+      setLoading(false);
+    } else if (showLoader) {
+      setLoading(true);
+    }
+
     try {
       const statusParam = activeFilter === 'all' ? undefined : activeFilter;
       const { contracts: data } = await api.getContracts(statusParam);
       setContracts(data);
+      localLedger.upsertRecords('contracts', data).catch((e) => console.log('[ContractsList] Ledger update failed:', e));
+      localLedger.syncCollection('contracts').catch((e) => console.log('[ContractsList] Ledger sync failed:', e));
     } catch (err: any) {
       console.error('[ContractsList] Error loading contracts:', err);
-      setError(err.message || 'Failed to load contracts');
+      setError(saved.length > 0 ? 'Offline - showing saved contracts' : err.message || 'Failed to load contracts');
     } finally {
       setLoading(false);
       setRefreshing(false);
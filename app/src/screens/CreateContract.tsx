@@ -2,10 +2,15 @@
  * CreateContractScreen - Multi-step contract creation flow
  *
  * Steps:
- * 1. Select contract type and counterparty
+ * 1. Select contract type and counterparty (or the people in a pool)
  * 2. Browse/select oracle event
- * 3. Set stakes and prediction
- * 4. Review and submit
+ * 3. Build the conditions on the event's result (e.g. total score > 45)
+ * 4. Set stakes and prediction
+ * 5. Review and submit
+ *
+ * Escrow and milestone contracts replace steps 2-4 with their terms: what
+ * the counterparty delivers, the amount of each milestone and, for escrow,
+ * how long after delivery the funds release automatically.
  */
 import React, { useState, useEffect, useCallback } from 'react';
 import {
@@ -23,25 +28,83 @@ import {
 import { v4 as uuidv4 } from 'uuid';
 import { api } from '../services/api';
 import { transferSimApi } from '../services/transferSim';
+import { formatMoney, getAccountCurrency, getCurrencySymbol, needsConversion, validateAmount } from '../services/currency';
+import { addMoney, formatMoneyValue, parseMoney, sumMoney, toAmount, zeroMoney } from '../services/money';
+import { MIN_POOL_PARTICIPANTS, validatePool } from '../services/contractPools';
+import {
+  AUTO_RELEASE_OPTIONS,
+  formatAutoReleaseWindow,
+  isMilestoneContractType,
+  validateMilestones,
+} from '../services/contractMilestones';
+import {
+  describeConditions,
+  getDefaultCondition,
+  getEventFields,
+  getOperatorsForField,
+  OPERATOR_INFO,
+  toPredicate,
+  validateCondition,
+} from '../services/contractConditions';
+import type { ConditionInput } from '../services/contractConditions';
 import { ProfileAvatar } from '../components/ProfileAvatar';
-import type { ContractType, OracleEvent, AliasLookupResult, CreateContractRequest, BankAccount } from '../types';
-import { CONTRACT_TYPE_INFO } from '../types';
+import type {
+  ContractType,
+  OracleEvent,
+  AliasLookupResult,
+  CreateContractRequest,
+  BankAccount,
+  ContractParticipantInput,
+  ContractMilestoneInput,
+  ConditionLogic,
+  SettlementType,
+} from '../types';
+import { CONTRACT_TYPE_INFO, SETTLEMENT_TYPE_INFO } from '../types';
 
 interface CreateContractScreenProps {
   onBack: () => void;
   onContractCreated: (contractId: string) => void;
 }
 
-type Step = 'type' | 'counterparty' | 'event' | 'stakes' | 'review';
+type Step = 'type' | 'counterparty' | 'event' | 'conditions' | 'stakes' | 'terms' | 'review';
 
-// Format currency amount
-const formatAmount = (amount: number): string => {
-  return new Intl.NumberFormat('en-CA', {
-    style: 'currency',
-    currency: 'CAD',
-  }).format(amount);
+const ORACLE_STEPS: Step[] = ['type', 'counterparty', 'event', 'stakes', 'review'];
+const CONDITION_STEPS: Step[] = ['type', 'counterparty', 'event', 'conditions', 'stakes', 'review'];
+const MILESTONE_STEPS: Step[] = ['type', 'counterparty', 'terms', 'review'];
+
+const STEP_LABELS: Record<Step, string> = {
+  type: 'Type',
+  counterparty: 'Who',
+  event: 'What',
+  conditions: 'Conditions',
+  stakes: 'Stakes',
+  terms: 'Terms',
+  review: 'Review',
 };
 
+// A person added to a pool on the Who step
+interface PoolParticipantDraft {
+  alias: string;
+  info: AliasLookupResult;
+  stake: string;                   // Same as the creator's stake when empty
+  payoutShare: string;             // Custom settlement only
+}
+
+// A milestone being entered on the Terms step
+interface MilestoneDraft {
+  key: string;
+  title: string;
+  amount: string;
+}
+
+// A condition being built on the Conditions step
+interface ConditionDraft extends ConditionInput {
+  key: string;
+}
+
+// Maximum stake per party (MVP limit, in the stake currency)
+const MAX_STAKE = 100;
+
 // Normalize teams data to handle both old string format and new object format
 // Old format: ["Team A", "Team B"]
 // New format: [{id: "team_a", name: "Team A"}, {id: "team_b", name: "Team B"}]
@@ -77,8 +140,16 @@ export const CreateContractScreen: React.FC<CreateContractScreenProps> = ({
   const [contractType, setContractType] = useState<ContractType>('wager');
   const [counterpartyAlias, setCounterpartyAlias] = useState('');
   const [counterpartyInfo, setCounterpartyInfo] = useState<AliasLookupResult | null>(null);
+  const [isPool, setIsPool] = useState(false);
+  const [participants, setParticipants] = useState<PoolParticipantDraft[]>([]);
+  const [settlementType, setSettlementType] = useState<SettlementType>('winner_takes_all');
+  const [myPayoutShare, setMyPayoutShare] = useState('');
+  const [milestones, setMilestones] = useState<MilestoneDraft[]>([{ key: uuidv4(), title: '', amount: '' }]);
+  const [autoReleaseHours, setAutoReleaseHours] = useState(AUTO_RELEASE_OPTIONS[1]);
   const [selectedEvent, setSelectedEvent] = useState<OracleEvent | null>(null);
   const [myPrediction, setMyPrediction] = useState('');
+  const [conditions, setConditions] = useState<ConditionDraft[]>([]);
+  const [conditionLogic, setConditionLogic] = useState<ConditionLogic>('and');
   const [myStake, setMyStake] = useState('');
   const [theirStake, setTheirStake] = useState('');
   const [title, setTitle] = useState('');
@@ -105,6 +176,64 @@ export const CreateContractScreen: React.FC<CreateContractScreenProps> = ({
     loadAccounts();
   }, []);
 
+  // Stakes are held in the currency of the account that funds them
+  const currency = getAccountCurrency(accounts[0]);
+  const otherStakes = isPool ? participants.map((p) => p.stake) : [theirStake];
+  const stakeError = myStake.trim()
+    ? validateAmount(myStake, currency, MAX_STAKE) ||
+      otherStakes.map((stake) => (stake.trim() ? validateAmount(stake, currency, MAX_STAKE) : null)).find(Boolean) ||
+      null
+    : null;
+  const myStakeMoney = parseMoney(myStake, currency) || zeroMoney(currency);
+  const theirStakeMoney = theirStake.trim() ? parseMoney(theirStake, currency) || zeroMoney(currency) : myStakeMoney;
+  const participantStakes = participants.map((p) =>
+    p.stake.trim() ? parseMoney(p.stake, currency) || zeroMoney(currency) : myStakeMoney
+  );
+  const totalPot = isPool
+    ? sumMoney([myStakeMoney, ...participantStakes], currency)
+    : addMoney(myStakeMoney, theirStakeMoney);
+
+  // Pools: what each participant is asked to put in, and the agreed payout shares
+  const parseShare = (text: string) => (text.trim() ? Number(text) : undefined);
+  const participantInputs: ContractParticipantInput[] = participants.map((p, index) => ({
+    alias: p.alias,
+    stake: toAmount(participantStakes[index]),
+    payoutShare: settlementType === 'custom' ? parseShare(p.payoutShare) : undefined,
+  }));
+  const poolError = isPool && myStake.trim() && !stakeError
+    ? validatePool({
+        participants: participantInputs,
+        settlementType,
+        myStake: toAmount(myStakeMoney),
+        myPayoutShare: parseShare(myPayoutShare),
+      })
+    : null;
+  const poolTitle = `${CONTRACT_TYPE_INFO[contractType].label} pool with ${participants.length} people`;
+
+  // Escrow and milestone contracts: the creator funds every milestone
+  const isMilestoneFlow = isMilestoneContractType(contractType);
+  const activeMilestones = contractType === 'escrow' ? milestones.slice(0, 1) : milestones;
+  const milestoneAmounts = activeMilestones.map((m) => parseMoney(m.amount, currency) || zeroMoney(currency));
+  const milestoneInputs: ContractMilestoneInput[] = activeMilestones.map((m, index) => ({
+    title: m.title.trim(),
+    amount: toAmount(milestoneAmounts[index]),
+  }));
+  const milestonesTotal = sumMoney(milestoneAmounts, currency);
+  const termsError = isMilestoneFlow
+    ? activeMilestones.map((m) => (m.amount.trim() ? validateAmount(m.amount, currency) : null)).find(Boolean) ||
+      validateMilestones(milestoneInputs) ||
+      (toAmount(milestonesTotal) > MAX_STAKE ? `The most a contract can hold is ${formatMoney(MAX_STAKE, currency)}` : null)
+    : null;
+
+  // Conditions on the selected event's result, typed against its field schema
+  const selectedTeams = selectedEvent ? normalizeTeams(selectedEvent.teams) : undefined;
+  const eventFields = selectedEvent ? getEventFields(selectedEvent, selectedTeams) : [];
+  const hasConditions = !isMilestoneFlow && eventFields.length > 0;
+  const conditionsError = conditions.map((c) => validateCondition(eventFields, c)).find(Boolean) || null;
+  const predicates = hasConditions && !conditionsError ? conditions.map((c) => toPredicate(eventFields, c)) : [];
+  const conditionsSummary = predicates.length > 0 ? describeConditions(predicates, conditionLogic, eventFields) : '';
+  const stepKeys = isMilestoneFlow ? MILESTONE_STEPS : hasConditions ? CONDITION_STEPS : ORACLE_STEPS;
+
   // Load events when reaching event step
   useEffect(() => {
     if (currentStep === 'event' && events.length === 0) {
@@ -133,7 +262,22 @@ export const CreateContractScreen: React.FC<CreateContractScreenProps> = ({
     setError(null);
 
     try {
-      const result = await transferSimApi.lookupAlias(counterpartyAlias.trim());
+      const alias = counterpartyAlias.trim();
+      const result = await transferSimApi.lookupAlias(alias);
+
+      // Pools collect several people; each lookup adds one
+      if (isPool) {
+        if (!result.found) {
+          setError('User not found');
+        } else if (participants.some((p) => p.alias.toLowerCase() === alias.toLowerCase())) {
+          setError('Already in the pool');
+        } else {
+          setParticipants((prev) => [...prev, { alias, info: result, stake: '', payoutShare: '' }]);
+          setCounterpartyAlias('');
+        }
+        return;
+      }
+
       setCounterpartyInfo(result);
       if (!result.found) {
         setError('User not found');
@@ -145,19 +289,48 @@ export const CreateContractScreen: React.FC<CreateContractScreenProps> = ({
     }
   };
 
+  const updateParticipant = (alias: string, changes: Partial<PoolParticipantDraft>) => {
+    setParticipants((prev) => prev.map((p) => (p.alias === alias ? { ...p, ...changes } : p)));
+  };
+
+  const removeParticipant = (alias: string) => {
+    setParticipants((prev) => prev.filter((p) => p.alias !== alias));
+  };
+
+  const updateMilestone = (key: string, changes: Partial<MilestoneDraft>) => {
+    setMilestones((prev) => prev.map((m) => (m.key === key ? { ...m, ...changes } : m)));
+  };
+
+  const updateCondition = (key: string, changes: Partial<ConditionInput>) => {
+    setConditions((prev) => prev.map((c) => (c.key === key ? { ...c, ...changes } : c)));
+  };
+
+  const addCondition = () => {
+    const condition = getDefaultCondition(eventFields);
+    if (condition) {
+      setConditions((prev) => [...prev, { key: uuidv4(), ...condition, value: '' }]);
+    }
+  };
+
   const handleNext = () => {
-    const steps: Step[] = ['type', 'counterparty', 'event', 'stakes', 'review'];
-    const currentIndex = steps.indexOf(currentStep);
-    if (currentIndex < steps.length - 1) {
-      setCurrentStep(steps[currentIndex + 1]);
+    // Start the builder from the team the user picked
+    if (currentStep === 'event' && hasConditions && conditions.length === 0) {
+      const condition = getDefaultCondition(eventFields, myPrediction);
+      if (condition) {
+        setConditions([{ key: uuidv4(), ...condition }]);
+      }
+    }
+
+    const currentIndex = stepKeys.indexOf(currentStep);
+    if (currentIndex < stepKeys.length - 1) {
+      setCurrentStep(stepKeys[currentIndex + 1]);
     }
   };
 
   const handleBack = () => {
-    const steps: Step[] = ['type', 'counterparty', 'event', 'stakes', 'review'];
-    const currentIndex = steps.indexOf(currentStep);
+    const currentIndex = stepKeys.indexOf(currentStep);
     if (currentIndex > 0) {
-      setCurrentStep(steps[currentIndex - 1]);
+      setCurrentStep(stepKeys[currentIndex - 1]);
     } else {
       onBack();
     }
@@ -168,11 +341,33 @@ export const CreateContractScreen: React.FC<CreateContractScreenProps> = ({
     setError(null);
 
     try {
-      const request: CreateContractRequest = {
+      const defaultTitle = isPool
+        ? poolTitle
+        : `${CONTRACT_TYPE_INFO[contractType].label} with ${counterpartyInfo?.displayName || counterpartyAlias}`;
+      const request: CreateContractRequest = isMilestoneFlow ? {
         type: contractType,
-        title: title.trim() || `${CONTRACT_TYPE_INFO[contractType].label} with ${counterpartyInfo?.displayName || counterpartyAlias}`,
+        title: title.trim() || defaultTitle,
         description: description.trim() || undefined,
         counterpartyAlias: counterpartyAlias.trim(),
+        milestones: milestoneInputs,
+        autoReleaseHours: contractType === 'escrow' ? autoReleaseHours : undefined,
+        myStake: toAmount(milestonesTotal),
+        theirStake: 0,
+        currency,
+      } : {
+        type: contractType,
+        title: title.trim() || defaultTitle,
+        description: description.trim() || undefined,
+        ...(isPool
+          ? {
+              participants: participantInputs,
+              settlementType,
+              myPayoutShare: settlementType === 'custom' ? parseShare(myPayoutShare) : undefined,
+            }
+          : {
+              counterpartyAlias: counterpartyAlias.trim(),
+              theirStake: toAmount(theirStakeMoney),
+            }),
         event: selectedEvent
           ? {
               oracle: selectedEvent.oracle,
@@ -184,8 +379,13 @@ export const CreateContractScreen: React.FC<CreateContractScreenProps> = ({
               event_id: 'custom',
               myPrediction: myPrediction || 'true',
             },
-        myStake: parseFloat(myStake),
-        theirStake: parseFloat(theirStake || myStake),
+        ...(predicates.length > 0 && {
+          conditions: predicates,
+          conditionLogic,
+          conditionsSummary,
+        }),
+        myStake: toAmount(myStakeMoney),
+        currency,
       };
 
       const contract = await api.createContract(request);
@@ -221,12 +421,15 @@ export const CreateContractScreen: React.FC<CreateContractScreenProps> = ({
       case 'type':
         return true;
       case 'counterparty':
-        return counterpartyInfo?.found === true;
+        return isPool ? participants.length >= MIN_POOL_PARTICIPANTS : counterpartyInfo?.found === true;
       case 'event':
         return selectedEvent !== null || myPrediction.trim() !== '';
+      case 'conditions':
+        return conditions.length > 0 && !conditionsError;
       case 'stakes':
-        const stake = parseFloat(myStake);
-        return !isNaN(stake) && stake > 0 && stake <= 100;
+        return myStake.trim() !== '' && !stakeError && !poolError;
+      case 'terms':
+        return !termsError;
       case 'review':
         return true;
       default:
@@ -243,8 +446,12 @@ export const CreateContractScreen: React.FC<CreateContractScreenProps> = ({
         return renderCounterpartyStep();
       case 'event':
         return renderEventStep();
+      case 'conditions':
+        return renderConditionsStep();
       case 'stakes':
         return renderStakesStep();
+      case 'terms':
+        return renderTermsStep();
       case 'review':
         return renderReviewStep();
     }
@@ -263,7 +470,11 @@ export const CreateContractScreen: React.FC<CreateContractScreenProps> = ({
           <TouchableOpacity
             key={type}
             style={[styles.typeCard, isSelected && styles.typeCardSelected]}
-            onPress={() => setContractType(type)}
+            onPress={() => {
+              setContractType(type);
+              // Escrow and milestone contracts are always between two people
+              if (isMilestoneContractType(type)) setIsPool(false);
+            }}
           >
             <Text style={styles.typeIcon}>{info.icon}</Text>
             <View style={styles.typeInfo}>
@@ -281,8 +492,31 @@ export const CreateContractScreen: React.FC<CreateContractScreenProps> = ({
 
   const renderCounterpartyStep = () => (
     <View style={styles.stepContent}>
-      <Text style={styles.stepTitle}>Who are you contracting with?</Text>
-      <Text style={styles.stepSubtitle}>Enter their alias (e.g., @username or email).</Text>
+      <Text style={styles.stepTitle}>{isMilestoneFlow ? 'Who are you paying?' : 'Who are you contracting with?'}</Text>
+      <Text style={styles.stepSubtitle}>
+        {isPool
+          ? `Add at least ${MIN_POOL_PARTICIPANTS} people by alias. Each makes their own prediction when they accept.`
+          : 'Enter their alias (e.g., @username or email).'}
+      </Text>
+
+      {!isMilestoneFlow && (
+        <View style={[styles.predictionOptions, { marginBottom: 16 }]}>
+          {[false, true].map((pool) => (
+            <TouchableOpacity
+              key={pool ? 'pool' : 'one'}
+              style={[styles.predictionOption, isPool === pool && styles.predictionOptionSelected]}
+              onPress={() => {
+                setIsPool(pool);
+                setError(null);
+              }}
+            >
+              <Text style={[styles.predictionOptionText, isPool === pool && styles.predictionOptionTextSelected]}>
+                {pool ? 'Group pool' : 'One person'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
 
       <View style={styles.inputContainer}>
         <TextInput
@@ -302,14 +536,32 @@ export const CreateContractScreen: React.FC<CreateContractScreenProps> = ({
           {lookingUp ? (
             <ActivityIndicator size="small" color="#fff" />
           ) : (
-            <Text style={styles.lookupButtonText}>Look Up</Text>
+            <Text style={styles.lookupButtonText}>{isPool ? 'Add' : 'Look Up'}</Text>
           )}
         </TouchableOpacity>
       </View>
 
       {error && <Text style={styles.errorText}>{error}</Text>}
 
-      {counterpartyInfo?.found && (
+      {isPool && participants.map((participant) => (
+        <View key={participant.alias} style={[styles.counterpartyCard, { marginBottom: 8 }]}>
+          <ProfileAvatar
+            imageUrl={participant.info.profileImageUrl}
+            displayName={participant.info.displayName || participant.alias}
+            initialsColor={participant.info.initialsColor}
+            size="small"
+          />
+          <View style={styles.counterpartyInfo}>
+            <Text style={styles.counterpartyName}>{participant.info.displayName || participant.alias}</Text>
+            <Text style={styles.counterpartyAlias}>{participant.alias}</Text>
+          </View>
+          <TouchableOpacity onPress={() => removeParticipant(participant.alias)} style={styles.removeButton}>
+            <Text style={styles.removeButtonText}>Remove</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      {!isPool && counterpartyInfo?.found && (
         <View style={styles.counterpartyCard}>
           <ProfileAvatar
             imageUrl={counterpartyInfo.profileImageUrl}
@@ -348,6 +600,7 @@ export const CreateContractScreen: React.FC<CreateContractScreenProps> = ({
                 style={[styles.eventCard, isSelected && styles.eventCardSelected]}
                 onPress={() => {
                   setSelectedEvent(event);
+                  setConditions([]);
                   if (teams && teams.length > 0) {
                     setMyPrediction(teams[0].id);
                   }
@@ -371,35 +624,35 @@ export const CreateContractScreen: React.FC<CreateContractScreenProps> = ({
         </View>
       )}
 
-      {(() => {
-        const teams = selectedEvent ? normalizeTeams(selectedEvent.teams) : undefined;
-        return selectedEvent && teams && (
-          <View style={styles.predictionContainer}>
-            <Text style={styles.predictionLabel}>Your prediction:</Text>
-            <View style={styles.predictionOptions}>
-              {teams.map((team) => (
-                <TouchableOpacity
-                  key={team.id}
+      {selectedEvent && selectedTeams && (
+        <View style={styles.predictionContainer}>
+          <Text style={styles.predictionLabel}>Your prediction:</Text>
+          <View style={styles.predictionOptions}>
+            {selectedTeams.map((team) => (
+              <TouchableOpacity
+                key={team.id}
+                style={[
+                  styles.predictionOption,
+                  myPrediction === team.id && styles.predictionOptionSelected,
+                ]}
+                onPress={() => {
+                  setMyPrediction(team.id);
+                  setConditions([]);
+                }}
+              >
+                <Text
                   style={[
-                    styles.predictionOption,
-                    myPrediction === team.id && styles.predictionOptionSelected,
+                    styles.predictionOptionText,
+                    myPrediction === team.id && styles.predictionOptionTextSelected,
                   ]}
-                  onPress={() => setMyPrediction(team.id)}
                 >
-                  <Text
-                    style={[
-                      styles.predictionOptionText,
-                      myPrediction === team.id && styles.predictionOptionTextSelected,
-                    ]}
-                  >
-                    {team.name}
-                  </Text>
-                </TouchableOpacity>
-              ))}
-            </View>
+                  {team.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
           </View>
-        );
-      })()}
+        </View>
+      )}
 
       {!selectedEvent && (
         <View style={styles.customCondition}>
@@ -416,15 +669,153 @@ export const CreateContractScreen: React.FC<CreateContractScreenProps> = ({
     </View>
   );
 
+  const renderConditionValue = (condition: ConditionDraft) => {
+    const field = eventFields.find((f) => f.name === condition.field);
+    if (!field) return null;
+
+    // Teams and yes/no are picked; 'is one of' teams toggle in and out of the list
+    const choices = field.type === 'team'
+      ? field.options || []
+      : field.type === 'boolean'
+        ? [{ id: 'yes', name: 'Yes' }, { id: 'no', name: 'No' }]
+        : null;
+    if (choices) {
+      const selected = condition.operator === 'in' ? condition.value.split(',').filter(Boolean) : [condition.value];
+      return (
+        <View style={styles.predictionOptions}>
+          {choices.map((choice) => {
+            const isSelected = selected.includes(choice.id);
+            const value = condition.operator !== 'in'
+              ? choice.id
+              : (isSelected ? selected.filter((id) => id !== choice.id) : [...selected, choice.id]).join(',');
+            return (
+              <TouchableOpacity
+                key={choice.id}
+                style={[styles.predictionOption, isSelected && styles.predictionOptionSelected]}
+                onPress={() => updateCondition(condition.key, { value })}
+              >
+                <Text style={[styles.predictionOptionText, isSelected && styles.predictionOptionTextSelected]}>
+                  {choice.name}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      );
+    }
+
+    return (
+      <TextInput
+        style={styles.input}
+        placeholder={condition.operator === 'in' ? 'e.g. 3, 4, 5' : field.unit ? `Value in ${field.unit}` : 'Value'}
+        value={condition.value}
+        onChangeText={(text) => updateCondition(condition.key, { value: text })}
+        keyboardType={field.type === 'number' && condition.operator !== 'in' ? 'numbers-and-punctuation' : 'default'}
+        autoCapitalize="none"
+      />
+    );
+  };
+
+  const renderConditionsStep = () => (
+    <View style={styles.stepContent}>
+      <Text style={styles.stepTitle}>When does it pay out?</Text>
+      <Text style={styles.stepSubtitle}>
+        Build the conditions on {selectedEvent?.title || 'the event'}'s result.
+      </Text>
+
+      {conditions.length > 1 && (
+        <View style={styles.stakeInputContainer}>
+          <Text style={styles.stakeLabel}>Pays out when</Text>
+          <View style={styles.predictionOptions}>
+            {([['and', 'All of these are true'], ['or', 'Any of these is true']] as const).map(([logic, label]) => (
+              <TouchableOpacity
+                key={logic}
+                style={[styles.predictionOption, conditionLogic === logic && styles.predictionOptionSelected]}
+                onPress={() => setConditionLogic(logic)}
+              >
+                <Text style={[styles.predictionOptionText, conditionLogic === logic && styles.predictionOptionTextSelected]}>
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      )}
+
+      {conditions.map((condition, index) => {
+        const field = eventFields.find((f) => f.name === condition.field);
+        return (
+          <View key={condition.key} style={styles.conditionCard}>
+            <View style={styles.milestoneHeader}>
+              <Text style={styles.predictionLabel}>Condition {index + 1}</Text>
+              {conditions.length > 1 && (
+                <TouchableOpacity onPress={() => setConditions((prev) => prev.filter((c) => c.key !== condition.key))}>
+                  <Text style={styles.removeButtonText}>Remove</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+
+            <View style={styles.predictionOptions}>
+              {eventFields.map((f) => (
+                <TouchableOpacity
+                  key={f.name}
+                  style={[styles.predictionOption, condition.field === f.name && styles.predictionOptionSelected]}
+                  onPress={() => updateCondition(condition.key, { field: f.name, operator: 'equals', value: '' })}
+                >
+                  <Text style={[styles.predictionOptionText, condition.field === f.name && styles.predictionOptionTextSelected]}>
+                    {f.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <View style={styles.predictionOptions}>
+              {getOperatorsForField(field).map((operator) => (
+                <TouchableOpacity
+                  key={operator}
+                  style={[styles.predictionOption, condition.operator === operator && styles.predictionOptionSelected]}
+                  onPress={() => updateCondition(condition.key, { operator, value: '' })}
+                >
+                  <Text
+                    style={[styles.predictionOptionText, condition.operator === operator && styles.predictionOptionTextSelected]}
+                  >
+                    {OPERATOR_INFO[operator].label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {renderConditionValue(condition)}
+          </View>
+        );
+      })}
+
+      <TouchableOpacity style={styles.addRowButton} onPress={addCondition}>
+        <Text style={styles.addRowText}>+ Add condition</Text>
+      </TouchableOpacity>
+
+      {conditionsSummary ? (
+        <View style={styles.conditionSummary}>
+          <Text style={styles.conditionSummaryLabel}>Pays out if</Text>
+          <Text style={styles.conditionSummaryText}>{conditionsSummary}</Text>
+        </View>
+      ) : (
+        conditionsError && conditions.some((c) => c.value.trim()) && <Text style={styles.errorText}>{conditionsError}</Text>
+      )}
+    </View>
+  );
+
   const renderStakesStep = () => (
     <View style={styles.stepContent}>
       <Text style={styles.stepTitle}>Set the stakes</Text>
-      <Text style={styles.stepSubtitle}>How much are you wagering? (Max $100 for MVP)</Text>
+      <Text style={styles.stepSubtitle}>
+        How much are you wagering? (Max {formatMoney(MAX_STAKE, currency)} for MVP)
+      </Text>
 
       <View style={styles.stakeInputContainer}>
         <Text style={styles.stakeLabel}>Your stake</Text>
         <View style={styles.stakeInputWrapper}>
-          <Text style={styles.currencySymbol}>$</Text>
+          <Text style={styles.currencySymbol}>{getCurrencySymbol(currency)}</Text>
           <TextInput
             style={styles.stakeInput}
             placeholder="0.00"
@@ -435,34 +826,114 @@ export const CreateContractScreen: React.FC<CreateContractScreenProps> = ({
         </View>
       </View>
 
-      <View style={styles.stakeInputContainer}>
-        <Text style={styles.stakeLabel}>Their stake (same if empty)</Text>
-        <View style={styles.stakeInputWrapper}>
-          <Text style={styles.currencySymbol}>$</Text>
-          <TextInput
-            style={styles.stakeInput}
-            placeholder={myStake || '0.00'}
-            value={theirStake}
-            onChangeText={setTheirStake}
-            keyboardType="decimal-pad"
-          />
+      {isPool ? (
+        <>
+          <View style={styles.stakeInputContainer}>
+            <Text style={styles.stakeLabel}>Their stakes (same as yours if empty)</Text>
+            {participants.map((participant) => (
+              <View key={participant.alias} style={styles.participantRow}>
+                <Text style={styles.participantName} numberOfLines={1}>
+                  {participant.info.displayName || participant.alias}
+                </Text>
+                <Text style={styles.participantCurrency}>{getCurrencySymbol(currency)}</Text>
+                <TextInput
+                  style={styles.participantInput}
+                  placeholder={myStake || '0.00'}
+                  value={participant.stake}
+                  onChangeText={(stake) => updateParticipant(participant.alias, { stake })}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+            ))}
+          </View>
+
+          <View style={styles.stakeInputContainer}>
+            <Text style={styles.stakeLabel}>How is the pot split?</Text>
+            <View style={styles.predictionOptions}>
+              {(Object.keys(SETTLEMENT_TYPE_INFO) as SettlementType[]).map((type) => (
+                <TouchableOpacity
+                  key={type}
+                  style={[styles.predictionOption, settlementType === type && styles.predictionOptionSelected]}
+                  onPress={() => setSettlementType(type)}
+                >
+                  <Text
+                    style={[styles.predictionOptionText, settlementType === type && styles.predictionOptionTextSelected]}
+                  >
+                    {SETTLEMENT_TYPE_INFO[type].label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.typeDescription}>{SETTLEMENT_TYPE_INFO[settlementType].description}</Text>
+          </View>
+
+          {settlementType === 'custom' && (
+            <View style={styles.stakeInputContainer}>
+              <Text style={styles.stakeLabel}>Payout shares (must add up to 100%)</Text>
+              {[{ alias: '', name: 'You', value: myPayoutShare }, ...participants.map((p) => ({
+                alias: p.alias,
+                name: p.info.displayName || p.alias,
+                value: p.payoutShare,
+              }))].map((row) => (
+                <View key={row.alias || 'me'} style={styles.participantRow}>
+                  <Text style={styles.participantName} numberOfLines={1}>{row.name}</Text>
+                  <TextInput
+                    style={styles.participantInput}
+                    placeholder="0"
+                    value={row.value}
+                    onChangeText={(share) =>
+                      row.alias ? updateParticipant(row.alias, { payoutShare: share }) : setMyPayoutShare(share)
+                    }
+                    keyboardType="decimal-pad"
+                  />
+                  <Text style={styles.participantCurrency}>%</Text>
+                </View>
+              ))}
+            </View>
+          )}
+        </>
+      ) : (
+        <View style={styles.stakeInputContainer}>
+          <Text style={styles.stakeLabel}>Their stake (same if empty)</Text>
+          <View style={styles.stakeInputWrapper}>
+            <Text style={styles.currencySymbol}>{getCurrencySymbol(currency)}</Text>
+            <TextInput
+              style={styles.stakeInput}
+              placeholder={myStake || '0.00'}
+              value={theirStake}
+              onChangeText={setTheirStake}
+              keyboardType="decimal-pad"
+            />
+          </View>
         </View>
-      </View>
+      )}
 
       <View style={styles.potPreview}>
         <Text style={styles.potPreviewLabel}>Total Pot</Text>
         <Text style={styles.potPreviewAmount}>
-          {formatAmount(
-            (parseFloat(myStake) || 0) + (parseFloat(theirStake) || parseFloat(myStake) || 0)
-          )}
+          {formatMoneyValue(totalPot)}
         </Text>
       </View>
 
+      {(stakeError || poolError) && <Text style={styles.errorText}>{stakeError || poolError}</Text>}
+      {isPool && participants.some((p) => needsConversion(currency, p.info.currency)) && (
+        <Text style={styles.stepSubtitle}>
+          Stakes are held in {currency}. Participants with accounts in other currencies are converted by their
+          bank when they fund.
+        </Text>
+      )}
+      {!isPool && needsConversion(currency, counterpartyInfo?.currency) && (
+        <Text style={styles.stepSubtitle}>
+          Stakes are held in {currency}. {counterpartyInfo?.displayName || 'Your counterparty'}'s bank converts
+          from {counterpartyInfo?.currency} when they fund.
+        </Text>
+      )}
+
       <View style={styles.titleContainer}>
         <Text style={styles.titleLabel}>Contract title (optional)</Text>
         <TextInput
           style={styles.input}
-          placeholder={`${CONTRACT_TYPE_INFO[contractType].label} with ${counterpartyInfo?.displayName || 'counterparty'}`}
+          placeholder={isPool ? poolTitle : `${CONTRACT_TYPE_INFO[contractType].label} with ${counterpartyInfo?.displayName || 'counterparty'}`}
           value={title}
           onChangeText={setTitle}
         />
@@ -470,9 +941,106 @@ export const CreateContractScreen: React.FC<CreateContractScreenProps> = ({
     </View>
   );
 
-  const renderReviewStep = () => {
-    const totalPot = (parseFloat(myStake) || 0) + (parseFloat(theirStake) || parseFloat(myStake) || 0);
+  const renderTermsStep = () => {
+    const payeeName = counterpartyInfo?.displayName || 'They';
+    return (
+      <View style={styles.stepContent}>
+        <Text style={styles.stepTitle}>
+          {contractType === 'escrow' ? 'What are you paying for?' : 'Set the milestones'}
+        </Text>
+        <Text style={styles.stepSubtitle}>
+          {contractType === 'escrow'
+            ? `You fund the amount up front. ${payeeName} is paid when you release it, or automatically if you don't respond after they deliver.`
+            : `You fund every milestone up front. Each one is paid to ${payeeName} only when you approve it.`}
+        </Text>
+
+        {activeMilestones.map((milestone, index) => (
+          <View key={milestone.key} style={styles.stakeInputContainer}>
+            <View style={styles.milestoneHeader}>
+              <Text style={styles.stakeLabel}>
+                {contractType === 'escrow' ? 'Delivery' : `Milestone ${index + 1}`}
+              </Text>
+              {activeMilestones.length > 1 && (
+                <TouchableOpacity
+                  onPress={() => setMilestones((prev) => prev.filter((m) => m.key !== milestone.key))}
+                >
+                  <Text style={styles.removeButtonText}>Remove</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            <TextInput
+              style={[styles.input, { marginBottom: 8 }]}
+              placeholder={contractType === 'escrow' ? 'e.g. Used bike, shipped to my address' : 'e.g. First draft of the logo'}
+              value={milestone.title}
+              onChangeText={(text) => updateMilestone(milestone.key, { title: text })}
+              maxLength={100}
+            />
+            <View style={styles.stakeInputWrapper}>
+              <Text style={styles.currencySymbol}>{getCurrencySymbol(currency)}</Text>
+              <TextInput
+                style={styles.stakeInput}
+                placeholder="0.00"
+                value={milestone.amount}
+                onChangeText={(text) => updateMilestone(milestone.key, { amount: text })}
+                keyboardType="decimal-pad"
+              />
+            </View>
+          </View>
+        ))}
+
+        {contractType === 'milestone' && (
+          <TouchableOpacity
+            style={styles.addRowButton}
+            onPress={() => setMilestones((prev) => [...prev, { key: uuidv4(), title: '', amount: '' }])}
+          >
+            <Text style={styles.addRowText}>+ Add milestone</Text>
+          </TouchableOpacity>
+        )}
 
+        {contractType === 'escrow' && (
+          <View style={styles.stakeInputContainer}>
+            <Text style={styles.stakeLabel}>Release automatically after delivery</Text>
+            <View style={styles.predictionOptions}>
+              {AUTO_RELEASE_OPTIONS.map((hours) => (
+                <TouchableOpacity
+                  key={hours}
+                  style={[styles.predictionOption, autoReleaseHours === hours && styles.predictionOptionSelected]}
+                  onPress={() => setAutoReleaseHours(hours)}
+                >
+                  <Text
+                    style={[styles.predictionOptionText, autoReleaseHours === hours && styles.predictionOptionTextSelected]}
+                  >
+                    {formatAutoReleaseWindow(hours)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        )}
+
+        <View style={styles.potPreview}>
+          <Text style={styles.potPreviewLabel}>You fund</Text>
+          <Text style={styles.potPreviewAmount}>{formatMoneyValue(milestonesTotal)}</Text>
+        </View>
+
+        {termsError && activeMilestones.some((m) => m.title.trim() || m.amount.trim()) && (
+          <Text style={styles.errorText}>{termsError}</Text>
+        )}
+
+        <View style={styles.titleContainer}>
+          <Text style={styles.titleLabel}>Contract title (optional)</Text>
+          <TextInput
+            style={styles.input}
+            placeholder={`${CONTRACT_TYPE_INFO[contractType].label} with ${counterpartyInfo?.displayName || 'counterparty'}`}
+            value={title}
+            onChangeText={setTitle}
+          />
+        </View>
+      </View>
+    );
+  };
+
+  const renderReviewStep = () => {
     return (
       <View style={styles.stepContent}>
         <Text style={styles.stepTitle}>Review your contract</Text>
@@ -486,70 +1054,128 @@ export const CreateContractScreen: React.FC<CreateContractScreenProps> = ({
             </Text>
           </View>
 
-          <View style={styles.reviewRow}>
-            <Text style={styles.reviewLabel}>Counterparty</Text>
-            <View style={styles.reviewValueRow}>
-              <ProfileAvatar
-                imageUrl={counterpartyInfo?.profileImageUrl}
-                displayName={counterpartyInfo?.displayName || counterpartyAlias}
-                initialsColor={counterpartyInfo?.initialsColor}
-                size="small"
-              />
-              <Text style={[styles.reviewValue, { marginLeft: 8, flex: 0 }]} numberOfLines={1}>
-                {counterpartyInfo?.displayName || counterpartyAlias}
-              </Text>
+          {isPool ? (
+            <View style={styles.reviewRow}>
+              <Text style={styles.reviewLabel}>Settlement</Text>
+              <Text style={styles.reviewValue}>{SETTLEMENT_TYPE_INFO[settlementType].label}</Text>
             </View>
-          </View>
-
-          <View style={styles.reviewRow}>
-            <Text style={styles.reviewLabel}>Condition</Text>
-            <Text style={styles.reviewValue}>
-              {selectedEvent ? selectedEvent.title : myPrediction}
-            </Text>
-          </View>
-
-          {selectedEvent && myPrediction && (
+          ) : (
             <View style={styles.reviewRow}>
-              <Text style={styles.reviewLabel}>Your prediction</Text>
-              <Text style={styles.reviewValue}>{myPrediction}</Text>
+              <Text style={styles.reviewLabel}>Counterparty</Text>
+              <View style={styles.reviewValueRow}>
+                <ProfileAvatar
+                  imageUrl={counterpartyInfo?.profileImageUrl}
+                  displayName={counterpartyInfo?.displayName || counterpartyAlias}
+                  initialsColor={counterpartyInfo?.initialsColor}
+                  size="small"
+                />
+                <Text style={[styles.reviewValue, { marginLeft: 8, flex: 0 }]} numberOfLines={1}>
+                  {counterpartyInfo?.displayName || counterpartyAlias}
+                </Text>
+              </View>
             </View>
           )}
 
-          <View style={styles.reviewRow}>
-            <Text style={styles.reviewLabel}>Your stake</Text>
-            <Text style={styles.reviewValue}>{formatAmount(parseFloat(myStake) || 0)}</Text>
-          </View>
+          {isMilestoneFlow ? (
+            <>
+              {milestoneInputs.map((milestone, index) => (
+                <View key={activeMilestones[index].key} style={styles.reviewRow}>
+                  <Text style={[styles.reviewLabel, { flex: 1 }]} numberOfLines={2}>{milestone.title}</Text>
+                  <Text style={[styles.reviewValue, { flex: 0 }]}>{formatMoneyValue(milestoneAmounts[index])}</Text>
+                </View>
+              ))}
 
-          <View style={styles.reviewRow}>
-            <Text style={styles.reviewLabel}>Their stake</Text>
-            <Text style={styles.reviewValue}>
-              {formatAmount(parseFloat(theirStake) || parseFloat(myStake) || 0)}
-            </Text>
-          </View>
+              {contractType === 'escrow' && (
+                <View style={styles.reviewRow}>
+                  <Text style={styles.reviewLabel}>Auto-release</Text>
+                  <Text style={styles.reviewValue}>{formatAutoReleaseWindow(autoReleaseHours)} after delivery</Text>
+                </View>
+              )}
 
-          <View style={[styles.reviewRow, styles.reviewRowTotal]}>
-            <Text style={styles.reviewLabelTotal}>Total Pot</Text>
-            <Text style={styles.reviewValueTotal}>{formatAmount(totalPot)}</Text>
-          </View>
+              <View style={[styles.reviewRow, styles.reviewRowTotal]}>
+                <Text style={styles.reviewLabelTotal}>You fund</Text>
+                <Text style={styles.reviewValueTotal}>{formatMoneyValue(milestonesTotal)}</Text>
+              </View>
+            </>
+          ) : (
+            <>
+              <View style={styles.reviewRow}>
+                <Text style={styles.reviewLabel}>Condition</Text>
+                <Text style={styles.reviewValue}>
+                  {selectedEvent ? selectedEvent.title : myPrediction}
+                </Text>
+              </View>
+
+              {conditionsSummary ? (
+                <View style={styles.reviewRow}>
+                  <Text style={styles.reviewLabel}>Pays out if</Text>
+                  <Text style={styles.reviewValue}>{conditionsSummary}</Text>
+                </View>
+              ) : selectedEvent && myPrediction && (
+                <View style={styles.reviewRow}>
+                  <Text style={styles.reviewLabel}>Your prediction</Text>
+                  <Text style={styles.reviewValue}>{myPrediction}</Text>
+                </View>
+              )}
+
+              <View style={styles.reviewRow}>
+                <Text style={styles.reviewLabel}>Your stake</Text>
+                <Text style={styles.reviewValue}>
+                  {formatMoneyValue(myStakeMoney)}
+                  {isPool && settlementType === 'custom' ? ` · ${myPayoutShare}%` : ''}
+                </Text>
+              </View>
+
+              {isPool ? (
+                participants.map((participant, index) => (
+                  <View key={participant.alias} style={styles.reviewRow}>
+                    <View style={[styles.reviewValueRow, { marginLeft: 0, justifyContent: 'flex-start' }]}>
+                      <ProfileAvatar
+                        imageUrl={participant.info.profileImageUrl}
+                        displayName={participant.info.displayName || participant.alias}
+                        initialsColor={participant.info.initialsColor}
+                        size="small"
+                      />
+                      <Text style={[styles.reviewLabel, { marginLeft: 8 }]} numberOfLines={1}>
+                        {participant.info.displayName || participant.alias}
+                      </Text>
+                    </View>
+                    <Text style={[styles.reviewValue, { flex: 0 }]}>
+                      {formatMoneyValue(participantStakes[index])}
+                      {settlementType === 'custom' ? ` · ${participant.payoutShare}%` : ''}
+                    </Text>
+                  </View>
+                ))
+              ) : (
+                <View style={styles.reviewRow}>
+                  <Text style={styles.reviewLabel}>Their stake</Text>
+                  <Text style={styles.reviewValue}>
+                    {formatMoneyValue(theirStakeMoney)}
+                  </Text>
+                </View>
+              )}
+
+              <View style={[styles.reviewRow, styles.reviewRowTotal]}>
+                <Text style={styles.reviewLabelTotal}>Total Pot</Text>
+                <Text style={styles.reviewValueTotal}>{formatMoneyValue(totalPot)}</Text>
+              </View>
+            </>
+          )}
         </View>
 
         {error && <Text style={styles.errorText}>{error}</Text>}
 
         <Text style={styles.disclaimer}>
-          By creating this contract, you agree to place a hold on your stake amount until the contract is settled.
+          {isMilestoneFlow
+            ? 'Once they accept, you fund the full amount. It stays on hold and is paid out only as each milestone is released.'
+            : 'By creating this contract, you agree to place a hold on your stake amount until the contract is settled.'}
         </Text>
       </View>
     );
   };
 
   // Step progress indicator
-  const steps: { key: Step; label: string }[] = [
-    { key: 'type', label: 'Type' },
-    { key: 'counterparty', label: 'Who' },
-    { key: 'event', label: 'What' },
-    { key: 'stakes', label: 'Stakes' },
-    { key: 'review', label: 'Review' },
-  ];
+  const steps: { key: Step; label: string }[] = stepKeys.map((key) => ({ key, label: STEP_LABELS[key] }));
   const currentStepIndex = steps.findIndex((s) => s.key === currentStep);
 
   return (
@@ -823,6 +1449,57 @@ const styles = StyleSheet.create({
     color: '#9CA3AF',
     marginTop: 4,
   },
+  milestoneHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  addRowButton: {
+    paddingVertical: 12,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#1976D2',
+    borderStyle: 'dashed',
+    borderRadius: 12,
+    marginBottom: 24,
+  },
+  addRowText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1976D2',
+  },
+  conditionCard: {
+    padding: 16,
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  conditionSummary: {
+    padding: 16,
+    backgroundColor: '#EFF6FF',
+    borderRadius: 12,
+    marginBottom: 24,
+  },
+  conditionSummaryLabel: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#1E40AF',
+    marginBottom: 4,
+  },
+  conditionSummaryText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  removeButton: {
+    paddingVertical: 6,
+    paddingLeft: 12,
+  },
+  removeButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#DC2626',
+  },
   verifiedBadge: {
     fontSize: 24,
     color: '#10B981',
@@ -947,6 +1624,36 @@ const styles = StyleSheet.create({
     color: '#111827',
     paddingVertical: 16,
   },
+  participantRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    marginBottom: 8,
+  },
+  participantName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  participantCurrency: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B7280',
+    marginHorizontal: 4,
+  },
+  participantInput: {
+    width: 90,
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    paddingVertical: 12,
+    textAlign: 'right',
+  },
   potPreview: {
     flexDirection: 'row',
     justifyContent: 'space-between',
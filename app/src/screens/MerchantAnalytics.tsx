@@ -0,0 +1,562 @@
+/**
+ * MerchantAnalyticsScreen - Business-mode sales analytics
+ *
+ * Revenue, fee and net charts for the selected period, busiest hours and
+ * weekdays, average ticket, repeat customers and comparison with the
+ * previous period, plus the server totals (today / 7 days / 30 days / all time).
+ */
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import Svg, { Rect } from 'react-native-svg';
+import { merchantAnalyticsService, ANALYTICS_PERIODS } from '../services/merchantAnalytics';
+import { formatMoney } from '../services/currency';
+import type { AnalyticsPeriod, MerchantAnalytics, SalesSummary, DailySales } from '../services/merchantAnalytics';
+
+interface MerchantAnalyticsScreenProps {
+  onBack: () => void;
+}
+
+type ChartMetric = 'gross' | 'fees' | 'net';
+
+const CHART_METRICS: { value: ChartMetric; label: string; color: string }[] = [
+  { value: 'gross', label: 'Revenue', color: '#10B981' },
+  { value: 'fees', label: 'Fees', color: '#F59E0B' },
+  { value: 'net', label: 'Net', color: '#065F46' },
+];
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const CHART_HEIGHT = 140;
+
+// "9a", "12p", "5p"
+const formatHour = (hour: number): string =>
+  `${hour % 12 === 0 ? 12 : hour % 12}${hour < 12 ? 'a' : 'p'}`;
+
+/**
+ * Change vs previous period, e.g. "▲ 12.5%"
+ */
+const ChangeBadge: React.FC<{ change: number | null }> = ({ change }) => {
+  if (change === null) {
+    return <Text style={styles.changeNeutral}>No prior data</Text>;
+  }
+  const isUp = change >= 0;
+  return (
+    <Text style={isUp ? styles.changeUp : styles.changeDown}>
+      {isUp ? '▲' : '▼'} {Math.abs(change).toFixed(1)}%
+    </Text>
+  );
+};
+
+/**
+ * Daily bar chart for one metric
+ */
+const DailyBarChart: React.FC<{ data: DailySales[]; metric: ChartMetric; color: string }> = ({
+  data,
+  metric,
+  color,
+}) => {
+  const [width, setWidth] = useState(0);
+  const max = Math.max(0, ...data.map((day) => day[metric]));
+  const slot = data.length > 0 ? width / data.length : 0;
+  const barWidth = Math.max(1, slot * 0.7);
+
+  return (
+    <View onLayout={(e) => setWidth(e.nativeEvent.layout.width)}>
+      {width > 0 && (
+        <Svg width={width} height={CHART_HEIGHT}>
+          {data.map((day, index) => {
+            const height = max > 0 ? (day[metric] / max) * (CHART_HEIGHT - 4) : 0;
+            return (
+              <Rect
+                key={day.date}
+                x={index * slot + (slot - barWidth) / 2}
+                y={CHART_HEIGHT - height}
+                width={barWidth}
+                height={height}
+                rx={Math.min(3, barWidth / 2)}
+                fill={color}
+              />
+            );
+          })}
+        </Svg>
+      )}
+      <View style={styles.chartAxis}>
+        <Text style={styles.chartAxisText}>{data[0]?.date.slice(5)}</Text>
+        <Text style={styles.chartAxisText}>Peak {formatMoney(max)}</Text>
+        <Text style={styles.chartAxisText}>{data[data.length - 1]?.date.slice(5)}</Text>
+      </View>
+    </View>
+  );
+};
+
+/**
+ * Horizontal distribution bars (hour of day / day of week)
+ */
+const DistributionBars: React.FC<{ values: number[]; labels: string[] }> = ({ values, labels }) => {
+  const max = Math.max(0, ...values);
+  return (
+    <View style={styles.distribution}>
+      {values.map((value, index) => (
+        <View key={index} style={styles.distributionColumn}>
+          <View style={styles.distributionTrack}>
+            <View style={[styles.distributionFill, { height: `${max > 0 ? (value / max) * 100 : 0}%` }]} />
+          </View>
+          <Text style={styles.distributionLabel}>{labels[index]}</Text>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const SummaryRow: React.FC<{ label: string; summary: SalesSummary; isLast?: boolean }> = ({ label, summary, isLast }) => (
+  <View style={[styles.summaryRow, isLast && { borderBottomWidth: 0 }]}>
+    <Text style={styles.summaryLabel}>{label}</Text>
+    <View style={styles.summaryValues}>
+      <Text style={styles.summaryGross}>{formatMoney(summary.gross)}</Text>
+      <Text style={styles.summaryDetail}>
+        {summary.transactions} payments · fees {formatMoney(summary.fees)} · net {formatMoney(summary.net)}
+      </Text>
+    </View>
+  </View>
+);
+
+export const MerchantAnalyticsScreen: React.FC<MerchantAnalyticsScreenProps> = ({ onBack }) => {
+  const [period, setPeriod] = useState<AnalyticsPeriod>('30d');
+  const [metric, setMetric] = useState<ChartMetric>('gross');
+  const [analytics, setAnalytics] = useState<MerchantAnalytics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAnalytics = useCallback(async (isRefresh = false) => {
+    if (isRefresh) {
+      setRefreshing(true);
+    } else {
+      setLoading(true);
+    }
+    setError(null);
+    try {
+      setAnalytics(await merchantAnalyticsService.load(period));
+    } catch (e: any) {
+      console.error('[Analytics] Failed to load:', e);
+      setError(e.response?.data?.message || 'Failed to load analytics');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [period]);
+
+  useEffect(() => {
+    loadAnalytics();
+  }, [loadAnalytics]);
+
+  const chartMetric = CHART_METRICS.find((m) => m.value === metric) || CHART_METRICS[0];
+  const periodLabel = ANALYTICS_PERIODS.find((p) => p.value === period)?.label || '';
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <Text style={styles.backButtonText}>‹ Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Analytics</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {/* Period */}
+      <View style={styles.periodRow}>
+        {ANALYTICS_PERIODS.map((p) => (
+          <TouchableOpacity
+            key={p.value}
+            style={[styles.chip, period === p.value && styles.chipSelected]}
+            onPress={() => setPeriod(p.value)}
+          >
+            <Text style={[styles.chipText, period === p.value && styles.chipTextSelected]}>{p.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {loading && !analytics ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color="#10B981" />
+        </View>
+      ) : error && !analytics ? (
+        <View style={styles.centerContainer}>
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={() => loadAnalytics()}>
+            <Text style={styles.retryButtonText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      ) : analytics ? (
+        <ScrollView
+          style={styles.content}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={() => loadAnalytics(true)} />}
+        >
+          {loading && <ActivityIndicator style={{ marginBottom: 12 }} color="#10B981" />}
+
+          {/* KPIs with comparison to the previous period */}
+          <Text style={styles.sectionTitle}>Last {periodLabel} vs previous {periodLabel}</Text>
+          <View style={styles.kpiGrid}>
+            <View style={styles.kpiCard}>
+              <Text style={styles.kpiValue}>{formatMoney(analytics.current.gross)}</Text>
+              <Text style={styles.kpiLabel}>Revenue</Text>
+              <ChangeBadge change={analytics.comparison.gross} />
+            </View>
+            <View style={styles.kpiCard}>
+              <Text style={styles.kpiValue}>{formatMoney(analytics.current.net)}</Text>
+              <Text style={styles.kpiLabel}>Net (after fees{analytics.current.refunds > 0 ? ' & refunds' : ''})</Text>
+              <ChangeBadge change={analytics.comparison.net} />
+            </View>
+            <View style={styles.kpiCard}>
+              <Text style={styles.kpiValue}>{analytics.current.transactions}</Text>
+              <Text style={styles.kpiLabel}>Payments</Text>
+              <ChangeBadge change={analytics.comparison.transactions} />
+            </View>
+            <View style={styles.kpiCard}>
+              <Text style={styles.kpiValue}>{formatMoney(analytics.current.averageTicket)}</Text>
+              <Text style={styles.kpiLabel}>Average ticket</Text>
+              <ChangeBadge change={analytics.comparison.averageTicket} />
+            </View>
+            <View style={styles.kpiCard}>
+              <Text style={styles.kpiValue}>{formatMoney(analytics.current.fees)}</Text>
+              <Text style={styles.kpiLabel}>Fees paid</Text>
+            </View>
+            <View style={styles.kpiCard}>
+              <Text style={styles.kpiValue}>
+                {analytics.customers.repeatCustomers}/{analytics.customers.uniqueCustomers}
+              </Text>
+              <Text style={styles.kpiLabel}>Repeat customers</Text>
+              <Text style={styles.changeNeutral}>{Math.round(analytics.customers.repeatRate * 100)}% came back</Text>
+            </View>
+          </View>
+
+          {/* Daily chart */}
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <Text style={styles.cardTitle}>Daily</Text>
+              <View style={styles.metricRow}>
+                {CHART_METRICS.map((m) => (
+                  <TouchableOpacity key={m.value} onPress={() => setMetric(m.value)}>
+                    <Text style={[styles.metricText, metric === m.value && { color: m.color, fontWeight: '700' }]}>
+                      {m.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+            <DailyBarChart data={analytics.daily} metric={metric} color={chartMetric.color} />
+          </View>
+
+          {/* Heatmap: day of week × hour of day */}
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>When customers pay</Text>
+            <View style={styles.heatmap}>
+              {analytics.heatmap.cells.map((row, day) => (
+                <View key={WEEKDAY_LABELS[day]} style={styles.heatmapRow}>
+                  <Text style={styles.heatmapLabel}>{WEEKDAY_LABELS[day]}</Text>
+                  {row.map((count, hour) => (
+                    <View
+                      key={hour}
+                      style={[
+                        styles.heatmapCell,
+                        count > 0 && {
+                          backgroundColor: '#10B981',
+                          opacity: 0.2 + 0.8 * (count / Math.max(1, analytics.heatmap.max)),
+                        },
+                      ]}
+                    />
+                  ))}
+                </View>
+              ))}
+              <View style={styles.heatmapRow}>
+                <Text style={styles.heatmapLabel} />
+                {[0, 6, 12, 18].map((hour) => (
+                  <Text key={hour} style={styles.heatmapHourLabel}>{formatHour(hour)}</Text>
+                ))}
+              </View>
+            </View>
+
+            <Text style={styles.subTitle}>By hour of day</Text>
+            <DistributionBars
+              values={analytics.heatmap.byHour}
+              labels={analytics.heatmap.byHour.map((_, hour) => (hour % 6 === 0 ? formatHour(hour) : ''))}
+            />
+
+            <Text style={styles.subTitle}>By day of week</Text>
+            <DistributionBars values={analytics.heatmap.byWeekday} labels={WEEKDAY_LABELS} />
+          </View>
+
+          {/* Server totals */}
+          <View style={[styles.card, { marginBottom: 40 }]}>
+            <Text style={styles.cardTitle}>Totals</Text>
+            <SummaryRow label="Today" summary={analytics.today} />
+            <SummaryRow label="Last 7 days" summary={analytics.last7Days} />
+            <SummaryRow label="Last 30 days" summary={analytics.last30Days} />
+            <SummaryRow label="All time" summary={analytics.allTime} isLast />
+          </View>
+        </ScrollView>
+      ) : null}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F7FA',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingRight: 16,
+    minWidth: 60,
+  },
+  backButtonText: {
+    fontSize: 17,
+    color: '#1976D2',
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  headerSpacer: {
+    minWidth: 60,
+  },
+  periodRow: {
+    flexDirection: 'row',
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    marginRight: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#10B981',
+    borderColor: '#10B981',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  errorText: {
+    fontSize: 15,
+    color: '#DC2626',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  retryButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#10B981',
+  },
+  retryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  kpiGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+  },
+  kpiCard: {
+    width: '48.5%',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  kpiValue: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  kpiLabel: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+    marginBottom: 6,
+  },
+  changeUp: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#059669',
+  },
+  changeDown: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#DC2626',
+  },
+  changeNeutral: {
+    fontSize: 12,
+    color: '#9CA3AF',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  subTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  metricRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  metricText: {
+    fontSize: 13,
+    color: '#6B7280',
+  },
+  chartAxis: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 6,
+  },
+  chartAxisText: {
+    fontSize: 11,
+    color: '#9CA3AF',
+  },
+  heatmap: {
+    marginTop: 8,
+  },
+  heatmapRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 2,
+  },
+  heatmapLabel: {
+    width: 32,
+    fontSize: 11,
+    color: '#6B7280',
+  },
+  heatmapCell: {
+    flex: 1,
+    aspectRatio: 1,
+    marginHorizontal: 1,
+    borderRadius: 2,
+    backgroundColor: '#F3F4F6',
+  },
+  heatmapHourLabel: {
+    flex: 6,
+    fontSize: 10,
+    color: '#9CA3AF',
+  },
+  distribution: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+  },
+  distributionColumn: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  distributionTrack: {
+    width: '70%',
+    height: 60,
+    justifyContent: 'flex-end',
+  },
+  distributionFill: {
+    backgroundColor: '#10B981',
+    borderRadius: 2,
+  },
+  distributionLabel: {
+    fontSize: 9,
+    color: '#9CA3AF',
+    marginTop: 4,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  summaryValues: {
+    alignItems: 'flex-end',
+    flex: 1,
+    marginLeft: 12,
+  },
+  summaryGross: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  summaryDetail: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+    textAlign: 'right',
+  },
+});
+
+export default MerchantAnalyticsScreen;
@@ -0,0 +1,576 @@
+/**
+ * MerchantInvoiceScreen - Build an itemized invoice and show it as a QR code
+ *
+ * The merchant adds line items, tax and discounts; the invoice is sent as
+ * `orderDetails` on a merchant receive token for the invoice total. The payer
+ * sees the items in OrderSummary on their Send to QR confirmation.
+ */
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import QRCode from 'react-native-qrcode-svg';
+import { transferSimApi } from '../services/transferSim';
+import {
+  buildInvoiceOrderDetails,
+  calculateOrderTotal,
+  validateInvoice,
+} from '../services/merchantInvoice';
+import type { InvoiceInput } from '../services/merchantInvoice';
+import { formatMoney } from '../services/currency';
+import { OrderSummary } from '../components/OrderSummary';
+import type { MerchantProfile, OrderDetails, ReceiveToken } from '../types';
+
+interface MerchantInvoiceScreenProps {
+  merchant: MerchantProfile;
+  onBack: () => void;
+}
+
+// Line item as typed (numbers are parsed when building the invoice)
+interface ItemDraft {
+  name: string;
+  quantity: string;
+  unitPrice: string;
+}
+
+const EMPTY_ITEM: ItemDraft = { name: '', quantity: '1', unitPrice: '' };
+
+const TAX_PRESETS: { label: string; rate: string }[] = [
+  { label: 'None', rate: '' },
+  { label: 'GST', rate: '5' },
+  { label: 'HST', rate: '13' },
+  { label: 'HST', rate: '15' },
+];
+
+// Format remaining seconds as m:ss
+const formatCountdown = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+export const MerchantInvoiceScreen: React.FC<MerchantInvoiceScreenProps> = ({
+  merchant,
+  onBack,
+}) => {
+  const [items, setItems] = useState<ItemDraft[]>([{ ...EMPTY_ITEM }]);
+  const [taxLabel, setTaxLabel] = useState('');
+  const [taxRate, setTaxRate] = useState('');
+  const [discountAmount, setDiscountAmount] = useState('');
+  const [discountDescription, setDiscountDescription] = useState('');
+  const [note, setNote] = useState('');
+  const [generating, setGenerating] = useState(false);
+  const [token, setToken] = useState<ReceiveToken | null>(null);
+  const [invoice, setInvoice] = useState<OrderDetails | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+
+  const parsedDiscount = parseFloat(discountAmount);
+  const parsedTaxRate = parseFloat(taxRate);
+  const invoiceInput: InvoiceInput = {
+    items: items.map((item) => ({
+      name: item.name.trim(),
+      quantity: parseFloat(item.quantity),
+      unitPrice: parseFloat(item.unitPrice),
+    })),
+    taxRate: isNaN(parsedTaxRate) ? undefined : parsedTaxRate / 100,
+    taxLabel: taxLabel.trim() || undefined,
+    discounts: discountAmount.trim()
+      ? [{ amount: parsedDiscount, description: discountDescription.trim() || undefined }]
+      : [],
+  };
+  const validationError = validateInvoice(invoiceInput);
+  const preview = validationError ? null : buildInvoiceOrderDetails(invoiceInput);
+
+  // Countdown until the invoice token expires
+  useEffect(() => {
+    if (!token) return;
+    const update = () => {
+      setSecondsLeft(Math.max(0, Math.round((new Date(token.expiresAt).getTime() - Date.now()) / 1000)));
+    };
+    update();
+    const interval = setInterval(update, 1000);
+    return () => clearInterval(interval);
+  }, [token]);
+
+  const updateItem = (index: number, changes: Partial<ItemDraft>) => {
+    setItems((prev) => prev.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const removeItem = (index: number) => {
+    setItems((prev) => (prev.length === 1 ? [{ ...EMPTY_ITEM }] : prev.filter((_, i) => i !== index)));
+  };
+
+  const generateInvoiceToken = async (orderDetails: OrderDetails) => {
+    setGenerating(true);
+    try {
+      const total = calculateOrderTotal(orderDetails);
+      const newToken = await transferSimApi.generateMerchantToken(total, note.trim() || undefined, orderDetails);
+      console.log('[Invoice] Generated token for', total, 'with', orderDetails.items?.length, 'items');
+      setInvoice(orderDetails);
+      setToken(newToken);
+    } catch (e: any) {
+      console.error('[Invoice] Failed to generate token:', e);
+      Alert.alert('Error', e.response?.data?.message || 'Failed to generate invoice QR code');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleGenerate = () => {
+    if (validationError || !preview) {
+      Alert.alert('Invoice incomplete', validationError || 'Please check the invoice');
+      return;
+    }
+    generateInvoiceToken(preview);
+  };
+
+  const handleNewInvoice = () => {
+    setToken(null);
+    setInvoice(null);
+    setItems([{ ...EMPTY_ITEM }]);
+    setDiscountAmount('');
+    setDiscountDescription('');
+    setNote('');
+  };
+
+  // QR view for a generated invoice
+  if (token && invoice) {
+    const expired = secondsLeft === 0;
+    return (
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onBack} style={styles.backButton}>
+            <Text style={styles.backButtonText}>‹ Back</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Invoice</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <ScrollView style={styles.content}>
+          <View style={styles.qrCard}>
+            <Text style={styles.qrTitle}>Scan to pay {merchant.merchantName}</Text>
+            <Text style={styles.qrTotal}>{formatMoney(calculateOrderTotal(invoice))}</Text>
+            <View style={[styles.qrWrapper, expired && styles.qrWrapperExpired]}>
+              <QRCode value={token.qrPayload} size={220} backgroundColor="white" color="#065F46" />
+            </View>
+            <Text style={[styles.qrExpiry, expired && styles.qrExpiryExpired]}>
+              {expired ? 'This QR code has expired' : `Expires in ${formatCountdown(secondsLeft)}`}
+            </Text>
+            {!!token.description && <Text style={styles.qrNote}>{token.description}</Text>}
+          </View>
+
+          <OrderSummary orderDetails={invoice} currency="CAD" />
+
+          <View style={styles.actions}>
+            {expired && (
+              <TouchableOpacity
+                style={[styles.submitButton, generating && styles.buttonDisabled]}
+                onPress={() => generateInvoiceToken(invoice)}
+                disabled={generating}
+              >
+                {generating ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <Text style={styles.submitButtonText}>Regenerate QR</Text>
+                )}
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={styles.secondaryButton} onPress={handleNewInvoice}>
+              <Text style={styles.secondaryButtonText}>New Invoice</Text>
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      </View>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <Text style={styles.backButtonText}>‹ Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>New Invoice</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        {/* Line Items */}
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>Items</Text>
+          {items.map((item, index) => (
+            <View key={index} style={styles.itemCard}>
+              <View style={styles.inputRow}>
+                <TextInput
+                  style={[styles.input, { flex: 1 }]}
+                  placeholder="Item name"
+                  value={item.name}
+                  onChangeText={(text) => updateItem(index, { name: text })}
+                  maxLength={80}
+                />
+                <TouchableOpacity style={styles.removeButton} onPress={() => removeItem(index)}>
+                  <Text style={styles.removeButtonText}>✕</Text>
+                </TouchableOpacity>
+              </View>
+              <View style={[styles.inputRow, { marginTop: 8 }]}>
+                <TextInput
+                  style={[styles.input, { width: 80, marginRight: 8 }]}
+                  placeholder="Qty"
+                  value={item.quantity}
+                  onChangeText={(text) => updateItem(index, { quantity: text })}
+                  keyboardType="decimal-pad"
+                />
+                <TextInput
+                  style={[styles.input, { flex: 1 }]}
+                  placeholder="Unit price"
+                  value={item.unitPrice}
+                  onChangeText={(text) => updateItem(index, { unitPrice: text })}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+            </View>
+          ))}
+          <TouchableOpacity
+            style={styles.addItemButton}
+            onPress={() => setItems((prev) => [...prev, { ...EMPTY_ITEM }])}
+          >
+            <Text style={styles.addItemButtonText}>+ Add item</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Tax */}
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>Tax</Text>
+          <View style={styles.chipRow}>
+            {TAX_PRESETS.map((preset) => {
+              const selected = taxRate === preset.rate && (preset.rate === '' || taxLabel === preset.label);
+              return (
+                <TouchableOpacity
+                  key={`${preset.label}-${preset.rate}`}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  onPress={() => {
+                    setTaxRate(preset.rate);
+                    setTaxLabel(preset.rate ? preset.label : '');
+                  }}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                    {preset.rate ? `${preset.label} ${preset.rate}%` : preset.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <View style={styles.inputRow}>
+            <TextInput
+              style={[styles.input, { flex: 1, marginRight: 8 }]}
+              placeholder="Label (e.g. PST)"
+              value={taxLabel}
+              onChangeText={setTaxLabel}
+              maxLength={20}
+            />
+            <TextInput
+              style={[styles.input, { width: 100 }]}
+              placeholder="Rate %"
+              value={taxRate}
+              onChangeText={setTaxRate}
+              keyboardType="decimal-pad"
+            />
+          </View>
+        </View>
+
+        {/* Discount */}
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>Discount (optional)</Text>
+          <View style={styles.inputRow}>
+            <TextInput
+              style={[styles.input, { flex: 1, marginRight: 8 }]}
+              placeholder="Description"
+              value={discountDescription}
+              onChangeText={setDiscountDescription}
+              maxLength={40}
+            />
+            <TextInput
+              style={[styles.input, { width: 100 }]}
+              placeholder="Amount"
+              value={discountAmount}
+              onChangeText={setDiscountAmount}
+              keyboardType="decimal-pad"
+            />
+          </View>
+        </View>
+
+        {/* Note */}
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>Note (optional)</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="Shown to the customer"
+            value={note}
+            onChangeText={setNote}
+            maxLength={140}
+          />
+        </View>
+
+        {/* Preview */}
+        {preview && (
+          <View style={styles.section}>
+            <Text style={styles.sectionLabel}>Preview</Text>
+            <OrderSummary orderDetails={preview} currency="CAD" />
+          </View>
+        )}
+      </ScrollView>
+
+      {/* Footer */}
+      <View style={styles.footer}>
+        <View style={styles.totalRow}>
+          <Text style={styles.totalLabel}>Total</Text>
+          <Text style={styles.totalAmount}>{preview ? formatMoney(calculateOrderTotal(preview)) : '—'}</Text>
+        </View>
+        <TouchableOpacity
+          style={[styles.submitButton, (!preview || generating) && styles.buttonDisabled]}
+          onPress={handleGenerate}
+          disabled={generating}
+        >
+          {generating ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <Text style={styles.submitButtonText}>Generate QR Code</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F7FA',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingRight: 16,
+    minWidth: 60,
+  },
+  backButtonText: {
+    fontSize: 17,
+    color: '#1976D2',
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  headerSpacer: {
+    minWidth: 60,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#111827',
+  },
+  itemCard: {
+    padding: 12,
+    marginBottom: 8,
+    backgroundColor: '#F9FAFB',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  removeButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginLeft: 4,
+  },
+  removeButtonText: {
+    fontSize: 16,
+    color: '#9CA3AF',
+  },
+  addItemButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#10B981',
+  },
+  addItemButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#10B981',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#10B981',
+    borderColor: '#10B981',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  footer: {
+    padding: 16,
+    paddingBottom: 32,
+    backgroundColor: '#fff',
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  totalLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  totalAmount: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  submitButton: {
+    backgroundColor: '#10B981',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  qrCard: {
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 24,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  qrTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#065F46',
+  },
+  qrTotal: {
+    fontSize: 32,
+    fontWeight: '700',
+    color: '#111827',
+    marginTop: 4,
+  },
+  qrWrapper: {
+    padding: 12,
+    marginTop: 16,
+    borderRadius: 12,
+    borderWidth: 3,
+    borderColor: '#10B981',
+    backgroundColor: '#fff',
+  },
+  qrWrapperExpired: {
+    borderColor: '#EF4444',
+    opacity: 0.4,
+  },
+  qrExpiry: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 12,
+  },
+  qrExpiryExpired: {
+    color: '#DC2626',
+    fontWeight: '600',
+  },
+  qrNote: {
+    fontSize: 14,
+    color: '#374151',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  actions: {
+    marginTop: 16,
+    marginBottom: 40,
+    gap: 12,
+  },
+  secondaryButton: {
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#10B981',
+    backgroundColor: '#fff',
+  },
+  secondaryButtonText: {
+    color: '#10B981',
+    fontSize: 17,
+    fontWeight: '600',
+  },
+});
+
+export default MerchantInvoiceScreen;
@@ -12,7 +12,13 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import { ProfileAvatar } from '../components/ProfileAvatar';
-import type { MerchantProfile, MerchantCategory } from '../types';
+import {
+  DEFAULT_TIP_SETTINGS,
+  MAX_TIP_PRESETS,
+  supportsTips,
+  validateTipSettings,
+} from '../services/tips';
+import type { MerchantProfile, MerchantCategory, TipPreset, TipSettings } from '../types';
 
 // Category display mapping
 const MERCHANT_CATEGORIES: Record<MerchantCategory, { label: string; icon: string }> = {
@@ -28,8 +34,13 @@ const MERCHANT_CATEGORIES: Record<MerchantCategory, { label: string; icon: strin
 interface MerchantProfileEditScreenProps {
   merchant: MerchantProfile;
   onBack: () => void;
-  onSave: (updates: { merchantName: string; description?: string }, logoUri?: string | null) => Promise<void>;
+  onSave: (
+    updates: { merchantName: string; description?: string; tipSettings?: TipSettings },
+    logoUri?: string | null
+  ) => Promise<void>;
   onPickImage: () => Promise<string | null>;
+  onManageStaff?: () => void;           // Shown to roles that can manage staff
+  onDeactivate?: () => Promise<void>;   // Shown to the owner only
 }
 
 export const MerchantProfileEditScreen: React.FC<MerchantProfileEditScreenProps> = ({
@@ -37,6 +48,8 @@ export const MerchantProfileEditScreen: React.FC<MerchantProfileEditScreenProps>
   onBack,
   onSave,
   onPickImage,
+  onManageStaff,
+  onDeactivate,
 }) => {
   const [merchantName, setMerchantName] = useState(merchant.merchantName || '');
   const [description, setDescription] = useState(merchant.description || '');
@@ -44,13 +57,33 @@ export const MerchantProfileEditScreen: React.FC<MerchantProfileEditScreenProps>
   const [isSaving, setIsSaving] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
 
+  // Tip prompts (food & beverage only); preset values are edited as text
+  const tipsAvailable = supportsTips(merchant.merchantCategory);
+  const initialTips = merchant.tipSettings || { ...DEFAULT_TIP_SETTINGS, enabled: false };
+  const [tipsEnabled, setTipsEnabled] = useState(initialTips.enabled);
+  const [tipPresets, setTipPresets] = useState<{ type: TipPreset['type']; value: string }[]>(
+    initialTips.presets.map((p) => ({ type: p.type, value: String(p.value) }))
+  );
+  const [allowCustomTip, setAllowCustomTip] = useState(initialTips.allowCustom);
+
+  const buildTipSettings = (): TipSettings => ({
+    enabled: tipsEnabled,
+    presets: tipPresets.map((p) => ({ type: p.type, value: parseFloat(p.value) })),
+    allowCustom: allowCustomTip,
+  });
+
   // Track changes
   useEffect(() => {
     const nameChanged = merchantName.trim() !== (merchant.merchantName || '').trim();
     const descChanged = description.trim() !== (merchant.description || '').trim();
     const logoChanged = pendingLogoUri !== null;
-    setHasChanges(nameChanged || descChanged || logoChanged);
-  }, [merchantName, description, pendingLogoUri, merchant.merchantName, merchant.description]);
+    const tipsChanged = tipsAvailable && JSON.stringify(buildTipSettings()) !== JSON.stringify(initialTips);
+    setHasChanges(nameChanged || descChanged || logoChanged || tipsChanged);
+  }, [merchantName, description, pendingLogoUri, merchant.merchantName, merchant.description, tipsEnabled, tipPresets, allowCustomTip]);
+
+  const updateTipPreset = (index: number, changes: Partial<{ type: TipPreset['type']; value: string }>) => {
+    setTipPresets((prev) => prev.map((p, i) => (i === index ? { ...p, ...changes } : p)));
+  };
 
   const handlePickImage = async () => {
     try {
@@ -87,12 +120,20 @@ export const MerchantProfileEditScreen: React.FC<MerchantProfileEditScreenProps>
       return;
     }
 
+    const tipSettings = tipsAvailable ? buildTipSettings() : undefined;
+    const tipError = tipSettings ? validateTipSettings(tipSettings) : null;
+    if (tipError) {
+      Alert.alert('Invalid Tips', tipError);
+      return;
+    }
+
     setIsSaving(true);
     try {
       await onSave(
         {
           merchantName: trimmedName,
           description: description.trim() || undefined,
+          tipSettings,
         },
         pendingLogoUri
       );
@@ -135,6 +176,31 @@ export const MerchantProfileEditScreen: React.FC<MerchantProfileEditScreenProps>
     );
   };
 
+  const handleDeactivate = () => {
+    if (!onDeactivate) return;
+    Alert.alert(
+      'Deactivate Business',
+      'Customers will no longer be able to pay you and your staff will lose access. Your payment history is kept.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Deactivate',
+          style: 'destructive',
+          onPress: async () => {
+            setIsSaving(true);
+            try {
+              await onDeactivate();
+            } catch (error) {
+              console.error('Error deactivating merchant:', error);
+              Alert.alert('Error', 'Failed to deactivate business. Please try again.');
+              setIsSaving(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
   // Determine which logo to display
   const displayLogoUrl = pendingLogoUri === '__REMOVE__'
     ? null
@@ -282,6 +348,81 @@ export const MerchantProfileEditScreen: React.FC<MerchantProfileEditScreenProps>
           </Text>
         </View>
 
+        {/* Tips Section (food & beverage) */}
+        {tipsAvailable && (
+          <View style={styles.section}>
+            <Text style={styles.sectionLabel}>TIPS</Text>
+            <View style={styles.inputContainer}>
+              <View style={styles.linkRow}>
+                <Text style={styles.linkRowText}>Ask customers for a tip</Text>
+                <TouchableOpacity
+                  style={[styles.toggleChip, tipsEnabled && styles.toggleChipActive]}
+                  onPress={() => setTipsEnabled(!tipsEnabled)}
+                  disabled={isSaving}
+                >
+                  <Text style={[styles.toggleChipText, tipsEnabled && styles.toggleChipTextActive]}>
+                    {tipsEnabled ? 'On' : 'Off'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+              {tipsEnabled && (
+                <>
+                  {tipPresets.map((preset, index) => (
+                    <View key={index} style={styles.tipPresetRow}>
+                      <TouchableOpacity
+                        style={styles.toggleChip}
+                        onPress={() => updateTipPreset(index, { type: preset.type === 'PERCENT' ? 'FLAT' : 'PERCENT' })}
+                        disabled={isSaving}
+                      >
+                        <Text style={styles.toggleChipText}>{preset.type === 'PERCENT' ? '%' : '$'}</Text>
+                      </TouchableOpacity>
+                      <TextInput
+                        style={[styles.input, styles.tipPresetInput]}
+                        value={preset.value}
+                        onChangeText={(value) => updateTipPreset(index, { value })}
+                        keyboardType="decimal-pad"
+                        placeholder={preset.type === 'PERCENT' ? '15' : '2.00'}
+                        placeholderTextColor="#9CA3AF"
+                        editable={!isSaving}
+                      />
+                      <TouchableOpacity
+                        onPress={() => setTipPresets((prev) => prev.filter((_, i) => i !== index))}
+                        disabled={isSaving}
+                      >
+                        <Text style={styles.imageButtonTextDanger}>Remove</Text>
+                      </TouchableOpacity>
+                    </View>
+                  ))}
+                  {tipPresets.length < MAX_TIP_PRESETS && (
+                    <TouchableOpacity
+                      style={styles.tipPresetRow}
+                      onPress={() => setTipPresets((prev) => [...prev, { type: 'PERCENT', value: '' }])}
+                      disabled={isSaving}
+                    >
+                      <Text style={styles.imageButtonText}>+ Add preset</Text>
+                    </TouchableOpacity>
+                  )}
+                  <View style={[styles.linkRow, styles.tipPresetRow]}>
+                    <Text style={styles.linkRowText}>Allow custom tip</Text>
+                    <TouchableOpacity
+                      style={[styles.toggleChip, allowCustomTip && styles.toggleChipActive]}
+                      onPress={() => setAllowCustomTip(!allowCustomTip)}
+                      disabled={isSaving}
+                    >
+                      <Text style={[styles.toggleChipText, allowCustomTip && styles.toggleChipTextActive]}>
+                        {allowCustomTip ? 'On' : 'Off'}
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
+                </>
+              )}
+            </View>
+            <Text style={styles.inputHint}>
+              Customers choose a tip before paying. Tips are shown separately on your dashboard.
+            </Text>
+          </View>
+        )}
+
         {/* Merchant ID Section (read-only) */}
         <View style={styles.section}>
           <Text style={styles.sectionLabel}>MERCHANT ID</Text>
@@ -289,6 +430,37 @@ export const MerchantProfileEditScreen: React.FC<MerchantProfileEditScreenProps>
             <Text style={styles.readOnlyValue}>{merchant.merchantId}</Text>
           </View>
         </View>
+
+        {/* Staff Section */}
+        {onManageStaff && (
+          <View style={styles.section}>
+            <Text style={styles.sectionLabel}>STAFF</Text>
+            <TouchableOpacity
+              style={[styles.inputContainer, styles.linkRow]}
+              onPress={onManageStaff}
+              disabled={isSaving}
+            >
+              <Text style={styles.linkRowText}>Manage Staff</Text>
+              <Text style={styles.linkRowChevron}>›</Text>
+            </TouchableOpacity>
+            <Text style={styles.inputHint}>
+              Invite managers and cashiers to take payments for your business.
+            </Text>
+          </View>
+        )}
+
+        {/* Deactivate */}
+        {onDeactivate && (
+          <View style={styles.section}>
+            <TouchableOpacity
+              style={[styles.inputContainer, styles.linkRow]}
+              onPress={handleDeactivate}
+              disabled={isSaving}
+            >
+              <Text style={[styles.linkRowText, styles.imageButtonTextDanger]}>Deactivate Business</Text>
+            </TouchableOpacity>
+          </View>
+        )}
       </ScrollView>
     </KeyboardAvoidingView>
   );
@@ -438,6 +610,50 @@ const styles = StyleSheet.create({
     paddingHorizontal: 16,
     paddingTop: 8,
   },
+  linkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  linkRowText: {
+    fontSize: 16,
+    color: '#111827',
+  },
+  linkRowChevron: {
+    fontSize: 20,
+    color: '#9CA3AF',
+  },
+  toggleChip: {
+    minWidth: 44,
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: '#f3f4f6',
+  },
+  toggleChipActive: {
+    backgroundColor: '#10B981',
+  },
+  toggleChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  toggleChipTextActive: {
+    color: '#ffffff',
+  },
+  tipPresetRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 12,
+  },
+  tipPresetInput: {
+    flex: 1,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+    paddingVertical: 4,
+  },
 });
 
 export default MerchantProfileEditScreen;
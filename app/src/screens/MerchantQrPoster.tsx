@@ -0,0 +1,390 @@
+/**
+ * MerchantQrPosterScreen - Printable counter poster with a static merchant QR
+ *
+ * Requests a long-lived merchant token (the dashboard QR expires after five
+ * minutes), previews the poster and prints it or shares it as a PDF in the
+ * chosen paper size.
+ */
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  Image,
+  Alert,
+} from 'react-native';
+import QRCode from 'react-native-qrcode-svg';
+import { transferSimApi } from '../services/transferSim';
+import { merchantPosterService, POSTER_PAPER_SIZES } from '../services/merchantPoster';
+import type { PosterPaperSize } from '../services/merchantPoster';
+import { MERCHANT_CATEGORIES } from '../types';
+import type { MerchantProfile, ReceiveToken } from '../types';
+
+interface MerchantQrPosterScreenProps {
+  merchant: MerchantProfile;
+  /** Alias printed for payers who can't scan (defaults to the merchant's primary alias) */
+  alias?: string;
+  onBack: () => void;
+}
+
+// Format expiry date
+const formatDate = (dateStr: string): string => {
+  return new Date(dateStr).toLocaleDateString('en-CA', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+};
+
+export const MerchantQrPosterScreen: React.FC<MerchantQrPosterScreenProps> = ({
+  merchant,
+  alias,
+  onBack,
+}) => {
+  const [token, setToken] = useState<ReceiveToken | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [paperSize, setPaperSize] = useState<PosterPaperSize>('letter');
+  const [exporting, setExporting] = useState<'print' | 'pdf' | null>(null);
+  const qrRef = useRef<any>(null);
+
+  const category = MERCHANT_CATEGORIES[merchant.merchantCategory] || MERCHANT_CATEGORIES.OTHER;
+  const payAlias = alias || merchant.primaryAlias;
+
+  const loadToken = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setToken(await transferSimApi.generateStaticMerchantToken());
+    } catch (e: any) {
+      console.error('[MerchantPoster] Failed to generate static token:', e);
+      setError(e.response?.data?.message || 'Failed to generate poster QR code');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadToken();
+  }, [loadToken]);
+
+  // react-native-qrcode-svg renders to SVG; toDataURL gives a PNG we can embed in the HTML
+  const getQrImage = (): Promise<string> =>
+    new Promise((resolve, reject) => {
+      if (!qrRef.current) {
+        reject(new Error('QR code is not ready'));
+        return;
+      }
+      qrRef.current.toDataURL((data: string) => resolve(data));
+    });
+
+  const handleExport = async (action: 'print' | 'pdf') => {
+    setExporting(action);
+    try {
+      const input = { merchant, alias: payAlias, paperSize, qrImageBase64: await getQrImage() };
+      if (action === 'print') {
+        await merchantPosterService.print(input);
+      } else {
+        await merchantPosterService.sharePdf(input);
+      }
+    } catch (e: any) {
+      console.error('[MerchantPoster] Export failed:', e);
+      Alert.alert('Error', e.message || 'Failed to create poster');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <Text style={styles.backButtonText}>‹ Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>QR Poster</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {loading ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color="#10B981" />
+        </View>
+      ) : error || !token ? (
+        <View style={styles.centerContainer}>
+          <Text style={styles.errorText}>{error || 'Failed to generate poster QR code'}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={loadToken}>
+            <Text style={styles.retryButtonText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <ScrollView style={styles.content}>
+          {/* Poster preview */}
+          <View style={styles.poster}>
+            {merchant.logoImageUrl ? (
+              <Image source={{ uri: merchant.logoImageUrl }} style={styles.logo} />
+            ) : (
+              <View style={[styles.iconCircle, { backgroundColor: merchant.initialsColor || '#D1FAE5' }]}>
+                <Text style={styles.iconText}>{category.icon}</Text>
+              </View>
+            )}
+            <Text style={styles.merchantName}>{merchant.merchantName}</Text>
+            <Text style={styles.categoryLabel}>{category.label}</Text>
+            <Text style={styles.cta}>Scan to pay with mwsim</Text>
+            <View style={styles.qrWrapper}>
+              <QRCode
+                value={token.qrPayload}
+                size={200}
+                backgroundColor="white"
+                color="#065F46"
+                getRef={(c) => (qrRef.current = c)}
+              />
+            </View>
+            {!!payAlias && (
+              <>
+                <Text style={styles.aliasHint}>Can't scan? Send to</Text>
+                <Text style={styles.alias}>{payAlias}</Text>
+              </>
+            )}
+          </View>
+          <Text style={styles.expiryText}>This QR code stays valid until {formatDate(token.expiresAt)}</Text>
+
+          {/* Paper size */}
+          <Text style={styles.sectionLabel}>Paper size</Text>
+          <View style={styles.chipRow}>
+            {(Object.keys(POSTER_PAPER_SIZES) as PosterPaperSize[]).map((size) => (
+              <TouchableOpacity
+                key={size}
+                style={[styles.chip, paperSize === size && styles.chipSelected]}
+                onPress={() => setPaperSize(size)}
+              >
+                <Text style={[styles.chipText, paperSize === size && styles.chipTextSelected]}>
+                  {POSTER_PAPER_SIZES[size].label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {/* Actions */}
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.actionButtonPrimary]}
+              onPress={() => handleExport('print')}
+              disabled={exporting !== null}
+            >
+              {exporting === 'print' ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.actionButtonPrimaryText}>Print</Text>
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => handleExport('pdf')}
+              disabled={exporting !== null}
+            >
+              {exporting === 'pdf' ? (
+                <ActivityIndicator color="#10B981" />
+              ) : (
+                <Text style={styles.actionButtonText}>Share PDF</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F7FA',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingRight: 16,
+    minWidth: 60,
+  },
+  backButtonText: {
+    fontSize: 17,
+    color: '#1976D2',
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  headerSpacer: {
+    minWidth: 60,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  errorText: {
+    fontSize: 15,
+    color: '#DC2626',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  retryButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#10B981',
+  },
+  retryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  poster: {
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 24,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  logo: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+  },
+  iconCircle: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  iconText: {
+    fontSize: 32,
+  },
+  merchantName: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#111827',
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  categoryLabel: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  cta: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#065F46',
+    marginTop: 20,
+  },
+  qrWrapper: {
+    padding: 12,
+    marginTop: 12,
+    backgroundColor: '#fff',
+  },
+  aliasHint: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 12,
+  },
+  alias: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#111827',
+    marginTop: 2,
+  },
+  expiryText: {
+    fontSize: 13,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 24,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#10B981',
+    borderColor: '#10B981',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  actions: {
+    flexDirection: 'row',
+    marginTop: 16,
+    marginBottom: 40,
+  },
+  actionButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#10B981',
+    backgroundColor: '#fff',
+    marginLeft: 8,
+  },
+  actionButtonPrimary: {
+    backgroundColor: '#10B981',
+    marginLeft: 0,
+  },
+  actionButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#10B981',
+  },
+  actionButtonPrimaryText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+});
+
+export default MerchantQrPosterScreen;
@@ -0,0 +1,522 @@
+/**
+ * MerchantSettlementScreen - End-of-day settlement report
+ *
+ * Shows a business day's gross, fees, refunds and net deposit to the
+ * receiving account, with failed/reversed payments listed separately.
+ * "Close Day" freezes the report as a local snapshot and exports it as CSV.
+ */
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { settlementService, getBusinessDate, addBusinessDays } from '../services/settlement';
+import type { SettlementReport, SettlementItem } from '../services/settlement';
+import { transferSimApi } from '../services/transferSim';
+import { splitTipPool } from '../services/tips';
+import { formatMoney } from '../services/currency';
+import type { MerchantProfile } from '../types';
+
+interface MerchantSettlementScreenProps {
+  merchant: MerchantProfile;
+  onBack: () => void;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  COMPLETED: 'Completed',
+  REVERSED: 'Reversed',
+  DEBIT_FAILED: 'Payment failed',
+  CREDIT_FAILED: 'Deposit failed',
+  RECIPIENT_NOT_FOUND: 'Recipient not found',
+  CANCELLED: 'Cancelled',
+  EXPIRED: 'Expired',
+};
+
+// "Tue, Mar 10, 2026" for a YYYY-MM-DD business date
+const formatBusinessDate = (businessDate: string): string => {
+  const [year, month, day] = businessDate.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString('en-CA', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+};
+
+const formatTime = (dateStr: string): string =>
+  new Date(dateStr).toLocaleTimeString('en-CA', { hour: 'numeric', minute: '2-digit' });
+
+const ItemRow: React.FC<{ item: SettlementItem; currency: string; isException?: boolean }> = ({ item, currency, isException }) => (
+  <View style={styles.itemRow}>
+    <View style={{ flex: 1 }}>
+      <Text style={styles.itemName}>{item.senderLabel}</Text>
+      <Text style={styles.itemMeta}>
+        {formatTime(item.createdAt)}
+        {isException || item.status !== 'COMPLETED' ? ` · ${STATUS_LABELS[item.status] || item.status}` : ''}
+        {item.refunded > 0 ? ` · refunded ${formatMoney(item.refunded, currency)}` : ''}
+      </Text>
+    </View>
+    <Text style={[styles.itemAmount, isException && styles.itemAmountException]}>
+      {formatMoney(item.gross, currency)}
+    </Text>
+  </View>
+);
+
+export const MerchantSettlementScreen: React.FC<MerchantSettlementScreenProps> = ({
+  merchant,
+  onBack,
+}) => {
+  const today = getBusinessDate(new Date(), new Date().getTimezoneOffset());
+  const [businessDate, setBusinessDate] = useState(today);
+  const [report, setReport] = useState<SettlementReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [closing, setClosing] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [activeStaffCount, setActiveStaffCount] = useState(1);
+
+  // Active staff share the day's tips; single-user merchants keep them all
+  useEffect(() => {
+    transferSimApi.getMerchantStaff()
+      .then((staff) => setActiveStaffCount(Math.max(1, staff.filter((m) => m.status === 'ACTIVE').length)))
+      .catch((e) => console.log('[Settlement] Staff unavailable for tip pool:', e.response?.status || e.message));
+  }, []);
+
+  // A closed day shows its snapshot; an open day is built live from TransferSim
+  const loadReport = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const snapshot = await settlementService.getSnapshot(merchant.merchantId, businessDate);
+      setReport(snapshot || await settlementService.loadReport(merchant, businessDate));
+    } catch (e: any) {
+      console.error('[Settlement] Failed to load report:', e);
+      setReport(null);
+      setError(e.response?.data?.message || 'Failed to load settlement report');
+    } finally {
+      setLoading(false);
+    }
+  }, [merchant, businessDate]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const handleExport = async (target: SettlementReport) => {
+    setExporting(true);
+    try {
+      await settlementService.exportReport(target);
+    } catch (e: any) {
+      console.error('[Settlement] Export failed:', e);
+      Alert.alert('Export Failed', e.message || 'Could not export the report');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const closeDay = async () => {
+    setClosing(true);
+    try {
+      // Re-fetch so the snapshot has the latest statuses and refunds
+      const live = await settlementService.loadReport(merchant, businessDate);
+      const closed = await settlementService.closeDay(live);
+      setReport(closed);
+      await handleExport(closed);
+    } catch (e: any) {
+      console.error('[Settlement] Close day failed:', e);
+      Alert.alert('Error', e.response?.data?.message || 'Failed to close the day');
+    } finally {
+      setClosing(false);
+    }
+  };
+
+  const handleCloseDay = () => {
+    Alert.alert(
+      report?.closedAt ? 'Close Day Again' : 'Close Day',
+      report?.closedAt
+        ? 'Replace the saved report with the latest figures for this day?'
+        : `Save the settlement report for ${formatBusinessDate(businessDate)} and export it?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Close Day', onPress: closeDay },
+      ]
+    );
+  };
+
+  const isToday = businessDate === today;
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <Text style={styles.backButtonText}>‹ Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>End of Day</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {/* Day navigation */}
+      <View style={styles.dayNav}>
+        <TouchableOpacity onPress={() => setBusinessDate(addBusinessDays(businessDate, -1))} style={styles.dayNavButton}>
+          <Text style={styles.dayNavArrow}>‹</Text>
+        </TouchableOpacity>
+        <Text style={styles.dayNavLabel}>{isToday ? 'Today' : formatBusinessDate(businessDate)}</Text>
+        <TouchableOpacity
+          onPress={() => setBusinessDate(addBusinessDays(businessDate, 1))}
+          style={styles.dayNavButton}
+          disabled={isToday}
+        >
+          <Text style={[styles.dayNavArrow, isToday && { color: '#D1D5DB' }]}>›</Text>
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color="#10B981" />
+        </View>
+      ) : error || !report ? (
+        <View style={styles.centerContainer}>
+          <Text style={styles.errorText}>{error || 'Failed to load settlement report'}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={loadReport}>
+            <Text style={styles.retryButtonText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <>
+          <ScrollView style={styles.content}>
+            {report.closedAt && (
+              <View style={styles.closedBanner}>
+                <Text style={styles.closedBannerText}>
+                  Closed {formatBusinessDate(getBusinessDate(new Date(report.closedAt), report.tzOffset))} at {formatTime(report.closedAt)} · figures are frozen
+                </Text>
+              </View>
+            )}
+
+            {/* Summary */}
+            <View style={styles.card}>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Gross ({report.settledCount} payments)</Text>
+                <Text style={styles.summaryValue}>{formatMoney(report.gross, report.currency)}</Text>
+              </View>
+              {/* Snapshots closed before tips were recorded have no tips field */}
+              {(report.tips ?? 0) > 0 && (
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabelIndented}>incl. tips</Text>
+                  <Text style={styles.summaryValueMuted}>{formatMoney(report.tips, report.currency)}</Text>
+                </View>
+              )}
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Processing fees</Text>
+                <Text style={[styles.summaryValue, styles.negative]}>-{formatMoney(report.fees, report.currency)}</Text>
+              </View>
+              {report.refunds > 0 && (
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>Refunds</Text>
+                  <Text style={[styles.summaryValue, styles.negative]}>-{formatMoney(report.refunds, report.currency)}</Text>
+                </View>
+              )}
+              <View style={[styles.summaryRow, styles.summaryTotalRow]}>
+                <Text style={styles.summaryTotalLabel}>Net deposit</Text>
+                <Text style={styles.summaryTotalValue}>{formatMoney(report.net, report.currency)}</Text>
+              </View>
+              <Text style={styles.depositAccount}>
+                To {report.receivingBankName} · account {report.receivingAccountId}
+              </Text>
+            </View>
+
+            {/* Tip pool */}
+            {(report.tips ?? 0) > 0 && activeStaffCount > 1 && (
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>Tip pool</Text>
+                <Text style={styles.itemMeta}>
+                  {formatMoney(report.tips, report.currency)} split evenly across {activeStaffCount} staff:{' '}
+                  {splitTipPool(report.tips, activeStaffCount, report.currency).map((share) => formatMoney(share, report.currency)).join(', ')}
+                </Text>
+              </View>
+            )}
+
+            {/* Exceptions */}
+            {report.exceptions.length > 0 && (
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>⚠️ Failed & reversed ({report.exceptions.length})</Text>
+                {report.exceptions.map((item) => (
+                  <ItemRow key={item.transferId} item={item} currency={report.currency} isException />
+                ))}
+              </View>
+            )}
+
+            {/* Settled payments */}
+            <View style={[styles.card, { marginBottom: 24 }]}>
+              <Text style={styles.cardTitle}>Payments</Text>
+              {report.items.length === 0 ? (
+                <Text style={styles.emptyText}>No settled payments on this day</Text>
+              ) : (
+                report.items.map((item) => <ItemRow key={item.transferId} item={item} currency={report.currency} />)
+              )}
+            </View>
+          </ScrollView>
+
+          {/* Actions */}
+          <View style={styles.footer}>
+            <TouchableOpacity
+              style={[styles.secondaryButton, (exporting || closing) && styles.buttonDisabled]}
+              onPress={() => handleExport(report)}
+              disabled={exporting || closing}
+            >
+              {exporting && !closing ? (
+                <ActivityIndicator color="#10B981" />
+              ) : (
+                <Text style={styles.secondaryButtonText}>Export</Text>
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.primaryButton, (exporting || closing) && styles.buttonDisabled]}
+              onPress={handleCloseDay}
+              disabled={exporting || closing}
+            >
+              {closing ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.primaryButtonText}>{report.closedAt ? 'Close Again' : 'Close Day'}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F7FA',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingRight: 16,
+    minWidth: 60,
+  },
+  backButtonText: {
+    fontSize: 17,
+    color: '#1976D2',
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  headerSpacer: {
+    minWidth: 60,
+  },
+  dayNav: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  dayNavButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 4,
+  },
+  dayNavArrow: {
+    fontSize: 28,
+    color: '#10B981',
+  },
+  dayNavLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  errorText: {
+    fontSize: 15,
+    color: '#DC2626',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  retryButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#10B981',
+  },
+  retryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  closedBanner: {
+    backgroundColor: '#D1FAE5',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginBottom: 12,
+  },
+  closedBannerText: {
+    fontSize: 13,
+    color: '#065F46',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  cardTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  summaryLabel: {
+    fontSize: 15,
+    color: '#374151',
+  },
+  summaryValue: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  summaryLabelIndented: {
+    fontSize: 14,
+    color: '#6B7280',
+    paddingLeft: 12,
+  },
+  summaryValueMuted: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  negative: {
+    color: '#DC2626',
+  },
+  summaryTotalRow: {
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+    marginTop: 6,
+    paddingTop: 12,
+  },
+  summaryTotalLabel: {
+    fontSize: 17,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  summaryTotalValue: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#059669',
+  },
+  depositAccount: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  itemName: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  itemAmount: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  itemAmountException: {
+    color: '#9CA3AF',
+    textDecorationLine: 'line-through',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    paddingVertical: 8,
+  },
+  footer: {
+    flexDirection: 'row',
+    gap: 12,
+    padding: 16,
+    paddingBottom: 32,
+    backgroundColor: '#fff',
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  primaryButton: {
+    flex: 1,
+    backgroundColor: '#10B981',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    flex: 1,
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#10B981',
+    backgroundColor: '#fff',
+  },
+  secondaryButtonText: {
+    color: '#10B981',
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
+
+export default MerchantSettlementScreen;
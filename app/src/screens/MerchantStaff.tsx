@@ -0,0 +1,437 @@
+/**
+ * MerchantStaffScreen - Staff access for a Micro Merchant
+ *
+ * Lists everyone with access to the business, invites new staff by alias
+ * and changes or removes roles. Owners manage managers and cashiers;
+ * managers manage cashiers.
+ */
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { transferSimApi } from '../services/transferSim';
+import {
+  MERCHANT_ROLES,
+  getMerchantRole,
+  getMerchantRoleLabel,
+  getAssignableRoles,
+  canManageStaffMember,
+  validateStaffInvite,
+} from '../services/merchantRoles';
+import type { MerchantProfile, MerchantStaffMember, MerchantStaffRole } from '../types';
+
+interface MerchantStaffScreenProps {
+  merchant: MerchantProfile;
+  onBack: () => void;
+}
+
+const ROLE_COLORS: Record<MerchantStaffRole, { background: string; text: string }> = {
+  OWNER: { background: '#D1FAE5', text: '#065F46' },
+  MANAGER: { background: '#DBEAFE', text: '#1E40AF' },
+  CASHIER: { background: '#F3F4F6', text: '#374151' },
+};
+
+export const MerchantStaffScreen: React.FC<MerchantStaffScreenProps> = ({
+  merchant,
+  onBack,
+}) => {
+  const actorRole = getMerchantRole(merchant);
+  const assignableRoles = getAssignableRoles(actorRole);
+
+  const [staff, setStaff] = useState<MerchantStaffMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [inviteAlias, setInviteAlias] = useState('');
+  const [inviteRole, setInviteRole] = useState<MerchantStaffRole>('CASHIER');
+  const [inviting, setInviting] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const loadStaff = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setStaff(await transferSimApi.getMerchantStaff());
+    } catch (e: any) {
+      console.error('[Staff] Failed to load staff:', e);
+      setError(e.response?.data?.message || 'Failed to load staff');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStaff();
+  }, [loadStaff]);
+
+  const handleInvite = async () => {
+    const validationError = validateStaffInvite(inviteAlias, inviteRole, actorRole, staff);
+    if (validationError) {
+      Alert.alert('Cannot Invite', validationError);
+      return;
+    }
+    setInviting(true);
+    try {
+      const member = await transferSimApi.inviteMerchantStaff(inviteAlias, inviteRole);
+      setStaff((prev) => [...prev, member]);
+      setInviteAlias('');
+      Alert.alert('Invitation Sent', `${member.alias} can accept the invitation from their mwsim app.`);
+    } catch (e: any) {
+      console.error('[Staff] Invite failed:', e);
+      const message = e.response?.status === 404
+        ? 'No mwsim user found with that alias'
+        : e.response?.data?.message || 'Failed to send the invitation';
+      Alert.alert('Error', message);
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const changeRole = async (member: MerchantStaffMember, role: MerchantStaffRole) => {
+    setUpdatingId(member.staffId);
+    try {
+      const updated = await transferSimApi.updateMerchantStaffRole(member.staffId, role);
+      setStaff((prev) => prev.map((m) => (m.staffId === member.staffId ? { ...m, ...updated } : m)));
+    } catch (e: any) {
+      console.error('[Staff] Role change failed:', e);
+      Alert.alert('Error', e.response?.data?.message || 'Failed to change the role');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const removeMember = async (member: MerchantStaffMember) => {
+    setUpdatingId(member.staffId);
+    try {
+      await transferSimApi.removeMerchantStaff(member.staffId);
+      setStaff((prev) => prev.filter((m) => m.staffId !== member.staffId));
+    } catch (e: any) {
+      console.error('[Staff] Remove failed:', e);
+      Alert.alert('Error', e.response?.data?.message || 'Failed to remove staff member');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleMemberPress = (member: MerchantStaffMember) => {
+    const name = member.displayName || member.alias;
+    const isInvite = member.status === 'INVITED';
+    Alert.alert(name, `${getMerchantRoleLabel(member.role)}${isInvite ? ' · invitation pending' : ''}`, [
+      ...assignableRoles
+        .filter((role) => role !== member.role)
+        .map((role) => ({
+          text: `Make ${getMerchantRoleLabel(role)}`,
+          onPress: () => changeRole(member, role),
+        })),
+      {
+        text: isInvite ? 'Cancel Invitation' : 'Remove',
+        style: 'destructive' as const,
+        onPress: () => removeMember(member),
+      },
+      { text: 'Close', style: 'cancel' as const },
+    ]);
+  };
+
+  const renderRoleBadge = (role: MerchantStaffRole) => (
+    <View style={[styles.roleBadge, { backgroundColor: ROLE_COLORS[role].background }]}>
+      <Text style={[styles.roleBadgeText, { color: ROLE_COLORS[role].text }]}>{getMerchantRoleLabel(role)}</Text>
+    </View>
+  );
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <Text style={styles.backButtonText}>‹ Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Staff</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        {/* Invite */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Invite staff</Text>
+          <TextInput
+            style={styles.input}
+            value={inviteAlias}
+            onChangeText={setInviteAlias}
+            placeholder="@alias, email or phone"
+            placeholderTextColor="#9CA3AF"
+            autoCapitalize="none"
+            autoCorrect={false}
+            editable={!inviting}
+          />
+          <View style={styles.roleChips}>
+            {assignableRoles.map((role) => {
+              const isSelected = inviteRole === role;
+              return (
+                <TouchableOpacity
+                  key={role}
+                  style={[styles.roleChip, isSelected && styles.roleChipActive]}
+                  onPress={() => setInviteRole(role)}
+                  disabled={inviting}
+                >
+                  <Text style={[styles.roleChipText, isSelected && styles.roleChipTextActive]}>
+                    {getMerchantRoleLabel(role)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <Text style={styles.hint}>
+            {MERCHANT_ROLES.find((r) => r.value === inviteRole)?.description}
+          </Text>
+          <TouchableOpacity
+            style={[styles.primaryButton, (inviting || !inviteAlias.trim()) && styles.buttonDisabled]}
+            onPress={handleInvite}
+            disabled={inviting || !inviteAlias.trim()}
+          >
+            {inviting ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.primaryButtonText}>Send Invitation</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        {/* Staff list */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>People with access</Text>
+          {loading ? (
+            <ActivityIndicator style={{ paddingVertical: 16 }} color="#10B981" />
+          ) : error ? (
+            <View style={styles.errorContainer}>
+              <Text style={styles.errorText}>{error}</Text>
+              <TouchableOpacity onPress={loadStaff}>
+                <Text style={styles.retryText}>Retry</Text>
+              </TouchableOpacity>
+            </View>
+          ) : staff.length === 0 ? (
+            <Text style={styles.emptyText}>No staff yet. Invite your team above.</Text>
+          ) : (
+            staff.map((member) => {
+              const manageable = canManageStaffMember(actorRole, member);
+              return (
+                <TouchableOpacity
+                  key={member.staffId}
+                  style={styles.memberRow}
+                  onPress={() => handleMemberPress(member)}
+                  disabled={!manageable || updatingId === member.staffId}
+                  activeOpacity={0.7}
+                >
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.memberName}>{member.displayName || member.alias}</Text>
+                    <Text style={styles.memberMeta}>
+                      {member.displayName ? `${member.alias} · ` : ''}
+                      {member.status === 'INVITED' ? 'Invitation sent' : 'Active'}
+                    </Text>
+                  </View>
+                  {updatingId === member.staffId ? (
+                    <ActivityIndicator size="small" color="#10B981" />
+                  ) : (
+                    renderRoleBadge(member.role)
+                  )}
+                  {manageable && <Text style={styles.chevron}>›</Text>}
+                </TouchableOpacity>
+              );
+            })
+          )}
+        </View>
+
+        {/* Role reference */}
+        <View style={[styles.card, { marginBottom: 32 }]}>
+          <Text style={styles.cardTitle}>Roles</Text>
+          {MERCHANT_ROLES.map((role) => (
+            <View key={role.value} style={styles.roleInfoRow}>
+              {renderRoleBadge(role.value)}
+              <Text style={styles.roleInfoText}>{role.description}</Text>
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F7FA',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingRight: 16,
+    minWidth: 60,
+  },
+  backButtonText: {
+    fontSize: 17,
+    color: '#1976D2',
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  headerSpacer: {
+    minWidth: 60,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  cardTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#111827',
+    backgroundColor: '#F9FAFB',
+  },
+  roleChips: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  roleChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#fff',
+  },
+  roleChipActive: {
+    borderColor: '#10B981',
+    backgroundColor: '#D1FAE5',
+  },
+  roleChipText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  roleChipTextActive: {
+    color: '#065F46',
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  primaryButton: {
+    backgroundColor: '#10B981',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  errorContainer: {
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#DC2626',
+    marginBottom: 8,
+  },
+  retryText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#10B981',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  memberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  memberName: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  memberMeta: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  roleBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 10,
+  },
+  roleBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  chevron: {
+    fontSize: 20,
+    color: '#9CA3AF',
+  },
+  roleInfoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 6,
+  },
+  roleInfoText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#374151',
+  },
+});
+
+export default MerchantStaffScreen;
@@ -0,0 +1,382 @@
+/**
+ * PayeesScreen - The payee book
+ *
+ * Lists saved recipients with favourites first. Payees can be added by
+ * alias lookup, starred, renamed with a nickname or removed. Pull to
+ * refresh re-checks every payee with lookupAlias so renamed and removed
+ * aliases show up.
+ */
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  RefreshControl,
+} from 'react-native';
+import { transferSimApi } from '../services/transferSim';
+import { payeeService, getPayeeName } from '../services/payees';
+import { ProfileAvatar } from '../components/ProfileAvatar';
+import type { Payee } from '../types';
+
+interface PayeesScreenProps {
+  onBack: () => void;
+  /** Start a transfer to the payee */
+  onSendTo: (payee: Payee) => void;
+}
+
+export const PayeesScreen: React.FC<PayeesScreenProps> = ({ onBack, onSendTo }) => {
+  const [payees, setPayees] = useState<Payee[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [alias, setAlias] = useState('');
+  const [adding, setAdding] = useState(false);
+  const [editingPayeeId, setEditingPayeeId] = useState<string | null>(null);
+  const [nickname, setNickname] = useState('');
+
+  const loadPayees = useCallback(async () => {
+    try {
+      setPayees(await payeeService.getPayees());
+    } catch (e) {
+      console.error('[Payees] Failed to load payees:', e);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPayees();
+  }, [loadPayees]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    try {
+      const result = await payeeService.syncPayees({ force: true });
+      setPayees(result.payees);
+    } catch (e) {
+      console.error('[Payees] Sync failed:', e);
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!alias.trim()) {
+      Alert.alert('Error', 'Please enter an alias to add');
+      return;
+    }
+
+    setAdding(true);
+    try {
+      const result = await transferSimApi.lookupAlias(alias.trim());
+      if (!result.found) {
+        Alert.alert('Not Found', 'No user found with that alias. Please check and try again.');
+        return;
+      }
+      await payeeService.addPayee(alias.trim(), result);
+      setAlias('');
+      await loadPayees();
+    } catch (e: any) {
+      console.error('[Payees] Add failed:', e);
+      Alert.alert('Error', 'Failed to add payee');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleToggleFavourite = async (payee: Payee) => {
+    try {
+      await payeeService.setFavourite(payee.payeeId, !payee.isFavourite);
+      await loadPayees();
+    } catch (e: any) {
+      Alert.alert('Error', e.message || 'Failed to update payee');
+    }
+  };
+
+  const handleSaveNickname = async (payee: Payee) => {
+    try {
+      await payeeService.renamePayee(payee.payeeId, nickname);
+      setEditingPayeeId(null);
+      await loadPayees();
+    } catch (e: any) {
+      Alert.alert('Error', e.message || 'Failed to rename payee');
+    }
+  };
+
+  const handleOptions = (payee: Payee) => {
+    Alert.alert(getPayeeName(payee), payee.alias, [
+      {
+        text: 'Rename',
+        onPress: () => {
+          setNickname(payee.nickname || '');
+          setEditingPayeeId(payee.payeeId);
+        },
+      },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          await payeeService.removePayee(payee.payeeId);
+          await loadPayees();
+        },
+      },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <Text style={styles.backButtonText}>‹ Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Payees</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+      >
+        {/* Add Payee */}
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>Add a payee</Text>
+          <View style={styles.inputRow}>
+            <TextInput
+              style={[styles.input, { flex: 1, marginRight: 8 }]}
+              placeholder="@username, email, or phone"
+              value={alias}
+              onChangeText={setAlias}
+              autoCapitalize="none"
+              autoCorrect={false}
+              onSubmitEditing={handleAdd}
+            />
+            <TouchableOpacity
+              style={[styles.addButton, adding && styles.buttonDisabled]}
+              onPress={handleAdd}
+              disabled={adding}
+            >
+              {adding ? <ActivityIndicator size="small" color="#fff" /> : <Text style={styles.addButtonText}>Add</Text>}
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {/* Payee List */}
+        {loading ? (
+          <ActivityIndicator size="large" color="#1976D2" style={{ marginTop: 32 }} />
+        ) : payees.length === 0 ? (
+          <Text style={styles.emptyText}>
+            People you send money to are saved here automatically. Star them to pin them on your P2P home.
+          </Text>
+        ) : (
+          <View style={styles.listCard}>
+            {payees.map((payee) => (
+              <View key={payee.payeeId} style={styles.payeeRow}>
+                <TouchableOpacity
+                  style={styles.payeeMain}
+                  onPress={() => (payee.aliasRemoved ? handleOptions(payee) : onSendTo(payee))}
+                  onLongPress={() => handleOptions(payee)}
+                  activeOpacity={0.7}
+                >
+                  <ProfileAvatar
+                    imageUrl={payee.isMerchant ? payee.merchantLogoUrl || payee.profileImageUrl : payee.profileImageUrl}
+                    displayName={getPayeeName(payee)}
+                    initialsColor={payee.initialsColor}
+                    size="small"
+                    variant={payee.isMerchant ? 'merchant' : 'user'}
+                  />
+                  <View style={styles.payeeInfo}>
+                    {editingPayeeId === payee.payeeId ? (
+                      <TextInput
+                        style={styles.nicknameInput}
+                        value={nickname}
+                        onChangeText={setNickname}
+                        placeholder={payee.displayName || payee.alias}
+                        autoFocus
+                        onSubmitEditing={() => handleSaveNickname(payee)}
+                        onBlur={() => setEditingPayeeId(null)}
+                        returnKeyType="done"
+                      />
+                    ) : (
+                      <Text style={[styles.payeeName, payee.aliasRemoved && styles.payeeNameRemoved]}>
+                        {getPayeeName(payee)}
+                      </Text>
+                    )}
+                    <Text style={[styles.payeeMeta, payee.aliasRemoved && styles.payeeMetaRemoved]} numberOfLines={1}>
+                      {payee.aliasRemoved
+                        ? `${payee.alias} · No longer available`
+                        : [payee.alias, payee.isMerchant ? 'Business' : null].filter(Boolean).join(' · ')}
+                    </Text>
+                  </View>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => handleToggleFavourite(payee)} style={styles.starButton}>
+                  <Text style={[styles.starText, payee.isFavourite && styles.starTextActive]}>
+                    {payee.isFavourite ? '★' : '☆'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        )}
+        {payees.length > 0 && (
+          <Text style={styles.hintText}>Press and hold a payee to rename or remove them.</Text>
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F7FA',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingRight: 16,
+    minWidth: 60,
+  },
+  backButtonText: {
+    fontSize: 17,
+    color: '#1976D2',
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  headerSpacer: {
+    minWidth: 60,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#111827',
+  },
+  addButton: {
+    backgroundColor: '#1976D2',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  addButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: 24,
+    paddingHorizontal: 24,
+    lineHeight: 20,
+  },
+  listCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+  },
+  payeeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  payeeMain: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  payeeInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  payeeName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  payeeNameRemoved: {
+    color: '#9CA3AF',
+  },
+  payeeMeta: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  payeeMetaRemoved: {
+    color: '#DC2626',
+  },
+  nicknameInput: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+    paddingVertical: 2,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1976D2',
+  },
+  starButton: {
+    paddingVertical: 12,
+    paddingLeft: 12,
+  },
+  starText: {
+    fontSize: 22,
+    color: '#D1D5DB',
+  },
+  starTextActive: {
+    color: '#F59E0B',
+  },
+  hintText: {
+    fontSize: 13,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: 12,
+    marginBottom: 32,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
+
+export default PayeesScreen;
@@ -0,0 +1,264 @@
+/**
+ * PaymentDetailScreen - Details of a past card payment
+ *
+ * Shows the merchant, amount, card and status, plus the stored order
+ * breakdown rendered through OrderSummary when the merchant provided one.
+ * Links to the shareable receipt.
+ */
+import React from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+} from 'react-native';
+import { formatMoney } from '../services/currency';
+import { OrderSummary } from '../components/OrderSummary';
+import type { PaymentHistoryItem } from '../types';
+
+interface PaymentDetailScreenProps {
+  payment: PaymentHistoryItem;
+  onBack: () => void;
+  onViewReceipt?: () => void;
+}
+
+// Format date with time
+const formatDateTime = (dateStr: string): string => {
+  const date = new Date(dateStr);
+  return date.toLocaleDateString('en-CA', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+};
+
+// Get status display info
+const getStatusInfo = (status: PaymentHistoryItem['status']): { label: string; color: string; bgColor: string } => {
+  switch (status) {
+    case 'approved':
+    case 'completed':
+      return { label: 'Paid', color: '#047857', bgColor: '#D1FAE5' };
+    case 'pending':
+      return { label: 'Pending', color: '#B45309', bgColor: '#FEF3C7' };
+    case 'cancelled':
+      return { label: 'Cancelled', color: '#6B7280', bgColor: '#F3F4F6' };
+    case 'expired':
+      return { label: 'Expired', color: '#6B7280', bgColor: '#F3F4F6' };
+    default:
+      return { label: status, color: '#6B7280', bgColor: '#F3F4F6' };
+  }
+};
+
+export const PaymentDetailScreen: React.FC<PaymentDetailScreenProps> = ({
+  payment,
+  onBack,
+  onViewReceipt,
+}) => {
+  const statusInfo = getStatusInfo(payment.status);
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <Text style={styles.backButtonText}>‹ Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Payment Details</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView style={styles.content}>
+        {/* Summary */}
+        <View style={styles.summaryCard}>
+          <View style={styles.merchantIcon}>
+            <Text style={styles.merchantInitial}>{payment.merchantName.charAt(0).toUpperCase()}</Text>
+          </View>
+          <Text style={styles.merchantName}>{payment.merchantName}</Text>
+          <Text style={styles.amount}>{formatMoney(payment.amount, payment.currency)}</Text>
+          <View style={[styles.statusBadge, { backgroundColor: statusInfo.bgColor }]}>
+            <Text style={[styles.statusText, { color: statusInfo.color }]}>{statusInfo.label}</Text>
+          </View>
+        </View>
+
+        {/* Details */}
+        <View style={styles.detailsCard}>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Date</Text>
+            <Text style={styles.detailValue}>{formatDateTime(payment.completedAt || payment.createdAt)}</Text>
+          </View>
+          {payment.cardLastFour && (
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Card</Text>
+              <Text style={styles.detailValue}>
+                {payment.cardType ? `${payment.cardType} ` : ''}•••• {payment.cardLastFour}
+              </Text>
+            </View>
+          )}
+          {payment.bankName && (
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Bank</Text>
+              <Text style={styles.detailValue}>{payment.bankName}</Text>
+            </View>
+          )}
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Order ID</Text>
+            <Text style={styles.detailValue} selectable>{payment.orderId}</Text>
+          </View>
+          {payment.orderDescription && (
+            <View style={[styles.detailRow, styles.detailRowLast]}>
+              <Text style={styles.detailLabel}>Description</Text>
+              <Text style={styles.detailValue}>{payment.orderDescription}</Text>
+            </View>
+          )}
+        </View>
+
+        {/* Order Breakdown */}
+        {payment.orderDetails && (
+          <View style={styles.orderSection}>
+            <OrderSummary
+              orderDetails={payment.orderDetails}
+              currency={payment.currency}
+            />
+          </View>
+        )}
+
+        {onViewReceipt && (
+          <TouchableOpacity style={styles.receiptButton} onPress={onViewReceipt}>
+            <Text style={styles.receiptButtonText}>View Receipt</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F7FA',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingRight: 16,
+    minWidth: 60,
+  },
+  backButtonText: {
+    fontSize: 17,
+    color: '#1976D2',
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  headerSpacer: {
+    minWidth: 60,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  summaryCard: {
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 24,
+    marginBottom: 16,
+  },
+  merchantIcon: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: '#E3F2FD',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  merchantInitial: {
+    fontSize: 24,
+    fontWeight: '600',
+    color: '#1976D2',
+  },
+  merchantName: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    marginTop: 12,
+  },
+  amount: {
+    fontSize: 34,
+    fontWeight: '700',
+    color: '#111827',
+    marginTop: 8,
+  },
+  statusBadge: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 12,
+    marginTop: 12,
+  },
+  statusText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  detailsCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    marginBottom: 16,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  detailRowLast: {
+    borderBottomWidth: 0,
+  },
+  detailLabel: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  detailValue: {
+    fontSize: 14,
+    color: '#111827',
+    fontWeight: '500',
+    flexShrink: 1,
+    textAlign: 'right',
+    marginLeft: 16,
+  },
+  orderSection: {
+    marginBottom: 16,
+  },
+  receiptButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#1976D2',
+    backgroundColor: '#fff',
+    marginBottom: 32,
+  },
+  receiptButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1976D2',
+  },
+});
+
+export default PaymentDetailScreen;
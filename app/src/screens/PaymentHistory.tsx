@@ -0,0 +1,607 @@
+/**
+ * PaymentHistoryScreen - Card payment history with filters and search
+ *
+ * Pages through WSIM payment history and filters the loaded payments on
+ * the device by card, merchant, date range and amount. Payments saved in the
+ * local ledger are shown immediately and remain available offline.
+ */
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  FlatList,
+  RefreshControl,
+  ActivityIndicator,
+  TextInput,
+  ScrollView,
+} from 'react-native';
+import { api } from '../services/api';
+import { localLedger } from '../services/localLedger';
+import { formatMoney } from '../services/currency';
+import type { Card, PaymentHistoryItem, PaymentHistoryFilters } from '../types';
+
+interface PaymentHistoryScreenProps {
+  cards: Card[];
+  /** Pre-select a card filter (e.g. when opened from Card Details) */
+  initialCardId?: string;
+  onBack: () => void;
+  onPaymentSelect: (payment: PaymentHistoryItem) => void;
+}
+
+const PAGE_SIZE = 20;
+
+// Date range presets (days back from today; null = all time)
+const DATE_PRESETS: { label: string; days: number | null }[] = [
+  { label: 'All time', days: null },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+];
+
+// Format date for list items
+const formatDate = (dateStr: string): string => {
+  const date = new Date(dateStr);
+  return date.toLocaleDateString('en-CA', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+};
+
+// Get status display info
+const getStatusInfo = (status: PaymentHistoryItem['status']): { label: string; color: string } | null => {
+  switch (status) {
+    case 'cancelled':
+      return { label: 'Cancelled', color: '#6B7280' };
+    case 'expired':
+      return { label: 'Expired', color: '#6B7280' };
+    case 'pending':
+      return { label: 'Pending', color: '#B45309' };
+    default:
+      return null;
+  }
+};
+
+// Local YYYY-MM-DD for a Date
+const toDateKey = (date: Date): string => {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+};
+
+// Apply client-side filters to loaded payments
+const filterPayments = (
+  payments: PaymentHistoryItem[],
+  filters: PaymentHistoryFilters
+): PaymentHistoryItem[] => {
+  const query = filters.merchantQuery?.trim().toLowerCase();
+
+  return payments.filter((payment) => {
+    if (filters.cardId && payment.cardId !== filters.cardId) return false;
+    if (query) {
+      const haystack = `${payment.merchantName} ${payment.orderDescription || ''} ${payment.orderId}`.toLowerCase();
+      if (!haystack.includes(query)) return false;
+    }
+    const paymentDate = toDateKey(new Date(payment.createdAt));
+    if (filters.startDate && paymentDate < filters.startDate) return false;
+    if (filters.endDate && paymentDate > filters.endDate) return false;
+    if (filters.minAmount !== undefined && payment.amount < filters.minAmount) return false;
+    if (filters.maxAmount !== undefined && payment.amount > filters.maxAmount) return false;
+    return true;
+  });
+};
+
+// Parse an optional amount filter input
+const parseAmountInput = (value: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+export const PaymentHistoryScreen: React.FC<PaymentHistoryScreenProps> = ({
+  cards,
+  initialCardId,
+  onBack,
+  onPaymentSelect,
+}) => {
+  const [payments, setPayments] = useState<PaymentHistoryItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Filters
+  const [cardId, setCardId] = useState<string | undefined>(initialCardId);
+  const [merchantQuery, setMerchantQuery] = useState('');
+  const [datePresetDays, setDatePresetDays] = useState<number | null>(null);
+  const [minAmount, setMinAmount] = useState('');
+  const [maxAmount, setMaxAmount] = useState('');
+  const [showMoreFilters, setShowMoreFilters] = useState(false);
+
+  const loadPage = useCallback(async (offset: number) => {
+    try {
+      setError(null);
+      const result = await api.getPaymentHistory(PAGE_SIZE, offset);
+      setPayments((prev) => (offset === 0 ? result.payments : [...prev, ...result.payments]));
+      setTotal(result.total);
+      localLedger.upsertRecords('payments', result.payments).catch((e) => console.log('[PaymentHistory] Ledger update failed:', e));
+      if (offset === 0) {
+        localLedger.syncCollection('payments').catch((e) => console.log('[PaymentHistory] Ledger sync failed:', e));
+      }
+    } catch (e: any) {
+      console.error('[PaymentHistory] Failed to load payments:', e);
+      setError(e.response?.data?.message || 'Failed to load payment history');
+    } finally {
+      setLoading(false);
+      setLoadingMore(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    // Render saved payments from the local ledger first, then refresh from WSIM
+    localLedger.getRecords('payments')
+      .then((saved) => {
+        if (saved.length > 0) {
+          setPayments((prev) => (prev.length === 0 ? saved : prev));
+          setTotal((prev) => prev || saved.length);
+          setLoading(false);
+        }
+      })
+      .catch((e) => console.log('[PaymentHistory] Ledger read failed:', e));
+    loadPage(0);
+  }, [loadPage]);
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadPage(0);
+  };
+
+  const handleLoadMore = () => {
+    if (loadingMore || loading || payments.length >= total) return;
+    setLoadingMore(true);
+    loadPage(payments.length);
+  };
+
+  const filters = useMemo<PaymentHistoryFilters>(() => {
+    let startDate: string | undefined;
+    if (datePresetDays !== null) {
+      const start = new Date();
+      start.setDate(start.getDate() - datePresetDays);
+      startDate = toDateKey(start);
+    }
+    return {
+      cardId,
+      merchantQuery,
+      startDate,
+      minAmount: parseAmountInput(minAmount),
+      maxAmount: parseAmountInput(maxAmount),
+    };
+  }, [cardId, merchantQuery, datePresetDays, minAmount, maxAmount]);
+
+  const filteredPayments = useMemo(() => filterPayments(payments, filters), [payments, filters]);
+
+  const hasActiveFilters =
+    !!cardId || !!merchantQuery.trim() || datePresetDays !== null || !!minAmount || !!maxAmount;
+
+  const clearFilters = () => {
+    setCardId(undefined);
+    setMerchantQuery('');
+    setDatePresetDays(null);
+    setMinAmount('');
+    setMaxAmount('');
+  };
+
+  const renderPayment = ({ item }: { item: PaymentHistoryItem }) => {
+    const statusInfo = getStatusInfo(item.status);
+    const isInactive = item.status === 'cancelled' || item.status === 'expired';
+
+    return (
+      <TouchableOpacity
+        style={styles.paymentItem}
+        onPress={() => onPaymentSelect(item)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.merchantIcon}>
+          <Text style={styles.merchantInitial}>{item.merchantName.charAt(0).toUpperCase()}</Text>
+        </View>
+        <View style={styles.paymentInfo}>
+          <Text style={styles.merchantName} numberOfLines={1}>{item.merchantName}</Text>
+          <Text style={styles.paymentMeta}>
+            {formatDate(item.createdAt)}
+            {item.cardLastFour ? ` · •••• ${item.cardLastFour}` : ''}
+          </Text>
+          {statusInfo && (
+            <Text style={[styles.paymentStatus, { color: statusInfo.color }]}>{statusInfo.label}</Text>
+          )}
+        </View>
+        <Text style={[styles.paymentAmount, isInactive && styles.paymentAmountInactive]}>
+          -{formatMoney(item.amount, item.currency)}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderFilters = () => (
+    <View style={styles.filtersContainer}>
+      <TextInput
+        style={styles.searchInput}
+        placeholder="Search merchant or order"
+        value={merchantQuery}
+        onChangeText={setMerchantQuery}
+        autoCapitalize="none"
+        autoCorrect={false}
+        clearButtonMode="while-editing"
+      />
+
+      {/* Card filter */}
+      {cards.length > 1 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipScroll}>
+          <TouchableOpacity
+            style={[styles.chip, !cardId && styles.chipSelected]}
+            onPress={() => setCardId(undefined)}
+          >
+            <Text style={[styles.chipText, !cardId && styles.chipTextSelected]}>All cards</Text>
+          </TouchableOpacity>
+          {cards.map((card) => (
+            <TouchableOpacity
+              key={card.id}
+              style={[styles.chip, cardId === card.id && styles.chipSelected]}
+              onPress={() => setCardId(card.id)}
+            >
+              <Text style={[styles.chipText, cardId === card.id && styles.chipTextSelected]}>
+                {card.cardType} •••• {card.lastFour}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+
+      {/* Date range */}
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipScroll}>
+        {DATE_PRESETS.map((preset) => (
+          <TouchableOpacity
+            key={preset.label}
+            style={[styles.chip, datePresetDays === preset.days && styles.chipSelected]}
+            onPress={() => setDatePresetDays(preset.days)}
+          >
+            <Text style={[styles.chipText, datePresetDays === preset.days && styles.chipTextSelected]}>
+              {preset.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+        <TouchableOpacity
+          style={[styles.chip, (showMoreFilters || !!minAmount || !!maxAmount) && styles.chipSelected]}
+          onPress={() => setShowMoreFilters(!showMoreFilters)}
+        >
+          <Text style={[styles.chipText, (showMoreFilters || !!minAmount || !!maxAmount) && styles.chipTextSelected]}>
+            Amount
+          </Text>
+        </TouchableOpacity>
+      </ScrollView>
+
+      {/* Amount range */}
+      {showMoreFilters && (
+        <View style={styles.amountRow}>
+          <TextInput
+            style={[styles.amountInput, { marginRight: 8 }]}
+            placeholder="Min $"
+            value={minAmount}
+            onChangeText={setMinAmount}
+            keyboardType="decimal-pad"
+          />
+          <TextInput
+            style={styles.amountInput}
+            placeholder="Max $"
+            value={maxAmount}
+            onChangeText={setMaxAmount}
+            keyboardType="decimal-pad"
+          />
+        </View>
+      )}
+
+      {!!error && (
+        <View style={styles.offlineBanner}>
+          <Text style={styles.offlineText}>Offline - showing saved payments. Pull to refresh.</Text>
+        </View>
+      )}
+
+      {hasActiveFilters && (
+        <View style={styles.filterSummaryRow}>
+          <Text style={styles.filterSummaryText}>
+            {filteredPayments.length} of {payments.length} loaded payments
+          </Text>
+          <TouchableOpacity onPress={clearFilters}>
+            <Text style={styles.clearFiltersText}>Clear</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <Text style={styles.backButtonText}>‹ Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Payment History</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {loading ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color="#1976D2" />
+        </View>
+      ) : error && payments.length === 0 ? (
+        <View style={styles.centerContainer}>
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={() => { setLoading(true); loadPage(0); }}>
+            <Text style={styles.retryButtonText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <FlatList
+          data={filteredPayments}
+          keyExtractor={(item) => item.requestId}
+          renderItem={renderPayment}
+          ListHeaderComponent={renderFilters()}
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyIcon}>🧾</Text>
+              <Text style={styles.emptyTitle}>
+                {hasActiveFilters ? 'No matching payments' : 'No card payments yet'}
+              </Text>
+              <Text style={styles.emptyText}>
+                {hasActiveFilters
+                  ? 'Try a different search or clear your filters.'
+                  : 'Payments you approve with your cards will appear here.'}
+              </Text>
+            </View>
+          }
+          ListFooterComponent={
+            loadingMore ? (
+              <ActivityIndicator style={{ marginVertical: 16 }} color="#1976D2" />
+            ) : payments.length < total ? (
+              <TouchableOpacity style={styles.loadMoreButton} onPress={handleLoadMore}>
+                <Text style={styles.loadMoreText}>Load older payments</Text>
+              </TouchableOpacity>
+            ) : null
+          }
+          onEndReached={handleLoadMore}
+          onEndReachedThreshold={0.3}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+          keyboardShouldPersistTaps="handled"
+          contentContainerStyle={styles.listContent}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F7FA',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingRight: 16,
+    minWidth: 60,
+  },
+  backButtonText: {
+    fontSize: 17,
+    color: '#1976D2',
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  headerSpacer: {
+    minWidth: 60,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  errorText: {
+    fontSize: 15,
+    color: '#B91C1C',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  retryButton: {
+    backgroundColor: '#1976D2',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  listContent: {
+    paddingBottom: 32,
+  },
+  filtersContainer: {
+    padding: 16,
+    paddingBottom: 8,
+  },
+  searchInput: {
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#111827',
+  },
+  chipScroll: {
+    marginTop: 10,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 7,
+    borderRadius: 16,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    marginRight: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#1976D2',
+    borderColor: '#1976D2',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  amountRow: {
+    flexDirection: 'row',
+    marginTop: 10,
+  },
+  amountInput: {
+    flex: 1,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#111827',
+  },
+  offlineBanner: {
+    backgroundColor: '#FEF3C7',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginTop: 12,
+  },
+  offlineText: {
+    fontSize: 13,
+    color: '#92400E',
+    textAlign: 'center',
+  },
+  filterSummaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  filterSummaryText: {
+    fontSize: 13,
+    color: '#6B7280',
+  },
+  clearFiltersText: {
+    fontSize: 14,
+    color: '#1976D2',
+    fontWeight: '600',
+  },
+  paymentItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    marginHorizontal: 16,
+    marginBottom: 8,
+    padding: 14,
+    borderRadius: 12,
+  },
+  merchantIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#E3F2FD',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  merchantInitial: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#1976D2',
+  },
+  paymentInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  merchantName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  paymentMeta: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  paymentStatus: {
+    fontSize: 12,
+    fontWeight: '500',
+    marginTop: 2,
+  },
+  paymentAmount: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+    marginLeft: 8,
+  },
+  paymentAmountInactive: {
+    color: '#9CA3AF',
+    textDecorationLine: 'line-through',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+    paddingHorizontal: 24,
+  },
+  emptyIcon: {
+    fontSize: 48,
+    marginBottom: 16,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+  loadMoreButton: {
+    alignItems: 'center',
+    paddingVertical: 16,
+  },
+  loadMoreText: {
+    fontSize: 15,
+    color: '#1976D2',
+    fontWeight: '500',
+  },
+});
+
+export default PaymentHistoryScreen;
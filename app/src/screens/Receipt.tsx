@@ -0,0 +1,383 @@
+/**
+ * ReceiptScreen - Proof-of-payment receipt for a transfer or card payment
+ *
+ * Renders a Receipt built by the receipt service and lets the user share it
+ * as a PDF or as an image of the receipt card.
+ */
+import React, { useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { OrderSummary } from '../components/OrderSummary';
+import { receiptService } from '../services/receipts';
+import { formatMoney } from '../services/currency';
+import type { Receipt } from '../types';
+
+interface ReceiptScreenProps {
+  receipt: Receipt;
+  onBack: () => void;
+}
+
+// Format date with time
+const formatDateTime = (dateStr: string): string => {
+  const date = new Date(dateStr);
+  return date.toLocaleDateString('en-CA', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+};
+
+export const ReceiptScreen: React.FC<ReceiptScreenProps> = ({
+  receipt,
+  onBack,
+}) => {
+  const receiptRef = useRef<View>(null);
+  const [exporting, setExporting] = useState<'pdf' | 'image' | null>(null);
+  const hasFeeBreakdown = receipt.feeAmount !== undefined && receipt.netAmount !== undefined;
+
+  const handleShare = async (format: 'pdf' | 'image') => {
+    setExporting(format);
+    try {
+      if (format === 'pdf') {
+        await receiptService.sharePdf(receipt);
+      } else {
+        await receiptService.shareImage(receiptRef);
+      }
+    } catch (e: any) {
+      console.error('[Receipt] Share failed:', e);
+      Alert.alert('Error', e.message || 'Failed to share receipt');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <Text style={styles.backButtonText}>‹ Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Receipt</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView style={styles.content}>
+        {/* Receipt card - this view is what gets captured for image export */}
+        <View ref={receiptRef} collapsable={false} style={styles.receiptCard}>
+          <Text style={styles.brand}>mwsim receipt</Text>
+          <Text style={[styles.amount, !receipt.isSuccessful && styles.amountFailed]}>
+            {formatMoney(receipt.amount, receipt.currency)}
+          </Text>
+          <View style={[styles.statusBadge, receipt.isSuccessful ? styles.statusBadgeOk : styles.statusBadgeFailed]}>
+            <Text style={[styles.statusText, receipt.isSuccessful ? styles.statusTextOk : styles.statusTextFailed]}>
+              {receipt.statusLabel}
+            </Text>
+          </View>
+
+          <View style={styles.divider} />
+
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>{receipt.counterpartyLabel}</Text>
+            <View style={styles.detailValueColumn}>
+              <Text style={styles.detailValue}>{receipt.counterpartyName}</Text>
+              {receipt.counterpartyDetail && (
+                <Text style={styles.detailSubValue}>{receipt.counterpartyDetail}</Text>
+              )}
+            </View>
+          </View>
+          {receipt.paymentMethod && (
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Payment method</Text>
+              <Text style={styles.detailValue}>{receipt.paymentMethod}</Text>
+            </View>
+          )}
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Date</Text>
+            <Text style={styles.detailValue}>{formatDateTime(receipt.createdAt)}</Text>
+          </View>
+          {receipt.completedAt && (
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Completed</Text>
+              <Text style={styles.detailValue}>{formatDateTime(receipt.completedAt)}</Text>
+            </View>
+          )}
+          {receipt.orderId && (
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Order ID</Text>
+              <Text style={styles.detailValue} selectable>{receipt.orderId}</Text>
+            </View>
+          )}
+          {receipt.description && (
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Description</Text>
+              <Text style={styles.detailValue}>{receipt.description}</Text>
+            </View>
+          )}
+          <View style={[styles.detailRow, styles.detailRowLast]}>
+            <Text style={styles.detailLabel}>Reference</Text>
+            <Text style={styles.referenceValue} selectable>{receipt.receiptId}</Text>
+          </View>
+
+          {/* Gross / fee / net for merchant payments */}
+          {hasFeeBreakdown && (
+            <View style={styles.breakdown}>
+              <Text style={styles.breakdownTitle}>Payment Breakdown</Text>
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Gross amount</Text>
+                <Text style={styles.detailValue}>{formatMoney(receipt.amount, receipt.currency)}</Text>
+              </View>
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Processing fee</Text>
+                <Text style={[styles.detailValue, styles.feeValue]}>
+                  -{formatMoney(receipt.feeAmount!, receipt.currency)}
+                </Text>
+              </View>
+              <View style={[styles.detailRow, styles.detailRowLast]}>
+                <Text style={[styles.detailLabel, styles.netLabel]}>Net amount</Text>
+                <Text style={[styles.detailValue, styles.netValue]}>
+                  {formatMoney(receipt.netAmount!, receipt.currency)}
+                </Text>
+              </View>
+            </View>
+          )}
+
+          {/* Order breakdown for card payments */}
+          {receipt.orderDetails && (
+            <View style={styles.orderSection}>
+              <OrderSummary
+                orderDetails={receipt.orderDetails}
+                currency={receipt.currency}
+                embedded
+              />
+            </View>
+          )}
+        </View>
+
+        {/* Export actions */}
+        <View style={styles.actions}>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.actionButtonPrimary]}
+            onPress={() => handleShare('pdf')}
+            disabled={exporting !== null}
+          >
+            {exporting === 'pdf' ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.actionButtonPrimaryText}>Share PDF</Text>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => handleShare('image')}
+            disabled={exporting !== null}
+          >
+            {exporting === 'image' ? (
+              <ActivityIndicator color="#1976D2" />
+            ) : (
+              <Text style={styles.actionButtonText}>Share Image</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F7FA',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingRight: 16,
+    minWidth: 60,
+  },
+  backButtonText: {
+    fontSize: 17,
+    color: '#1976D2',
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  headerSpacer: {
+    minWidth: 60,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  receiptCard: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+  },
+  brand: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6B7280',
+    textAlign: 'center',
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+  amount: {
+    fontSize: 34,
+    fontWeight: '700',
+    color: '#111827',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  amountFailed: {
+    color: '#9CA3AF',
+    textDecorationLine: 'line-through',
+  },
+  statusBadge: {
+    alignSelf: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 12,
+    marginTop: 8,
+  },
+  statusBadgeOk: {
+    backgroundColor: '#D1FAE5',
+  },
+  statusBadgeFailed: {
+    backgroundColor: '#F3F4F6',
+  },
+  statusText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  statusTextOk: {
+    color: '#047857',
+  },
+  statusTextFailed: {
+    color: '#6B7280',
+  },
+  divider: {
+    height: 1,
+    backgroundColor: '#E5E7EB',
+    marginVertical: 16,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  detailRowLast: {
+    borderBottomWidth: 0,
+  },
+  detailLabel: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  detailValueColumn: {
+    flexShrink: 1,
+    alignItems: 'flex-end',
+    marginLeft: 16,
+  },
+  detailValue: {
+    fontSize: 14,
+    color: '#111827',
+    fontWeight: '500',
+    flexShrink: 1,
+    textAlign: 'right',
+    marginLeft: 16,
+  },
+  detailSubValue: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  referenceValue: {
+    fontSize: 12,
+    color: '#111827',
+    fontFamily: 'monospace',
+    flexShrink: 1,
+    textAlign: 'right',
+    marginLeft: 16,
+  },
+  breakdown: {
+    marginTop: 16,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  breakdownTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+    marginTop: 8,
+  },
+  feeValue: {
+    color: '#DC2626',
+  },
+  netLabel: {
+    fontWeight: '600',
+    color: '#111827',
+  },
+  netValue: {
+    fontWeight: '700',
+    color: '#047857',
+  },
+  orderSection: {
+    marginTop: 16,
+  },
+  actions: {
+    flexDirection: 'row',
+    marginBottom: 40,
+  },
+  actionButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#1976D2',
+    backgroundColor: '#fff',
+    marginLeft: 8,
+  },
+  actionButtonPrimary: {
+    backgroundColor: '#1976D2',
+    marginLeft: 0,
+  },
+  actionButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1976D2',
+  },
+  actionButtonPrimaryText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+});
+
+export default ReceiptScreen;
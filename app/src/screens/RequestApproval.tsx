@@ -0,0 +1,518 @@
+/**
+ * RequestApprovalScreen - Review and respond to an incoming money request
+ *
+ * Opened from the P2P home "Payment Requests" list or from the
+ * `RequestApproval` push notification deep link. Approving requires
+ * biometric authentication, same as sending money.
+ */
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { transferSimApi } from '../services/transferSim';
+import { biometricService } from '../services/biometric';
+import { formatMoney } from '../services/currency';
+import { formatMoneyValue } from '../services/money';
+import { ProfileAvatar } from '../components/ProfileAvatar';
+import type { BankAccount, MoneyRequest, MoneyRequestStatus } from '../types';
+
+interface RequestApprovalScreenProps {
+  requestId: string;
+  accounts: BankAccount[];
+  onBack: () => void;
+  onComplete: () => void;
+}
+
+// Format date for display
+const formatDate = (dateStr: string): string => {
+  const date = new Date(dateStr);
+  return date.toLocaleDateString('en-CA', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+};
+
+// Get status display info
+const getStatusInfo = (status: MoneyRequestStatus): { label: string; color: string; bgColor: string } => {
+  switch (status) {
+    case 'PENDING':
+      return { label: 'Awaiting your response', color: '#B45309', bgColor: '#FEF3C7' };
+    case 'APPROVED':
+      return { label: 'Paid', color: '#047857', bgColor: '#D1FAE5' };
+    case 'DECLINED':
+      return { label: 'Declined', color: '#B91C1C', bgColor: '#FEE2E2' };
+    case 'CANCELLED':
+      return { label: 'Cancelled by requester', color: '#6B7280', bgColor: '#F3F4F6' };
+    case 'EXPIRED':
+      return { label: 'Expired', color: '#6B7280', bgColor: '#F3F4F6' };
+    default:
+      return { label: status, color: '#6B7280', bgColor: '#F3F4F6' };
+  }
+};
+
+export const RequestApprovalScreen: React.FC<RequestApprovalScreenProps> = ({
+  requestId,
+  accounts,
+  onBack,
+  onComplete,
+}) => {
+  const [request, setRequest] = useState<MoneyRequest | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedAccount, setSelectedAccount] = useState<BankAccount | null>(accounts[0] || null);
+  const [actionLoading, setActionLoading] = useState(false);
+
+  const loadRequest = useCallback(async () => {
+    try {
+      setError(null);
+      const result = await transferSimApi.getMoneyRequest(requestId);
+      setRequest(result);
+    } catch (e: any) {
+      console.error('[RequestApproval] Failed to load request:', e);
+      setError(e.response?.data?.message || 'Failed to load request');
+    } finally {
+      setLoading(false);
+    }
+  }, [requestId]);
+
+  useEffect(() => {
+    loadRequest();
+  }, [loadRequest]);
+
+  // Accounts may arrive after the screen mounts (e.g. cold start from a deep link)
+  useEffect(() => {
+    if (!selectedAccount && accounts.length > 0) {
+      setSelectedAccount(accounts[0]);
+    }
+  }, [accounts, selectedAccount]);
+
+  const requesterName = request?.requesterDisplayName || request?.requesterAlias || 'Unknown';
+
+  const handleApprove = async () => {
+    if (!request || !selectedAccount) return;
+
+    const amountFormatted = formatMoneyValue(request.amount);
+    const authResult = await biometricService.authenticateForTransfer(amountFormatted, requesterName);
+    if (!authResult.success) {
+      if (authResult.error !== 'Authentication cancelled') {
+        Alert.alert('Authentication Failed', authResult.error || 'Please try again');
+      }
+      return;
+    }
+
+    setActionLoading(true);
+    try {
+      const result = await transferSimApi.approveMoneyRequest(
+        request.requestId,
+        selectedAccount.accountId,
+        selectedAccount.bsimId
+      );
+      Alert.alert(
+        'Payment Sent',
+        `You paid ${amountFormatted} to ${requesterName}`,
+        [{ text: 'Done', onPress: onComplete }]
+      );
+      setRequest({ ...request, status: result.status, transferId: result.transferId });
+    } catch (e: any) {
+      console.error('[RequestApproval] Approve failed:', e);
+      Alert.alert('Payment Failed', e.response?.data?.message || 'Failed to pay request. Please try again.');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleDecline = () => {
+    if (!request) return;
+
+    Alert.alert(
+      'Decline Request',
+      `Decline ${requesterName}'s request for ${formatMoneyValue(request.amount)}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Decline',
+          style: 'destructive',
+          onPress: async () => {
+            setActionLoading(true);
+            try {
+              await transferSimApi.declineMoneyRequest(request.requestId);
+              onComplete();
+            } catch (e: any) {
+              console.error('[RequestApproval] Decline failed:', e);
+              Alert.alert('Error', e.response?.data?.message || 'Failed to decline request');
+            } finally {
+              setActionLoading(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onBack} style={styles.backButton}>
+            <Text style={styles.backButtonText}>‹ Back</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Payment Request</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color="#1976D2" />
+        </View>
+      </View>
+    );
+  }
+
+  if (error || !request) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onBack} style={styles.backButton}>
+            <Text style={styles.backButtonText}>‹ Back</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Payment Request</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+        <View style={styles.centerContainer}>
+          <Text style={styles.errorText}>{error || 'Request not found'}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={() => { setLoading(true); loadRequest(); }}>
+            <Text style={styles.retryButtonText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  const statusInfo = getStatusInfo(request.status);
+  const isPending = request.status === 'PENDING';
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <Text style={styles.backButtonText}>‹ Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Payment Request</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView style={styles.content}>
+        {/* Requester */}
+        <View style={styles.requesterCard}>
+          <ProfileAvatar
+            imageUrl={request.requesterProfileImageUrl}
+            displayName={requesterName}
+            initialsColor={request.requesterInitialsColor}
+            size="large"
+            variant="user"
+          />
+          <Text style={styles.requesterName}>{requesterName}</Text>
+          {request.requesterBankName && (
+            <Text style={styles.requesterBank}>{request.requesterBankName}</Text>
+          )}
+          <Text style={styles.requestsLabel}>is requesting</Text>
+          <Text style={styles.amount}>{formatMoneyValue(request.amount)}</Text>
+          <View style={[styles.statusBadge, { backgroundColor: statusInfo.bgColor }]}>
+            <Text style={[styles.statusText, { color: statusInfo.color }]}>{statusInfo.label}</Text>
+          </View>
+        </View>
+
+        {/* Details */}
+        <View style={styles.detailsCard}>
+          {request.description && (
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Note</Text>
+              <Text style={styles.detailValue}>{request.description}</Text>
+            </View>
+          )}
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Requested</Text>
+            <Text style={styles.detailValue}>{formatDate(request.createdAt)}</Text>
+          </View>
+          {request.expiresAt && isPending && (
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Expires</Text>
+              <Text style={styles.detailValue}>{formatDate(request.expiresAt)}</Text>
+            </View>
+          )}
+        </View>
+
+        {/* Account Picker */}
+        {isPending && (
+          <View style={styles.section}>
+            <Text style={styles.sectionLabel}>Pay from</Text>
+            {accounts.length === 0 ? (
+              <Text style={styles.emptyText}>No bank accounts available</Text>
+            ) : (
+              accounts.map((account) => {
+                const isSelected = selectedAccount?.accountId === account.accountId;
+                return (
+                  <TouchableOpacity
+                    key={account.accountId}
+                    style={[styles.accountOption, isSelected && styles.accountOptionSelected]}
+                    onPress={() => setSelectedAccount(account)}
+                  >
+                    <View style={{ flex: 1 }}>
+                      <Text style={styles.accountName}>{account.displayName}</Text>
+                      <Text style={styles.accountBank}>{account.bankName}</Text>
+                    </View>
+                    {account.balance !== undefined && (
+                      <Text style={styles.accountBalance}>
+                        {formatMoney(account.balance, account.currency)}
+                      </Text>
+                    )}
+                  </TouchableOpacity>
+                );
+              })
+            )}
+          </View>
+        )}
+      </ScrollView>
+
+      {/* Actions */}
+      {isPending && (
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={[styles.declineButton, actionLoading && styles.buttonDisabled]}
+            onPress={handleDecline}
+            disabled={actionLoading}
+          >
+            <Text style={styles.declineButtonText}>Decline</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.approveButton, (actionLoading || !selectedAccount) && styles.buttonDisabled]}
+            onPress={handleApprove}
+            disabled={actionLoading || !selectedAccount}
+          >
+            {actionLoading ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Text style={styles.approveButtonText}>Pay {formatMoneyValue(request.amount)}</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F7FA',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingRight: 16,
+    minWidth: 60,
+  },
+  backButtonText: {
+    fontSize: 17,
+    color: '#1976D2',
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  headerSpacer: {
+    minWidth: 60,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  errorText: {
+    fontSize: 15,
+    color: '#B91C1C',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  retryButton: {
+    backgroundColor: '#1976D2',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  requesterCard: {
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 24,
+    marginBottom: 16,
+  },
+  requesterName: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#111827',
+    marginTop: 12,
+  },
+  requesterBank: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  requestsLabel: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 16,
+  },
+  amount: {
+    fontSize: 36,
+    fontWeight: '700',
+    color: '#111827',
+    marginTop: 4,
+  },
+  statusBadge: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 12,
+    marginTop: 12,
+  },
+  statusText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  detailsCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    marginBottom: 24,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  detailLabel: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  detailValue: {
+    fontSize: 14,
+    color: '#111827',
+    fontWeight: '500',
+    flexShrink: 1,
+    textAlign: 'right',
+    marginLeft: 16,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  accountOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+  },
+  accountOptionSelected: {
+    borderColor: '#1976D2',
+    borderWidth: 2,
+    backgroundColor: '#E3F2FD',
+  },
+  accountName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  accountBank: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  accountBalance: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  footer: {
+    flexDirection: 'row',
+    padding: 16,
+    paddingBottom: 32,
+    backgroundColor: '#fff',
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  declineButton: {
+    flex: 1,
+    paddingVertical: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#DC2626',
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  declineButtonText: {
+    color: '#DC2626',
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  approveButton: {
+    flex: 2,
+    backgroundColor: '#1976D2',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  approveButtonText: {
+    color: '#fff',
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
+
+export default RequestApprovalScreen;
@@ -0,0 +1,369 @@
+/**
+ * RequestMoneyScreen - Ask another P2P user to pay you
+ *
+ * Uses the same alias lookup as the Send Money screen, then creates a
+ * money request via TransferSim. The payer gets a push notification that
+ * opens the RequestApproval screen on their device.
+ */
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { transferSimApi } from '../services/transferSim';
+import { DEFAULT_CURRENCY, formatMoney, getCurrencySymbol, needsConversion, parseAmount, validateAmount } from '../services/currency';
+import { ProfileAvatar } from '../components/ProfileAvatar';
+import type { AliasLookupResult, MoneyRequest } from '../types';
+
+interface RequestMoneyScreenProps {
+  onBack: () => void;
+  onRequestSent: (request: MoneyRequest) => void;
+  /** Pre-fill the payer alias (e.g. when requesting from a previous transfer) */
+  initialAlias?: string;
+  /** Currency to request in (the receiving account's); defaults to CAD */
+  currency?: string;
+}
+
+export const RequestMoneyScreen: React.FC<RequestMoneyScreenProps> = ({
+  onBack,
+  onRequestSent,
+  initialAlias,
+  currency = DEFAULT_CURRENCY,
+}) => {
+  const [payerAlias, setPayerAlias] = useState(initialAlias || '');
+  const [payerInfo, setPayerInfo] = useState<AliasLookupResult | null>(null);
+  const [amount, setAmount] = useState('');
+  const [note, setNote] = useState('');
+  const [lookingUp, setLookingUp] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const parsedAmount = parseAmount(amount) ?? NaN;
+  const amountError = amount.trim() ? validateAmount(amount, currency) : null;
+  const canSubmit =
+    payerInfo?.found === true && !isNaN(parsedAmount) && parsedAmount > 0 && !amountError && !submitting;
+
+  const handleLookup = async () => {
+    if (!payerAlias.trim()) {
+      Alert.alert('Error', 'Please enter an alias to request from');
+      return;
+    }
+
+    setLookingUp(true);
+    try {
+      const result = await transferSimApi.lookupAlias(payerAlias.trim());
+      setPayerInfo(result);
+      if (!result.found) {
+        Alert.alert('Not Found', 'No user found with that alias. Please check and try again.');
+      }
+    } catch (e: any) {
+      console.error('[RequestMoney] Lookup failed:', e);
+      Alert.alert('Error', 'Failed to look up user');
+    } finally {
+      setLookingUp(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!canSubmit || !payerInfo) return;
+
+    setSubmitting(true);
+    try {
+      const request = await transferSimApi.createMoneyRequest({
+        payerAlias: payerAlias.trim(),
+        payerAliasType: payerInfo.aliasType,
+        amount: parsedAmount,
+        currency,
+        description: note.trim() || undefined,
+      });
+      Alert.alert(
+        'Request Sent',
+        `Requested ${formatMoney(parsedAmount, currency)} from ${payerInfo.displayName || payerAlias.trim()}`,
+        [{ text: 'Done', onPress: () => onRequestSent(request) }]
+      );
+    } catch (e: any) {
+      console.error('[RequestMoney] Create request failed:', e);
+      Alert.alert('Request Failed', e.response?.data?.message || 'Failed to send request. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <Text style={styles.backButtonText}>‹ Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Request Money</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        {/* Payer Input */}
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>Request from</Text>
+          <View style={styles.inputRow}>
+            <TextInput
+              style={[styles.input, { flex: 1, marginRight: 8 }]}
+              placeholder="@username, email, or phone"
+              value={payerAlias}
+              onChangeText={(text) => {
+                setPayerAlias(text);
+                setPayerInfo(null); // Reset lookup when typing
+              }}
+              autoCapitalize="none"
+              autoCorrect={false}
+              onSubmitEditing={handleLookup}
+            />
+            <TouchableOpacity
+              style={[styles.lookupButton, lookingUp && styles.buttonDisabled]}
+              onPress={handleLookup}
+              disabled={lookingUp}
+            >
+              {lookingUp ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.lookupButtonText}>Look up</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+
+          {payerInfo?.found && (
+            <View style={styles.payerCard}>
+              <ProfileAvatar
+                imageUrl={payerInfo.profileImageUrl}
+                displayName={payerInfo.displayName || payerAlias}
+                initialsColor={payerInfo.initialsColor}
+                size="small"
+                variant="user"
+              />
+              <View style={styles.payerInfo}>
+                <Text style={styles.payerName}>{payerInfo.displayName}</Text>
+                {payerInfo.bankName && <Text style={styles.payerBank}>{payerInfo.bankName}</Text>}
+              </View>
+              <Text style={styles.checkmark}>✓</Text>
+            </View>
+          )}
+        </View>
+
+        {/* Amount Input */}
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>Amount</Text>
+          <View style={styles.amountInputContainer}>
+            <Text style={styles.amountCurrency}>{getCurrencySymbol(currency)}</Text>
+            <TextInput
+              style={styles.amountInput}
+              placeholder="0.00"
+              value={amount}
+              onChangeText={setAmount}
+              keyboardType="decimal-pad"
+            />
+            <Text style={styles.amountCurrencyCode}>{currency}</Text>
+          </View>
+          {amountError && <Text style={styles.amountHint}>{amountError}</Text>}
+          {needsConversion(currency, payerInfo?.currency) && (
+            <Text style={styles.amountHint}>
+              {payerInfo?.displayName || 'They'} will pay in {payerInfo?.currency}, converted at the rate when they pay
+            </Text>
+          )}
+        </View>
+
+        {/* Note Input */}
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>Note (optional)</Text>
+          <TextInput
+            style={[styles.input, { height: 80, textAlignVertical: 'top', paddingTop: 12 }]}
+            placeholder="What's this for?"
+            value={note}
+            onChangeText={setNote}
+            multiline
+            maxLength={140}
+          />
+        </View>
+      </ScrollView>
+
+      {/* Footer */}
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.submitButton, !canSubmit && styles.buttonDisabled]}
+          onPress={handleSubmit}
+          disabled={!canSubmit}
+        >
+          {submitting ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <Text style={styles.submitButtonText}>Send Request</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F7FA',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingRight: 16,
+    minWidth: 60,
+  },
+  backButtonText: {
+    fontSize: 17,
+    color: '#1976D2',
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  headerSpacer: {
+    minWidth: 60,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#111827',
+  },
+  lookupButton: {
+    backgroundColor: '#1976D2',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  lookupButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  payerCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+    padding: 12,
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#D1FAE5',
+  },
+  payerInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  payerName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  payerBank: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  checkmark: {
+    fontSize: 18,
+    color: '#10B981',
+    fontWeight: '700',
+  },
+  amountInputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+  },
+  amountCurrency: {
+    fontSize: 28,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  amountInput: {
+    flex: 1,
+    fontSize: 28,
+    fontWeight: '600',
+    color: '#111827',
+    paddingVertical: 12,
+    marginLeft: 4,
+  },
+  amountHint: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 6,
+  },
+  amountCurrencyCode: {
+    fontSize: 16,
+    color: '#6B7280',
+  },
+  footer: {
+    padding: 16,
+    paddingBottom: 32,
+    backgroundColor: '#fff',
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  submitButton: {
+    backgroundColor: '#1976D2',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
+
+export default RequestMoneyScreen;
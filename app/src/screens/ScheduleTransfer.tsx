@@ -0,0 +1,537 @@
+/**
+ * ScheduleTransferScreen - Create or edit a scheduled P2P transfer
+ *
+ * Recipient lookup works the same as the Send Money screen. The schedule is
+ * stored on the device and sent by the scheduled transfer service.
+ */
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { transferSimApi } from '../services/transferSim';
+import { biometricService } from '../services/biometric';
+import { scheduledTransferService } from '../services/scheduledTransfers';
+import { toDateString, isValidDateString } from '../services/dates';
+import {
+  formatMoney,
+  getAccountCurrency,
+  getCurrencyDecimals,
+  needsConversion,
+  parseAmount,
+  validateAmount,
+} from '../services/currency';
+import { FREQUENCY_LABELS } from './ScheduledTransfers';
+import type { AliasLookupResult, BankAccount, ScheduledTransfer, ScheduledTransferFrequency } from '../types';
+
+interface ScheduleTransferScreenProps {
+  accounts: BankAccount[];
+  /** Edit an existing schedule; omit to create a new one */
+  scheduleId?: string | null;
+  onBack: () => void;
+  onSaved: () => void;
+}
+
+const FREQUENCIES: ScheduledTransferFrequency[] = ['ONCE', 'WEEKLY', 'BIWEEKLY', 'MONTHLY'];
+
+// Quick-pick start dates relative to today
+const getDateShortcuts = (): { label: string; value: string }[] => {
+  const today = new Date();
+  const tomorrow = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1);
+  const firstOfNextMonth = new Date(today.getFullYear(), today.getMonth() + 1, 1);
+  return [
+    { label: 'Today', value: toDateString(today) },
+    { label: 'Tomorrow', value: toDateString(tomorrow) },
+    { label: '1st of next month', value: toDateString(firstOfNextMonth) },
+  ];
+};
+
+export const ScheduleTransferScreen: React.FC<ScheduleTransferScreenProps> = ({
+  accounts,
+  scheduleId,
+  onBack,
+  onSaved,
+}) => {
+  const isEditing = !!scheduleId;
+
+  const [recipientAlias, setRecipientAlias] = useState('');
+  const [recipientInfo, setRecipientInfo] = useState<AliasLookupResult | null>(null);
+  const [amount, setAmount] = useState('');
+  const [note, setNote] = useState('');
+  const [frequency, setFrequency] = useState<ScheduledTransferFrequency>('MONTHLY');
+  const [startDate, setStartDate] = useState(toDateString(new Date()));
+  const [saved, setSaved] = useState<ScheduledTransfer | null>(null);
+  const [selectedAccount, setSelectedAccount] = useState<BankAccount | null>(accounts[0] || null);
+  const [loading, setLoading] = useState(isEditing);
+  const [lookingUp, setLookingUp] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // Load existing schedule when editing
+  useEffect(() => {
+    if (!scheduleId) return;
+    (async () => {
+      try {
+        const schedule = await scheduledTransferService.getScheduledTransfer(scheduleId);
+        if (schedule) {
+          setRecipientAlias(schedule.recipientAlias);
+          setRecipientInfo({
+            found: true,
+            displayName: schedule.recipientDisplayName,
+            aliasType: schedule.recipientAliasType,
+          });
+          setAmount(schedule.amount.toFixed(getCurrencyDecimals(schedule.currency)));
+          setNote(schedule.description || '');
+          setFrequency(schedule.frequency);
+          setStartDate(schedule.startDate);
+          setSaved(schedule);
+          setSelectedAccount(accounts.find((a) => a.accountId === schedule.sourceAccountId) || accounts[0] || null);
+        }
+      } catch (e) {
+        console.error('[ScheduleTransfer] Failed to load schedule:', e);
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [scheduleId]);
+
+  const currency = getAccountCurrency(selectedAccount);
+  const parsedAmount = parseAmount(amount) ?? NaN;
+  const amountError = amount.trim() ? validateAmount(amount, currency) : null;
+  const canSave =
+    recipientInfo?.found === true &&
+    !isNaN(parsedAmount) &&
+    parsedAmount > 0 &&
+    !amountError &&
+    !!selectedAccount &&
+    !saving;
+
+  const handleLookup = async () => {
+    if (!recipientAlias.trim()) {
+      Alert.alert('Error', 'Please enter a recipient alias');
+      return;
+    }
+
+    setLookingUp(true);
+    try {
+      const result = await transferSimApi.lookupAlias(recipientAlias.trim());
+      setRecipientInfo(result);
+      if (!result.found) {
+        Alert.alert('Not Found', 'No user found with that alias. Please check and try again.');
+      }
+    } catch (e: any) {
+      console.error('[ScheduleTransfer] Lookup failed:', e);
+      Alert.alert('Error', 'Failed to look up recipient');
+    } finally {
+      setLookingUp(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!canSave || !recipientInfo || !selectedAccount) return;
+
+    if (!isValidDateString(startDate)) {
+      Alert.alert('Invalid Date', 'Please enter the start date as YYYY-MM-DD');
+      return;
+    }
+    // An edited schedule may keep its original (past) start date
+    if (startDate !== saved?.startDate && startDate < toDateString(new Date())) {
+      Alert.alert('Invalid Date', 'The start date cannot be in the past');
+      return;
+    }
+
+    const input = {
+      recipientAlias: recipientAlias.trim(),
+      recipientAliasType: recipientInfo.aliasType,
+      recipientDisplayName: recipientInfo.displayName,
+      amount: parsedAmount,
+      description: note.trim() || undefined,
+      currency,
+      sourceAccountId: selectedAccount.accountId,
+      senderBsimId: selectedAccount.bsimId,
+      frequency,
+      startDate,
+    };
+
+    // Scheduled occurrences are sent without asking again, so authenticate
+    // whenever the schedule is created or what it sends changes
+    const changesPayment =
+      !saved ||
+      saved.amount !== input.amount ||
+      saved.recipientAlias.toLowerCase() !== input.recipientAlias.toLowerCase() ||
+      saved.sourceAccountId !== input.sourceAccountId;
+    if (changesPayment) {
+      const authResult = await biometricService.authenticateForTransfer(
+        formatMoney(input.amount, currency),
+        recipientInfo.displayName || input.recipientAlias
+      );
+      if (!authResult.success) {
+        if (authResult.error !== 'Authentication cancelled') {
+          Alert.alert('Authentication Failed', authResult.error || 'Please try again');
+        }
+        return;
+      }
+    }
+
+    setSaving(true);
+    try {
+      if (scheduleId) {
+        await scheduledTransferService.updateScheduledTransfer(scheduleId, input);
+      } else {
+        await scheduledTransferService.createScheduledTransfer(input);
+      }
+      onSaved();
+    } catch (e: any) {
+      console.error('[ScheduleTransfer] Save failed:', e);
+      Alert.alert('Error', e.message || 'Failed to save scheduled transfer');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centerContainer]}>
+        <ActivityIndicator size="large" color="#1976D2" />
+      </View>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <Text style={styles.backButtonText}>‹ Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>{isEditing ? 'Edit Schedule' : 'Schedule Transfer'}</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        {/* Recipient */}
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>Recipient</Text>
+          <View style={styles.inputRow}>
+            <TextInput
+              style={[styles.input, { flex: 1, marginRight: 8 }]}
+              placeholder="@username, email, or phone"
+              value={recipientAlias}
+              onChangeText={(text) => {
+                setRecipientAlias(text);
+                setRecipientInfo(null); // Reset lookup when typing
+              }}
+              autoCapitalize="none"
+              autoCorrect={false}
+              onSubmitEditing={handleLookup}
+            />
+            <TouchableOpacity
+              style={[styles.lookupButton, lookingUp && styles.buttonDisabled]}
+              onPress={handleLookup}
+              disabled={lookingUp}
+            >
+              {lookingUp ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.lookupButtonText}>Look up</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+          {recipientInfo?.found && (
+            <Text style={styles.recipientFound}>
+              ✓ {recipientInfo.displayName || recipientAlias}
+              {recipientInfo.bankName ? ` · ${recipientInfo.bankName}` : ''}
+            </Text>
+          )}
+        </View>
+
+        {/* Amount */}
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>Amount ({currency})</Text>
+          <TextInput
+            style={styles.input}
+            placeholder={getCurrencyDecimals(currency) === 0 ? '0' : '0.00'}
+            value={amount}
+            onChangeText={setAmount}
+            keyboardType="decimal-pad"
+          />
+          {amountError && <Text style={styles.hintText}>{amountError}</Text>}
+          {needsConversion(currency, recipientInfo?.currency) && (
+            <Text style={styles.hintText}>
+              Converted to {recipientInfo?.currency} at the exchange rate on each send date
+            </Text>
+          )}
+        </View>
+
+        {/* Note */}
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>Note (optional)</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="e.g. Rent"
+            value={note}
+            onChangeText={setNote}
+            maxLength={140}
+          />
+        </View>
+
+        {/* Frequency */}
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>Repeat</Text>
+          <View style={styles.chipRow}>
+            {FREQUENCIES.map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.chip, frequency === option && styles.chipSelected]}
+                onPress={() => setFrequency(option)}
+              >
+                <Text style={[styles.chipText, frequency === option && styles.chipTextSelected]}>
+                  {FREQUENCY_LABELS[option]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        {/* Start Date */}
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>{frequency === 'ONCE' ? 'Send on' : 'Starting'}</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="YYYY-MM-DD"
+            value={startDate}
+            onChangeText={setStartDate}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="numbers-and-punctuation"
+          />
+          <View style={[styles.chipRow, { marginTop: 8 }]}>
+            {getDateShortcuts().map((shortcut) => (
+              <TouchableOpacity
+                key={shortcut.label}
+                style={[styles.chip, startDate === shortcut.value && styles.chipSelected]}
+                onPress={() => setStartDate(shortcut.value)}
+              >
+                <Text style={[styles.chipText, startDate === shortcut.value && styles.chipTextSelected]}>
+                  {shortcut.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {frequency === 'MONTHLY' && isValidDateString(startDate) && Number(startDate.slice(8)) > 28 && (
+            <Text style={styles.hintText}>
+              In shorter months this transfer is sent on the last day of the month.
+            </Text>
+          )}
+        </View>
+
+        {/* Source Account */}
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>From account</Text>
+          {accounts.length === 0 ? (
+            <Text style={styles.hintText}>No bank accounts available</Text>
+          ) : (
+            accounts.map((account) => {
+              const isSelected = selectedAccount?.accountId === account.accountId;
+              return (
+                <TouchableOpacity
+                  key={account.accountId}
+                  style={[styles.accountOption, isSelected && styles.accountOptionSelected]}
+                  onPress={() => setSelectedAccount(account)}
+                >
+                  <Text style={styles.accountName}>{account.displayName}</Text>
+                  <Text style={styles.accountBank}>{account.bankName}</Text>
+                </TouchableOpacity>
+              );
+            })
+          )}
+        </View>
+      </ScrollView>
+
+      {/* Footer */}
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.saveButton, !canSave && styles.buttonDisabled]}
+          onPress={handleSave}
+          disabled={!canSave}
+        >
+          {saving ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <Text style={styles.saveButtonText}>{isEditing ? 'Save Changes' : 'Schedule Transfer'}</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F7FA',
+  },
+  centerContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingRight: 16,
+    minWidth: 60,
+  },
+  backButtonText: {
+    fontSize: 17,
+    color: '#1976D2',
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  headerSpacer: {
+    minWidth: 60,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#111827',
+  },
+  lookupButton: {
+    backgroundColor: '#1976D2',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  lookupButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  recipientFound: {
+    fontSize: 14,
+    color: '#047857',
+    marginTop: 8,
+    fontWeight: '500',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#1976D2',
+    borderColor: '#1976D2',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  hintText: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  accountOption: {
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+  },
+  accountOptionSelected: {
+    borderColor: '#1976D2',
+    borderWidth: 2,
+    backgroundColor: '#E3F2FD',
+  },
+  accountName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  accountBank: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  footer: {
+    padding: 16,
+    paddingBottom: 32,
+    backgroundColor: '#fff',
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  saveButton: {
+    backgroundColor: '#1976D2',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
+
+export default ScheduleTransferScreen;
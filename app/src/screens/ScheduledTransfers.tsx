@@ -0,0 +1,413 @@
+/**
+ * ScheduledTransfersScreen - Manage scheduled and recurring P2P transfers
+ *
+ * Lists upcoming schedules with pause/resume/cancel actions, and past
+ * (completed or cancelled) schedules that can be removed.
+ */
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { scheduledTransferService } from '../services/scheduledTransfers';
+import { parseDateString } from '../services/dates';
+import { formatMoney } from '../services/currency';
+import type { ScheduledTransfer, ScheduledTransferFrequency } from '../types';
+
+interface ScheduledTransfersScreenProps {
+  onBack: () => void;
+  onCreateSchedule: () => void;
+  onEditSchedule: (scheduleId: string) => void;
+  refreshTrigger?: number;
+}
+
+export const FREQUENCY_LABELS: Record<ScheduledTransferFrequency, string> = {
+  ONCE: 'One time',
+  WEEKLY: 'Weekly',
+  BIWEEKLY: 'Every 2 weeks',
+  MONTHLY: 'Monthly',
+};
+
+// Format a YYYY-MM-DD schedule date for display
+const formatRunDate = (dateStr: string): string => {
+  return parseDateString(dateStr).toLocaleDateString('en-CA', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+};
+
+export const ScheduledTransfersScreen: React.FC<ScheduledTransfersScreenProps> = ({
+  onBack,
+  onCreateSchedule,
+  onEditSchedule,
+  refreshTrigger,
+}) => {
+  const [schedules, setSchedules] = useState<ScheduledTransfer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadSchedules = useCallback(async () => {
+    try {
+      const result = await scheduledTransferService.getScheduledTransfers();
+      setSchedules(result);
+    } catch (e) {
+      console.error('[ScheduledTransfers] Failed to load schedules:', e);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSchedules();
+  }, [loadSchedules, refreshTrigger]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    // Pull-to-refresh also sends anything that has fallen due
+    try {
+      await scheduledTransferService.runDueTransfers();
+    } catch (e) {
+      console.error('[ScheduledTransfers] Run due transfers failed:', e);
+    }
+    loadSchedules();
+  };
+
+  const handleTogglePause = async (schedule: ScheduledTransfer) => {
+    try {
+      if (schedule.status === 'PAUSED') {
+        await scheduledTransferService.resumeScheduledTransfer(schedule.scheduleId);
+      } else {
+        await scheduledTransferService.pauseScheduledTransfer(schedule.scheduleId);
+      }
+      loadSchedules();
+    } catch (e: any) {
+      Alert.alert('Error', e.message || 'Failed to update schedule');
+    }
+  };
+
+  const handleCancel = (schedule: ScheduledTransfer) => {
+    Alert.alert(
+      'Cancel Scheduled Transfer',
+      `Stop sending ${formatMoney(schedule.amount, schedule.currency)} to ${schedule.recipientDisplayName || schedule.recipientAlias}? Transfers already sent are not affected.`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        {
+          text: 'Cancel Transfer',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await scheduledTransferService.cancelScheduledTransfer(schedule.scheduleId);
+              loadSchedules();
+            } catch (e: any) {
+              Alert.alert('Error', e.message || 'Failed to cancel schedule');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleRemove = async (schedule: ScheduledTransfer) => {
+    await scheduledTransferService.deleteScheduledTransfer(schedule.scheduleId);
+    loadSchedules();
+  };
+
+  const upcoming = schedules.filter((s) => s.status === 'ACTIVE' || s.status === 'PAUSED');
+  const past = schedules.filter((s) => s.status === 'COMPLETED' || s.status === 'CANCELLED');
+
+  const renderSchedule = (schedule: ScheduledTransfer) => {
+    const isUpcoming = schedule.status === 'ACTIVE' || schedule.status === 'PAUSED';
+    const isPaused = schedule.status === 'PAUSED';
+
+    return (
+      <TouchableOpacity
+        key={schedule.scheduleId}
+        style={[styles.scheduleCard, !isUpcoming && styles.scheduleCardPast]}
+        onPress={() => isUpcoming && onEditSchedule(schedule.scheduleId)}
+        activeOpacity={isUpcoming ? 0.7 : 1}
+      >
+        <View style={styles.scheduleHeader}>
+          <View style={{ flex: 1 }}>
+            <Text style={styles.recipientName}>
+              {schedule.recipientDisplayName || schedule.recipientAlias}
+            </Text>
+            <Text style={styles.scheduleMeta}>
+              {FREQUENCY_LABELS[schedule.frequency]}
+              {schedule.description ? ` · ${schedule.description}` : ''}
+            </Text>
+          </View>
+          <Text style={styles.amount}>{formatMoney(schedule.amount, schedule.currency)}</Text>
+        </View>
+
+        <View style={styles.scheduleStatusRow}>
+          {isUpcoming ? (
+            <Text style={[styles.nextRunText, isPaused && styles.pausedText]}>
+              {isPaused ? 'Paused' : `Next: ${formatRunDate(schedule.nextRunDate)}`}
+            </Text>
+          ) : (
+            <Text style={styles.nextRunText}>
+              {schedule.status === 'COMPLETED' ? 'Completed' : 'Cancelled'}
+              {schedule.occurrenceCount > 0 ? ` · ${schedule.occurrenceCount} sent` : ''}
+            </Text>
+          )}
+        </View>
+
+        {schedule.lastError && isUpcoming && (
+          <Text style={styles.errorText}>Last attempt failed: {schedule.lastError}. Will retry.</Text>
+        )}
+
+        <View style={styles.actionsRow}>
+          {isUpcoming ? (
+            <>
+              <TouchableOpacity style={styles.actionButton} onPress={() => handleTogglePause(schedule)}>
+                <Text style={styles.actionButtonText}>{isPaused ? 'Resume' : 'Pause'}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.actionButton} onPress={() => handleCancel(schedule)}>
+                <Text style={[styles.actionButtonText, styles.destructiveText]}>Cancel</Text>
+              </TouchableOpacity>
+            </>
+          ) : (
+            <TouchableOpacity style={styles.actionButton} onPress={() => handleRemove(schedule)}>
+              <Text style={styles.actionButtonText}>Remove</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <Text style={styles.backButtonText}>‹ Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Scheduled</Text>
+        <TouchableOpacity onPress={onCreateSchedule} style={styles.addButton}>
+          <Text style={styles.addButtonText}>+ New</Text>
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color="#1976D2" />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.content}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+        >
+          {schedules.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyIcon}>🗓️</Text>
+              <Text style={styles.emptyTitle}>No scheduled transfers</Text>
+              <Text style={styles.emptyText}>
+                Schedule rent, allowances, or any payment you send regularly.
+              </Text>
+              <TouchableOpacity style={styles.createButton} onPress={onCreateSchedule}>
+                <Text style={styles.createButtonText}>Schedule a Transfer</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <>
+              {upcoming.length > 0 && (
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle}>Upcoming</Text>
+                  {upcoming.map(renderSchedule)}
+                </View>
+              )}
+              {past.length > 0 && (
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle}>Past</Text>
+                  {past.map(renderSchedule)}
+                </View>
+              )}
+              <Text style={styles.footnote}>
+                Scheduled transfers are sent the next time you open the app on or after the scheduled date. If
+                several were missed, only the latest is sent.
+              </Text>
+            </>
+          )}
+        </ScrollView>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F7FA',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingRight: 16,
+    minWidth: 60,
+  },
+  backButtonText: {
+    fontSize: 17,
+    color: '#1976D2',
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  addButton: {
+    paddingVertical: 8,
+    paddingLeft: 16,
+    minWidth: 60,
+    alignItems: 'flex-end',
+  },
+  addButtonText: {
+    fontSize: 17,
+    color: '#1976D2',
+    fontWeight: '600',
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  section: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6B7280',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+  },
+  scheduleCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  scheduleCardPast: {
+    opacity: 0.7,
+  },
+  scheduleHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  recipientName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  scheduleMeta: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  amount: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#111827',
+    marginLeft: 12,
+  },
+  scheduleStatusRow: {
+    marginTop: 10,
+  },
+  nextRunText: {
+    fontSize: 14,
+    color: '#1976D2',
+    fontWeight: '500',
+  },
+  pausedText: {
+    color: '#B45309',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#DC2626',
+    marginTop: 6,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+    paddingTop: 8,
+  },
+  actionButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  actionButtonText: {
+    fontSize: 15,
+    color: '#1976D2',
+    fontWeight: '500',
+  },
+  destructiveText: {
+    color: '#DC2626',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+    paddingHorizontal: 24,
+  },
+  emptyIcon: {
+    fontSize: 48,
+    marginBottom: 16,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  createButton: {
+    backgroundColor: '#1976D2',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  createButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  footnote: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    textAlign: 'center',
+    marginTop: 8,
+    marginBottom: 32,
+  },
+});
+
+export default ScheduledTransfersScreen;
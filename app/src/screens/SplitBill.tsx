@@ -0,0 +1,780 @@
+/**
+ * SplitBillScreen - Split a bill between several P2P users
+ *
+ * People are added by alias lookup or from the nearby users panel. The bill
+ * is split evenly, by shares or by item, and the split is then settled with
+ * money requests or by sending everyone their share. The total can be
+ * pre-filled from a merchant QR payment.
+ */
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { v4 as uuidv4 } from 'uuid';
+import { transferSimApi } from '../services/transferSim';
+import { biometricService } from '../services/biometric';
+import {
+  billSplitService,
+  calculateBillShares,
+  validateBillSplit,
+  BILL_SPLIT_ORGANIZER_ID,
+  type BillSplitInput,
+  type BillSplitParticipantInput,
+} from '../services/billSplits';
+import { formatMoney, getAccountCurrency, getCurrencySymbol, parseAmount, validateAmount } from '../services/currency';
+import { formatMoneyValue, money, sumMoney, toAmountString } from '../services/money';
+import { ProfileAvatar } from '../components/ProfileAvatar';
+import { NearbyUsersPanel } from '../components/NearbyUsersPanel';
+import type { NearbyUser } from '../services/bleDiscovery';
+import type { BankAccount, BillSplit, BillSplitMethod, BillSplitSettleMode } from '../types';
+
+interface SplitBillScreenProps {
+  accounts: BankAccount[];
+  /** Pre-fill the bill from a merchant QR payment */
+  initialTotal?: number;
+  initialDescription?: string;
+  merchantName?: string;
+  onBack: () => void;
+  onCreated: (split: BillSplit) => void;
+}
+
+interface ItemDraft {
+  itemId: string;
+  name: string;
+  price: string;
+  participantIds: string[];
+}
+
+export const SPLIT_METHOD_LABELS: Record<BillSplitMethod, string> = {
+  EVEN: 'Evenly',
+  SHARES: 'By shares',
+  ITEMS: 'By item',
+};
+
+export const SplitBillScreen: React.FC<SplitBillScreenProps> = ({
+  accounts,
+  initialTotal,
+  initialDescription,
+  merchantName,
+  onBack,
+  onCreated,
+}) => {
+  const sourceAccount = accounts[0] || null;
+  // Shares are requested and sent in the organizer's account currency
+  const currency = getAccountCurrency(sourceAccount);
+
+  const [total, setTotal] = useState(initialTotal ? toAmountString(money(initialTotal, currency)) : '');
+  const [description, setDescription] = useState(initialDescription || '');
+  const [participants, setParticipants] = useState<BillSplitParticipantInput[]>([]);
+  const [alias, setAlias] = useState('');
+  const [showNearby, setShowNearby] = useState(false);
+  const [method, setMethod] = useState<BillSplitMethod>('EVEN');
+  const [includeMe, setIncludeMe] = useState(true);
+  const [myShares, setMyShares] = useState(1);
+  const [items, setItems] = useState<ItemDraft[]>([]);
+  const [settleMode, setSettleMode] = useState<BillSplitSettleMode>('REQUEST');
+  const [lookingUp, setLookingUp] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const totalError = total.trim() ? validateAmount(total, currency) : null;
+  const input: BillSplitInput = {
+    description,
+    total: parseAmount(total) ?? 0,
+    currency,
+    method,
+    settleMode,
+    includeOrganizer: includeMe,
+    organizerShares: myShares,
+    participants,
+    items: items.map((item) => ({
+      itemId: item.itemId,
+      name: item.name,
+      amount: parseAmount(item.price) ?? 0,
+      participantIds: item.participantIds,
+    })),
+    merchantName,
+    sourceAccountId: sourceAccount?.accountId,
+    senderBsimId: sourceAccount?.bsimId,
+  };
+  const splitError = total.trim() && !totalError ? validateBillSplit(input) : null;
+  const shares = total.trim() && !totalError && !splitError ? calculateBillShares(input) : null;
+  const canSubmit = !!shares && !submitting && (settleMode === 'REQUEST' || !!sourceAccount);
+
+  // Everyone who can be assigned an item or a share
+  const people = [
+    ...(includeMe ? [{ participantId: BILL_SPLIT_ORGANIZER_ID, label: 'Me' }] : []),
+    ...participants.map((p) => ({ participantId: p.participantId, label: p.displayName || p.alias })),
+  ];
+
+  const addParticipant = (participant: Omit<BillSplitParticipantInput, 'participantId'>) => {
+    const normalized = participant.alias.trim().toLowerCase();
+    if (participants.some((p) => p.alias.toLowerCase() === normalized)) {
+      Alert.alert('Already Added', `${participant.displayName || participant.alias} is already in this split`);
+      return;
+    }
+    setParticipants((prev) => [...prev, { ...participant, participantId: uuidv4(), shares: 1 }]);
+  };
+
+  const removeParticipant = (participantId: string) => {
+    setParticipants((prev) => prev.filter((p) => p.participantId !== participantId));
+    setItems((prev) =>
+      prev.map((item) => ({ ...item, participantIds: item.participantIds.filter((id) => id !== participantId) }))
+    );
+  };
+
+  const toggleIncludeMe = () => {
+    if (includeMe) {
+      // My items go back to whoever else shared them
+      setItems((prev) =>
+        prev.map((item) => ({ ...item, participantIds: item.participantIds.filter((id) => id !== BILL_SPLIT_ORGANIZER_ID) }))
+      );
+    }
+    setIncludeMe(!includeMe);
+  };
+
+  const handleLookup = async () => {
+    if (!alias.trim()) {
+      Alert.alert('Error', 'Please enter an alias to add');
+      return;
+    }
+
+    setLookingUp(true);
+    try {
+      const result = await transferSimApi.lookupAlias(alias.trim());
+      if (!result.found) {
+        Alert.alert('Not Found', 'No user found with that alias. Please check and try again.');
+        return;
+      }
+      addParticipant({
+        alias: alias.trim(),
+        aliasType: result.aliasType,
+        displayName: result.displayName,
+        profileImageUrl: result.profileImageUrl,
+        initialsColor: result.initialsColor,
+      });
+      setAlias('');
+    } catch (e: any) {
+      console.error('[SplitBill] Lookup failed:', e);
+      Alert.alert('Error', 'Failed to look up user');
+    } finally {
+      setLookingUp(false);
+    }
+  };
+
+  const handleSelectNearby = (user: NearbyUser) => {
+    if (user.isMerchant || !user.recipientAlias) {
+      Alert.alert('Not Available', 'Only people can be added to a split, not merchants.');
+      return;
+    }
+    addParticipant({
+      alias: user.recipientAlias,
+      aliasType: user.aliasType,
+      displayName: user.displayName,
+      profileImageUrl: user.profileImageUrl,
+      initialsColor: user.initialsColor,
+    });
+  };
+
+  const changeShares = (participantId: string, delta: number) => {
+    if (participantId === BILL_SPLIT_ORGANIZER_ID) {
+      setMyShares((prev) => Math.max(1, prev + delta));
+      return;
+    }
+    setParticipants((prev) =>
+      prev.map((p) => (p.participantId === participantId ? { ...p, shares: Math.max(1, (p.shares ?? 1) + delta) } : p))
+    );
+  };
+
+  const updateItem = (itemId: string, changes: Partial<ItemDraft>) => {
+    setItems((prev) => prev.map((item) => (item.itemId === itemId ? { ...item, ...changes } : item)));
+  };
+
+  const toggleItemPerson = (item: ItemDraft, participantId: string) => {
+    const participantIds = item.participantIds.includes(participantId)
+      ? item.participantIds.filter((id) => id !== participantId)
+      : [...item.participantIds, participantId];
+    updateItem(item.itemId, { participantIds });
+  };
+
+  const handleSubmit = async () => {
+    if (!canSubmit || !shares) return;
+
+    const othersTotal = sumMoney(participants.map((p) => money(shares[p.participantId], currency)), currency);
+    if (settleMode === 'SEND') {
+      const authResult = await biometricService.authenticateForTransfer(
+        formatMoneyValue(othersTotal),
+        `${participants.length} ${participants.length === 1 ? 'person' : 'people'}`
+      );
+      if (!authResult.success) {
+        if (authResult.error !== 'Authentication cancelled') {
+          Alert.alert('Authentication Failed', authResult.error || 'Please try again');
+        }
+        return;
+      }
+    }
+
+    setSubmitting(true);
+    try {
+      const created = await billSplitService.createBillSplit(input);
+      const split = settleMode === 'SEND'
+        ? await billSplitService.sendShares(created.splitId)
+        : await billSplitService.issueRequests(created.splitId);
+
+      const failed = split.participants.filter((p) => p.status === 'FAILED');
+      if (failed.length > 0) {
+        Alert.alert(
+          settleMode === 'SEND' ? 'Some Transfers Failed' : 'Some Requests Failed',
+          `${failed.map((p) => p.displayName || p.alias).join(', ')} couldn't be reached. You can retry from the split.`,
+          [{ text: 'OK', onPress: () => onCreated(split) }]
+        );
+      } else {
+        onCreated(split);
+      }
+    } catch (e: any) {
+      console.error('[SplitBill] Create split failed:', e);
+      Alert.alert('Split Failed', e.response?.data?.message || e.message || 'Failed to split the bill. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <Text style={styles.backButtonText}>‹ Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Split a Bill</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        {/* Total */}
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>Bill total</Text>
+          <View style={styles.amountInputContainer}>
+            <Text style={styles.amountCurrency}>{getCurrencySymbol(currency)}</Text>
+            <TextInput
+              style={styles.amountInput}
+              placeholder="0.00"
+              value={total}
+              onChangeText={setTotal}
+              keyboardType="decimal-pad"
+            />
+            <Text style={styles.amountCurrencyCode}>{currency}</Text>
+          </View>
+          {totalError && <Text style={styles.hintText}>{totalError}</Text>}
+          {merchantName && <Text style={styles.hintText}>Paid to {merchantName}</Text>}
+          <TextInput
+            style={[styles.input, { marginTop: 12 }]}
+            placeholder="What's it for? (e.g. Friday dinner)"
+            value={description}
+            onChangeText={setDescription}
+            maxLength={140}
+          />
+        </View>
+
+        {/* Participants */}
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>Split with</Text>
+          <View style={styles.inputRow}>
+            <TextInput
+              style={[styles.input, { flex: 1, marginRight: 8 }]}
+              placeholder="@username, email, or phone"
+              value={alias}
+              onChangeText={setAlias}
+              autoCapitalize="none"
+              autoCorrect={false}
+              onSubmitEditing={handleLookup}
+            />
+            <TouchableOpacity
+              style={[styles.lookupButton, lookingUp && styles.buttonDisabled]}
+              onPress={handleLookup}
+              disabled={lookingUp}
+            >
+              {lookingUp ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.lookupButtonText}>Add</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+          <TouchableOpacity onPress={() => setShowNearby((prev) => !prev)}>
+            <Text style={styles.linkText}>{showNearby ? 'Hide nearby people' : 'Add someone nearby'}</Text>
+          </TouchableOpacity>
+          {showNearby && (
+            <View style={styles.nearbyPanel}>
+              <NearbyUsersPanel isActive={showNearby} onSelectUser={handleSelectNearby} />
+            </View>
+          )}
+
+          <TouchableOpacity
+            style={[styles.chip, includeMe && styles.chipSelected, { alignSelf: 'flex-start', marginTop: 12 }]}
+            onPress={toggleIncludeMe}
+          >
+            <Text style={[styles.chipText, includeMe && styles.chipTextSelected]}>
+              {includeMe ? '✓ Include my share' : 'Include my share'}
+            </Text>
+          </TouchableOpacity>
+
+          {people.map((person) => {
+            const participant = participants.find((p) => p.participantId === person.participantId);
+            const personShares = participant ? participant.shares ?? 1 : myShares;
+            return (
+              <View key={person.participantId} style={styles.personCard}>
+                {participant ? (
+                  <ProfileAvatar
+                    imageUrl={participant.profileImageUrl}
+                    displayName={person.label}
+                    initialsColor={participant.initialsColor}
+                    size="small"
+                    variant="user"
+                  />
+                ) : (
+                  <View style={styles.meBadge}>
+                    <Text style={styles.meBadgeText}>Me</Text>
+                  </View>
+                )}
+                <View style={styles.personInfo}>
+                  <Text style={styles.personName}>{person.label}</Text>
+                  {participant && participant.displayName && (
+                    <Text style={styles.personAlias}>{participant.alias}</Text>
+                  )}
+                </View>
+                {method === 'SHARES' && (
+                  <View style={styles.stepper}>
+                    <TouchableOpacity onPress={() => changeShares(person.participantId, -1)} style={styles.stepperButton}>
+                      <Text style={styles.stepperButtonText}>−</Text>
+                    </TouchableOpacity>
+                    <Text style={styles.stepperValue}>{personShares}</Text>
+                    <TouchableOpacity onPress={() => changeShares(person.participantId, 1)} style={styles.stepperButton}>
+                      <Text style={styles.stepperButtonText}>+</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+                {shares && shares[person.participantId] !== undefined && (
+                  <Text style={styles.personAmount}>{formatMoney(shares[person.participantId], currency)}</Text>
+                )}
+                {participant && (
+                  <TouchableOpacity onPress={() => removeParticipant(person.participantId)} style={styles.removeButton}>
+                    <Text style={styles.removeButtonText}>×</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            );
+          })}
+        </View>
+
+        {/* Split Method */}
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>Split</Text>
+          <View style={styles.chipRow}>
+            {(Object.keys(SPLIT_METHOD_LABELS) as BillSplitMethod[]).map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.chip, method === option && styles.chipSelected]}
+                onPress={() => setMethod(option)}
+              >
+                <Text style={[styles.chipText, method === option && styles.chipTextSelected]}>
+                  {SPLIT_METHOD_LABELS[option]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {method === 'SHARES' && (
+            <Text style={styles.hintText}>Give someone 2 shares if they're paying for two.</Text>
+          )}
+        </View>
+
+        {/* Items */}
+        {method === 'ITEMS' && (
+          <View style={styles.section}>
+            <Text style={styles.sectionLabel}>Items</Text>
+            {items.map((item) => (
+              <View key={item.itemId} style={styles.itemCard}>
+                <View style={styles.inputRow}>
+                  <TextInput
+                    style={[styles.input, { flex: 1, marginRight: 8 }]}
+                    placeholder="Item"
+                    value={item.name}
+                    onChangeText={(name) => updateItem(item.itemId, { name })}
+                  />
+                  <TextInput
+                    style={[styles.input, styles.itemPriceInput]}
+                    placeholder="0.00"
+                    value={item.price}
+                    onChangeText={(price) => updateItem(item.itemId, { price })}
+                    keyboardType="decimal-pad"
+                  />
+                  <TouchableOpacity
+                    onPress={() => setItems((prev) => prev.filter((i) => i.itemId !== item.itemId))}
+                    style={styles.removeButton}
+                  >
+                    <Text style={styles.removeButtonText}>×</Text>
+                  </TouchableOpacity>
+                </View>
+                <View style={[styles.chipRow, { marginTop: 8 }]}>
+                  {people.map((person) => {
+                    const selected = item.participantIds.includes(person.participantId);
+                    return (
+                      <TouchableOpacity
+                        key={person.participantId}
+                        style={[styles.chip, selected && styles.chipSelected]}
+                        onPress={() => toggleItemPerson(item, person.participantId)}
+                      >
+                        <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{person.label}</Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+            ))}
+            <TouchableOpacity
+              style={styles.addItemButton}
+              onPress={() => setItems((prev) => [...prev, { itemId: uuidv4(), name: '', price: '', participantIds: [] }])}
+            >
+              <Text style={styles.addItemButtonText}>+ Add item</Text>
+            </TouchableOpacity>
+            <Text style={styles.hintText}>Tax and tip are shared in proportion to each person's items.</Text>
+          </View>
+        )}
+
+        {/* Settle Mode */}
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>Settle up</Text>
+          <View style={styles.chipRow}>
+            <TouchableOpacity
+              style={[styles.chip, settleMode === 'REQUEST' && styles.chipSelected]}
+              onPress={() => setSettleMode('REQUEST')}
+            >
+              <Text style={[styles.chipText, settleMode === 'REQUEST' && styles.chipTextSelected]}>
+                Request from everyone
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.chip, settleMode === 'SEND' && styles.chipSelected]}
+              onPress={() => setSettleMode('SEND')}
+            >
+              <Text style={[styles.chipText, settleMode === 'SEND' && styles.chipTextSelected]}>
+                Send everyone their share
+              </Text>
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.hintText}>
+            {settleMode === 'REQUEST'
+              ? 'You paid the bill. Everyone gets a money request for their share.'
+              : sourceAccount
+                ? `Each share is sent from ${sourceAccount.displayName || sourceAccount.accountType}.`
+                : 'Link a bank account to send shares.'}
+          </Text>
+        </View>
+
+        {splitError && <Text style={styles.errorText}>{splitError}</Text>}
+      </ScrollView>
+
+      {/* Footer */}
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.submitButton, !canSubmit && styles.buttonDisabled]}
+          onPress={handleSubmit}
+          disabled={!canSubmit}
+        >
+          {submitting ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <Text style={styles.submitButtonText}>
+              {settleMode === 'REQUEST' ? 'Send Requests' : 'Send Shares'}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F7FA',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingRight: 16,
+    minWidth: 60,
+  },
+  backButtonText: {
+    fontSize: 17,
+    color: '#1976D2',
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  headerSpacer: {
+    minWidth: 60,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#111827',
+  },
+  lookupButton: {
+    backgroundColor: '#1976D2',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  lookupButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  linkText: {
+    fontSize: 14,
+    color: '#1976D2',
+    fontWeight: '500',
+    marginTop: 10,
+  },
+  nearbyPanel: {
+    height: 280,
+    marginTop: 8,
+    borderRadius: 12,
+    overflow: 'hidden',
+    backgroundColor: '#fff',
+  },
+  personCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+    padding: 12,
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  meBadge: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#E3F2FD',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  meBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#1976D2',
+  },
+  personInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  personName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  personAlias: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  personAmount: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+    marginLeft: 8,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  stepperButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: '#F3F4F6',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  stepperValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+    minWidth: 24,
+    textAlign: 'center',
+  },
+  removeButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    marginLeft: 4,
+  },
+  removeButtonText: {
+    fontSize: 20,
+    color: '#9CA3AF',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#1976D2',
+    borderColor: '#1976D2',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  itemCard: {
+    padding: 12,
+    marginBottom: 8,
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  itemPriceInput: {
+    width: 96,
+    textAlign: 'right',
+  },
+  addItemButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#1976D2',
+  },
+  addItemButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1976D2',
+  },
+  amountInputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+  },
+  amountCurrency: {
+    fontSize: 28,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  amountInput: {
+    flex: 1,
+    fontSize: 28,
+    fontWeight: '600',
+    color: '#111827',
+    paddingVertical: 12,
+    marginLeft: 4,
+  },
+  amountCurrencyCode: {
+    fontSize: 16,
+    color: '#6B7280',
+  },
+  hintText: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 6,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#DC2626',
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  footer: {
+    padding: 16,
+    paddingBottom: 32,
+    backgroundColor: '#fff',
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  submitButton: {
+    backgroundColor: '#1976D2',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
+
+export default SplitBillScreen;
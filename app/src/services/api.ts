@@ -1,6 +1,7 @@
 import axios, { AxiosInstance, AxiosError } from 'axios';
 import { getConfig, getEnvironmentName } from '../config/env';
 import { secureStorage } from './secureStorage';
+import { parseMoneyValue } from './money';
 import type {
   User,
   Card,
@@ -11,9 +12,17 @@ import type {
   BiometricSetup,
   PaymentRequest,
   PendingPayment,
+  PaymentHistoryItem,
   Contract,
   ContractListItem,
+  ContractParty,
   CreateContractRequest,
+  CounterOfferRequest,
+  ContractDispute,
+  DisputeContractRequest,
+  DisputeEvidence,
+  DisputeEvidenceInput,
+  DisputeHistoryEvent,
   OracleEvent,
 } from '../types';
 
@@ -82,6 +91,64 @@ declare module 'axios' {
   }
 }
 
+// ==================
+// Amount Sanitizers
+// ==================
+
+/**
+ * ContractSim sends amounts as decimal numbers or strings; parse them exactly
+ * so pots, stakes and payouts are always Money in the contract's currency
+ */
+function sanitizeContractListItem(raw: ContractListItem): ContractListItem {
+  return { ...raw, totalPot: parseMoneyValue(raw.totalPot, raw.currency) };
+}
+
+function sanitizeParty(party: ContractParty, currency: string): ContractParty {
+  // Stakes arrive as { amount, currency }
+  const stake = party.stake as unknown as { amount?: unknown; currency?: string } | undefined;
+  return { ...party, stake: parseMoneyValue(stake?.amount, stake?.currency || currency) };
+}
+
+function sanitizeContract(raw: Contract): Contract {
+  const parties = (raw.parties || []).map((party) => sanitizeParty(party, raw.currency));
+  const outcome = raw.outcome
+    ? {
+        ...raw.outcome,
+        settledAmount: raw.outcome.settledAmount != null
+          ? parseMoneyValue(raw.outcome.settledAmount, raw.currency)
+          : undefined,
+        payouts: raw.outcome.payouts?.map((payout) => ({
+          ...payout,
+          amount: parseMoneyValue(payout.amount, raw.currency),
+        })),
+      }
+    : raw.outcome;
+  const milestones = raw.milestones
+    ?.map((milestone) => ({ ...milestone, amount: parseMoneyValue(milestone.amount, raw.currency) }))
+    .sort((a, b) => a.index - b.index);
+  const offers = raw.offers
+    ?.map((offer) => ({
+      ...offer,
+      terms: {
+        ...offer.terms,
+        creatorStake: parseMoneyValue(offer.terms.creatorStake, raw.currency),
+        counterpartyStake: parseMoneyValue(offer.terms.counterpartyStake, raw.currency),
+      },
+    }))
+    .sort((a, b) => a.revision - b.revision);
+  return {
+    ...raw,
+    parties,
+    totalPot: parseMoneyValue(raw.totalPot, raw.currency),
+    outcome,
+    milestones,
+    offers,
+    counterparty: raw.counterparty
+      ? parties.find((party) => party.id === raw.counterparty?.id) || sanitizeParty(raw.counterparty, raw.currency)
+      : undefined,
+  };
+}
+
 export const api = {
   // ==================
   // Auth Endpoints
@@ -364,6 +431,21 @@ export const api = {
     return data;
   },
 
+  /**
+   * Get the user's card payment history (most recent first).
+   * Includes approved, completed, cancelled and expired requests.
+   */
+  async getPaymentHistory(
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<{ payments: PaymentHistoryItem[]; total: number }> {
+    const { data } = await apiClient.get('/mobile/payment/history', { params: { limit, offset } });
+    return {
+      payments: data.payments || [],
+      total: data.total || 0,
+    };
+  },
+
   // ==================
   // P2P Account Endpoints (via WSIM Proxy to BSIM Open Banking)
   // ==================
@@ -594,7 +676,7 @@ export const api = {
       });
     }
     return {
-      contracts: data.contracts || [],
+      contracts: (data.contracts || []).map(sanitizeContractListItem),
       total: data.total || 0,
     };
   },
@@ -615,7 +697,7 @@ export const api = {
         console.log(`[API] Contract party ${p.displayName} - profileImageUrl:`, p.profileImageUrl || 'NOT SET');
       });
     }
-    return data;
+    return sanitizeContract(data);
   },
 
   /**
@@ -628,26 +710,29 @@ export const api = {
     console.log('[API] createContract - creating:', request);
     const { data } = await apiClient.post('/mobile/contracts', request);
     console.log('[API] createContract - created:', data.id);
-    return data;
+    return sanitizeContract(data);
   },
 
   /**
    * Accept a contract invitation
-   * Called by counterparty to accept proposed contract
+   * Called by counterparty to accept proposed contract. Pool participants
+   * make their own prediction when they accept.
    *
    * @param contractId The contract ID to accept
+   * @param prediction Pools only: the participant's prediction
    */
-  async acceptContract(contractId: string): Promise<Contract> {
+  async acceptContract(contractId: string, prediction?: string): Promise<Contract> {
+    const body = prediction !== undefined ? { consent: true, prediction } : { consent: true };
     console.log('[API] acceptContract - START');
     console.log('[API] acceptContract - contractId:', contractId);
     console.log('[API] acceptContract - endpoint:', `/mobile/contracts/${contractId}/accept`);
-    console.log('[API] acceptContract - body:', JSON.stringify({ consent: true }));
+    console.log('[API] acceptContract - body:', JSON.stringify(body));
 
     try {
-      const { data } = await apiClient.post(`/mobile/contracts/${contractId}/accept`, { consent: true });
+      const { data } = await apiClient.post(`/mobile/contracts/${contractId}/accept`, body);
       console.log('[API] acceptContract - SUCCESS');
       console.log('[API] acceptContract - response:', JSON.stringify(data, null, 2));
-      return data;
+      return sanitizeContract(data);
     } catch (error: any) {
       console.log('[API] acceptContract - ERROR');
       console.log('[API] acceptContract - error message:', error.message);
@@ -670,6 +755,36 @@ export const api = {
     return data;
   },
 
+  /**
+   * Counter a proposed contract with different terms
+   * Adds a revision to the negotiation thread and supersedes any pending one.
+   * The other side then accepts it with acceptOffer or counters again.
+   *
+   * @param contractId The proposed contract ID
+   * @param request Only the terms being changed, and an optional message
+   */
+  async counterOffer(contractId: string, request: CounterOfferRequest): Promise<Contract> {
+    console.log('[API] counterOffer - contract:', contractId, 'changes:', Object.keys(request).join(', '));
+    const { data } = await apiClient.post(`/mobile/contracts/${contractId}/counter`, request);
+    console.log('[API] counterOffer - revision:', data.offers?.length);
+    return sanitizeContract(data);
+  },
+
+  /**
+   * Accept the latest counter-offer
+   * The contract takes on the offer's terms and moves to funding, the same
+   * as accepting the original proposal.
+   *
+   * @param contractId The proposed contract ID
+   * @param offerId The pending offer being accepted (guards against accepting stale terms)
+   */
+  async acceptOffer(contractId: string, offerId: string): Promise<Contract> {
+    console.log('[API] acceptOffer - contract:', contractId, 'offer:', offerId);
+    const { data } = await apiClient.post(`/mobile/contracts/${contractId}/offers/${offerId}/accept`, { consent: true });
+    console.log('[API] acceptOffer - accepted, status:', data.status);
+    return sanitizeContract(data);
+  },
+
   /**
    * Fund a contract
    * Creates escrow hold on user's account for their stake
@@ -720,6 +835,133 @@ export const api = {
     return data;
   },
 
+  /**
+   * Mark an escrow or milestone contract's milestone as delivered
+   * Called by the payee; escrow milestones start their auto-release window.
+   *
+   * @param contractId The contract ID
+   * @param milestoneId The milestone delivered
+   * @param note Optional message for the payer (what was delivered, where to find it)
+   */
+  async deliverMilestone(contractId: string, milestoneId: string, note?: string): Promise<Contract> {
+    console.log('[API] deliverMilestone -', contractId, milestoneId);
+    const { data } = await apiClient.post(`/mobile/contracts/${contractId}/milestones/${milestoneId}/deliver`, {
+      note: note || undefined,
+    });
+    return sanitizeContract(data);
+  },
+
+  /**
+   * Release a delivered milestone's funds to the payee
+   * Called by the payer
+   *
+   * @param contractId The contract ID
+   * @param milestoneId The milestone to pay out
+   * @param idempotencyKey Stable per milestone (see getReleaseIdempotencyKey) to prevent duplicate releases
+   */
+  async releaseMilestone(contractId: string, milestoneId: string, idempotencyKey: string): Promise<Contract> {
+    console.log('[API] releaseMilestone -', contractId, milestoneId);
+    const { data } = await apiClient.post(
+      `/mobile/contracts/${contractId}/milestones/${milestoneId}/release`,
+      {},
+      { headers: { 'Idempotency-Key': idempotencyKey } }
+    );
+    return sanitizeContract(data);
+  },
+
+  /**
+   * Reject a delivered milestone and send it back to the payee
+   * Called by the payer; the funds stay in escrow until it's delivered again.
+   *
+   * @param contractId The contract ID
+   * @param milestoneId The milestone to reject
+   * @param reason What needs to change
+   */
+  async rejectMilestone(contractId: string, milestoneId: string, reason: string): Promise<Contract> {
+    console.log('[API] rejectMilestone -', contractId, milestoneId);
+    const { data } = await apiClient.post(`/mobile/contracts/${contractId}/milestones/${milestoneId}/reject`, {
+      reason,
+    });
+    return sanitizeContract(data);
+  },
+
+  /**
+   * Dispute a contract's outcome
+   * Either party can dispute while the contract is settling; settlement is
+   * held until ContractSim resolves the dispute.
+   *
+   * @param contractId The contract ID to dispute
+   * @param request Reason, with optional details and a supporting link
+   */
+  async disputeContract(contractId: string, request: DisputeContractRequest): Promise<Contract> {
+    console.log('[API] disputeContract - disputing:', contractId);
+    const { data } = await apiClient.post(`/mobile/contracts/${contractId}/dispute`, request);
+    console.log('[API] disputeContract - disputed');
+    return sanitizeContract(data);
+  },
+
+  /**
+   * Add evidence to a contract dispute
+   * Statements and links are sent as JSON; photos are uploaded as multipart
+   * form data, the same way as uploadProfileImage.
+   *
+   * @param contractId The disputed contract ID
+   * @param evidence Text, a URL, or a local photo URI
+   */
+  async addDisputeEvidence(contractId: string, evidence: DisputeEvidenceInput): Promise<DisputeEvidence> {
+    console.log('[API] addDisputeEvidence - type:', evidence.type, 'contract:', contractId);
+    const endpoint = `/mobile/contracts/${contractId}/dispute/evidence`;
+
+    if (evidence.type !== 'photo') {
+      const { data } = await apiClient.post(endpoint, evidence);
+      console.log('[API] addDisputeEvidence - added:', data.id);
+      return data;
+    }
+
+    const formData = new FormData();
+    const filename = evidence.imageUri.split('/').pop() || 'evidence.jpg';
+    const match = /\.(\w+)$/.exec(filename);
+    const type = match ? `image/${match[1].toLowerCase()}` : 'image/jpeg';
+
+    formData.append('image', {
+      uri: evidence.imageUri,
+      name: filename,
+      type,
+    } as any);
+    formData.append('type', 'photo');
+    if (evidence.description) {
+      formData.append('description', evidence.description);
+    }
+
+    try {
+      const { data } = await apiClient.post(endpoint, formData, {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+        },
+      });
+      console.log('[API] addDisputeEvidence - photo uploaded:', data.id);
+      return data;
+    } catch (error: any) {
+      console.error('[API] addDisputeEvidence - upload failed:', error.response?.status, error.response?.data);
+      throw error;
+    }
+  },
+
+  /**
+   * Get a contract's dispute and everything submitted to it, oldest first
+   *
+   * @param contractId The disputed contract ID
+   */
+  async getDisputeHistory(contractId: string): Promise<{ dispute: ContractDispute; events: DisputeHistoryEvent[] }> {
+    console.log('[API] getDisputeHistory - fetching:', contractId);
+    const { data } = await apiClient.get(`/mobile/contracts/${contractId}/dispute/history`);
+    const events: DisputeHistoryEvent[] = [...(data.events || [])].sort(
+      (a: DisputeHistoryEvent, b: DisputeHistoryEvent) => a.createdAt.localeCompare(b.createdAt)
+    );
+    console.log('[API] getDisputeHistory - received:', events.length, 'events');
+    return { dispute: data.dispute, events };
+  },
+
   /**
    * Get available oracle events
    * Returns upcoming events user can create contracts for
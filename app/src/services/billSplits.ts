@@ -0,0 +1,509 @@
+/**
+ * Bill Splits Service
+ *
+ * Divides a bill between several P2P aliases and tracks who has paid.
+ * Splits are stored on the device. Each participant's share is settled
+ * either with a money request (the organizer paid the bill) or with a
+ * transfer from the organizer, and the tracker follows each one through
+ * TransferSim.
+ *
+ * Shares are allocated on integer minor units, so they always add up to
+ * exactly the bill total.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { transferSimApi } from './transferSim';
+import { createLockedStore } from './lockedStore';
+import { formatMoney, normalizeCurrency } from './currency';
+import { addMoney, allocateMoney, money, splitMoney, subtractMoney, sumMoney, toAmount } from './money';
+import type {
+  BillSplit,
+  BillSplitItem,
+  BillSplitParticipant,
+  BillSplitShareStatus,
+  Money,
+  MoneyRequestStatus,
+  TransferStatus,
+} from '../types';
+
+const STORAGE_KEY = 'mwsim_bill_splits';
+
+/**
+ * Participant ID used for the organizer in item assignments and share maps
+ */
+export const BILL_SPLIT_ORGANIZER_ID = 'me';
+
+/**
+ * A person added to a split before shares are calculated
+ */
+export type BillSplitParticipantInput = Pick<
+  BillSplitParticipant,
+  'participantId' | 'alias' | 'aliasType' | 'displayName' | 'profileImageUrl' | 'initialsColor' | 'shares'
+>;
+
+/**
+ * Fields the user provides when creating a split
+ */
+export interface BillSplitInput {
+  description: string;
+  total: number;
+  currency?: string;               // CAD when omitted
+  method: BillSplit['method'];
+  settleMode: BillSplit['settleMode'];
+  includeOrganizer: boolean;
+  organizerShares?: number;
+  participants: BillSplitParticipantInput[];
+  items?: BillSplitItem[];
+  merchantName?: string;
+  sourceAccountId?: string;
+  senderBsimId?: string;
+}
+
+export interface BillSplitProgress {
+  paidCount: number;
+  participantCount: number;
+  collected: number;
+  outstanding: number;
+}
+
+// Shares in these states can be (re)issued
+const REQUESTABLE_STATUSES: BillSplitShareStatus[] = ['PENDING', 'FAILED', 'DECLINED'];
+const SENDABLE_STATUSES: BillSplitShareStatus[] = ['PENDING', 'FAILED'];
+
+// Transfers in these states will never reach the participant
+const FAILED_TRANSFER_STATUSES: TransferStatus[] = [
+  'RECIPIENT_NOT_FOUND',
+  'DEBIT_FAILED',
+  'CREDIT_FAILED',
+  'CANCELLED',
+  'EXPIRED',
+  'REVERSED',
+];
+
+// ==================
+// Share Calculation
+// ==================
+
+/**
+ * Everyone who pays a share, organizer first when included
+ */
+function getPayers(input: Pick<BillSplitInput, 'includeOrganizer' | 'organizerShares' | 'participants'>) {
+  const payers = input.participants.map((p) => ({ id: p.participantId, shares: p.shares ?? 1 }));
+  return input.includeOrganizer
+    ? [{ id: BILL_SPLIT_ORGANIZER_ID, shares: input.organizerShares ?? 1 }, ...payers]
+    : payers;
+}
+
+/**
+ * Calculate each person's share of the bill
+ *
+ * EVEN and SHARES divide the total directly. ITEMS first splits every item
+ * evenly between the people who had it, then allocates the whole total in
+ * proportion to those item subtotals so tax and tip are shared fairly.
+ *
+ * @returns Amount per participant ID (BILL_SPLIT_ORGANIZER_ID for the organizer)
+ */
+export function calculateBillShares(
+  input: Pick<BillSplitInput, 'total' | 'currency' | 'method' | 'includeOrganizer' | 'organizerShares' | 'participants' | 'items'>
+): Record<string, number> {
+  const currency = normalizeCurrency(input.currency);
+  const total = money(input.total, currency);
+  const payers = getPayers(input);
+
+  let shares: Money[];
+  switch (input.method) {
+    case 'EVEN':
+      shares = splitMoney(total, payers.length);
+      break;
+    case 'SHARES':
+      shares = allocateMoney(total, payers.map((p) => p.shares));
+      break;
+    case 'ITEMS': {
+      const subtotals = new Map(payers.map((p) => [p.id, money(0, currency)]));
+      for (const item of input.items || []) {
+        const sharedBy = item.participantIds.filter((id) => subtotals.has(id));
+        splitMoney(money(item.amount, currency), sharedBy.length).forEach((portion, index) => {
+          subtotals.set(sharedBy[index], addMoney(subtotals.get(sharedBy[index])!, portion));
+        });
+      }
+      shares = allocateMoney(total, payers.map((p) => subtotals.get(p.id)!.minor));
+      break;
+    }
+  }
+
+  return Object.fromEntries(payers.map((p, index) => [p.id, toAmount(shares[index])]));
+}
+
+/**
+ * Check a split can be created
+ * @returns A message for the user, or null when the split is valid
+ */
+export function validateBillSplit(input: BillSplitInput): string | null {
+  if (!(input.total > 0)) {
+    return 'Please enter the bill total';
+  }
+  if (input.participants.length === 0) {
+    return 'Add at least one person to split with';
+  }
+  if (input.method === 'SHARES') {
+    const weights = getPayers(input).map((p) => p.shares);
+    if (weights.some((w) => !(w > 0))) {
+      return 'Everyone needs at least one share';
+    }
+  }
+  if (input.method === 'ITEMS') {
+    const items = input.items || [];
+    if (items.length === 0) {
+      return 'Add the items on the bill';
+    }
+    for (const item of items) {
+      if (!item.name.trim()) return 'Every item needs a name';
+      if (!(item.amount > 0)) return `Enter a price for ${item.name}`;
+      if (item.participantIds.length === 0) return `Choose who had ${item.name}`;
+    }
+    const currency = normalizeCurrency(input.currency);
+    const itemsTotal = sumMoney(items.map((item) => money(item.amount, currency)), currency);
+    if (itemsTotal.minor > money(input.total, currency).minor) {
+      return 'The items add up to more than the total';
+    }
+    const assigned = new Set(items.flatMap((item) => item.participantIds));
+    const missing = input.participants.find((p) => !assigned.has(p.participantId));
+    if (missing) {
+      return `${missing.displayName || missing.alias} has no items on the bill`;
+    }
+  }
+
+  const shares = calculateBillShares(input);
+  if (input.participants.some((p) => !(shares[p.participantId] > 0))) {
+    return `The total is too small to split between ${getPayers(input).length} people`;
+  }
+  return null;
+}
+
+/**
+ * How far along collecting (or paying out) the split is
+ */
+export function getBillSplitProgress(split: BillSplit): BillSplitProgress {
+  const paid = split.participants.filter((p) => p.status === 'PAID');
+  const collected = sumMoney(paid.map((p) => money(p.amount, split.currency)), split.currency);
+  const everyone = sumMoney(split.participants.map((p) => money(p.amount, split.currency)), split.currency);
+  return {
+    paidCount: paid.length,
+    participantCount: split.participants.length,
+    collected: toAmount(collected),
+    outstanding: toAmount(subtractMoney(everyone, collected)),
+  };
+}
+
+/**
+ * One-line summary for lists ("2 of 3 paid · $40.00 outstanding")
+ */
+export function describeBillSplitProgress(split: BillSplit): string {
+  const progress = getBillSplitProgress(split);
+  if (progress.paidCount === progress.participantCount) {
+    return split.settleMode === 'SEND' ? 'Everyone paid out' : 'Everyone has paid';
+  }
+  return `${progress.paidCount} of ${progress.participantCount} paid · ${formatMoney(progress.outstanding, split.currency)} outstanding`;
+}
+
+export function isBillSplitSettled(split: BillSplit): boolean {
+  return split.participants.every((p) => p.status === 'PAID');
+}
+
+/**
+ * Tracker status for a share from its money request status
+ */
+export function getShareStatusForRequest(status: MoneyRequestStatus): BillSplitShareStatus {
+  switch (status) {
+    case 'APPROVED':
+      return 'PAID';
+    case 'PENDING':
+      return 'REQUESTED';
+    default:
+      return 'DECLINED';
+  }
+}
+
+/**
+ * Tracker status for a sent share from its transfer status
+ * A share only counts as paid once the transfer has completed.
+ */
+export function getShareStatusForTransfer(status: TransferStatus): BillSplitShareStatus {
+  if (status === 'COMPLETED') return 'PAID';
+  return FAILED_TRANSFER_STATUSES.includes(status) ? 'FAILED' : 'SENT';
+}
+
+/**
+ * Idempotency key for the transfer of one participant's share
+ * Stable across retries so TransferSim never sends a share twice. A new
+ * attempt (after TransferSim reported the transfer failed) gets a new key.
+ */
+export function getShareIdempotencyKey(splitId: string, participantId: string, attempt = 0): string {
+  const key = `split-${splitId}-${participantId}`;
+  return attempt > 0 ? `${key}-${attempt}` : key;
+}
+
+// ==================
+// Storage
+// ==================
+
+const store = createLockedStore<BillSplit[]>(STORAGE_KEY, () => [], 'BillSplits');
+
+/**
+ * Apply changes to shares on the latest stored copy of a split
+ * Sends and refreshes await the network, so they only write the shares they
+ * touched instead of saving the copy they started from.
+ */
+async function patchShares(
+  splitId: string,
+  changes: Record<string, Partial<BillSplitParticipant>>
+): Promise<BillSplit> {
+  let updated: BillSplit | undefined;
+  await store.update((splits) =>
+    splits.map((s) => {
+      if (s.splitId !== splitId) return s;
+      updated = {
+        ...s,
+        participants: s.participants.map((p) => ({ ...p, ...changes[p.participantId] })),
+        updatedAt: new Date().toISOString(),
+      };
+      return updated;
+    })
+  );
+  if (!updated) {
+    throw new Error('Bill split not found');
+  }
+  return updated;
+}
+
+async function requireSplit(splitId: string): Promise<BillSplit> {
+  const splits = await store.read();
+  const split = splits.find((s) => s.splitId === splitId);
+  if (!split) {
+    throw new Error('Bill split not found');
+  }
+  return split;
+}
+
+/**
+ * Share changes for a transfer's latest status
+ * A failed transfer moves the share to its next send attempt.
+ */
+function getTransferChanges(
+  participant: BillSplitParticipant,
+  transferId: string,
+  transferStatus: TransferStatus
+): Partial<BillSplitParticipant> {
+  const status = getShareStatusForTransfer(transferStatus);
+  if (status !== 'FAILED') {
+    return { status, transferId, lastError: undefined };
+  }
+  return {
+    status,
+    transferId,
+    sendAttempt: (participant.sendAttempt ?? 0) + 1,
+    lastError: `Transfer ${transferStatus.toLowerCase().replace(/_/g, ' ')}`,
+  };
+}
+
+export const billSplitService = {
+  /**
+   * Get all splits, newest first
+   */
+  async getBillSplits(): Promise<BillSplit[]> {
+    const splits = await store.read();
+    return splits.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  },
+
+  async getBillSplit(splitId: string): Promise<BillSplit | null> {
+    const splits = await store.read();
+    return splits.find((s) => s.splitId === splitId) || null;
+  },
+
+  /**
+   * Calculate the shares and save a new split
+   * Nothing is requested or sent yet; see issueRequests / sendShares.
+   */
+  async createBillSplit(input: BillSplitInput): Promise<BillSplit> {
+    const error = validateBillSplit(input);
+    if (error) {
+      throw new Error(error);
+    }
+    if (input.settleMode === 'SEND' && (!input.sourceAccountId || !input.senderBsimId)) {
+      throw new Error('Choose an account to send from');
+    }
+
+    const shares = calculateBillShares(input);
+    const now = new Date().toISOString();
+    const split: BillSplit = {
+      splitId: uuidv4(),
+      description: input.description.trim() || 'Bill split',
+      total: input.total,
+      currency: normalizeCurrency(input.currency),
+      method: input.method,
+      settleMode: input.settleMode,
+      includeOrganizer: input.includeOrganizer,
+      organizerShares: input.method === 'SHARES' && input.includeOrganizer ? input.organizerShares ?? 1 : undefined,
+      organizerAmount: shares[BILL_SPLIT_ORGANIZER_ID] ?? 0,
+      participants: input.participants.map((p) => ({
+        ...p,
+        shares: input.method === 'SHARES' ? p.shares ?? 1 : undefined,
+        amount: shares[p.participantId],
+        status: 'PENDING',
+      })),
+      items: input.method === 'ITEMS' ? input.items : undefined,
+      merchantName: input.merchantName,
+      sourceAccountId: input.settleMode === 'SEND' ? input.sourceAccountId : undefined,
+      senderBsimId: input.settleMode === 'SEND' ? input.senderBsimId : undefined,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await store.update((splits) => [...splits, split]);
+    console.log('[BillSplits] Created split:', split.splitId, split.method, split.participants.length, 'participants');
+    return split;
+  },
+
+  /**
+   * Send a money request for every share that hasn't been requested yet
+   * Failed and declined shares are requested again.
+   */
+  async issueRequests(splitId: string): Promise<BillSplit> {
+    const split = await requireSplit(splitId);
+    if (split.settleMode !== 'REQUEST') {
+      throw new Error('This split is settled with transfers');
+    }
+
+    const changes: Record<string, Partial<BillSplitParticipant>> = {};
+    for (const participant of split.participants) {
+      if (!REQUESTABLE_STATUSES.includes(participant.status)) continue;
+      try {
+        const request = await transferSimApi.createMoneyRequest({
+          payerAlias: participant.alias,
+          payerAliasType: participant.aliasType,
+          amount: participant.amount,
+          currency: split.currency,
+          description: split.description,
+        });
+        changes[participant.participantId] = { status: 'REQUESTED', requestId: request.requestId, lastError: undefined };
+      } catch (e: any) {
+        console.log('[BillSplits] Request failed for', participant.alias, e.message);
+        changes[participant.participantId] = {
+          status: 'FAILED',
+          lastError: e.response?.data?.message || e.message || 'Request failed',
+        };
+      }
+    }
+
+    return patchShares(splitId, changes);
+  },
+
+  /**
+   * Send every unpaid share to its participant
+   *
+   * Each share uses a deterministic idempotency key, so retrying a failed or
+   * interrupted run never sends a share twice.
+   */
+  async sendShares(splitId: string): Promise<BillSplit> {
+    const split = await requireSplit(splitId);
+    if (split.settleMode !== 'SEND' || !split.sourceAccountId || !split.senderBsimId) {
+      throw new Error('This split is settled with money requests');
+    }
+
+    let updated = split;
+    for (const participant of split.participants) {
+      if (!SENDABLE_STATUSES.includes(participant.status)) continue;
+      let changes: Partial<BillSplitParticipant>;
+      try {
+        const transfer = await transferSimApi.sendMoney(
+          participant.alias,
+          participant.amount,
+          split.sourceAccountId,
+          split.senderBsimId,
+          split.description,
+          participant.aliasType,
+          getShareIdempotencyKey(split.splitId, participant.participantId, participant.sendAttempt),
+          undefined,
+          split.currency
+        );
+        changes = getTransferChanges(participant, transfer.transferId, transfer.status as TransferStatus);
+      } catch (e: any) {
+        console.log('[BillSplits] Transfer failed for', participant.alias, e.message);
+        changes = { status: 'FAILED', lastError: e.response?.data?.message || e.message || 'Transfer failed' };
+      }
+      // Persist after each share so progress survives the app being killed
+      updated = await patchShares(split.splitId, { [participant.participantId]: changes });
+    }
+
+    return updated;
+  },
+
+  /**
+   * Update requested shares from their money requests, and sent shares from
+   * their transfers
+   * A request or transfer that can't be fetched keeps its last known status.
+   */
+  async refreshStatuses(splitId: string): Promise<BillSplit> {
+    const split = await requireSplit(splitId);
+    const changes: Record<string, Partial<BillSplitParticipant>> = {};
+
+    await Promise.all(
+      split.participants.map(async (participant) => {
+        if (participant.status === 'REQUESTED' && participant.requestId) {
+          try {
+            const request = await transferSimApi.getMoneyRequest(participant.requestId);
+            changes[participant.participantId] = {
+              status: getShareStatusForRequest(request.status),
+              transferId: request.transferId,
+            };
+          } catch (e: any) {
+            console.log('[BillSplits] Could not refresh request', participant.requestId, e.message);
+          }
+        } else if (participant.status === 'SENT' && participant.transferId) {
+          try {
+            const transfer = await transferSimApi.getTransfer(participant.transferId);
+            changes[participant.participantId] = getTransferChanges(participant, transfer.transferId, transfer.status);
+          } catch (e: any) {
+            console.log('[BillSplits] Could not refresh transfer', participant.transferId, e.message);
+          }
+        }
+      })
+    );
+
+    return patchShares(splitId, changes);
+  },
+
+  /**
+   * Mark a share as paid outside the app (cash, e-transfer, ...)
+   */
+  async markSharePaid(splitId: string, participantId: string): Promise<BillSplit> {
+    const split = await requireSplit(splitId);
+    const participant = split.participants.find((p) => p.participantId === participantId);
+    if (!participant) {
+      throw new Error('Participant not found');
+    }
+    return patchShares(splitId, { [participantId]: { status: 'PAID', paidManually: true, lastError: undefined } });
+  },
+
+  /**
+   * Delete a split, cancelling any requests still waiting to be paid
+   */
+  async deleteBillSplit(splitId: string): Promise<void> {
+    const split = await this.getBillSplit(splitId);
+    const open = split?.participants.filter((p) => p.status === 'REQUESTED' && p.requestId) || [];
+    await Promise.all(
+      open.map((p) =>
+        transferSimApi.cancelMoneyRequest(p.requestId!).catch((e: any) => {
+          console.log('[BillSplits] Could not cancel request', p.requestId, e.message);
+        })
+      )
+    );
+    await store.update((splits) => splits.filter((s) => s.splitId !== splitId));
+  },
+
+  /**
+   * Remove all splits (called on logout)
+   */
+  async clearAll(): Promise<void> {
+    await store.clear();
+  },
+};
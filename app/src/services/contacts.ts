@@ -0,0 +1,323 @@
+/**
+ * Contacts Service
+ *
+ * Opt-in device contacts for finding P2P recipients. Phone numbers (E.164)
+ * and email addresses from the address book are the PHONE and EMAIL alias
+ * types, so they are normalized and checked with TransferSim's batch alias
+ * lookup to mark which contacts are on mwsim.
+ *
+ * Only a SHA-256 hash of each normalized phone number and email is sent (no
+ * names, photos or other fields), and each one is checked at most once a week -
+ * results are cached on the device. Hashing keeps the plain values out of
+ * requests and logs, but it doesn't make them anonymous: there are few enough
+ * phone numbers that whoever holds a hash can find the number by hashing them all.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Contacts from 'expo-contacts';
+import * as Crypto from 'expo-crypto';
+import { transferSimApi } from './transferSim';
+import type { AliasLookupResult, ContactIdentifier, DeviceContact } from '../types';
+
+const ENABLED_KEY = 'mwsim_contacts_enabled';
+const MATCHES_KEY = 'mwsim_contact_matches';
+
+// Calling code used for numbers saved without one (mwsim is a Canadian app)
+const DEFAULT_CALLING_CODE = '1';
+
+// TransferSim accepts up to 50 aliases per batch lookup
+const LOOKUP_BATCH_SIZE = 50;
+
+// Identifiers are re-checked weekly, so new sign-ups show up
+const MATCH_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface CachedMatch {
+  found: boolean;
+  lookup?: AliasLookupResult;
+  checkedAt: string;
+}
+
+type MatchCache = Record<string, CachedMatch>;
+
+export interface ContactResolveResult {
+  contacts: DeviceContact[];
+  /** Contacts with at least one registered alias */
+  matched: number;
+  /** Identifiers sent for lookup this time (cached ones are skipped) */
+  lookedUp: number;
+}
+
+// ==================
+// Normalization
+// ==================
+
+/**
+ * Normalize a phone number to E.164 ("+14165550123")
+ *
+ * Numbers without a country code are assumed to be in `defaultCallingCode`.
+ * For North America that means 10 digits, or 11 starting with the trunk 1.
+ * Extensions are dropped.
+ *
+ * @returns The E.164 number, or null if it can't be a valid number
+ */
+export function normalizePhoneNumber(raw: string, defaultCallingCode: string = DEFAULT_CALLING_CODE): string | null {
+  const number = raw.split(/ext|x|[;,#]/i)[0].trim();
+  let digits = number.replace(/\D/g, '');
+  let international = number.startsWith('+');
+
+  // "00" is the international prefix outside North America
+  if (!international && digits.startsWith('00')) {
+    digits = digits.slice(2);
+    international = true;
+  }
+
+  if (!international) {
+    if (defaultCallingCode === '1') {
+      if (digits.length === 11 && digits.startsWith('1')) digits = digits.slice(1);
+      if (digits.length !== 10) return null;
+    } else {
+      // Drop the national trunk prefix ("020..." -> "20...")
+      digits = digits.replace(/^0+/, '');
+    }
+    digits = defaultCallingCode + digits;
+  }
+
+  // E.164 allows at most 15 digits; country codes never start with 0
+  if (digits.length < 8 || digits.length > 15 || digits.startsWith('0')) {
+    return null;
+  }
+  return `+${digits}`;
+}
+
+/**
+ * Normalize an email address (trimmed, lowercase)
+ *
+ * @returns The email, or null if it isn't a valid address
+ */
+export function normalizeEmail(raw: string): string | null {
+  const email = raw.trim().toLowerCase();
+  return EMAIL_PATTERN.test(email) ? email : null;
+}
+
+function getIdentifierKey(identifier: ContactIdentifier): string {
+  return `${identifier.aliasType}:${identifier.value}`;
+}
+
+/**
+ * Hash sent to TransferSim in place of a phone number or email
+ * SHA-256 (lowercase hex) of the normalized value; TransferSim hashes its
+ * registered aliases the same way.
+ */
+export async function hashIdentifier(identifier: ContactIdentifier): Promise<string> {
+  return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, identifier.value);
+}
+
+/**
+ * Convert address book entries into contacts with normalized identifiers
+ * Contacts without a usable phone number or email are left out.
+ */
+export function toDeviceContacts(
+  contacts: Contacts.ExistingContact[],
+  defaultCallingCode: string = DEFAULT_CALLING_CODE
+): DeviceContact[] {
+  const result: DeviceContact[] = [];
+
+  for (const contact of contacts) {
+    const identifiers: ContactIdentifier[] = [];
+    const seen = new Set<string>();
+    const add = (identifier: ContactIdentifier) => {
+      const key = getIdentifierKey(identifier);
+      if (!seen.has(key)) {
+        seen.add(key);
+        identifiers.push(identifier);
+      }
+    };
+
+    for (const phone of contact.phoneNumbers || []) {
+      const value = normalizePhoneNumber(phone.number || phone.digits || '', defaultCallingCode);
+      if (value) add({ value, aliasType: 'PHONE', label: phone.label });
+    }
+    for (const email of contact.emails || []) {
+      const value = normalizeEmail(email.email || '');
+      if (value) add({ value, aliasType: 'EMAIL', label: email.label });
+    }
+
+    if (identifiers.length > 0) {
+      result.push({
+        contactId: contact.id,
+        name: contact.name || identifiers[0].value,
+        imageUri: contact.image?.uri,
+        identifiers,
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Contacts on mwsim first, then by name
+ */
+export function sortContacts(contacts: DeviceContact[]): DeviceContact[] {
+  return [...contacts].sort((a, b) => {
+    if (!!a.match !== !!b.match) return a.match ? -1 : 1;
+    return a.name.localeCompare(b.name);
+  });
+}
+
+/**
+ * Filter contacts by name, phone number or email
+ */
+export function searchContacts(contacts: DeviceContact[], query: string): DeviceContact[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return contacts;
+  const digits = q.replace(/\D/g, '');
+  return contacts.filter((contact) =>
+    contact.name.toLowerCase().includes(q) ||
+    contact.identifiers.some((i) =>
+      i.aliasType === 'EMAIL' ? i.value.includes(q) : digits.length >= 3 && i.value.includes(digits)
+    )
+  );
+}
+
+function isFresh(cached: CachedMatch | undefined, now: Date): cached is CachedMatch {
+  return !!cached && now.getTime() - new Date(cached.checkedAt).getTime() < MATCH_TTL_MS;
+}
+
+// ==================
+// Storage
+// ==================
+
+async function readMatches(): Promise<MatchCache> {
+  const raw = await AsyncStorage.getItem(MATCHES_KEY);
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw) as MatchCache;
+  } catch {
+    console.warn('[Contacts] Corrupt match cache, resetting');
+    return {};
+  }
+}
+
+async function writeMatches(matches: MatchCache): Promise<void> {
+  await AsyncStorage.setItem(MATCHES_KEY, JSON.stringify(matches));
+}
+
+export const contactsService = {
+  /**
+   * Whether the user has turned on contacts in the send flow
+   */
+  async isEnabled(): Promise<boolean> {
+    return (await AsyncStorage.getItem(ENABLED_KEY)) === 'true';
+  },
+
+  /**
+   * Ask for contacts permission and turn the feature on
+   *
+   * @returns Whether permission was granted
+   */
+  async enable(): Promise<boolean> {
+    const { granted } = await Contacts.requestPermissionsAsync();
+    if (granted) {
+      await AsyncStorage.setItem(ENABLED_KEY, 'true');
+    }
+    console.log('[Contacts] Permission granted:', granted);
+    return granted;
+  },
+
+  /**
+   * Turn contacts off and forget every lookup result
+   */
+  async disable(): Promise<void> {
+    await AsyncStorage.multiRemove([ENABLED_KEY, MATCHES_KEY]);
+  },
+
+  /**
+   * Read the address book (phone numbers and emails only)
+   */
+  async getContacts(): Promise<DeviceContact[]> {
+    const { granted } = await Contacts.getPermissionsAsync();
+    if (!granted) {
+      throw new Error('Contacts permission not granted');
+    }
+    const { data } = await Contacts.getContactsAsync({
+      fields: [Contacts.Fields.Name, Contacts.Fields.PhoneNumbers, Contacts.Fields.Emails, Contacts.Fields.Image],
+    });
+    return toDeviceContacts(data);
+  },
+
+  /**
+   * Mark which contacts are on mwsim
+   *
+   * Identifiers checked in the last week are answered from the cache; the
+   * rest are sent in batches. A batch that fails (network) is skipped and
+   * tried again next time.
+   */
+  async resolveContacts(
+    contacts: DeviceContact[],
+    options: { force?: boolean; now?: Date } = {}
+  ): Promise<ContactResolveResult> {
+    const now = options.now || new Date();
+    const matches = await readMatches();
+
+    const pending = new Map<string, ContactIdentifier>();
+    for (const contact of contacts) {
+      for (const identifier of contact.identifiers) {
+        const key = getIdentifierKey(identifier);
+        if (options.force || !isFresh(matches[key], now)) {
+          pending.set(key, identifier);
+        }
+      }
+    }
+
+    const identifiers = [...pending.values()];
+    for (let i = 0; i < identifiers.length; i += LOOKUP_BATCH_SIZE) {
+      const batch = identifiers.slice(i, i + LOOKUP_BATCH_SIZE);
+      try {
+        const hashes = await Promise.all(batch.map(hashIdentifier));
+        const results = await transferSimApi.lookupAliases(
+          batch.map((identifier, index) => ({ aliasHash: hashes[index], aliasType: identifier.aliasType }))
+        );
+        const resultsByHash = new Map(results.map((r) => [r.aliasHash.toLowerCase(), r]));
+        batch.forEach((identifier, index) => {
+          // Aliases missing from the response weren't found
+          const result = resultsByHash.get(hashes[index]);
+          matches[getIdentifierKey(identifier)] = {
+            found: !!result?.found,
+            lookup: result?.found ? result : undefined,
+            checkedAt: now.toISOString(),
+          };
+        });
+      } catch (e: any) {
+        console.log('[Contacts] Batch lookup failed:', e.message);
+      }
+    }
+
+    if (identifiers.length > 0) {
+      await writeMatches(matches);
+    }
+
+    const resolved = contacts.map((contact) => {
+      const identifier = contact.identifiers.find((i) => matches[getIdentifierKey(i)]?.found);
+      const lookup = identifier && matches[getIdentifierKey(identifier)].lookup;
+      return identifier && lookup
+        ? { ...contact, match: { identifier, lookup: { ...lookup, aliasType: lookup.aliasType || identifier.aliasType } } }
+        : { ...contact, match: undefined };
+    });
+
+    return {
+      contacts: sortContacts(resolved),
+      matched: resolved.filter((c) => c.match).length,
+      lookedUp: identifiers.length,
+    };
+  },
+
+  /**
+   * Remove the setting and cached lookups (called on logout)
+   */
+  async clearAll(): Promise<void> {
+    await AsyncStorage.multiRemove([ENABLED_KEY, MATCHES_KEY]);
+  },
+};
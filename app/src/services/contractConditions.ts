@@ -0,0 +1,194 @@
+/**
+ * Contract Conditions
+ *
+ * Builds ContractPredicates from the condition builder in CreateContract.
+ * Each condition tests one field of an oracle event's result (e.g. total
+ * score greater than 45). Values are typed against the event's field schema
+ * so the oracle never receives "45" for a number or a team that isn't
+ * playing, and the conditions are summarized in plain English for
+ * `conditionsSummary`.
+ */
+
+import type {
+  ConditionLogic,
+  ContractPredicate,
+  OracleEvent,
+  OracleEventField,
+  OracleEventFieldType,
+  PredicateOperator,
+} from '../types';
+
+/**
+ * A condition as entered in the builder; value is the raw text
+ * ('in' takes a comma-separated list)
+ */
+export interface ConditionInput {
+  field: string;
+  operator: PredicateOperator;
+  value: string;
+}
+
+/**
+ * Operator display info, and the field types each operator works on
+ */
+export const OPERATOR_INFO: Record<PredicateOperator, { label: string; types: OracleEventFieldType[] }> = {
+  equals: { label: 'is', types: ['number', 'string', 'boolean', 'team'] },
+  not_equals: { label: 'is not', types: ['number', 'string', 'boolean', 'team'] },
+  greater_than: { label: 'is more than', types: ['number'] },
+  less_than: { label: 'is less than', types: ['number'] },
+  contains: { label: 'contains', types: ['string'] },
+  in: { label: 'is one of', types: ['number', 'string', 'team'] },
+};
+
+// Field used for events that don't publish a result schema
+const WINNER_FIELD = 'winner';
+
+// ==================
+// Schema
+// ==================
+
+/**
+ * Fields a condition can test for an event
+ * Events without a schema only support the winner, picked from the teams.
+ */
+export function getEventFields(
+  event: Pick<OracleEvent, 'fields'>,
+  teams?: { id: string; name: string }[]
+): OracleEventField[] {
+  const fields = (event.fields || []).map((field) =>
+    field.type === 'team' && !field.options ? { ...field, options: teams } : field
+  );
+  if (fields.length > 0) return fields;
+  return teams && teams.length > 0 ? [{ name: WINNER_FIELD, label: 'Winner', type: 'team', options: teams }] : [];
+}
+
+export function getOperatorsForField(field: OracleEventField | undefined): PredicateOperator[] {
+  if (!field) return [];
+  return (Object.keys(OPERATOR_INFO) as PredicateOperator[]).filter((op) => OPERATOR_INFO[op].types.includes(field.type));
+}
+
+/**
+ * The condition a team prediction stands for ("winner is <team>")
+ */
+export function getDefaultCondition(fields: OracleEventField[], prediction?: string): ConditionInput | null {
+  const field = fields.find((f) => f.type === 'team') || fields[0];
+  if (!field) return null;
+  const value = field.type === 'team' && field.options?.some((o) => o.id === prediction) ? prediction! : '';
+  return { field: field.name, operator: 'equals', value };
+}
+
+// ==================
+// Values
+// ==================
+
+function parseSingleValue(field: OracleEventField, raw: string): string | number | boolean | undefined {
+  const text = raw.trim();
+  if (!text) return undefined;
+
+  switch (field.type) {
+    case 'number': {
+      const value = Number(text.replace(/,/g, ''));
+      return Number.isFinite(value) ? value : undefined;
+    }
+    case 'boolean':
+      if (/^(true|yes)$/i.test(text)) return true;
+      if (/^(false|no)$/i.test(text)) return false;
+      return undefined;
+    case 'team':
+      return field.options?.find((o) => o.id === text || o.name.toLowerCase() === text.toLowerCase())?.id;
+    default:
+      return text;
+  }
+}
+
+/**
+ * Check a condition against the event schema
+ * @returns A message for the user, or null when the condition is valid
+ */
+export function validateCondition(fields: OracleEventField[], input: ConditionInput): string | null {
+  const field = fields.find((f) => f.name === input.field);
+  if (!field) {
+    return 'Choose what the condition is about';
+  }
+  if (!OPERATOR_INFO[input.operator].types.includes(field.type)) {
+    return `"${OPERATOR_INFO[input.operator].label}" doesn't work with ${field.label.toLowerCase()}`;
+  }
+
+  const raw = input.operator === 'in' ? input.value.split(',').filter((v) => v.trim()) : [input.value];
+  if (raw.length === 0 || raw.every((v) => !v.trim())) {
+    return `Enter a value for ${field.label.toLowerCase()}`;
+  }
+  if (input.operator === 'in' && raw.length < 2) {
+    return 'Pick at least two values for "is one of"';
+  }
+  for (const value of raw) {
+    if (parseSingleValue(field, value) === undefined) {
+      switch (field.type) {
+        case 'number':
+          return `${field.label} must be a number`;
+        case 'boolean':
+          return `${field.label} must be yes or no`;
+        default:
+          return `${value.trim()} isn't in this event`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Typed predicate for a valid condition
+ */
+export function toPredicate(fields: OracleEventField[], input: ConditionInput): ContractPredicate {
+  const field = fields.find((f) => f.name === input.field)!;
+  const value = input.operator === 'in'
+    ? input.value.split(',').filter((v) => v.trim()).map((v) => parseSingleValue(field, v))
+    : parseSingleValue(field, input.value);
+  return { field: input.field, operator: input.operator, value };
+}
+
+// ==================
+// Summaries
+// ==================
+
+/**
+ * "total_score" -> "total score" for fields without a schema label
+ */
+function humanizeFieldName(name: string): string {
+  return name.replace(/[_.]+/g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+}
+
+function describeValue(field: OracleEventField | undefined, value: unknown): string {
+  if (Array.isArray(value)) {
+    const values = value.map((v) => describeValue(field, v));
+    return values.length > 1 ? `${values.slice(0, -1).join(', ')} or ${values[values.length - 1]}` : values.join('');
+  }
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  if (field?.type === 'team') {
+    return field.options?.find((o) => o.id === value)?.name || String(value);
+  }
+  return field?.unit && typeof value === 'number' ? `${value} ${field.unit}` : String(value);
+}
+
+/**
+ * One condition in plain English ("total score is more than 45")
+ */
+export function describePredicate(predicate: ContractPredicate, fields: OracleEventField[] = []): string {
+  const field = fields.find((f) => f.name === predicate.field);
+  const label = field ? field.label.toLowerCase() : humanizeFieldName(predicate.field);
+  const operator = OPERATOR_INFO[predicate.operator]?.label || predicate.operator.replace(/_/g, ' ');
+  return `${label} ${operator} ${describeValue(field, predicate.value)}`;
+}
+
+/**
+ * All conditions in plain English, joined with "and" / "or"
+ * ("Winner is Toronto and total score is more than 45")
+ */
+export function describeConditions(
+  predicates: ContractPredicate[],
+  logic: ConditionLogic = 'and',
+  fields: OracleEventField[] = []
+): string {
+  const summary = predicates.map((p) => describePredicate(p, fields)).join(logic === 'or' ? ' or ' : ' and ');
+  return summary.charAt(0).toUpperCase() + summary.slice(1);
+}
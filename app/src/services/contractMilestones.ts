@@ -0,0 +1,152 @@
+/**
+ * Contract Milestones
+ *
+ * Helpers for escrow and milestone contracts. The creator (payer) funds the
+ * whole amount up front; the counterparty (payee) delivers each milestone
+ * and the payer releases it or rejects it with a reason. Escrow contracts
+ * are a single milestone that also releases automatically a set time after
+ * delivery unless the payer rejects it first.
+ */
+
+import { normalizeCurrency } from './currency';
+import { subtractMoney, sumMoney, toAmount } from './money';
+import type {
+  Contract,
+  ContractMilestone,
+  ContractMilestoneInput,
+  ContractParty,
+  ContractType,
+  MilestoneStatus,
+} from '../types';
+
+/**
+ * Auto-release windows offered for escrow, in hours after delivery
+ */
+export const AUTO_RELEASE_OPTIONS = [72, 168, 336];
+
+export type MilestoneAction = 'deliver' | 'release' | 'reject';
+
+export interface MilestoneProgress {
+  releasedCount: number;
+  milestoneCount: number;
+  released: number;
+  remaining: number;
+}
+
+/**
+ * Milestone status display info
+ */
+export const MILESTONE_STATUS_INFO: Record<MilestoneStatus, { label: string; color: string }> = {
+  pending: { label: 'In progress', color: '#F59E0B' },
+  delivered: { label: 'Delivered', color: '#3B82F6' },
+  released: { label: 'Released', color: '#10B981' },
+  rejected: { label: 'Changes requested', color: '#DC2626' },
+};
+
+// ==================
+// Roles and Actions
+// ==================
+
+/**
+ * Whether the contract pays out by milestone instead of on an oracle event
+ */
+export function isMilestoneContractType(type: ContractType | string | undefined): boolean {
+  const normalized = type?.toLowerCase();
+  return normalized === 'escrow' || normalized === 'milestone';
+}
+
+/**
+ * The creator funds escrow and milestone contracts
+ */
+export function isPayer(party: Pick<ContractParty, 'role'> | undefined): boolean {
+  return party?.role === 'creator';
+}
+
+/**
+ * What the user can do with a milestone right now
+ * Milestones only move once the contract is active (fully funded).
+ */
+export function getMilestoneActions(
+  contract: Pick<Contract, 'status'>,
+  milestone: ContractMilestone,
+  myParty: Pick<ContractParty, 'role'> | undefined
+): MilestoneAction[] {
+  if (!myParty || contract.status?.toLowerCase() !== 'active') return [];
+
+  if (isPayer(myParty)) {
+    return milestone.status === 'delivered' ? ['release', 'reject'] : [];
+  }
+  return milestone.status === 'pending' || milestone.status === 'rejected' ? ['deliver'] : [];
+}
+
+// ==================
+// Progress
+// ==================
+
+export function getMilestoneProgress(contract: Pick<Contract, 'milestones' | 'currency'>): MilestoneProgress {
+  const currency = normalizeCurrency(contract.currency);
+  const milestones = contract.milestones || [];
+  const released = milestones.filter((m) => m.status === 'released');
+  const releasedTotal = sumMoney(released.map((m) => m.amount), currency);
+  const total = sumMoney(milestones.map((m) => m.amount), currency);
+  return {
+    releasedCount: released.length,
+    milestoneCount: milestones.length,
+    released: toAmount(releasedTotal),
+    remaining: toAmount(subtractMoney(total, releasedTotal)),
+  };
+}
+
+/**
+ * When a delivered escrow releases on its own ("Releases automatically in 2 days")
+ * @returns null when the milestone has no pending auto-release
+ */
+export function describeAutoRelease(milestone: ContractMilestone, now: Date = new Date()): string | null {
+  if (milestone.status !== 'delivered' || !milestone.autoReleaseAt) return null;
+
+  const hours = Math.ceil((new Date(milestone.autoReleaseAt).getTime() - now.getTime()) / (60 * 60 * 1000));
+  if (hours <= 0) return 'Releasing automatically';
+  if (hours < 24) return `Releases automatically in ${hours} hour${hours === 1 ? '' : 's'}`;
+  const days = Math.round(hours / 24);
+  return `Releases automatically in ${days} day${days === 1 ? '' : 's'}`;
+}
+
+/**
+ * Idempotency key for releasing a milestone's escrow
+ * Stable across retries and repeated taps so a milestone is never paid twice.
+ */
+export function getReleaseIdempotencyKey(contractId: string, milestoneId: string): string {
+  return `release-${contractId}-${milestoneId}`;
+}
+
+/**
+ * Label for an auto-release window ("3 days", "2 weeks")
+ */
+export function formatAutoReleaseWindow(hours: number): string {
+  const days = Math.round(hours / 24);
+  if (days % 7 === 0) {
+    const weeks = days / 7;
+    return `${weeks} week${weeks === 1 ? '' : 's'}`;
+  }
+  return `${days} day${days === 1 ? '' : 's'}`;
+}
+
+// ==================
+// Validation
+// ==================
+
+/**
+ * Check milestones can be created
+ * @returns A message for the user, or null when the milestones are valid
+ */
+export function validateMilestones(milestones: ContractMilestoneInput[]): string | null {
+  if (milestones.length === 0) {
+    return 'Add at least one milestone';
+  }
+  for (let i = 0; i < milestones.length; i++) {
+    const title = milestones[i].title.trim();
+    if (!title) return `Milestone ${i + 1} needs a description`;
+    if (!(milestones[i].amount > 0)) return `Enter an amount for ${title}`;
+  }
+  return null;
+}
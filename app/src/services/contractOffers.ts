@@ -0,0 +1,193 @@
+/**
+ * Contract Offers
+ *
+ * Negotiation of a proposed two-party contract. Instead of accepting or
+ * declining, the counterparty can counter with different stakes, expiry or
+ * prediction. Every proposal is a revision in the contract's negotiation
+ * thread (revision 1 is the original). The other side accepts the latest
+ * revision or counters again, so the creator always sees exactly what
+ * changed before re-accepting.
+ */
+
+import { toAmount, zeroMoney } from './money';
+import { isPoolContract } from './contractPools';
+import { isMilestoneContractType } from './contractMilestones';
+import type {
+  Contract,
+  ContractOffer,
+  ContractOfferStatus,
+  ContractParty,
+  ContractTerms,
+  CounterOfferRequest,
+  Money,
+} from '../types';
+
+/**
+ * Expiry choices for a counter-offer, in hours from now
+ */
+export const COUNTER_EXPIRY_OPTIONS = [24, 72, 168];
+
+/**
+ * Offer status display info
+ */
+export const OFFER_STATUS_INFO: Record<ContractOfferStatus, { label: string; color: string }> = {
+  pending: { label: 'Awaiting response', color: '#F59E0B' },
+  accepted: { label: 'Accepted', color: '#10B981' },
+  superseded: { label: 'Countered', color: '#6B7280' },
+};
+
+export type TermField = keyof ContractTerms;
+
+export interface TermChange {
+  field: TermField;
+  from?: Money | string;
+  to?: Money | string;
+}
+
+// ==================
+// Terms
+// ==================
+
+/**
+ * Terms as proposed when the contract was created
+ * Contracts from before negotiation have no thread; their parties hold the terms.
+ */
+export function getOriginalTerms(contract: Pick<Contract, 'parties' | 'expiresAt' | 'offers' | 'currency'>): ContractTerms {
+  const original = contract.offers?.[0];
+  if (original) return original.terms;
+
+  const creator = contract.parties.find((p) => p.role === 'creator');
+  const counterparty = contract.parties.find((p) => p.role === 'counterparty');
+  return {
+    creatorStake: creator?.stake || zeroMoney(contract.currency),
+    counterpartyStake: counterparty?.stake || zeroMoney(contract.currency),
+    expiresAt: contract.expiresAt,
+    prediction: creator?.prediction,
+  };
+}
+
+/**
+ * Terms of the latest revision
+ */
+export function getCurrentTerms(contract: Pick<Contract, 'parties' | 'expiresAt' | 'offers' | 'currency'>): ContractTerms {
+  const offers = contract.offers || [];
+  return offers.length > 0 ? offers[offers.length - 1].terms : getOriginalTerms(contract);
+}
+
+/**
+ * What changed between two sets of terms
+ */
+export function diffTerms(before: ContractTerms, after: ContractTerms): TermChange[] {
+  const changes: TermChange[] = [];
+
+  for (const field of ['creatorStake', 'counterpartyStake'] as const) {
+    if (before[field].minor !== after[field].minor) {
+      changes.push({ field, from: before[field], to: after[field] });
+    }
+  }
+  if (new Date(before.expiresAt).getTime() !== new Date(after.expiresAt).getTime()) {
+    changes.push({ field: 'expiresAt', from: before.expiresAt, to: after.expiresAt });
+  }
+  if ((before.prediction || '').trim() !== (after.prediction || '').trim()) {
+    changes.push({ field: 'prediction', from: before.prediction, to: after.prediction });
+  }
+  return changes;
+}
+
+/**
+ * What a revision changed from the one before it
+ */
+export function getOfferChanges(contract: Pick<Contract, 'offers'>, offer: ContractOffer): TermChange[] {
+  const previous = (contract.offers || []).filter((o) => o.revision < offer.revision).pop();
+  return previous ? diffTerms(previous.terms, offer.terms) : [];
+}
+
+// ==================
+// Negotiation State
+// ==================
+
+/**
+ * The counter-offer waiting for a response, if any
+ */
+export function getPendingOffer(contract: Pick<Contract, 'offers'>): ContractOffer | undefined {
+  const offers = contract.offers || [];
+  const latest = offers[offers.length - 1];
+  return latest && latest.revision > 1 && latest.status === 'pending' ? latest : undefined;
+}
+
+/**
+ * Whether the other side countered and the user needs to accept or counter back
+ */
+export function isAwaitingMyResponse(
+  contract: Pick<Contract, 'status' | 'offers'>,
+  myParty: Pick<ContractParty, 'id'> | undefined
+): boolean {
+  const pending = getPendingOffer(contract);
+  return !!myParty && !!pending && pending.partyId !== myParty.id && contract.status?.toLowerCase() === 'proposed';
+}
+
+/**
+ * Whether the user can propose different terms right now
+ * Only two-party oracle contracts are negotiated: the counterparty can
+ * counter the proposal, and the creator can counter back a counter-offer.
+ */
+export function canCounterOffer(
+  contract: Pick<Contract, 'status' | 'type' | 'parties' | 'offers'>,
+  myParty: Pick<ContractParty, 'id' | 'role' | 'accepted'> | undefined
+): boolean {
+  if (!myParty || contract.status?.toLowerCase() !== 'proposed') return false;
+  if (isPoolContract(contract) || isMilestoneContractType(contract.type)) return false;
+
+  const pending = getPendingOffer(contract);
+  if (myParty.role === 'creator') {
+    return !!pending && pending.partyId !== myParty.id;
+  }
+  return myParty.role === 'counterparty' && !myParty.accepted && pending?.partyId !== myParty.id;
+}
+
+// ==================
+// Counter-Offers
+// ==================
+
+/**
+ * Check a counter-offer can be sent
+ * @returns A message for the user, or null when the counter-offer is valid
+ */
+export function validateCounterOffer(
+  current: ContractTerms,
+  proposed: ContractTerms,
+  now: Date = new Date()
+): string | null {
+  if (!(proposed.creatorStake.minor > 0) || !(proposed.counterpartyStake.minor > 0)) {
+    return 'Both stakes must be more than zero';
+  }
+  if (new Date(proposed.expiresAt).getTime() <= now.getTime()) {
+    return 'Choose an expiry in the future';
+  }
+  if (diffTerms(current, proposed).length === 0) {
+    return 'Change at least one term';
+  }
+  return null;
+}
+
+/**
+ * Request with only the terms that changed
+ */
+export function toCounterOfferRequest(
+  current: ContractTerms,
+  proposed: ContractTerms,
+  message?: string
+): CounterOfferRequest {
+  const request: CounterOfferRequest = {};
+  for (const change of diffTerms(current, proposed)) {
+    if (change.field === 'creatorStake' || change.field === 'counterpartyStake') {
+      request[change.field] = toAmount(proposed[change.field]);
+    } else {
+      request[change.field] = proposed[change.field]?.trim();
+    }
+  }
+  if (message?.trim()) {
+    request.message = message.trim();
+  }
+  return request;
+}
@@ -0,0 +1,184 @@
+/**
+ * Contract Pools
+ *
+ * Helpers for multi-party contracts ("pools"): a creator plus any number of
+ * participants, each with their own stake and prediction, funded
+ * independently. The server settles pools; these helpers show what each
+ * party stands to win, track acceptance and funding, and check a pool before
+ * it is created.
+ *
+ * Payouts are allocated on integer minor units, so they always add up to
+ * exactly the pot.
+ */
+
+import { normalizeCurrency } from './currency';
+import { allocateMoney, splitMoney, sumMoney, zeroMoney } from './money';
+import type {
+  Contract,
+  ContractParticipantInput,
+  ContractParty,
+  ContractPayout,
+  Money,
+  SettlementType,
+} from '../types';
+
+// Pools need at least this many people besides the creator
+export const MIN_POOL_PARTICIPANTS = 2;
+
+export interface PoolProgress {
+  acceptedCount: number;
+  fundedCount: number;
+  partyCount: number;
+}
+
+// ==================
+// Parties
+// ==================
+
+/**
+ * The user's own party
+ * Pools have several participants, so myPartyId is preferred over myRole.
+ */
+export function getMyParty(contract: Pick<Contract, 'parties' | 'myRole' | 'myPartyId'>): ContractParty | undefined {
+  if (contract.myPartyId) {
+    return contract.parties.find((party) => party.id === contract.myPartyId);
+  }
+  return contract.parties.find((party) => party.role === contract.myRole);
+}
+
+/**
+ * Whether the contract has more than two sides
+ */
+export function isPoolContract(contract: Pick<Contract, 'parties'>): boolean {
+  return contract.parties.length > 2 || contract.parties.some((party) => party.role === 'participant');
+}
+
+// ==================
+// Payouts
+// ==================
+
+/**
+ * Split the pot between the winning parties
+ *
+ * winner_takes_all shares the pot evenly, proportional by stake and custom
+ * by each winner's agreed payout share. With no winners every party gets
+ * their stake back.
+ */
+export function calculatePoolPayouts(
+  contract: Pick<Contract, 'parties' | 'settlementType' | 'currency'>,
+  winnerIds: string[]
+): ContractPayout[] {
+  const currency = normalizeCurrency(contract.currency);
+  const stakes = contract.parties.map((party) => party.stake);
+  const winners = contract.parties.filter((party) => winnerIds.includes(party.id));
+
+  if (winners.length === 0) {
+    return contract.parties.map((party) => ({ partyId: party.id, amount: party.stake }));
+  }
+
+  const pot = sumMoney(stakes, currency);
+  let shares: Money[];
+  switch (contract.settlementType) {
+    case 'proportional':
+      shares = allocateMoney(pot, winners.map((party) => party.stake.minor));
+      break;
+    case 'custom':
+      shares = allocateMoney(pot, winners.map((party) => party.payoutShare ?? 0));
+      break;
+    default:
+      shares = splitMoney(pot, winners.length);
+  }
+
+  return winners.map((party, index) => ({ partyId: party.id, amount: shares[index] }));
+}
+
+/**
+ * What a party would win if their prediction is right
+ * Everyone who made the same prediction wins with them.
+ *
+ * @returns The payout, or null before the party has made a prediction
+ */
+export function getProjectedPayout(
+  contract: Pick<Contract, 'parties' | 'settlementType' | 'currency'>,
+  partyId: string
+): Money | null {
+  const prediction = normalizePrediction(contract.parties.find((party) => party.id === partyId)?.prediction);
+  if (!prediction) return null;
+
+  const winnerIds = contract.parties
+    .filter((party) => normalizePrediction(party.prediction) === prediction)
+    .map((party) => party.id);
+  return calculatePoolPayouts(contract, winnerIds).find((payout) => payout.partyId === partyId)?.amount
+    ?? zeroMoney(contract.currency);
+}
+
+function normalizePrediction(prediction: string | undefined): string {
+  return (prediction || '').trim().toLowerCase();
+}
+
+// ==================
+// Progress
+// ==================
+
+export function getPoolProgress(contract: Pick<Contract, 'parties'>): PoolProgress {
+  return {
+    acceptedCount: contract.parties.filter((party) => party.accepted).length,
+    fundedCount: contract.parties.filter((party) => party.funded).length,
+    partyCount: contract.parties.length,
+  };
+}
+
+/**
+ * One-line summary for the roster ("4 of 5 accepted · 2 funded")
+ */
+export function describePoolProgress(contract: Pick<Contract, 'parties'>): string {
+  const progress = getPoolProgress(contract);
+  if (progress.fundedCount === progress.partyCount) {
+    return 'Everyone has funded';
+  }
+  return `${progress.acceptedCount} of ${progress.partyCount} accepted · ${progress.fundedCount} funded`;
+}
+
+// ==================
+// Validation
+// ==================
+
+/**
+ * Check a pool can be created
+ * @returns A message for the user, or null when the pool is valid
+ */
+export function validatePool(input: {
+  participants: ContractParticipantInput[];
+  settlementType: SettlementType;
+  myStake: number;
+  myPayoutShare?: number;
+}): string | null {
+  if (input.participants.length < MIN_POOL_PARTICIPANTS) {
+    return `Add at least ${MIN_POOL_PARTICIPANTS} people to the pool`;
+  }
+
+  const seen = new Set<string>();
+  for (const participant of input.participants) {
+    const alias = participant.alias.trim().toLowerCase();
+    if (!alias) return 'Every participant needs an alias';
+    if (seen.has(alias)) return `${participant.alias} is in the pool twice`;
+    seen.add(alias);
+  }
+
+  const stakes = [input.myStake, ...input.participants.map((p) => p.stake)];
+  if (stakes.some((stake) => !(stake > 0))) {
+    return 'Everyone needs a stake';
+  }
+
+  if (input.settlementType === 'custom') {
+    const shares = [input.myPayoutShare, ...input.participants.map((p) => p.payoutShare)];
+    if (shares.some((share) => share === undefined || !(share >= 0))) {
+      return 'Everyone needs a payout share';
+    }
+    const total = shares.reduce((sum: number, share) => sum + (share as number), 0);
+    if (Math.abs(total - 100) > 0.001) {
+      return `Payout shares must add up to 100% (currently ${total}%)`;
+    }
+  }
+  return null;
+}
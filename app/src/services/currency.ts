@@ -0,0 +1,214 @@
+/**
+ * Currency
+ *
+ * Money in mwsim follows the currency of the bank account it moves through
+ * (`BankAccount.currency`). Amounts stay plain numbers in the API, but every
+ * rounding and comparison here goes through integer minor units (cents, or
+ * whole yen for zero-decimal currencies) so floating point never leaks into
+ * what users see or what we send.
+ *
+ * When the sender's and recipient's currencies differ, TransferSim converts
+ * at an FX quote fetched before confirmation (`transferSimApi.getFxQuote()`).
+ */
+
+import type { FxQuote } from '../types';
+
+export const DEFAULT_CURRENCY = 'CAD';
+
+/** Currencies the app formats and validates (TransferSim accepts any ISO code) */
+export const SUPPORTED_CURRENCIES: { code: string; name: string }[] = [
+  { code: 'CAD', name: 'Canadian Dollar' },
+  { code: 'USD', name: 'US Dollar' },
+  { code: 'EUR', name: 'Euro' },
+  { code: 'GBP', name: 'British Pound' },
+  { code: 'JPY', name: 'Japanese Yen' },
+];
+
+// ISO 4217 minor units for currencies that don't use two decimals
+const MINOR_UNIT_DIGITS: Record<string, number> = {
+  JPY: 0,
+  KRW: 0,
+  CLP: 0,
+  ISK: 0,
+  BHD: 3,
+  KWD: 3,
+  JOD: 3,
+  OMR: 3,
+  TND: 3,
+};
+
+/**
+ * Uppercase ISO code, or the default when missing or malformed
+ */
+export function normalizeCurrency(currency: string | null | undefined): string {
+  const code = typeof currency === 'string' ? currency.trim().toUpperCase() : '';
+  return /^[A-Z]{3}$/.test(code) ? code : DEFAULT_CURRENCY;
+}
+
+/**
+ * Currency of a bank account (CAD when the bank doesn't say)
+ */
+export function getAccountCurrency(account: { currency?: string } | null | undefined): string {
+  return normalizeCurrency(account?.currency);
+}
+
+export function getCurrencyDecimals(currency: string): number {
+  return MINOR_UNIT_DIGITS[normalizeCurrency(currency)] ?? 2;
+}
+
+// ==================
+// Minor Units
+// ==================
+
+export function toMinorUnits(amount: number, currency: string): number {
+  return Math.round(amount * 10 ** getCurrencyDecimals(currency));
+}
+
+export function fromMinorUnits(minor: number, currency: string): number {
+  return minor / 10 ** getCurrencyDecimals(currency);
+}
+
+/**
+ * Round an amount to the currency's smallest unit
+ */
+export function roundToCurrency(amount: number, currency: string): number {
+  return fromMinorUnits(toMinorUnits(amount, currency), currency);
+}
+
+// ==================
+// Formatting & Parsing
+// ==================
+
+/**
+ * Format an amount for display ("$12.50", "US$12.50", "JP¥1,250")
+ */
+export function formatMoney(amount: number, currency: string = DEFAULT_CURRENCY): string {
+  const code = normalizeCurrency(currency);
+  const decimals = getCurrencyDecimals(code);
+  return new Intl.NumberFormat('en-CA', {
+    style: 'currency',
+    currency: code,
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+  }).format(amount);
+}
+
+/**
+ * Symbol shown in front of amount inputs ("$", "US$", "€")
+ */
+export function getCurrencySymbol(currency: string = DEFAULT_CURRENCY): string {
+  const parts = new Intl.NumberFormat('en-CA', {
+    style: 'currency',
+    currency: normalizeCurrency(currency),
+  }).formatToParts(0);
+  return parts.find((part) => part.type === 'currency')?.value || normalizeCurrency(currency);
+}
+
+/**
+ * Parse a typed amount ("12", "12.5", "1,250.00")
+ * @returns The amount, or null when the text isn't a number
+ */
+export function parseAmount(text: string): number | null {
+  const cleaned = text.replace(/,/g, '').trim();
+  if (!/^\d*\.?\d*$/.test(cleaned) || cleaned === '' || cleaned === '.') return null;
+  return Number(cleaned);
+}
+
+/**
+ * Validate a typed amount for a currency
+ * @returns Error message, or null when the amount can be sent
+ */
+export function validateAmount(text: string, currency: string, maxAmount?: number): string | null {
+  const amount = parseAmount(text);
+  if (amount === null || amount <= 0) {
+    return 'Please enter a valid amount';
+  }
+  const decimals = getCurrencyDecimals(currency);
+  const [, fraction = ''] = text.replace(/,/g, '').trim().split('.');
+  if (fraction.length > decimals) {
+    return decimals === 0
+      ? `${normalizeCurrency(currency)} amounts can't include cents`
+      : `${normalizeCurrency(currency)} amounts can have at most ${decimals} decimal places`;
+  }
+  if (maxAmount !== undefined && toMinorUnits(amount, currency) > toMinorUnits(maxAmount, currency)) {
+    return `The most you can send is ${formatMoney(maxAmount, currency)}`;
+  }
+  return null;
+}
+
+// ==================
+// FX
+// ==================
+
+/**
+ * Whether money between these currencies needs an FX quote
+ */
+export function needsConversion(fromCurrency: string | undefined, toCurrency: string | undefined): boolean {
+  if (!fromCurrency || !toCurrency) return false;
+  return normalizeCurrency(fromCurrency) !== normalizeCurrency(toCurrency);
+}
+
+/**
+ * Amount in the target currency at a rate, rounded to its smallest unit
+ */
+export function convertAmount(amount: number, rate: number, toCurrency: string): number {
+  return roundToCurrency(amount * rate, toCurrency);
+}
+
+/**
+ * Rate line for a quote ("1 CAD = 0.7312 USD")
+ */
+export function formatFxRate(quote: FxQuote): string {
+  return `1 ${quote.fromCurrency} = ${quote.rate.toFixed(4)} ${quote.toCurrency}`;
+}
+
+export function isFxQuoteExpired(quote: FxQuote, now: Date = new Date()): boolean {
+  return new Date(quote.expiresAt).getTime() <= now.getTime();
+}
+
+/**
+ * What to send for a payment priced in another currency (fixed-amount QR codes)
+ * `sendMoney()` takes the source account's currency, so when `quote` converts
+ * the price into the account's currency, the account is charged the quote's
+ * target amount and the tip is converted at the same rate.
+ */
+export function getAccountCharge(
+  amount: number,
+  tipAmount: number,
+  currency: string,
+  accountCurrency: string,
+  quote: FxQuote | null
+): { amount: number; tipAmount: number; currency: string } {
+  if (!quote || !needsConversion(currency, accountCurrency)) {
+    return { amount, tipAmount, currency: normalizeCurrency(currency) };
+  }
+  const charged = quote.targetAmount;
+  return {
+    amount: charged,
+    tipAmount: Math.min(convertAmount(tipAmount, quote.rate, accountCurrency), charged),
+    currency: normalizeCurrency(accountCurrency),
+  };
+}
+
+/**
+ * Validate an FX quote from the API
+ * @returns The quote, or null if it can't be shown (no usable rate)
+ */
+export function sanitizeFxQuote(raw: unknown, fromCurrency: string, toCurrency: string, amount: number): FxQuote | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const data = raw as Record<string, unknown>;
+  const rate = Number(data.rate);
+  if (!Number.isFinite(rate) || rate <= 0) return null;
+  const targetAmount = Number(data.targetAmount);
+  return {
+    quoteId: typeof data.quoteId === 'string' ? data.quoteId : '',
+    fromCurrency: normalizeCurrency((data.fromCurrency as string) || fromCurrency),
+    toCurrency: normalizeCurrency((data.toCurrency as string) || toCurrency),
+    rate,
+    sourceAmount: roundToCurrency(Number(data.sourceAmount) || amount, fromCurrency),
+    targetAmount: Number.isFinite(targetAmount) && targetAmount > 0
+      ? roundToCurrency(targetAmount, toCurrency)
+      : convertAmount(amount, rate, toCurrency),
+    expiresAt: typeof data.expiresAt === 'string' ? data.expiresAt : new Date(Date.now() + 60_000).toISOString(),
+  };
+}
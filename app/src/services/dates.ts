@@ -0,0 +1,33 @@
+/**
+ * Dates
+ *
+ * Calendar dates as YYYY-MM-DD strings in the device's local time, for
+ * schedules, export ranges and daily analytics. Plain strings compare in date
+ * order and don't shift a day when serialized, unlike Date objects at midnight.
+ */
+
+/**
+ * Format a Date as a local calendar date (YYYY-MM-DD)
+ */
+export function toDateString(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
+
+/**
+ * Parse a YYYY-MM-DD string as a local calendar date
+ */
+export function parseDateString(value: string): Date {
+  const [y, m, d] = value.split('-').map(Number);
+  return new Date(y, m - 1, d);
+}
+
+/**
+ * Check a YYYY-MM-DD string is a real calendar date
+ */
+export function isValidDateString(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  return toDateString(parseDateString(value)) === value;
+}
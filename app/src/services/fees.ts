@@ -0,0 +1,184 @@
+/**
+ * Fee Schedules
+ *
+ * Micro Merchant processing fees are defined by a fee schedule fetched from
+ * TransferSim (`transferSimApi.getFeeSchedule()`), which registers it here as
+ * the active schedule. Until then, or when the fetch fails, the local fallback
+ * table applies: $0.25 under $200 and $0.50 from $200.
+ *
+ * A schedule is a list of tiers by gross amount. Each tier can charge a flat
+ * fee, a percentage, or both, with an optional minimum and cap, so flat,
+ * percentage, tiered and capped pricing are all expressed the same way.
+ * Categories can override the default tiers.
+ */
+
+import type { FeeSchedule, FeeTier, MerchantCategory } from '../types';
+import { addMoney, maxMoney, minMoney, money, percentOf, toAmount } from './money';
+import { DEFAULT_CURRENCY, formatMoney } from './currency';
+
+/** Local fallback, matching TransferSim's launch pricing */
+export const DEFAULT_FEE_SCHEDULE: FeeSchedule = {
+  scheduleId: 'default',
+  currency: 'CAD',
+  tiers: [
+    { minAmount: 0, flat: 0.25 },
+    { minAmount: 200, flat: 0.5 },
+  ],
+};
+
+let activeSchedule: FeeSchedule = DEFAULT_FEE_SCHEDULE;
+
+const isNonNegative = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+// ==================
+// Calculation
+// ==================
+
+/**
+ * Tiers that apply to a category (its override, or the defaults)
+ */
+export function getFeeTiers(schedule: FeeSchedule, category?: MerchantCategory): FeeTier[] {
+  const override = category ? schedule.categoryTiers?.[category] : undefined;
+  return override && override.length > 0 ? override : schedule.tiers;
+}
+
+/**
+ * Tier for a gross amount: the last tier whose minAmount is at or below it
+ */
+export function findFeeTier(amount: number, tiers: FeeTier[]): FeeTier | undefined {
+  let match: FeeTier | undefined;
+  for (const tier of tiers) {
+    if (amount >= tier.minAmount) match = tier;
+  }
+  return match;
+}
+
+/**
+ * Processing fee for a gross payment amount
+ * Never more than the payment itself; amounts of zero or less have no fee.
+ */
+export function calculateFee(amount: number, schedule: FeeSchedule, category?: MerchantCategory): number {
+  if (!(amount > 0)) return 0;
+  const tier = findFeeTier(amount, getFeeTiers(schedule, category));
+  if (!tier) return 0;
+  const gross = money(amount, schedule.currency);
+  let fee = addMoney(money(tier.flat || 0, schedule.currency), percentOf(gross, tier.percentage || 0));
+  if (tier.minFee !== undefined) fee = maxMoney(fee, money(tier.minFee, schedule.currency));
+  if (tier.maxFee !== undefined) fee = minMoney(fee, money(tier.maxFee, schedule.currency));
+  return toAmount(minMoney(fee, gross));
+}
+
+// ==================
+// Display
+// ==================
+
+/**
+ * Short description of a tier's pricing ("$0.25", "2.9% + $0.30, max $5.00")
+ */
+export function describeFeeTier(tier: FeeTier, currency: string = DEFAULT_CURRENCY): string {
+  const parts: string[] = [];
+  if (tier.percentage) parts.push(`${tier.percentage}%`);
+  if (tier.flat || parts.length === 0) parts.push(formatMoney(tier.flat || 0, currency));
+  let text = parts.join(' + ');
+  if (tier.minFee !== undefined) text += `, min ${formatMoney(tier.minFee, currency)}`;
+  if (tier.maxFee !== undefined) text += `, max ${formatMoney(tier.maxFee, currency)}`;
+  return text;
+}
+
+/**
+ * One labelled row per tier, for fee tables ("Under $200.00" → "$0.25/transaction")
+ */
+export function describeFeeSchedule(
+  schedule: FeeSchedule,
+  category?: MerchantCategory
+): { label: string; value: string }[] {
+  const tiers = [...getFeeTiers(schedule, category)].sort((a, b) => a.minAmount - b.minAmount);
+  const format = (amount: number) => formatMoney(amount, schedule.currency);
+  return tiers.map((tier, index) => {
+    const next = tiers[index + 1];
+    const label = tiers.length === 1
+      ? 'Every payment'
+      : index === 0 && tier.minAmount === 0
+        ? `Under ${format(next.minAmount)}`
+        : next
+          ? `${format(tier.minAmount)} to under ${format(next.minAmount)}`
+          : `${format(tier.minAmount)} or more`;
+    const description = describeFeeTier(tier, schedule.currency);
+    const value = tier.percentage ? description : `${description}/transaction`;
+    return { label, value };
+  });
+}
+
+// ==================
+// Schedule Validation & Active Schedule
+// ==================
+
+function sanitizeTiers(raw: unknown): FeeTier[] | null {
+  if (!Array.isArray(raw) || raw.length === 0) return null;
+  const tiers: FeeTier[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== 'object') return null;
+    const t = item as Record<string, unknown>;
+    if (!isNonNegative(t.minAmount)) return null;
+    for (const key of ['flat', 'percentage', 'minFee', 'maxFee']) {
+      if (t[key] !== undefined && t[key] !== null && !isNonNegative(t[key])) return null;
+    }
+    tiers.push({
+      minAmount: t.minAmount,
+      flat: (t.flat as number | undefined) ?? undefined,
+      percentage: (t.percentage as number | undefined) ?? undefined,
+      minFee: (t.minFee as number | undefined) ?? undefined,
+      maxFee: (t.maxFee as number | undefined) ?? undefined,
+    });
+  }
+  return tiers.sort((a, b) => a.minAmount - b.minAmount);
+}
+
+/**
+ * Validate a fee schedule from the API
+ * @returns The schedule with tiers sorted, or null if it can't be used (caller falls back)
+ */
+export function sanitizeFeeSchedule(raw: unknown): FeeSchedule | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const data = raw as Record<string, unknown>;
+  const tiers = sanitizeTiers(data.tiers);
+  if (!tiers) return null;
+
+  const categoryTiers: Partial<Record<MerchantCategory, FeeTier[]>> = {};
+  if (data.categoryTiers && typeof data.categoryTiers === 'object') {
+    for (const [category, value] of Object.entries(data.categoryTiers as Record<string, unknown>)) {
+      const sanitized = sanitizeTiers(value);
+      if (sanitized) categoryTiers[category as MerchantCategory] = sanitized;
+    }
+  }
+
+  return {
+    scheduleId: typeof data.scheduleId === 'string' ? data.scheduleId : 'remote',
+    currency: typeof data.currency === 'string' ? data.currency : 'CAD',
+    tiers,
+    categoryTiers: Object.keys(categoryTiers).length > 0 ? categoryTiers : undefined,
+    updatedAt: typeof data.updatedAt === 'string' ? data.updatedAt : undefined,
+  };
+}
+
+/**
+ * Schedule used for fee estimates across the app
+ */
+export function getActiveFeeSchedule(): FeeSchedule {
+  return activeSchedule;
+}
+
+/**
+ * Register the schedule fetched from TransferSim (null restores the fallback)
+ */
+export function setActiveFeeSchedule(schedule: FeeSchedule | null): void {
+  activeSchedule = schedule || DEFAULT_FEE_SCHEDULE;
+}
+
+/**
+ * Fee for a gross amount under the active schedule
+ */
+export function calculateMerchantFee(amount: number, category?: MerchantCategory): number {
+  return calculateFee(amount, activeSchedule, category);
+}
@@ -0,0 +1,270 @@
+/**
+ * History Export Service
+ *
+ * Bookkeeping exports of P2P transfer history and Micro Merchant payment
+ * history. Pages through TransferSim for a date range, writes a CSV or OFX
+ * file to the cache directory and opens the share sheet.
+ *
+ * CSV lists every transfer in the range with its status. OFX is a bank
+ * statement, so it only contains COMPLETED transfers (money that moved);
+ * merchant payments are posted at their net amount with the fee in the memo.
+ */
+
+import { File, Paths } from 'expo-file-system/next';
+import * as Sharing from 'expo-sharing';
+import { transferSimApi } from './transferSim';
+import { parseDateString, toDateString } from './dates';
+import { addMoney, toAmount, zeroMoney } from './money';
+import type { Transfer, TransferWithRecipientType } from '../types';
+
+export type ExportFormat = 'csv' | 'ofx';
+
+/** personal = P2P transfers (sent and received), merchant = Micro Merchant payments received */
+export type HistoryExportSource = 'personal' | 'merchant';
+
+export type ExportRangePreset = 'thisMonth' | 'lastMonth' | 'last30Days' | 'thisYear';
+
+/** Inclusive local calendar dates (YYYY-MM-DD) */
+export interface ExportDateRange {
+  fromDate: string;
+  toDate: string;
+}
+
+/** One transfer, normalized for export */
+export interface ExportRow {
+  transferId: string;
+  createdAt: string;
+  direction: Transfer['direction'];
+  status: Transfer['status'];
+  counterpartyName: string;
+  counterpartyAlias: string;
+  description: string;
+  gross: number;
+  fee: number;
+  net: number;
+  currency: string;
+}
+
+export const EXPORT_RANGE_PRESETS: { value: ExportRangePreset; label: string }[] = [
+  { value: 'thisMonth', label: 'This month' },
+  { value: 'lastMonth', label: 'Last month' },
+  { value: 'last30Days', label: 'Last 30 days' },
+  { value: 'thisYear', label: 'This year' },
+];
+
+const PAGE_SIZE = 100;
+// Safety stop for very busy merchants; bookkeeping exports are expected to be a month or so
+const MAX_EXPORT_ROWS = 5000;
+
+/**
+ * Resolve a preset to an inclusive date range relative to `today`
+ */
+export function getExportDateRange(preset: ExportRangePreset, today: Date = new Date()): ExportDateRange {
+  const year = today.getFullYear();
+  const month = today.getMonth();
+  switch (preset) {
+    case 'thisMonth':
+      return { fromDate: toDateString(new Date(year, month, 1)), toDate: toDateString(today) };
+    case 'lastMonth':
+      return { fromDate: toDateString(new Date(year, month - 1, 1)), toDate: toDateString(new Date(year, month, 0)) };
+    case 'last30Days':
+      return { fromDate: toDateString(new Date(year, month, today.getDate() - 29)), toDate: toDateString(today) };
+    case 'thisYear':
+      return { fromDate: toDateString(new Date(year, 0, 1)), toDate: toDateString(today) };
+  }
+}
+
+// ==================
+// Fetching
+// ==================
+
+async function fetchPersonalTransfers(range: ExportDateRange): Promise<Transfer[]> {
+  const transfers: Transfer[] = [];
+  let offset = 0;
+  while (transfers.length < MAX_EXPORT_ROWS) {
+    const page = await transferSimApi.getTransfers('all', PAGE_SIZE, offset, range);
+    transfers.push(...page.transfers);
+    offset += page.transfers.length;
+    if (page.transfers.length < PAGE_SIZE || offset >= page.total) break;
+  }
+  return transfers;
+}
+
+async function fetchMerchantTransfers(range: ExportDateRange): Promise<TransferWithRecipientType[]> {
+  const transfers = await transferSimApi.getMerchantTransfersSince(parseDateString(range.fromDate), MAX_EXPORT_ROWS);
+  return transfers.filter((t) => toDateString(new Date(t.createdAt)) <= range.toDate);
+}
+
+/**
+ * Normalize transfers for export
+ * Merchant payments: gross = what the payer sent, net = amount credited after fee.
+ */
+export function toExportRows(transfers: (Transfer | TransferWithRecipientType)[], source: HistoryExportSource): ExportRow[] {
+  return transfers.map((transfer) => {
+    const merchantTransfer = transfer as TransferWithRecipientType;
+    const isSent = transfer.direction === 'sent';
+    const amount = transfer.amount;
+    const fee = (source === 'merchant' && merchantTransfer.feeAmount) || zeroMoney(amount.currency);
+    const gross = (source === 'merchant' && merchantTransfer.grossAmount) || addMoney(amount, fee);
+
+    return {
+      transferId: transfer.transferId,
+      createdAt: transfer.createdAt,
+      direction: transfer.direction,
+      status: transfer.status,
+      counterpartyName: (isSent
+        ? merchantTransfer.merchantName || transfer.recipientDisplayName
+        : transfer.senderDisplayName) || '',
+      counterpartyAlias: (isSent ? transfer.recipientAlias : transfer.senderAlias) || '',
+      description: transfer.description || '',
+      gross: toAmount(gross),
+      fee: toAmount(fee),
+      net: toAmount(amount),
+      currency: amount.currency,
+    };
+  });
+}
+
+// ==================
+// File Formats
+// ==================
+
+// Quote fields containing separators
+export const csvField = (value: string): string =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Free text typed by users: also neutralize spreadsheet formulas
+export const csvText = (value: string): string =>
+  csvField(/^[=+\-@]/.test(value) ? `'${value}` : value);
+
+const signed = (row: ExportRow, amount: number): string =>
+  (row.direction === 'sent' ? -amount : amount).toFixed(2);
+
+export function buildCsv(rows: ExportRow[]): string {
+  const header = ['Date', 'Reference', 'Direction', 'Status', 'Counterparty', 'Counterparty Alias', 'Description', 'Gross', 'Fee', 'Net', 'Currency'];
+  const lines = rows.map((row) => [
+    row.createdAt,
+    row.transferId,
+    row.direction,
+    row.status,
+    csvText(row.counterpartyName),
+    csvField(row.counterpartyAlias), // Aliases legitimately start with @
+    csvText(row.description),
+    signed(row, row.gross),
+    row.fee.toFixed(2),
+    signed(row, row.net),
+    row.currency,
+  ].join(','));
+  return [header.join(','), ...lines].join('\r\n') + '\r\n';
+}
+
+// OFX date: YYYYMMDDHHMMSS in UTC
+const ofxDate = (date: Date): string =>
+  date.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+
+// OFX 1.x is SGML; keep element text free of markup characters
+const ofxText = (value: string, maxLength: number): string =>
+  value.replace(/[<>&]/g, ' ').replace(/\s+/g, ' ').trim().slice(0, maxLength);
+
+/**
+ * Build an OFX 1.0.2 bank statement (the format most bookkeeping tools import)
+ */
+export function buildOfx(rows: ExportRow[], range: ExportDateRange, accountId: string): string {
+  const posted = rows.filter((row) => row.status === 'COMPLETED');
+  const currency = rows[0]?.currency || 'CAD';
+  const [fromYear, fromMonth, fromDay] = range.fromDate.split('-').map(Number);
+  const [toYear, toMonth, toDay] = range.toDate.split('-').map(Number);
+
+  const transactions = posted.map((row) => {
+    const memo = [row.description, row.fee > 0 ? `Gross ${row.gross.toFixed(2)} Fee ${row.fee.toFixed(2)}` : '']
+      .filter(Boolean)
+      .join(' - ');
+    return [
+      '<STMTTRN>',
+      `<TRNTYPE>${row.direction === 'sent' ? 'DEBIT' : 'CREDIT'}`,
+      `<DTPOSTED>${ofxDate(new Date(row.createdAt))}`,
+      `<TRNAMT>${signed(row, row.net)}`,
+      `<FITID>${ofxText(row.transferId, 255)}`,
+      `<NAME>${ofxText(row.counterpartyName || row.counterpartyAlias || 'Transfer', 32)}`,
+      memo ? `<MEMO>${ofxText(memo, 255)}` : '',
+      '</STMTTRN>',
+    ].filter(Boolean).join('\n');
+  });
+
+  return [
+    'OFXHEADER:100',
+    'DATA:OFXSGML',
+    'VERSION:102',
+    'SECURITY:NONE',
+    'ENCODING:USASCII',
+    'CHARSET:1252',
+    'COMPRESSION:NONE',
+    'OLDFILEUID:NONE',
+    'NEWFILEUID:NONE',
+    '',
+    '<OFX>',
+    '<SIGNONMSGSRSV1><SONRS>',
+    '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+    `<DTSERVER>${ofxDate(new Date())}`,
+    '<LANGUAGE>ENG',
+    '</SONRS></SIGNONMSGSRSV1>',
+    '<BANKMSGSRSV1><STMTTRNRS>',
+    '<TRNUID>0',
+    '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+    '<STMTRS>',
+    `<CURDEF>${currency}`,
+    `<BANKACCTFROM><BANKID>MWSIM<ACCTID>${ofxText(accountId, 22)}<ACCTTYPE>CHECKING</BANKACCTFROM>`,
+    '<BANKTRANLIST>',
+    `<DTSTART>${ofxDate(new Date(fromYear, fromMonth - 1, fromDay))}`,
+    `<DTEND>${ofxDate(new Date(toYear, toMonth - 1, toDay, 23, 59, 59))}`,
+    ...transactions,
+    '</BANKTRANLIST>',
+    '</STMTRS>',
+    '</STMTTRNRS></BANKMSGSRSV1>',
+    '</OFX>',
+    '',
+  ].join('\n');
+}
+
+// ==================
+// Export
+// ==================
+
+export const historyExportService = {
+  /**
+   * Export history for a date range and open the share sheet
+   *
+   * @param accountId - Identifies the statement account in OFX (e.g. merchant ID or user alias)
+   * @returns Number of transfers exported
+   */
+  async exportHistory(
+    source: HistoryExportSource,
+    format: ExportFormat,
+    range: ExportDateRange,
+    accountId: string = 'MWSIM'
+  ): Promise<number> {
+    const transfers = source === 'merchant'
+      ? await fetchMerchantTransfers(range)
+      : await fetchPersonalTransfers(range);
+    const rows = toExportRows(transfers, source);
+    if (rows.length === 0) {
+      throw new Error('No transactions in this date range');
+    }
+
+    const content = format === 'csv' ? buildCsv(rows) : buildOfx(rows, range, accountId);
+    const file = new File(Paths.cache, `mwsim-${source}-${range.fromDate}-to-${range.toDate}.${format}`);
+    file.create({ overwrite: true });
+    file.write(content);
+    console.log(`[Export] Wrote ${rows.length} ${source} transfers to ${file.uri}`);
+
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing is not available on this device');
+    }
+    await Sharing.shareAsync(file.uri, {
+      mimeType: format === 'csv' ? 'text/csv' : 'application/x-ofx',
+      UTI: format === 'csv' ? 'public.comma-separated-values-text' : 'public.data',
+      dialogTitle: 'Export history',
+    });
+    return rows.length;
+  },
+};
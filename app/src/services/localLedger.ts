@@ -0,0 +1,239 @@
+/**
+ * Local Ledger Service
+ *
+ * Persistent, AsyncStorage-backed copy of the user's transfers, merchant
+ * payments, card payments and contracts. History screens read from the
+ * ledger first so they render instantly (and offline), then reconcile with
+ * WSIM/TransferSim.
+ *
+ * Sync is incremental: each collection keeps a `createdAt` cursor (the newest
+ * record the last sync saw). The server lists records newest-first, so a sync pages
+ * from the top and stops at the first page that reaches the cursor. Records
+ * on those pages are upserted, which also refreshes the status of recent
+ * records (e.g. a transfer moving from PENDING to COMPLETED).
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { api } from './api';
+import { transferSimApi } from './transferSim';
+import { withStorageLock } from './lockedStore';
+import type {
+  Transfer,
+  TransferWithRecipientType,
+  PaymentHistoryItem,
+  ContractListItem,
+} from '../types';
+
+/**
+ * Record types stored per ledger collection
+ * `payments` holds card PaymentRequest records as returned by payment history.
+ */
+export interface LedgerRecordMap {
+  transfers: Transfer;
+  merchantTransfers: TransferWithRecipientType;
+  payments: PaymentHistoryItem;
+  contracts: ContractListItem;
+}
+
+export type LedgerCollection = keyof LedgerRecordMap;
+
+export interface LedgerSyncInfo {
+  cursor: string | null;        // createdAt of the newest record seen by the last sync
+  lastSyncedAt: string | null;  // When the last successful sync finished
+}
+
+export interface LedgerSyncResult<T> {
+  records: T[];
+  added: number;
+}
+
+interface LedgerState<T> extends LedgerSyncInfo {
+  records: T[];
+}
+
+// v2: amounts are stored as Money; v1 records (decimal amounts) are re-synced
+const KEY_PREFIX = 'mwsim_ledger_v2_';
+const LEGACY_KEY_PREFIX = 'mwsim_ledger_';
+const COLLECTIONS: LedgerCollection[] = ['transfers', 'merchantTransfers', 'payments', 'contracts'];
+
+// Keep the on-device copy bounded; older records are still available from the server
+export const MAX_LEDGER_RECORDS = 500;
+const SYNC_PAGE_SIZE = 50;
+
+type PageFetcher<T> = (limit: number, offset: number) => Promise<{ items: T[]; total: number }>;
+
+// Server list endpoints for each collection (all return newest first)
+const FETCHERS: { [K in LedgerCollection]: PageFetcher<LedgerRecordMap[K]> } = {
+  transfers: async (limit, offset) => {
+    const result = await transferSimApi.getTransfers('all', limit, offset);
+    return { items: result.transfers, total: result.total };
+  },
+  merchantTransfers: async (limit, offset) => {
+    const result = await transferSimApi.getMerchantTransfers(limit, offset);
+    return { items: result.transfers, total: result.total };
+  },
+  payments: async (limit, offset) => {
+    const result = await api.getPaymentHistory(limit, offset);
+    return { items: result.payments, total: result.total };
+  },
+  contracts: async (limit, offset) => {
+    const result = await api.getContracts(undefined, limit, offset);
+    return { items: result.contracts, total: result.total };
+  },
+};
+
+const getRecordId = (collection: LedgerCollection, record: LedgerRecordMap[LedgerCollection]): string => {
+  switch (collection) {
+    case 'transfers':
+    case 'merchantTransfers':
+      return (record as Transfer).transferId;
+    case 'payments':
+      return (record as PaymentHistoryItem).requestId;
+    case 'contracts':
+      return (record as ContractListItem).id;
+  }
+};
+
+async function readState<K extends LedgerCollection>(collection: K): Promise<LedgerState<LedgerRecordMap[K]>> {
+  const raw = await AsyncStorage.getItem(KEY_PREFIX + collection);
+  if (raw) {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      console.warn('[Ledger] Corrupt', collection, 'ledger, resetting');
+    }
+  }
+  return { records: [], cursor: null, lastSyncedAt: null };
+}
+
+/**
+ * Read, change and write a collection's state
+ * Queued per collection, so a sync and an upsert never overwrite each other.
+ */
+function updateState<K extends LedgerCollection>(
+  collection: K,
+  change: (state: LedgerState<LedgerRecordMap[K]>) => LedgerState<LedgerRecordMap[K]>
+): Promise<LedgerState<LedgerRecordMap[K]>> {
+  return withStorageLock(KEY_PREFIX + collection, async () => {
+    const state = change(await readState(collection));
+    await AsyncStorage.setItem(KEY_PREFIX + collection, JSON.stringify(state));
+    return state;
+  });
+}
+
+/**
+ * Merge incoming records into existing ones by ID (incoming wins),
+ * newest first, capped at MAX_LEDGER_RECORDS.
+ */
+function mergeRecords<K extends LedgerCollection>(
+  collection: K,
+  existing: LedgerRecordMap[K][],
+  incoming: LedgerRecordMap[K][]
+): { records: LedgerRecordMap[K][]; added: number } {
+  const byId = new Map<string, LedgerRecordMap[K]>();
+  existing.forEach((record) => byId.set(getRecordId(collection, record), record));
+  let added = 0;
+  incoming.forEach((record) => {
+    const id = getRecordId(collection, record);
+    if (!byId.has(id)) added++;
+    byId.set(id, record);
+  });
+  const records = Array.from(byId.values())
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, MAX_LEDGER_RECORDS);
+  return { records, added };
+}
+
+// One sync per collection at a time (each entry syncs the collection it is keyed by)
+const activeSyncs = new Map<LedgerCollection, Promise<LedgerSyncResult<LedgerRecordMap[LedgerCollection]>>>();
+
+export const localLedger = {
+  /**
+   * Get stored records for a collection, newest first
+   */
+  async getRecords<K extends LedgerCollection>(collection: K): Promise<LedgerRecordMap[K][]> {
+    const state = await readState(collection);
+    return state.records;
+  },
+
+  async getSyncInfo(collection: LedgerCollection): Promise<LedgerSyncInfo> {
+    const { cursor, lastSyncedAt } = await readState(collection);
+    return { cursor, lastSyncedAt };
+  },
+
+  /**
+   * Store records fetched elsewhere (e.g. a history screen's own page load)
+   *
+   * Leaves the cursor alone: these may be a filtered subset, so records
+   * between them and the cursor still need to come from syncCollection.
+   */
+  async upsertRecords<K extends LedgerCollection>(collection: K, incoming: LedgerRecordMap[K][]): Promise<void> {
+    if (incoming.length === 0) return;
+    await updateState(collection, (state) => ({
+      ...state,
+      records: mergeRecords(collection, state.records, incoming).records,
+    }));
+  },
+
+  /**
+   * Pull new and recently changed records from the server
+   *
+   * Pages newest-first until a page reaches the stored cursor (or, on the
+   * first sync, until MAX_LEDGER_RECORDS have been fetched).
+   */
+  async syncCollection<K extends LedgerCollection>(collection: K): Promise<LedgerSyncResult<LedgerRecordMap[K]>> {
+    const active = activeSyncs.get(collection) as Promise<LedgerSyncResult<LedgerRecordMap[K]>> | undefined;
+    if (active) {
+      return active;
+    }
+
+    const run = (async (): Promise<LedgerSyncResult<LedgerRecordMap[K]>> => {
+      const state = await readState(collection);
+      const fetchPage = FETCHERS[collection] as PageFetcher<LedgerRecordMap[K]>;
+      const fetched: LedgerRecordMap[K][] = [];
+      let offset = 0;
+
+      while (fetched.length < MAX_LEDGER_RECORDS) {
+        const page = await fetchPage(SYNC_PAGE_SIZE, offset);
+        fetched.push(...page.items);
+        offset += page.items.length;
+
+        const oldestOnPage = page.items[page.items.length - 1]?.createdAt;
+        const reachedCursor = !!state.cursor && !!oldestOnPage && oldestOnPage <= state.cursor;
+        if (page.items.length < SYNC_PAGE_SIZE || offset >= page.total || reachedCursor) {
+          break;
+        }
+      }
+
+      // Merge into the latest state: records may have been upserted while pages were loading
+      let added = 0;
+      const { records } = await updateState(collection, (latest) => {
+        const merged = mergeRecords(collection, latest.records, fetched);
+        added = merged.added;
+        return {
+          records: merged.records,
+          cursor: fetched[0]?.createdAt ?? latest.cursor,
+          lastSyncedAt: new Date().toISOString(),
+        };
+      });
+      console.log(`[Ledger] Synced ${collection}: fetched ${fetched.length}, added ${added}, stored ${records.length}`);
+      return { records, added };
+    })();
+
+    activeSyncs.set(collection, run);
+    try {
+      return await run;
+    } finally {
+      activeSyncs.delete(collection);
+    }
+  },
+
+  /**
+   * Remove all ledger data (logout)
+   */
+  async clearAll(): Promise<void> {
+    await AsyncStorage.multiRemove(
+      COLLECTIONS.flatMap((collection) => [KEY_PREFIX + collection, LEGACY_KEY_PREFIX + collection])
+    );
+  },
+};
@@ -0,0 +1,71 @@
+/**
+ * Locked Store
+ *
+ * A JSON value kept under one AsyncStorage key, updated one writer at a time.
+ *
+ * Services that keep a whole list under a single key read it, change it and
+ * write it back. When two of those updates overlap (a background run awaiting
+ * the network while the user edits the same list), the slower one writes back
+ * its stale copy and the other change is lost. Every update through a locked
+ * store waits for the previous update of the same key to finish and then
+ * works on the latest stored value.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export interface LockedStore<T> {
+  /** Current stored value (the fallback when nothing is stored) */
+  read(): Promise<T>;
+  /** Read, change and write the value without interleaving other updates */
+  update(change: (value: T) => T): Promise<T>;
+  /** Remove the stored value */
+  clear(): Promise<void>;
+}
+
+// Tail of the update queue for each key
+const queues = new Map<string, Promise<unknown>>();
+
+/**
+ * Run `task` after every earlier task for the same key has settled
+ */
+export function withStorageLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const previous = queues.get(key) || Promise.resolve();
+  const run = previous.then(task, task);
+  const tail = run.catch(() => undefined);
+  queues.set(key, tail);
+  tail.then(() => {
+    if (queues.get(key) === tail) {
+      queues.delete(key);
+    }
+  });
+  return run;
+}
+
+/**
+ * Create a locked store for `key`
+ * @param fallback - Value used when nothing (or corrupt JSON) is stored
+ * @param label - Log prefix, e.g. 'ScheduledTransfers'
+ */
+export function createLockedStore<T>(key: string, fallback: () => T, label: string): LockedStore<T> {
+  const read = async (): Promise<T> => {
+    const raw = await AsyncStorage.getItem(key);
+    if (!raw) return fallback();
+    try {
+      return JSON.parse(raw) as T;
+    } catch {
+      console.warn(`[${label}] Corrupt store, resetting`);
+      return fallback();
+    }
+  };
+
+  return {
+    read,
+    update: (change) =>
+      withStorageLock(key, async () => {
+        const next = change(await read());
+        await AsyncStorage.setItem(key, JSON.stringify(next));
+        return next;
+      }),
+    clear: () => withStorageLock(key, () => AsyncStorage.removeItem(key)),
+  };
+}
@@ -0,0 +1,281 @@
+/**
+ * Merchant Analytics Service
+ *
+ * Business-mode analytics computed on the device from the full TransferSim
+ * dashboard response (today / 7 days / 30 days / all time) plus the paged
+ * merchant transaction list: daily revenue, fee and net series, hour-of-day
+ * and day-of-week activity, average ticket, repeat customers and
+ * period-over-period comparison.
+ *
+ * Amounts: `grossAmount` is what the payer sent, `feeAmount` the processing
+ * fee and `amount` the net credited to the merchant. Refunds reduce net.
+ */
+
+import { transferSimApi } from './transferSim';
+import { toDateString } from './dates';
+import { getRefundedAmount } from './refunds';
+import { money, moneyFromMinor, parseMoney, subtractMoney, sumMoney, toAmount, zeroMoney } from './money';
+import type { MerchantDashboardResponse, MerchantPeriodStats, Money, TransferWithRecipientType } from '../types';
+
+export type AnalyticsPeriod = '7d' | '30d' | '90d';
+
+export const ANALYTICS_PERIODS: { value: AnalyticsPeriod; label: string; days: number }[] = [
+  { value: '7d', label: '7 days', days: 7 },
+  { value: '30d', label: '30 days', days: 30 },
+  { value: '90d', label: '90 days', days: 90 },
+];
+
+/** Totals for a set of payments */
+export interface SalesSummary {
+  gross: number;
+  fees: number;
+  refunds: number;
+  net: number;           // Net credited minus refunds
+  transactions: number;
+  averageTicket: number; // Gross per transaction
+}
+
+/** One calendar day in a time series */
+export interface DailySales {
+  date: string;          // YYYY-MM-DD (local)
+  gross: number;
+  fees: number;
+  net: number;
+  transactions: number;
+}
+
+export interface ActivityHeatmap {
+  cells: number[][];     // [dayOfWeek 0=Sunday][hour 0-23] payment counts
+  byHour: number[];      // 24 totals
+  byWeekday: number[];   // 7 totals, Sunday first
+  max: number;           // Largest cell, for colour scaling
+}
+
+export interface RepeatCustomers {
+  uniqueCustomers: number;
+  repeatCustomers: number; // Customers with 2+ payments in the period
+  repeatRate: number;      // 0-1
+}
+
+/** Percentage change vs the previous period, null when there is nothing to compare against */
+export interface PeriodComparison {
+  gross: number | null;
+  net: number | null;
+  transactions: number | null;
+  averageTicket: number | null;
+}
+
+export interface MerchantAnalytics {
+  period: AnalyticsPeriod;
+  current: SalesSummary;
+  previous: SalesSummary;
+  comparison: PeriodComparison;
+  daily: DailySales[];
+  heatmap: ActivityHeatmap;
+  customers: RepeatCustomers;
+  // Server-side totals from the dashboard endpoint
+  today: SalesSummary;
+  last7Days: SalesSummary;
+  last30Days: SalesSummary;
+  allTime: SalesSummary;
+}
+
+// Exact total of decimal amounts (summed in cents)
+const sumAmounts = (values: number[]): Money => sumMoney(values.map((value) => money(value)));
+
+// Average of a total over a count, to the cent
+const averageOf = (total: Money, count: number): number =>
+  count > 0 ? toAmount(moneyFromMinor(total.minor / count, total.currency)) : 0;
+
+const periodDays = (period: AnalyticsPeriod): number =>
+  ANALYTICS_PERIODS.find((p) => p.value === period)?.days ?? 30;
+
+// Completed payments, plus fully refunded ones (still a sale, offset by the refund)
+const isSale = (transfer: TransferWithRecipientType): boolean =>
+  transfer.status === 'COMPLETED' || (transfer.status === 'REVERSED' && getRefundedAmount(transfer) > 0);
+
+const amountOf = (value?: Money): number => (value ? toAmount(value) : 0);
+
+const grossOf = (transfer: TransferWithRecipientType): number =>
+  transfer.grossAmount
+    ? toAmount(transfer.grossAmount)
+    : toAmount(sumAmounts([toAmount(transfer.amount), amountOf(transfer.feeAmount)]));
+
+// ==================
+// Summaries
+// ==================
+
+/**
+ * Convert a dashboard period (decimal strings) into a summary
+ * `totalReceived` is gross; net is gross minus fees.
+ */
+export function summarizePeriodStats(stats?: MerchantPeriodStats): SalesSummary {
+  const gross = parseMoney(stats?.totalReceived) || zeroMoney();
+  const fees = parseMoney(stats?.totalFees) || zeroMoney();
+  const transactions = stats?.totalTransactions ?? 0;
+  return {
+    gross: toAmount(gross),
+    fees: toAmount(fees),
+    refunds: 0,
+    net: toAmount(subtractMoney(gross, fees)),
+    transactions,
+    averageTicket: averageOf(gross, transactions),
+  };
+}
+
+export function summarizeTransfers(transfers: TransferWithRecipientType[]): SalesSummary {
+  const sales = transfers.filter(isSale);
+  const gross = sumAmounts(sales.map(grossOf));
+  const fees = sumAmounts(sales.map((t) => amountOf(t.feeAmount)));
+  const refunds = sumAmounts(sales.map(getRefundedAmount));
+  const credited = sumAmounts(sales.map((t) => toAmount(t.amount)));
+  return {
+    gross: toAmount(gross),
+    fees: toAmount(fees),
+    refunds: toAmount(refunds),
+    net: toAmount(subtractMoney(credited, refunds)),
+    transactions: sales.length,
+    averageTicket: averageOf(gross, sales.length),
+  };
+}
+
+/**
+ * Percentage change from previous to current (e.g. 25 for +25%)
+ */
+export function percentChange(current: number, previous: number): number | null {
+  if (previous === 0) return null;
+  return Math.round(((current - previous) / previous) * 1000) / 10;
+}
+
+export function comparePeriods(current: SalesSummary, previous: SalesSummary): PeriodComparison {
+  return {
+    gross: percentChange(current.gross, previous.gross),
+    net: percentChange(current.net, previous.net),
+    transactions: percentChange(current.transactions, previous.transactions),
+    averageTicket: percentChange(current.averageTicket, previous.averageTicket),
+  };
+}
+
+// ==================
+// Series & Distributions
+// ==================
+
+/**
+ * Daily totals for `days` local calendar days ending on `endDate` (inclusive), oldest first
+ * Days without payments are included with zeros so charts keep their spacing.
+ */
+export function buildDailySeries(transfers: TransferWithRecipientType[], days: number, endDate: Date): DailySales[] {
+  const series: DailySales[] = [];
+  const byDate = new Map<string, DailySales>();
+  for (let i = days - 1; i >= 0; i--) {
+    const date = toDateString(new Date(endDate.getFullYear(), endDate.getMonth(), endDate.getDate() - i));
+    const day: DailySales = { date, gross: 0, fees: 0, net: 0, transactions: 0 };
+    series.push(day);
+    byDate.set(date, day);
+  }
+  for (const transfer of transfers.filter(isSale)) {
+    const day = byDate.get(toDateString(new Date(transfer.createdAt)));
+    if (!day) continue;
+    day.gross = toAmount(sumAmounts([day.gross, grossOf(transfer)]));
+    day.fees = toAmount(sumAmounts([day.fees, amountOf(transfer.feeAmount)]));
+    day.net = toAmount(subtractMoney(
+      sumAmounts([day.net, toAmount(transfer.amount)]),
+      money(getRefundedAmount(transfer))
+    ));
+    day.transactions += 1;
+  }
+  return series;
+}
+
+/**
+ * Payment counts by local day of week and hour of day
+ */
+export function buildActivityHeatmap(transfers: TransferWithRecipientType[]): ActivityHeatmap {
+  const cells = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+  for (const transfer of transfers.filter(isSale)) {
+    const date = new Date(transfer.createdAt);
+    cells[date.getDay()][date.getHours()] += 1;
+  }
+  const byHour = Array.from({ length: 24 }, (_, hour) => cells.reduce((sum, row) => sum + row[hour], 0));
+  const byWeekday = cells.map((row) => row.reduce((sum, count) => sum + count, 0));
+  return { cells, byHour, byWeekday, max: Math.max(0, ...cells.map((row) => Math.max(...row))) };
+}
+
+/**
+ * Unique and repeat customers, identified by the payer's alias
+ * Payments without a sender alias are not counted.
+ */
+export function countRepeatCustomers(transfers: TransferWithRecipientType[]): RepeatCustomers {
+  const counts = new Map<string, number>();
+  for (const transfer of transfers.filter(isSale)) {
+    const alias = transfer.senderAlias?.trim().toLowerCase();
+    if (!alias) continue;
+    counts.set(alias, (counts.get(alias) || 0) + 1);
+  }
+  const uniqueCustomers = counts.size;
+  const repeatCustomers = [...counts.values()].filter((count) => count >= 2).length;
+  return {
+    uniqueCustomers,
+    repeatCustomers,
+    repeatRate: uniqueCustomers > 0 ? repeatCustomers / uniqueCustomers : 0,
+  };
+}
+
+/**
+ * Build analytics for a period ending `now`, compared with the period before it
+ */
+export function computeMerchantAnalytics(
+  dashboard: MerchantDashboardResponse,
+  transfers: TransferWithRecipientType[],
+  period: AnalyticsPeriod,
+  now: Date = new Date()
+): MerchantAnalytics {
+  const days = periodDays(period);
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const currentStart = new Date(today.getFullYear(), today.getMonth(), today.getDate() - (days - 1));
+  const previousStart = new Date(today.getFullYear(), today.getMonth(), today.getDate() - (2 * days - 1));
+
+  const inRange = (transfer: TransferWithRecipientType, from: Date, to: Date) => {
+    const createdAt = new Date(transfer.createdAt);
+    return createdAt >= from && createdAt < to;
+  };
+  const currentTransfers = transfers.filter((t) => inRange(t, currentStart, new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1)));
+  const previousTransfers = transfers.filter((t) => inRange(t, previousStart, currentStart));
+
+  const current = summarizeTransfers(currentTransfers);
+  const previous = summarizeTransfers(previousTransfers);
+
+  return {
+    period,
+    current,
+    previous,
+    comparison: comparePeriods(current, previous),
+    daily: buildDailySeries(currentTransfers, days, today),
+    heatmap: buildActivityHeatmap(currentTransfers),
+    customers: countRepeatCustomers(currentTransfers),
+    today: summarizePeriodStats(dashboard.today),
+    last7Days: summarizePeriodStats(dashboard.last7Days),
+    last30Days: summarizePeriodStats(dashboard.last30Days),
+    allTime: summarizePeriodStats(dashboard.allTime),
+  };
+}
+
+// ==================
+// Loading
+// ==================
+
+export const merchantAnalyticsService = {
+  /**
+   * Load analytics for a period (fetches the current and previous period's transactions)
+   */
+  async load(period: AnalyticsPeriod, now: Date = new Date()): Promise<MerchantAnalytics> {
+    const days = periodDays(period);
+    const since = new Date(now.getFullYear(), now.getMonth(), now.getDate() - (2 * days - 1));
+    const [dashboard, transfers] = await Promise.all([
+      transferSimApi.getMerchantDashboard(),
+      transferSimApi.getMerchantTransfersSince(since),
+    ]);
+    console.log(`[Analytics] Loaded ${transfers.length} merchant transfers for ${period}`);
+    return computeMerchantAnalytics(dashboard, transfers, period, now);
+  },
+};
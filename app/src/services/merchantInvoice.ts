@@ -0,0 +1,105 @@
+/**
+ * Merchant Invoice Service
+ *
+ * Builds itemized invoices for Micro Merchants. The invoice is an
+ * `OrderDetails` (the same structure card payment requests use) that rides
+ * on a merchant receive token, so the payer sees the line items in
+ * `OrderSummary` before paying. The token amount is the invoice total.
+ */
+
+import type { Money, OrderDetails, OrderLineItem, OrderDiscount } from '../types';
+import { maxMoney, money, multiplyMoney, subtractMoney, sumMoney, toAmount, zeroMoney } from './money';
+
+/** Current orderDetails schema version sent with invoices */
+export const INVOICE_ORDER_DETAILS_VERSION = 1;
+
+export interface InvoiceInput {
+  items: OrderLineItem[];
+  taxRate?: number;        // 0.13 for 13%
+  taxLabel?: string;       // "HST", "GST"
+  discounts?: OrderDiscount[];
+}
+
+// Sum of decimal amounts, in cents
+const sumAmounts = (values: number[]): Money => sumMoney(values.map((value) => money(value)));
+
+/**
+ * Sum of quantity × unit price across line items (each line rounded to the cent)
+ */
+export function calculateSubtotal(items: OrderLineItem[]): number {
+  return toAmount(sumMoney(items.map((item) => multiplyMoney(money(item.unitPrice), item.quantity))));
+}
+
+/**
+ * Build the OrderDetails carried by the invoice token
+ * Tax applies to the subtotal after discounts.
+ */
+export function buildInvoiceOrderDetails({ items, taxRate, taxLabel, discounts = [] }: InvoiceInput): OrderDetails {
+  const subtotal = calculateSubtotal(items);
+  const discountTotal = sumAmounts(discounts.map((discount) => discount.amount));
+  const taxable = maxMoney(subtractMoney(money(subtotal), discountTotal), zeroMoney());
+
+  const orderDetails: OrderDetails = {
+    version: INVOICE_ORDER_DETAILS_VERSION,
+    items,
+    subtotal,
+  };
+  if (taxRate && taxRate > 0) {
+    orderDetails.tax = {
+      amount: toAmount(multiplyMoney(taxable, taxRate)),
+      rate: taxRate,
+      label: taxLabel?.trim() || undefined,
+    };
+  }
+  if (discounts.length > 0) {
+    orderDetails.discounts = discounts;
+  }
+  return orderDetails;
+}
+
+/**
+ * Total the payer owes: subtotal + shipping + fees + tax - discounts (never below zero)
+ * Falls back to summing line items when the subtotal is missing.
+ */
+export function calculateOrderTotal(orderDetails: OrderDetails): number {
+  const subtotal = orderDetails.subtotal ?? calculateSubtotal(orderDetails.items || []);
+  const charges = sumAmounts([
+    subtotal,
+    orderDetails.shipping?.amount || 0,
+    ...(orderDetails.fees || []).map((fee) => fee.amount),
+    orderDetails.tax?.amount || 0,
+  ]);
+  const discounts = sumAmounts((orderDetails.discounts || []).map((discount) => discount.amount));
+  return toAmount(maxMoney(subtractMoney(charges, discounts), zeroMoney()));
+}
+
+/**
+ * Validate an invoice before generating a token
+ * @returns An error message, or null when the invoice can be sent
+ */
+export function validateInvoice(input: InvoiceInput): string | null {
+  if (input.items.length === 0) {
+    return 'Add at least one item';
+  }
+  for (const item of input.items) {
+    if (!item.name.trim()) {
+      return 'Every item needs a name';
+    }
+    if (!(item.quantity > 0)) {
+      return `Enter a quantity for ${item.name.trim()}`;
+    }
+    if (!(item.unitPrice >= 0)) {
+      return `Enter a price for ${item.name.trim()}`;
+    }
+  }
+  if (input.taxRate !== undefined && (input.taxRate < 0 || input.taxRate >= 1)) {
+    return 'Tax rate must be between 0% and 100%';
+  }
+  if ((input.discounts || []).some((discount) => !(discount.amount > 0))) {
+    return 'Discounts must be greater than zero';
+  }
+  if (calculateOrderTotal(buildInvoiceOrderDetails(input)) <= 0) {
+    return 'Invoice total must be greater than zero';
+  }
+  return null;
+}
@@ -0,0 +1,115 @@
+/**
+ * Merchant Poster Service
+ *
+ * Printable counter poster for Micro Merchants: a static (long-lived)
+ * merchant QR code with the business name, logo or category icon, and the
+ * merchant alias for payers who can't scan. Rendered as HTML and printed or
+ * exported to PDF with expo-print.
+ */
+
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { MERCHANT_CATEGORIES } from '../types';
+import type { MerchantProfile } from '../types';
+
+export type PosterPaperSize = 'letter' | 'a4' | 'a5' | 'card4x6';
+
+/** Page sizes in PostScript points (1/72 inch), as expo-print expects */
+export const POSTER_PAPER_SIZES: Record<PosterPaperSize, { label: string; width: number; height: number }> = {
+  letter: { label: 'Letter', width: 612, height: 792 },
+  a4: { label: 'A4', width: 595, height: 842 },
+  a5: { label: 'A5', width: 420, height: 595 },
+  card4x6: { label: '4×6 card', width: 288, height: 432 },
+};
+
+export interface MerchantPosterInput {
+  merchant: MerchantProfile;
+  qrImageBase64: string;   // PNG of the static token QR (from react-native-qrcode-svg toDataURL)
+  alias?: string;          // Fallback for payers who can't scan
+  paperSize: PosterPaperSize;
+}
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Render the poster as a single-page HTML document sized for the paper
+ * Everything scales from the page width so small cards stay on one page.
+ */
+export function renderMerchantPosterHtml({ merchant, qrImageBase64, alias, paperSize }: MerchantPosterInput): string {
+  const { width, height } = POSTER_PAPER_SIZES[paperSize];
+  const category = MERCHANT_CATEGORIES[merchant.merchantCategory] || MERCHANT_CATEGORIES.OTHER;
+  const unit = width / 612; // 1 at Letter width
+  const qrSize = Math.round(width * 0.6);
+  const logoSize = Math.round(96 * unit);
+  const payAlias = alias || merchant.primaryAlias;
+
+  const badge = merchant.logoImageUrl
+    ? `<img class="logo" src="${escapeHtml(merchant.logoImageUrl)}" />`
+    : `<div class="icon" style="background:${escapeHtml(merchant.initialsColor || '#D1FAE5')}">${category.icon}</div>`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<style>
+  @page { size: ${width}pt ${height}pt; margin: 0; }
+  html, body { margin: 0; padding: 0; }
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #111827; }
+  .page { width: ${width}pt; height: ${height}pt; box-sizing: border-box; padding: ${Math.round(36 * unit)}pt;
+    display: flex; flex-direction: column; align-items: center; justify-content: space-between; text-align: center; }
+  .logo, .icon { width: ${logoSize}pt; height: ${logoSize}pt; border-radius: ${logoSize / 2}pt; }
+  .logo { object-fit: cover; }
+  .icon { display: flex; align-items: center; justify-content: center; font-size: ${Math.round(52 * unit)}pt; margin: 0 auto; }
+  .name { font-size: ${Math.round(36 * unit)}pt; font-weight: 700; margin: ${Math.round(12 * unit)}pt 0 0; }
+  .category { font-size: ${Math.round(16 * unit)}pt; color: #6B7280; margin-top: ${Math.round(4 * unit)}pt; }
+  .cta { font-size: ${Math.round(24 * unit)}pt; font-weight: 600; color: #065F46; }
+  .qr { width: ${qrSize}pt; height: ${qrSize}pt; }
+  .alias { font-size: ${Math.round(16 * unit)}pt; color: #374151; }
+  .alias strong { font-size: ${Math.round(22 * unit)}pt; color: #111827; }
+  .footer { font-size: ${Math.round(11 * unit)}pt; color: #9CA3AF; }
+</style>
+</head>
+<body>
+  <div class="page">
+    <div>
+      ${badge}
+      <div class="name">${escapeHtml(merchant.merchantName)}</div>
+      <div class="category">${escapeHtml(category.label)}</div>
+    </div>
+    <div class="cta">Scan to pay with mwsim</div>
+    <img class="qr" src="data:image/png;base64,${qrImageBase64}" />
+    ${payAlias ? `<div class="alias">Can't scan? Send to<br /><strong>${escapeHtml(payAlias)}</strong></div>` : ''}
+    <div class="footer">Enter the amount in your banking app after scanning</div>
+  </div>
+</body>
+</html>`;
+}
+
+export const merchantPosterService = {
+  /**
+   * Open the system print dialog for the poster
+   */
+  async print(input: MerchantPosterInput): Promise<void> {
+    const { width, height } = POSTER_PAPER_SIZES[input.paperSize];
+    await Print.printAsync({ html: renderMerchantPosterHtml(input), width, height });
+  },
+
+  /**
+   * Export the poster as a PDF and open the share sheet
+   */
+  async sharePdf(input: MerchantPosterInput): Promise<void> {
+    const { width, height } = POSTER_PAPER_SIZES[input.paperSize];
+    const { uri } = await Print.printToFileAsync({ html: renderMerchantPosterHtml(input), width, height });
+    console.log('[MerchantPoster] PDF created:', uri);
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing is not available on this device');
+    }
+    await Sharing.shareAsync(uri, { mimeType: 'application/pdf', UTI: 'com.adobe.pdf', dialogTitle: 'Share QR poster' });
+  },
+};
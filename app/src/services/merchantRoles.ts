@@ -0,0 +1,98 @@
+/**
+ * Merchant Roles
+ *
+ * Role-based access for Micro Merchant staff. TransferSim enforces the same
+ * rules server-side; these checks decide what the app offers so cashiers
+ * never see actions that would be rejected.
+ *
+ * Merchants enrolled before staff support have no `role` on their profile,
+ * which means the signed-in user is the owner.
+ */
+
+import type { MerchantProfile, MerchantStaffMember, MerchantStaffRole } from '../types';
+
+export type MerchantPermission =
+  | 'acceptPayments'   // Payment QR, invoices, poster
+  | 'viewPayments'     // Dashboard and payment history
+  | 'refund'
+  | 'export'           // History and settlement exports
+  | 'viewReports'      // Analytics and end-of-day settlement
+  | 'editProfile'
+  | 'deactivate'
+  | 'manageStaff';
+
+export const MERCHANT_ROLES: { value: MerchantStaffRole; label: string; description: string }[] = [
+  { value: 'OWNER', label: 'Owner', description: 'Full access, including payouts and closing the business' },
+  { value: 'MANAGER', label: 'Manager', description: 'Refunds, exports, reports and cashier management' },
+  { value: 'CASHIER', label: 'Cashier', description: 'Show the payment QR and see incoming payments' },
+];
+
+const ROLE_PERMISSIONS: Record<MerchantStaffRole, MerchantPermission[]> = {
+  OWNER: ['acceptPayments', 'viewPayments', 'refund', 'export', 'viewReports', 'editProfile', 'deactivate', 'manageStaff'],
+  MANAGER: ['acceptPayments', 'viewPayments', 'refund', 'export', 'viewReports', 'manageStaff'],
+  CASHIER: ['acceptPayments', 'viewPayments'],
+};
+
+// Roles each role may invite, promote to or remove
+const ASSIGNABLE_ROLES: Record<MerchantStaffRole, MerchantStaffRole[]> = {
+  OWNER: ['MANAGER', 'CASHIER'],
+  MANAGER: ['CASHIER'],
+  CASHIER: [],
+};
+
+export function getMerchantRoleLabel(role: MerchantStaffRole): string {
+  return MERCHANT_ROLES.find((r) => r.value === role)?.label || role;
+}
+
+/**
+ * Signed-in user's role on a merchant (owner when TransferSim does not say)
+ */
+export function getMerchantRole(merchant: MerchantProfile | null | undefined): MerchantStaffRole {
+  return merchant?.role || 'OWNER';
+}
+
+export function hasMerchantPermission(
+  merchant: MerchantProfile | null | undefined,
+  permission: MerchantPermission
+): boolean {
+  if (!merchant) return false;
+  return ROLE_PERMISSIONS[getMerchantRole(merchant)].includes(permission);
+}
+
+/**
+ * Roles the given role can hand out to staff
+ */
+export function getAssignableRoles(role: MerchantStaffRole): MerchantStaffRole[] {
+  return ASSIGNABLE_ROLES[role];
+}
+
+/**
+ * Whether `actor` can change or remove `member`
+ * Nobody manages the owner, and managers only manage cashiers.
+ */
+export function canManageStaffMember(actor: MerchantStaffRole, member: MerchantStaffMember): boolean {
+  return ASSIGNABLE_ROLES[actor].includes(member.role);
+}
+
+/**
+ * Validate a staff invitation before sending it
+ * @returns Error message, or null when the invitation can be sent
+ */
+export function validateStaffInvite(
+  alias: string,
+  role: MerchantStaffRole,
+  actor: MerchantStaffRole,
+  staff: MerchantStaffMember[]
+): string | null {
+  const normalized = alias.trim().toLowerCase();
+  if (!normalized) {
+    return 'Enter the alias of the person to invite';
+  }
+  if (!ASSIGNABLE_ROLES[actor].includes(role)) {
+    return `You can't give staff the ${getMerchantRoleLabel(role)} role`;
+  }
+  if (staff.some((member) => member.alias.trim().toLowerCase() === normalized)) {
+    return `${alias.trim()} is already on your staff list`;
+  }
+  return null;
+}
@@ -0,0 +1,188 @@
+/**
+ * Money
+ *
+ * Exact money arithmetic on integer minor units. API payloads and most UI
+ * state keep plain decimal numbers, but any sum, difference, percentage or
+ * split of an amount goes through a `Money` value so that results like
+ * 0.1 + 0.2 never turn into 0.30000000000000004 or drop a cent.
+ *
+ * The sanitizers in `transferSim.ts` and `api.ts` parse every amount with
+ * `parseMoney`, so amounts coming out of them are already exact to the
+ * currency's minor unit, including TransferSim's decimal strings ("500.00").
+ */
+
+import type { Money } from '../types';
+import { DEFAULT_CURRENCY, formatMoney, fromMinorUnits, getCurrencyDecimals, normalizeCurrency, toMinorUnits } from './currency';
+
+// ==================
+// Construction
+// ==================
+
+/**
+ * Money from a decimal amount, rounded to the currency's minor unit
+ */
+export function money(amount: number, currency: string = DEFAULT_CURRENCY): Money {
+  const code = normalizeCurrency(currency);
+  return { minor: Number.isFinite(amount) ? toMinorUnits(amount, code) : 0, currency: code };
+}
+
+export function moneyFromMinor(minor: number, currency: string = DEFAULT_CURRENCY): Money {
+  return { minor: Math.round(minor) || 0, currency: normalizeCurrency(currency) };
+}
+
+export function zeroMoney(currency: string = DEFAULT_CURRENCY): Money {
+  return moneyFromMinor(0, currency);
+}
+
+/**
+ * Parse an API amount: a number or a decimal string ("500.00", "-3.5")
+ * Strings are read digit by digit, never through parseFloat. Extra decimals
+ * round half away from zero.
+ * @returns The amount, or null when the value isn't a number
+ */
+export function parseMoney(value: unknown, currency: string = DEFAULT_CURRENCY): Money | null {
+  const code = normalizeCurrency(currency);
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? money(value, code) : null;
+  }
+  if (typeof value !== 'string') return null;
+
+  const match = value.trim().replace(/,/g, '').match(/^([+-])?(\d*)(?:\.(\d*))?$/);
+  if (!match || (!match[2] && !match[3])) return null;
+  const [, sign, whole = '', fraction = ''] = match;
+  const decimals = getCurrencyDecimals(code);
+  const digits = (fraction + '0'.repeat(decimals)).slice(0, decimals);
+  let minor = Number(whole || '0') * 10 ** decimals + Number(digits || '0');
+  if (fraction.length > decimals && Number(fraction[decimals]) >= 5) {
+    minor += 1;
+  }
+  return moneyFromMinor(sign === '-' ? -minor : minor, code);
+}
+
+/**
+ * Parse an API amount to Money (zero when missing or invalid)
+ */
+export function parseMoneyValue(value: unknown, currency: string = DEFAULT_CURRENCY): Money {
+  return parseMoney(value, currency) || zeroMoney(currency);
+}
+
+// ==================
+// Conversion & Formatting
+// ==================
+
+/**
+ * Decimal amount for API payloads and display (exact to the minor unit)
+ */
+export function toAmount(value: Money): number {
+  return fromMinorUnits(value.minor, value.currency);
+}
+
+/**
+ * Plain decimal text for amount inputs ("12.50", "1250" for JPY), built from the minor units
+ */
+export function toAmountString(value: Money): string {
+  const decimals = getCurrencyDecimals(value.currency);
+  const units = Math.abs(value.minor);
+  const whole = Math.floor(units / 10 ** decimals);
+  const fraction = decimals > 0 ? `.${String(units % 10 ** decimals).padStart(decimals, '0')}` : '';
+  return `${value.minor < 0 ? '-' : ''}${whole}${fraction}`;
+}
+
+export function formatMoneyValue(value: Money): string {
+  return formatMoney(toAmount(value), value.currency);
+}
+
+// ==================
+// Arithmetic
+// ==================
+
+function assertSameCurrency(a: Money, b: Money): void {
+  if (a.currency !== b.currency) {
+    throw new Error(`Cannot combine ${a.currency} and ${b.currency} amounts`);
+  }
+}
+
+export function addMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return { minor: a.minor + b.minor, currency: a.currency };
+}
+
+export function subtractMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return { minor: a.minor - b.minor, currency: a.currency };
+}
+
+export function sumMoney(values: Money[], currency: string = DEFAULT_CURRENCY): Money {
+  return values.reduce(addMoney, zeroMoney(currency));
+}
+
+/**
+ * Multiply by a factor (quantity, rate), rounding to the minor unit
+ */
+export function multiplyMoney(value: Money, factor: number): Money {
+  return moneyFromMinor(value.minor * factor, value.currency);
+}
+
+/**
+ * Percentage of an amount ("15% of $12.34" is $1.85), rounded to the minor unit
+ */
+export function percentOf(value: Money, percent: number): Money {
+  // Scale the percentage to an integer first so 2.9% is exact
+  const scaled = Math.round(percent * 10000);
+  return moneyFromMinor((value.minor * scaled) / 1000000, value.currency);
+}
+
+export function compareMoney(a: Money, b: Money): number {
+  assertSameCurrency(a, b);
+  return a.minor - b.minor;
+}
+
+export function minMoney(a: Money, b: Money): Money {
+  return compareMoney(a, b) <= 0 ? a : b;
+}
+
+export function maxMoney(a: Money, b: Money): Money {
+  return compareMoney(a, b) >= 0 ? a : b;
+}
+
+export function isZeroMoney(value: Money): boolean {
+  return value.minor === 0;
+}
+
+// ==================
+// Allocation
+// ==================
+
+/**
+ * Split an amount by weights without losing a minor unit
+ * Each share gets its floor; leftover units go to the largest remainders,
+ * earliest share first on ties, so the shares always add up to the total.
+ */
+export function allocateMoney(value: Money, weights: number[]): Money[] {
+  const total = weights.reduce((sum, w) => sum + Math.max(0, w), 0);
+  if (weights.length === 0) return [];
+  if (total <= 0) return weights.map(() => zeroMoney(value.currency));
+
+  const sign = value.minor < 0 ? -1 : 1;
+  const units = Math.abs(value.minor);
+  const shares = weights.map((w, index) => {
+    const exact = (units * Math.max(0, w)) / total;
+    return { index, minor: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+  let leftover = units - shares.reduce((sum, share) => sum + share.minor, 0);
+  const byRemainder = [...shares].sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+  for (const share of byRemainder) {
+    if (leftover <= 0) break;
+    share.minor += 1;
+    leftover -= 1;
+  }
+  return shares.map((share) => moneyFromMinor(sign * share.minor, value.currency));
+}
+
+/**
+ * Split evenly into `parts` shares (leftover units go to the first shares)
+ */
+export function splitMoney(value: Money, parts: number): Money[] {
+  if (parts <= 0) return [];
+  return allocateMoney(value, Array.from({ length: parts }, () => 1));
+}
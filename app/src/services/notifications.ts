@@ -68,6 +68,7 @@ export type WsimNotificationType =
   // Contracts (matches ContractSim webhook event_type)
   | 'contract.proposed'
   | 'contract.accepted'
+  | 'contract.countered'
   | 'contract.funded'
   | 'contract.cancelled'
   | 'contract.expired'
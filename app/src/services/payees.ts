@@ -0,0 +1,370 @@
+/**
+ * Payees Service
+ *
+ * The payee book: recipients the user has sent money to, or added by hand,
+ * stored on the device. Completed transfers add and update payees
+ * automatically. Favourites are pinned on the P2P home screen and payees
+ * are suggested while typing a recipient on the Send Money screen.
+ *
+ * Payee details are re-checked with lookupAlias, so renamed recipients pick
+ * up their new display name and removed aliases are flagged.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { transferSimApi } from './transferSim';
+import { createLockedStore } from './lockedStore';
+import type { AliasLookupResult, Payee, Transfer } from '../types';
+
+const STORAGE_KEY = 'mwsim_payees';
+const REMOVED_KEY = 'mwsim_payees_removed';
+
+// Payees are re-checked with lookupAlias at most once a day
+const SYNC_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_SUGGESTION_LIMIT = 5;
+
+// When each removed alias (normalized) was removed; older transfers don't bring it back
+type RemovedAliases = Record<string, string>;
+
+export interface PayeeSyncResult {
+  payees: Payee[];
+  updated: number;
+  removed: number;
+}
+
+// ==================
+// Helpers
+// ==================
+
+/**
+ * Aliases are matched case-insensitively ("@Alice" and "@alice" are one payee)
+ */
+export function normalizeAlias(alias: string): string {
+  return alias.trim().toLowerCase();
+}
+
+/**
+ * Name to show for a payee: nickname, then display name, then alias
+ */
+export function getPayeeName(payee: Payee): string {
+  return payee.nickname || payee.displayName || payee.alias;
+}
+
+/**
+ * Favourites first, then most recently paid, then by name
+ */
+export function sortPayees(payees: Payee[]): Payee[] {
+  return [...payees].sort((a, b) => {
+    if (a.isFavourite !== b.isFavourite) return a.isFavourite ? -1 : 1;
+    const paid = (b.lastPaidAt || '').localeCompare(a.lastPaidAt || '');
+    return paid || getPayeeName(a).localeCompare(getPayeeName(b));
+  });
+}
+
+/**
+ * Suggestions for the recipient field
+ *
+ * With an empty query these are the most recent recipients. Otherwise payees
+ * whose alias, display name or nickname contains the query, with prefix
+ * matches and frequent recipients first. Removed aliases are never suggested.
+ */
+export function searchPayees(payees: Payee[], query: string, limit: number = DEFAULT_SUGGESTION_LIMIT): Payee[] {
+  const available = payees.filter((p) => !p.aliasRemoved);
+  const q = normalizeAlias(query);
+
+  if (!q) {
+    return available
+      .filter((p) => p.lastPaidAt)
+      .sort((a, b) => b.lastPaidAt!.localeCompare(a.lastPaidAt!))
+      .slice(0, limit);
+  }
+
+  const scored = available
+    .map((payee) => {
+      const fields = [payee.alias, payee.displayName, payee.nickname]
+        .filter((f): f is string => !!f)
+        .map((f) => f.toLowerCase());
+      const score = fields.some((f) => f.startsWith(q)) ? 2 : fields.some((f) => f.includes(q)) ? 1 : 0;
+      return { payee, score };
+    })
+    .filter((s) => s.score > 0);
+
+  return scored
+    .sort((a, b) =>
+      b.score - a.score ||
+      Number(b.payee.isFavourite) - Number(a.payee.isFavourite) ||
+      b.payee.transferCount - a.payee.transferCount
+    )
+    .slice(0, limit)
+    .map((s) => s.payee);
+}
+
+/**
+ * Lookup result for a payee, so the Send Money screen can use it without a new lookup
+ */
+export function toLookupResult(payee: Payee): AliasLookupResult {
+  return {
+    found: !payee.aliasRemoved,
+    displayName: payee.displayName,
+    bankName: payee.bankName,
+    aliasType: payee.aliasType,
+    profileImageUrl: payee.profileImageUrl,
+    initialsColor: payee.initialsColor,
+    isMerchant: payee.isMerchant,
+    merchantLogoUrl: payee.merchantLogoUrl,
+    currency: payee.currency,
+  };
+}
+
+/**
+ * Whether a payee is due to be re-checked with lookupAlias
+ */
+export function needsSync(payee: Payee, now: Date = new Date()): boolean {
+  if (!payee.lastVerifiedAt) return true;
+  return now.getTime() - new Date(payee.lastVerifiedAt).getTime() >= SYNC_INTERVAL_MS;
+}
+
+/**
+ * Copy the details of a successful lookup onto a payee
+ */
+function applyLookup(payee: Payee, lookup: AliasLookupResult, now: string): void {
+  Object.assign(payee, {
+    aliasType: lookup.aliasType ?? payee.aliasType,
+    displayName: lookup.displayName ?? payee.displayName,
+    bankName: lookup.bankName ?? payee.bankName,
+    profileImageUrl: lookup.profileImageUrl ?? payee.profileImageUrl,
+    initialsColor: lookup.initialsColor ?? payee.initialsColor,
+    currency: lookup.currency ?? payee.currency,
+    isMerchant: lookup.isMerchant ?? payee.isMerchant,
+    merchantLogoUrl: lookup.merchantLogoUrl ?? payee.merchantLogoUrl,
+    aliasRemoved: false,
+    lastVerifiedAt: now,
+  });
+}
+
+function createPayee(alias: string, source: Payee['source'], now: string): Payee {
+  return {
+    payeeId: uuidv4(),
+    alias: alias.trim(),
+    isMerchant: false,
+    isFavourite: false,
+    source,
+    transferCount: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Count a completed transfer against its payee, creating the payee if needed
+ * Transfers at or before the payee's lastPaidAt were already counted, and
+ * transfers from before the user removed a payee don't add it back.
+ *
+ * @returns Whether the payee book changed
+ */
+function applyTransfer(
+  payees: Payee[],
+  transfer: Transfer,
+  removed: RemovedAliases,
+  lookup?: AliasLookupResult
+): boolean {
+  if (transfer.direction !== 'sent' || transfer.status !== 'COMPLETED' || !transfer.recipientAlias) {
+    return false;
+  }
+  const now = new Date().toISOString();
+  const alias = normalizeAlias(transfer.recipientAlias);
+  let payee = payees.find((p) => normalizeAlias(p.alias) === alias);
+  if (!payee) {
+    if (removed[alias] && transfer.createdAt <= removed[alias]) {
+      return false;
+    }
+    payee = createPayee(transfer.recipientAlias, 'TRANSFER', now);
+    payees.push(payee);
+  } else if (payee.lastPaidAt && transfer.createdAt <= payee.lastPaidAt) {
+    return false;
+  }
+
+  Object.assign(payee, {
+    displayName: transfer.recipientDisplayName ?? payee.displayName,
+    bankName: transfer.recipientBankName ?? payee.bankName,
+    profileImageUrl: transfer.recipientProfileImageUrl ?? payee.profileImageUrl,
+    transferCount: payee.transferCount + 1,
+    lastPaidAt: transfer.createdAt,
+    updatedAt: now,
+  });
+  if (lookup?.found) {
+    applyLookup(payee, lookup, now);
+  }
+  return true;
+}
+
+// ==================
+// Storage
+// ==================
+
+const store = createLockedStore<Payee[]>(STORAGE_KEY, () => [], 'Payees');
+const removedStore = createLockedStore<RemovedAliases>(REMOVED_KEY, () => ({}), 'Payees');
+
+async function updatePayee(payeeId: string, changes: Partial<Payee>): Promise<Payee> {
+  let updated: Payee | undefined;
+  await store.update((payees) =>
+    payees.map((p) => {
+      if (p.payeeId !== payeeId) return p;
+      updated = { ...p, ...changes, updatedAt: new Date().toISOString() };
+      return updated;
+    })
+  );
+  if (!updated) {
+    throw new Error('Payee not found');
+  }
+  return updated;
+}
+
+export const payeeService = {
+  /**
+   * Get all payees, favourites first
+   */
+  async getPayees(): Promise<Payee[]> {
+    return sortPayees(await store.read());
+  },
+
+  /**
+   * Add a payee from the payee book after a successful lookup
+   * Adding an alias that's already saved refreshes its details instead.
+   */
+  async addPayee(alias: string, lookup: AliasLookupResult, isFavourite: boolean = false): Promise<Payee> {
+    if (!lookup.found) {
+      throw new Error('No user found with that alias');
+    }
+    const now = new Date().toISOString();
+    let payee!: Payee;
+    await store.update((payees) => {
+      const existing = payees.find((p) => normalizeAlias(p.alias) === normalizeAlias(alias));
+      payee = existing || createPayee(alias, 'MANUAL', now);
+      applyLookup(payee, lookup, now);
+      payee.isFavourite = payee.isFavourite || isFavourite;
+      payee.updatedAt = now;
+      return existing ? payees : [...payees, payee];
+    });
+    // Adding a removed payee back by hand lifts the removal
+    const key = normalizeAlias(alias);
+    await removedStore.update(({ [key]: _, ...rest }) => rest);
+    console.log('[Payees] Saved payee:', payee.payeeId);
+    return payee;
+  },
+
+  /**
+   * Record a transfer the user just sent, with the recipient's lookup details
+   */
+  async recordTransfer(transfer: Transfer, lookup?: AliasLookupResult): Promise<void> {
+    const removed = await removedStore.read();
+    await store.update((payees) => {
+      applyTransfer(payees, transfer, removed, lookup);
+      return payees;
+    });
+  },
+
+  /**
+   * Learn payees from transfer history (only completed, sent transfers count)
+   */
+  async recordTransfers(transfers: Transfer[]): Promise<void> {
+    // Oldest first so lastPaidAt only moves forward
+    const ordered = [...transfers].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    const removed = await removedStore.read();
+    await store.update((payees) => {
+      for (const transfer of ordered) {
+        applyTransfer(payees, transfer, removed);
+      }
+      return payees;
+    });
+  },
+
+  async setFavourite(payeeId: string, isFavourite: boolean): Promise<Payee> {
+    return updatePayee(payeeId, { isFavourite });
+  },
+
+  /**
+   * Set the user's own name for a payee (empty clears it)
+   */
+  async renamePayee(payeeId: string, nickname: string): Promise<Payee> {
+    return updatePayee(payeeId, { nickname: nickname.trim() || undefined });
+  },
+
+  /**
+   * Remove a payee
+   * Transfer history from before the removal won't add the payee back; a new
+   * transfer to them will.
+   */
+  async removePayee(payeeId: string): Promise<void> {
+    let removedPayee: Payee | undefined;
+    await store.update((payees) => {
+      removedPayee = payees.find((p) => p.payeeId === payeeId);
+      return payees.filter((p) => p.payeeId !== payeeId);
+    });
+    if (removedPayee) {
+      const { alias, lastPaidAt } = removedPayee;
+      // Never earlier than a transfer already counted (device clocks drift)
+      const now = new Date().toISOString();
+      const removedAt = lastPaidAt && lastPaidAt > now ? lastPaidAt : now;
+      await removedStore.update((removed) => ({ ...removed, [normalizeAlias(alias)]: removedAt }));
+    }
+  },
+
+  /**
+   * Re-check payees with lookupAlias
+   *
+   * Only payees not checked in the last day are looked up unless `force` is
+   * set. A lookup that fails (network) leaves the payee unchanged; one that
+   * finds nothing flags the alias as removed.
+   *
+   * Only the looked-up details are written back, onto the latest stored
+   * payees, so favourites, nicknames and removals made during the lookups
+   * are kept.
+   */
+  async syncPayees(options: { force?: boolean; now?: Date } = {}): Promise<PayeeSyncResult> {
+    const now = options.now || new Date();
+    const due = (await store.read()).filter((p) => options.force || needsSync(p, now));
+    const lookups = new Map<string, AliasLookupResult>();
+
+    for (const payee of due) {
+      try {
+        lookups.set(payee.payeeId, await transferSimApi.lookupAlias(payee.alias));
+      } catch (e: any) {
+        console.log('[Payees] Lookup failed for', payee.alias, e.message);
+      }
+    }
+
+    const result: PayeeSyncResult = { payees: [], updated: 0, removed: 0 };
+    if (lookups.size === 0) {
+      result.payees = sortPayees(await store.read());
+      return result;
+    }
+
+    const nowIso = now.toISOString();
+    const payees = await store.update((current) => {
+      for (const payee of current) {
+        const lookup = lookups.get(payee.payeeId);
+        if (!lookup) continue;
+        if (lookup.found) {
+          const previousName = payee.displayName;
+          applyLookup(payee, lookup, nowIso);
+          if (previousName !== payee.displayName) result.updated++;
+        } else {
+          if (!payee.aliasRemoved) result.removed++;
+          Object.assign(payee, { aliasRemoved: true, lastVerifiedAt: nowIso });
+        }
+        payee.updatedAt = nowIso;
+      }
+      return current;
+    });
+    result.payees = sortPayees(payees);
+    return result;
+  },
+
+  /**
+   * Remove all payees (called on logout)
+   */
+  async clearAll(): Promise<void> {
+    await Promise.all([store.clear(), removedStore.clear()]);
+  },
+};
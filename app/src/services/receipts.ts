@@ -0,0 +1,300 @@
+/**
+ * Receipt Service
+ *
+ * Builds proof-of-payment receipts from P2P transfers, Micro Merchant
+ * payments and card payments, and exports them through the share sheet
+ * as a PDF (expo-print) or a PNG snapshot of the receipt view
+ * (react-native-view-shot).
+ */
+
+import type { RefObject } from 'react';
+import type { View } from 'react-native';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { captureRef } from 'react-native-view-shot';
+import { calculateMerchantFee } from './fees';
+import { formatMoney } from './currency';
+import { addMoney, money, toAmount } from './money';
+import type {
+  Transfer,
+  TransferWithRecipientType,
+  PaymentRequest,
+  PaymentHistoryItem,
+  PaymentCard,
+  Receipt,
+} from '../types';
+
+// Transfers in these states never moved money
+const FAILED_TRANSFER_STATUSES = ['DEBIT_FAILED', 'CREDIT_FAILED', 'CANCELLED', 'EXPIRED', 'REVERSED', 'RECIPIENT_NOT_FOUND'];
+
+const TRANSFER_STATUS_LABELS: Record<string, string> = {
+  COMPLETED: 'Completed',
+  PENDING: 'Pending',
+  RESOLVING: 'Processing',
+  DEBITING: 'Processing',
+  CREDITING: 'Processing',
+  CANCELLED: 'Cancelled',
+  EXPIRED: 'Expired',
+  REVERSED: 'Reversed',
+  DEBIT_FAILED: 'Payment failed',
+  CREDIT_FAILED: 'Deposit failed',
+  RECIPIENT_NOT_FOUND: 'Recipient not found',
+};
+
+const CARD_STATUS_LABELS: Record<PaymentRequest['status'], string> = {
+  approved: 'Paid',
+  completed: 'Paid',
+  pending: 'Pending',
+  cancelled: 'Cancelled',
+  expired: 'Expired',
+};
+
+// Add or subtract in the transfer's minor units so gross = net + fee never shows float noise
+const addAmounts = (a: number, b: number, currency: string): number =>
+  toAmount(addMoney(money(a, currency), money(b, currency)));
+
+// ==================
+// Receipt Builders
+// ==================
+
+/**
+ * Build a receipt for a P2P transfer or Micro Merchant payment
+ *
+ * @param transfer - Transfer from history (merchant payments carry fee/gross)
+ * @param isMerchantView - True when the merchant is viewing a payment they received;
+ *   the receipt then shows the gross amount, processing fee and net credit
+ */
+export function buildTransferReceipt(
+  transfer: Transfer | TransferWithRecipientType,
+  isMerchantView: boolean = false
+): Receipt {
+  const merchantTransfer = transfer as TransferWithRecipientType;
+  const isSent = transfer.direction === 'sent';
+  const amount = toAmount(transfer.amount);
+
+  const base = {
+    receiptId: transfer.transferId,
+    direction: transfer.direction,
+    statusLabel: TRANSFER_STATUS_LABELS[transfer.status] || transfer.status,
+    isSuccessful: !FAILED_TRANSFER_STATUSES.includes(transfer.status),
+    currency: transfer.currency,
+    description: transfer.description,
+    createdAt: transfer.createdAt,
+    completedAt: transfer.completedAt,
+  };
+
+  if (isMerchantView) {
+    // Payer is identified by bank only, matching the merchant transfer detail screen
+    const payerBank = transfer.senderBankName
+      ? `${transfer.senderBankName}${transfer.senderAccountLast4 ? ` ****${transfer.senderAccountLast4}` : ''}`
+      : 'Bank Transfer';
+    const recordedFee = merchantTransfer.feeAmount ? toAmount(merchantTransfer.feeAmount) : undefined;
+    const grossAmount = merchantTransfer.grossAmount
+      ? toAmount(merchantTransfer.grossAmount)
+      : recordedFee !== undefined ? addAmounts(amount, recordedFee, transfer.currency) : amount;
+    // No fee recorded but the gross is known: estimate it from the fee schedule
+    const feeAmount = recordedFee !== undefined
+      ? recordedFee
+      : merchantTransfer.grossAmount
+        ? calculateMerchantFee(grossAmount, merchantTransfer.merchantCategory)
+        : undefined;
+
+    return {
+      ...base,
+      kind: 'merchant',
+      counterpartyLabel: 'Payment from',
+      counterpartyName: payerBank,
+      amount: grossAmount,
+      feeAmount,
+      netAmount: recordedFee !== undefined
+        ? amount
+        : feeAmount !== undefined ? addAmounts(grossAmount, -feeAmount, transfer.currency) : undefined,
+    };
+  }
+
+  const isMerchantRecipient = isSent && merchantTransfer.recipientType === 'merchant';
+  const counterpartyName = isSent
+    ? merchantTransfer.merchantName || transfer.recipientDisplayName || transfer.recipientAlias || 'Unknown'
+    : transfer.senderDisplayName || transfer.senderAlias || 'Unknown';
+  const alias = isSent ? transfer.recipientAlias : transfer.senderAlias;
+
+  return {
+    ...base,
+    kind: 'p2p',
+    counterpartyLabel: isMerchantRecipient ? 'Paid to' : isSent ? 'Sent to' : 'Received from',
+    counterpartyName,
+    counterpartyDetail: alias && alias !== counterpartyName ? alias : (isSent ? transfer.recipientBankName : transfer.senderBankName),
+    amount,
+  };
+}
+
+/**
+ * Build a receipt for a card payment
+ *
+ * @param payment - Payment request (just approved) or payment history item
+ * @param card - Card used, when the payment itself doesn't say (PaymentRequest)
+ */
+export function buildCardPaymentReceipt(
+  payment: PaymentRequest | PaymentHistoryItem,
+  card?: PaymentCard
+): Receipt {
+  const historyItem = payment as PaymentHistoryItem;
+  const cardType = card?.cardType || historyItem.cardType;
+  const lastFour = card?.lastFour || historyItem.cardLastFour;
+  const bankName = card?.bankName || historyItem.bankName;
+
+  let paymentMethod: string | undefined;
+  if (lastFour) {
+    paymentMethod = `${cardType ? `${cardType} ` : ''}•••• ${lastFour}${bankName ? ` · ${bankName}` : ''}`;
+  }
+
+  return {
+    receiptId: payment.requestId,
+    kind: 'card',
+    direction: 'sent',
+    statusLabel: CARD_STATUS_LABELS[payment.status] || payment.status,
+    isSuccessful: payment.status === 'approved' || payment.status === 'completed',
+    counterpartyLabel: 'Paid to',
+    counterpartyName: payment.merchantName,
+    amount: Number(payment.amount || 0),
+    currency: payment.currency,
+    description: payment.orderDescription,
+    paymentMethod,
+    orderId: payment.orderId,
+    orderDetails: payment.orderDetails,
+    createdAt: payment.createdAt,
+    completedAt: historyItem.completedAt,
+  };
+}
+
+// ==================
+// PDF Rendering
+// ==================
+
+const formatDateTime = (dateStr: string): string => {
+  return new Date(dateStr).toLocaleString('en-CA', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const row = (label: string, value: string, className: string = ''): string =>
+  `<tr class="${className}"><td>${escapeHtml(label)}</td><td class="value">${escapeHtml(value)}</td></tr>`;
+
+/**
+ * Render a receipt as a standalone HTML document for expo-print
+ */
+export function renderReceiptHtml(receipt: Receipt): string {
+  const { currency } = receipt;
+  const details: string[] = [
+    row(receipt.counterpartyLabel, receipt.counterpartyName),
+  ];
+  if (receipt.counterpartyDetail) details.push(row('', receipt.counterpartyDetail));
+  if (receipt.paymentMethod) details.push(row('Payment method', receipt.paymentMethod));
+  details.push(row('Date', formatDateTime(receipt.createdAt)));
+  if (receipt.completedAt) details.push(row('Completed', formatDateTime(receipt.completedAt)));
+  if (receipt.orderId) details.push(row('Order ID', receipt.orderId));
+  if (receipt.description) details.push(row('Description', receipt.description));
+  details.push(row('Reference', receipt.receiptId));
+
+  const breakdown: string[] = [];
+  if (receipt.feeAmount !== undefined && receipt.netAmount !== undefined) {
+    breakdown.push(row('Gross amount', formatMoney(receipt.amount, currency)));
+    breakdown.push(row('Processing fee', `-${formatMoney(receipt.feeAmount, currency)}`));
+    breakdown.push(row('Net amount', formatMoney(receipt.netAmount, currency), 'total'));
+  }
+
+  const order = receipt.orderDetails;
+  const orderRows: string[] = [];
+  if (order) {
+    (order.items || []).forEach((item) => {
+      orderRows.push(row(`${item.name} × ${item.quantity}`, formatMoney(item.quantity * item.unitPrice, currency)));
+    });
+    if (order.subtotal !== undefined) orderRows.push(row('Subtotal', formatMoney(order.subtotal, currency)));
+    if (order.shipping) {
+      orderRows.push(row(order.shipping.method ? `Shipping (${order.shipping.method})` : 'Shipping', formatMoney(order.shipping.amount, currency)));
+    }
+    (order.fees || []).forEach((fee) => orderRows.push(row(fee.label, formatMoney(fee.amount, currency))));
+    (order.discounts || []).forEach((discount) => {
+      orderRows.push(row(discount.description || discount.code || 'Discount', `-${formatMoney(Math.abs(discount.amount), currency)}`));
+    });
+    if (order.tax) {
+      const rate = order.tax.rate !== undefined ? ` (${(order.tax.rate * 100).toFixed(0)}%)` : '';
+      orderRows.push(row(`${order.tax.label || 'Tax'}${rate}`, formatMoney(order.tax.amount, currency)));
+    }
+    if (orderRows.length > 0) orderRows.push(row('Total', formatMoney(receipt.amount, currency), 'total'));
+  }
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<style>
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #111827; margin: 32px; }
+  h1 { font-size: 20px; margin: 0; }
+  .muted { color: #6B7280; font-size: 13px; }
+  .amount { font-size: 32px; font-weight: 700; margin: 16px 0 4px; }
+  .status { display: inline-block; padding: 2px 10px; border-radius: 10px; font-size: 13px; font-weight: 600; }
+  .ok { background: #D1FAE5; color: #047857; }
+  .failed { background: #F3F4F6; color: #6B7280; }
+  table { width: 100%; border-collapse: collapse; margin-top: 24px; }
+  td { padding: 8px 0; border-bottom: 1px solid #E5E7EB; font-size: 14px; vertical-align: top; }
+  td.value { text-align: right; }
+  tr.total td { font-weight: 700; border-bottom: none; }
+  h2 { font-size: 15px; margin: 28px 0 0; }
+</style>
+</head>
+<body>
+  <h1>Receipt</h1>
+  <div class="muted">mwsim</div>
+  <div class="amount">${escapeHtml(formatMoney(receipt.amount, currency))}</div>
+  <span class="status ${receipt.isSuccessful ? 'ok' : 'failed'}">${escapeHtml(receipt.statusLabel)}</span>
+  <table>${details.join('')}</table>
+  ${breakdown.length > 0 ? `<h2>Payment Breakdown</h2><table>${breakdown.join('')}</table>` : ''}
+  ${orderRows.length > 0 ? `<h2>Order Summary</h2><table>${orderRows.join('')}</table>` : ''}
+</body>
+</html>`;
+}
+
+// ==================
+// Export
+// ==================
+
+async function shareFile(uri: string, mimeType: string, UTI: string): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  await Sharing.shareAsync(uri, { mimeType, UTI, dialogTitle: 'Share receipt' });
+}
+
+export const receiptService = {
+  /**
+   * Render the receipt to a PDF and open the share sheet
+   */
+  async sharePdf(receipt: Receipt): Promise<void> {
+    const { uri } = await Print.printToFileAsync({ html: renderReceiptHtml(receipt) });
+    console.log('[Receipt] PDF created:', uri);
+    await shareFile(uri, 'application/pdf', 'com.adobe.pdf');
+  },
+
+  /**
+   * Snapshot the on-screen receipt view as a PNG and open the share sheet
+   */
+  async shareImage(viewRef: RefObject<View | null>): Promise<void> {
+    const uri = await captureRef(viewRef, { format: 'png', quality: 1, result: 'tmpfile' });
+    console.log('[Receipt] Image created:', uri);
+    await shareFile(uri, 'image/png', 'public.png');
+  },
+};
@@ -0,0 +1,98 @@
+/**
+ * Refund helpers for Micro Merchant payments
+ *
+ * Merchants can refund a received payment in full or in parts. A payment's
+ * refundable balance is its net amount (what the merchant was credited)
+ * minus everything already refunded or still being refunded. Used by the merchant refund sheet,
+ * `transferSimApi.refundTransfer`, and the history/detail screens on both
+ * sides of the payment.
+ */
+
+import type { Transfer } from '../types';
+import { formatMoney } from './currency';
+import { compareMoney, maxMoney, money, subtractMoney, sumMoney, toAmount, zeroMoney } from './money';
+
+export type RefundState = 'none' | 'partial' | 'full';
+
+/**
+ * Total refunded so far (server total, or the sum of completed refunds)
+ */
+export function getRefundedAmount(transfer: Transfer): number {
+  if (transfer.refundedAmount !== undefined) {
+    return toAmount(transfer.refundedAmount);
+  }
+  return toAmount(sumMoney(
+    (transfer.refunds || []).filter((refund) => refund.status === 'COMPLETED').map((refund) => refund.amount),
+    transfer.currency
+  ));
+}
+
+/**
+ * Total of refunds that were sent but haven't completed yet
+ */
+export function getPendingRefundAmount(transfer: Transfer): number {
+  return toAmount(sumMoney(
+    (transfer.refunds || []).filter((refund) => refund.status === 'PENDING').map((refund) => refund.amount),
+    transfer.currency
+  ));
+}
+
+/**
+ * What the merchant can still refund: net amount minus completed and
+ * pending refunds (completed payments only)
+ */
+export function getRefundableAmount(transfer: Transfer): number {
+  if (transfer.status !== 'COMPLETED') return 0;
+  const remaining = subtractMoney(
+    transfer.amount,
+    sumMoney([
+      money(getRefundedAmount(transfer), transfer.currency),
+      money(getPendingRefundAmount(transfer), transfer.currency),
+    ], transfer.currency)
+  );
+  return toAmount(maxMoney(remaining, zeroMoney(transfer.currency)));
+}
+
+export function getRefundState(transfer: Transfer): RefundState {
+  const refunded = getRefundedAmount(transfer);
+  if (refunded <= 0) return 'none';
+  const fullyRefunded = compareMoney(money(refunded, transfer.currency), transfer.amount) >= 0;
+  return transfer.status === 'REVERSED' || fullyRefunded ? 'full' : 'partial';
+}
+
+/**
+ * Short label for history rows and detail screens, or undefined when nothing was refunded
+ */
+export function getRefundLabel(transfer: Transfer): string | undefined {
+  const state = getRefundState(transfer);
+  if (state === 'none') return undefined;
+  return state === 'full'
+    ? 'Refunded'
+    : `Partially refunded (${formatMoney(getRefundedAmount(transfer), transfer.currency)})`;
+}
+
+/**
+ * Validate a refund amount
+ * @returns An error message, or null when the refund can be sent
+ */
+export function validateRefundAmount(transfer: Transfer, amount: number): string | null {
+  if (transfer.status !== 'COMPLETED') {
+    return 'Only completed payments can be refunded';
+  }
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return 'Enter a refund amount greater than zero';
+  }
+  if (toAmount(money(amount, transfer.currency)) !== amount) {
+    return 'Refund amount can have at most 2 decimal places';
+  }
+  const refundable = getRefundableAmount(transfer);
+  if (refundable <= 0) {
+    return getPendingRefundAmount(transfer) > 0
+      ? 'The rest of this payment is already being refunded'
+      : 'This payment has already been fully refunded';
+  }
+  if (amount > refundable) {
+    return `You can refund at most ${formatMoney(refundable, transfer.currency)}`;
+  }
+  return null;
+}
@@ -0,0 +1,353 @@
+/**
+ * Scheduled Transfers Service
+ *
+ * Stores one-off and recurring P2P transfers on the device and sends each
+ * due occurrence through TransferSim. There is no server-side scheduler, so
+ * due transfers are executed whenever the app loads P2P data.
+ *
+ * Every occurrence is sent with a deterministic idempotency key derived from
+ * the schedule ID and the occurrence date, so a retried or interrupted run
+ * can never send the same occurrence twice.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { transferSimApi } from './transferSim';
+import { normalizeCurrency } from './currency';
+import { createLockedStore } from './lockedStore';
+import { parseDateString, toDateString } from './dates';
+import type { ScheduledTransfer, ScheduledTransferFrequency } from '../types';
+
+const STORAGE_KEY = 'mwsim_scheduled_transfers';
+
+/**
+ * Fields the user provides when creating or editing a schedule
+ */
+export type ScheduledTransferInput = Pick<
+  ScheduledTransfer,
+  | 'recipientAlias'
+  | 'recipientAliasType'
+  | 'recipientDisplayName'
+  | 'amount'
+  | 'description'
+  | 'sourceAccountId'
+  | 'senderBsimId'
+  | 'frequency'
+  | 'startDate'
+> &
+  Partial<Pick<ScheduledTransfer, 'currency'>>; // Source account's currency (CAD when omitted)
+
+export interface RunDueResult {
+  sent: number;
+  failed: number;
+}
+
+// ==================
+// Occurrences
+// ==================
+
+/**
+ * Get the date of the occurrence after `current`
+ *
+ * Monthly schedules keep the start date's day of month, clamped to the
+ * length of shorter months (a schedule starting Jan 31 runs Feb 28, Mar 31).
+ *
+ * @returns null for one-off schedules
+ */
+export function getNextRunDate(
+  current: string,
+  frequency: ScheduledTransferFrequency,
+  startDate: string
+): string | null {
+  const date = parseDateString(current);
+
+  switch (frequency) {
+    case 'ONCE':
+      return null;
+    case 'WEEKLY':
+      date.setDate(date.getDate() + 7);
+      return toDateString(date);
+    case 'BIWEEKLY':
+      date.setDate(date.getDate() + 14);
+      return toDateString(date);
+    case 'MONTHLY': {
+      const anchorDay = parseDateString(startDate).getDate();
+      const year = date.getFullYear();
+      const month = date.getMonth() + 1;
+      const daysInMonth = new Date(year, month + 1, 0).getDate();
+      return toDateString(new Date(year, month, Math.min(anchorDay, daysInMonth)));
+    }
+  }
+}
+
+/**
+ * Idempotency key for one occurrence of a schedule
+ * Stable across retries so TransferSim de-duplicates repeated attempts.
+ */
+export function getOccurrenceIdempotencyKey(scheduleId: string, runDate: string): string {
+  return `scheduled-${scheduleId}-${runDate}`;
+}
+
+/**
+ * First occurrence on or after `today`, counting from `from`
+ * @returns null when a one-off schedule's date has passed
+ */
+function getNextRunOnOrAfter(
+  from: string,
+  frequency: ScheduledTransferFrequency,
+  startDate: string,
+  today: string
+): string | null {
+  let nextRunDate: string | null = from;
+  while (nextRunDate && nextRunDate < today) {
+    nextRunDate = getNextRunDate(nextRunDate, frequency, startDate);
+  }
+  return nextRunDate;
+}
+
+/**
+ * Latest occurrence on or before `today`, counting from the due date `from`
+ * Used to skip occurrences missed while the app wasn't opened.
+ */
+function getLatestDueDate(
+  from: string,
+  frequency: ScheduledTransferFrequency,
+  startDate: string,
+  today: string
+): string {
+  let latest = from;
+  let next = getNextRunDate(latest, frequency, startDate);
+  while (next && next <= today) {
+    latest = next;
+    next = getNextRunDate(latest, frequency, startDate);
+  }
+  return latest;
+}
+
+// ==================
+// Storage
+// ==================
+
+const store = createLockedStore<ScheduledTransfer[]>(STORAGE_KEY, () => [], 'ScheduledTransfers');
+
+/**
+ * Apply changes to the latest stored copy of one schedule
+ * @returns null when the schedule no longer exists
+ */
+async function patchSchedule(
+  scheduleId: string,
+  getChanges: (current: ScheduledTransfer) => Partial<ScheduledTransfer>
+): Promise<ScheduledTransfer | null> {
+  let updated: ScheduledTransfer | null = null;
+  await store.update((schedules) =>
+    schedules.map((s) => {
+      if (s.scheduleId !== scheduleId) return s;
+      updated = { ...s, ...getChanges(s), updatedAt: new Date().toISOString() };
+      return updated;
+    })
+  );
+  return updated;
+}
+
+async function updateSchedule(
+  scheduleId: string,
+  changes: Partial<ScheduledTransfer>
+): Promise<ScheduledTransfer> {
+  const updated = await patchSchedule(scheduleId, () => changes);
+  if (!updated) {
+    throw new Error('Scheduled transfer not found');
+  }
+  return updated;
+}
+
+// Prevents overlapping runs when P2P data is refreshed twice in quick succession
+let activeRun: Promise<RunDueResult> | null = null;
+
+export const scheduledTransferService = {
+  /**
+   * Get all schedules, soonest next run first
+   */
+  async getScheduledTransfers(): Promise<ScheduledTransfer[]> {
+    const schedules = await store.read();
+    return schedules.sort((a, b) => a.nextRunDate.localeCompare(b.nextRunDate));
+  },
+
+  async getScheduledTransfer(scheduleId: string): Promise<ScheduledTransfer | null> {
+    const schedules = await store.read();
+    return schedules.find((s) => s.scheduleId === scheduleId) || null;
+  },
+
+  /**
+   * Create a new schedule. The first occurrence runs on `startDate`.
+   */
+  async createScheduledTransfer(input: ScheduledTransferInput): Promise<ScheduledTransfer> {
+    const now = new Date().toISOString();
+    const schedule: ScheduledTransfer = {
+      ...input,
+      scheduleId: uuidv4(),
+      currency: normalizeCurrency(input.currency),
+      nextRunDate: input.startDate,
+      status: 'ACTIVE',
+      occurrenceCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await store.update((schedules) => [...schedules, schedule]);
+    console.log('[ScheduledTransfers] Created schedule:', schedule.scheduleId, schedule.frequency);
+    return schedule;
+  },
+
+  /**
+   * Edit a schedule
+   *
+   * Changing the start date or frequency restarts the schedule from its
+   * (new) start date, but never before `today`: occurrences that would have
+   * fallen due in the past are skipped rather than sent on the next run.
+   */
+  async updateScheduledTransfer(
+    scheduleId: string,
+    input: Partial<ScheduledTransferInput>,
+    today: Date = new Date()
+  ): Promise<ScheduledTransfer> {
+    const existing = await this.getScheduledTransfer(scheduleId);
+    if (!existing) {
+      throw new Error('Scheduled transfer not found');
+    }
+    const todayStr = toDateString(today);
+    const changes: Partial<ScheduledTransfer> = { ...input, lastError: undefined };
+    const startChanged = input.startDate !== undefined && input.startDate !== existing.startDate;
+    const frequencyChanged = input.frequency !== undefined && input.frequency !== existing.frequency;
+    if (startChanged && input.startDate! < todayStr) {
+      throw new Error('The start date cannot be in the past');
+    }
+    if (startChanged || frequencyChanged) {
+      const startDate = input.startDate ?? existing.startDate;
+      const nextRunDate = getNextRunOnOrAfter(startDate, input.frequency ?? existing.frequency, startDate, todayStr);
+      if (!nextRunDate) {
+        throw new Error('The start date cannot be in the past');
+      }
+      changes.nextRunDate = nextRunDate;
+    }
+    return updateSchedule(scheduleId, changes);
+  },
+
+  async pauseScheduledTransfer(scheduleId: string): Promise<ScheduledTransfer> {
+    return updateSchedule(scheduleId, { status: 'PAUSED' });
+  },
+
+  /**
+   * Resume a paused schedule
+   * Occurrences that fell due while paused are skipped, not sent late.
+   */
+  async resumeScheduledTransfer(
+    scheduleId: string,
+    today: Date = new Date()
+  ): Promise<ScheduledTransfer> {
+    const existing = await this.getScheduledTransfer(scheduleId);
+    if (!existing) {
+      throw new Error('Scheduled transfer not found');
+    }
+    const todayStr = toDateString(today);
+    const nextRunDate = getNextRunOnOrAfter(existing.nextRunDate, existing.frequency, existing.startDate, todayStr);
+    return updateSchedule(scheduleId, {
+      status: 'ACTIVE',
+      // A one-off transfer whose date passed while paused runs today instead
+      nextRunDate: nextRunDate ?? todayStr,
+    });
+  },
+
+  async cancelScheduledTransfer(scheduleId: string): Promise<ScheduledTransfer> {
+    return updateSchedule(scheduleId, { status: 'CANCELLED' });
+  },
+
+  /**
+   * Remove cancelled/completed schedules from the list
+   */
+  async deleteScheduledTransfer(scheduleId: string): Promise<void> {
+    await store.update((schedules) => schedules.filter((s) => s.scheduleId !== scheduleId));
+  },
+
+  /**
+   * Send each schedule's occurrence that is due on or before `today`
+   *
+   * When several occurrences were missed (the app wasn't opened), only the
+   * latest is sent and the older ones are skipped, as when resuming. A failed
+   * occurrence stays due and is retried on the next run.
+   */
+  async runDueTransfers(today: Date = new Date()): Promise<RunDueResult> {
+    if (activeRun) {
+      return activeRun;
+    }
+
+    activeRun = (async () => {
+      const todayStr = toDateString(today);
+      const result: RunDueResult = { sent: 0, failed: 0 };
+      const scheduleIds = (await store.read()).map((s) => s.scheduleId);
+
+      for (const scheduleId of scheduleIds) {
+        // Re-read before every occurrence: the user may pause, cancel or edit
+        // the schedule while a send is in flight.
+        let schedule = await this.getScheduledTransfer(scheduleId);
+        while (schedule && schedule.status === 'ACTIVE' && schedule.nextRunDate <= todayStr) {
+          const dueDate = schedule.nextRunDate;
+          const runDate = getLatestDueDate(dueDate, schedule.frequency, schedule.startDate, todayStr);
+          if (runDate !== dueDate) {
+            console.log('[ScheduledTransfers] Skipping missed occurrences', dueDate, 'to', runDate, 'of', scheduleId);
+          }
+          try {
+            const transfer = await transferSimApi.sendMoney(
+              schedule.recipientAlias,
+              schedule.amount,
+              schedule.sourceAccountId,
+              schedule.senderBsimId,
+              schedule.description,
+              schedule.recipientAliasType,
+              getOccurrenceIdempotencyKey(schedule.scheduleId, runDate),
+              undefined,
+              schedule.currency
+            );
+            console.log('[ScheduledTransfers] Sent occurrence', runDate, 'of', schedule.scheduleId, '->', transfer.transferId);
+
+            // Persist after each occurrence so progress survives the app being killed
+            schedule = await patchSchedule(scheduleId, (current) => {
+              const changes: Partial<ScheduledTransfer> = {
+                occurrenceCount: current.occurrenceCount + 1,
+                lastRunAt: new Date().toISOString(),
+                lastTransferId: transfer.transferId,
+                lastError: undefined,
+              };
+              // Only advance when the schedule wasn't rescheduled during the send
+              if (current.nextRunDate === dueDate) {
+                const nextRunDate = getNextRunDate(runDate, current.frequency, current.startDate);
+                changes.nextRunDate = nextRunDate ?? runDate;
+                if (!nextRunDate) changes.status = 'COMPLETED';
+              }
+              return changes;
+            });
+            result.sent++;
+          } catch (e: any) {
+            console.log('[ScheduledTransfers] Occurrence failed', runDate, 'of', scheduleId, e.message);
+            const lastError = e.response?.data?.message || e.message || 'Transfer failed';
+            await patchSchedule(scheduleId, () => ({ lastError }));
+            result.failed++;
+            break;
+          }
+        }
+      }
+
+      return result;
+    })();
+
+    try {
+      return await activeRun;
+    } finally {
+      activeRun = null;
+    }
+  },
+
+  /**
+   * Remove all schedules (called on logout)
+   */
+  async clearAll(): Promise<void> {
+    await store.clear();
+  },
+};
@@ -0,0 +1,292 @@
+/**
+ * Settlement Service
+ *
+ * End-of-day settlement reports for Micro Merchants. A business day is a
+ * calendar day in the merchant's timezone, expressed with the same `tzOffset`
+ * convention as the dashboard endpoint (minutes, `Date.getTimezoneOffset()`).
+ *
+ * Fees are the ones TransferSim recorded on each payment, or an estimate from
+ * the active fee schedule when a payment has none; net is what was deposited to the merchant's
+ * receiving account after fees and refunds. Failed and reversed payments are
+ * listed separately as exceptions.
+ *
+ * "Close day" stores a snapshot of the report in AsyncStorage so the closing
+ * figures stay fixed even if a payment is refunded later. Each closed day has
+ * its own key (a busy day's transfers are large, and Android caps a single
+ * AsyncStorage value at about 2MB); a small index lists the closed days.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { File, Paths } from 'expo-file-system/next';
+import * as Sharing from 'expo-sharing';
+import { transferSimApi } from './transferSim';
+import { getRefundedAmount } from './refunds';
+import { getTipAmount } from './tips';
+import { calculateMerchantFee } from './fees';
+import { DEFAULT_CURRENCY, formatMoney, normalizeCurrency } from './currency';
+import { addMoney, money, subtractMoney, sumMoney, toAmount, toAmountString, zeroMoney } from './money';
+import { buildCsv, csvText, toExportRows } from './historyExport';
+import { createLockedStore } from './lockedStore';
+import type { MerchantCategory, MerchantProfile, TransferWithRecipientType } from '../types';
+
+/** One payment line in a settlement report */
+export interface SettlementItem {
+  transferId: string;
+  createdAt: string;
+  status: TransferWithRecipientType['status'];
+  senderLabel: string;       // Bank and last 4 of the payer's account
+  gross: number;
+  tip: number;               // Part of gross
+  fee: number;
+  refunded: number;
+  net: number;
+}
+
+export interface SettlementReport {
+  businessDate: string;      // YYYY-MM-DD in the merchant's timezone
+  tzOffset: number;          // Minutes, as Date.getTimezoneOffset()
+  merchantId: string;
+  merchantName: string;
+  receivingAccountId: string;
+  receivingBankName: string;
+  currency: string;          // The receiving account's, which every amount is in
+  gross: number;
+  tips: number;              // Part of gross, the day's tip pool
+  fees: number;
+  refunds: number;
+  net: number;               // Deposited to receivingAccountId
+  settledCount: number;
+  items: SettlementItem[];   // Settled payments (completed, or partly refunded)
+  exceptions: SettlementItem[]; // Failed and reversed payments
+  generatedAt: string;
+  closedAt?: string;         // Set when the day was closed on this device
+  transfers: TransferWithRecipientType[]; // Source transfers, for the export
+}
+
+const INDEX_KEY = 'mwsim_settlement_index';
+const SNAPSHOT_KEY_PREFIX = 'mwsim_settlement_';
+// Keep roughly a quarter of closed days on the device
+export const MAX_SNAPSHOTS = 120;
+
+/** A closed day listed in the snapshot index */
+interface SnapshotRef {
+  merchantId: string;
+  businessDate: string;
+}
+
+const EXCEPTION_STATUSES = ['DEBIT_FAILED', 'CREDIT_FAILED', 'REVERSED', 'RECIPIENT_NOT_FOUND', 'CANCELLED', 'EXPIRED'];
+
+// Exact total of decimal amounts (summed in minor units)
+const sumAmounts = (values: number[], currency: string): number =>
+  toAmount(sumMoney(values.map((value) => money(value, currency)), currency));
+
+/**
+ * UTC start (inclusive) and end (exclusive) of a business day
+ * tzOffset follows Date.getTimezoneOffset(): UTC - local, in minutes (EST = 300).
+ */
+export function getBusinessDayBounds(businessDate: string, tzOffset: number): { start: Date; end: Date } {
+  const [year, month, day] = businessDate.split('-').map(Number);
+  const start = Date.UTC(year, month - 1, day) + tzOffset * 60 * 1000;
+  return { start: new Date(start), end: new Date(start + 24 * 60 * 60 * 1000) };
+}
+
+/**
+ * The device's tzOffset on a business date (at the local midnight starting the day)
+ * Days before a daylight saving change keep the offset they had, not today's.
+ */
+export function getDeviceTzOffset(businessDate: string): number {
+  const [year, month, day] = businessDate.split('-').map(Number);
+  return new Date(year, month - 1, day).getTimezoneOffset();
+}
+
+/**
+ * Business date (YYYY-MM-DD) for an instant in the merchant's timezone
+ */
+export function getBusinessDate(date: Date, tzOffset: number): string {
+  return new Date(date.getTime() - tzOffset * 60 * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * Shift a YYYY-MM-DD business date by a number of days
+ */
+export function addBusinessDays(businessDate: string, days: number): string {
+  const [year, month, day] = businessDate.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+function toSettlementItem(transfer: TransferWithRecipientType, category: MerchantCategory, currency: string): SettlementItem {
+  const gross = toAmount(transfer.grossAmount || addMoney(transfer.amount, transfer.feeAmount || zeroMoney(currency)));
+  const fee = transfer.feeAmount ? toAmount(transfer.feeAmount) : calculateMerchantFee(gross, category);
+  const refunded = getRefundedAmount(transfer);
+  return {
+    transferId: transfer.transferId,
+    createdAt: transfer.createdAt,
+    status: transfer.status,
+    senderLabel: `${transfer.senderBankName || 'Bank Transfer'}${transfer.senderAccountLast4 ? ` ****${transfer.senderAccountLast4}` : ''}`,
+    gross,
+    tip: getTipAmount(transfer),
+    fee,
+    refunded,
+    net: toAmount(subtractMoney(money(gross, currency), sumMoney([money(fee, currency), money(refunded, currency)], currency))),
+  };
+}
+
+/**
+ * Aggregate a business day's merchant payments
+ * Transfers outside the day are ignored; pending payments are neither settled nor exceptions.
+ */
+export function buildSettlementReport(
+  transfers: TransferWithRecipientType[],
+  merchant: MerchantProfile,
+  businessDate: string,
+  tzOffset: number,
+  now: Date = new Date()
+): SettlementReport {
+  const { start, end } = getBusinessDayBounds(businessDate, tzOffset);
+  const dayTransfers = transfers
+    .filter((t) => {
+      const createdAt = new Date(t.createdAt);
+      return createdAt >= start && createdAt < end;
+    })
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  // A fully refunded payment is REVERSED: it settled, then the money went back
+  const settled = dayTransfers.filter((t) =>
+    t.status === 'COMPLETED' || (t.status === 'REVERSED' && getRefundedAmount(t) > 0));
+  const exceptions = dayTransfers.filter((t) =>
+    EXCEPTION_STATUSES.includes(t.status) && !settled.includes(t));
+  // Every payment lands in the receiving account, so they all share its currency
+  const currency = dayTransfers.length > 0 ? normalizeCurrency(dayTransfers[0].currency) : DEFAULT_CURRENCY;
+  const items = settled.map((t) => toSettlementItem(t, merchant.merchantCategory, currency));
+
+  return {
+    businessDate,
+    tzOffset,
+    merchantId: merchant.merchantId,
+    merchantName: merchant.merchantName,
+    receivingAccountId: merchant.receivingAccountId,
+    receivingBankName: merchant.receivingBankName,
+    currency,
+    gross: sumAmounts(items.map((item) => item.gross), currency),
+    tips: sumAmounts(items.map((item) => item.tip), currency),
+    fees: sumAmounts(items.map((item) => item.fee), currency),
+    refunds: sumAmounts(items.map((item) => item.refunded), currency),
+    net: sumAmounts(items.map((item) => item.net), currency),
+    settledCount: items.length,
+    items,
+    exceptions: exceptions.map((t) => toSettlementItem(t, merchant.merchantCategory, currency)),
+    generatedAt: now.toISOString(),
+    transfers: dayTransfers,
+  };
+}
+
+// ==================
+// Export
+// ==================
+
+/**
+ * CSV with a summary block followed by every payment of the day (same columns as history export)
+ */
+export function buildSettlementCsv(report: SettlementReport): string {
+  const currency = report.currency || DEFAULT_CURRENCY;
+  const amount = (value: number) => toAmountString(money(value, currency));
+  const summary = [
+    ['Settlement Report', report.merchantName],
+    ['Business Date', report.businessDate],
+    ['Deposit Account', `${report.receivingBankName} ${report.receivingAccountId}`],
+    ['Currency', currency],
+    ['Settled Payments', String(report.settledCount)],
+    ['Gross', amount(report.gross)],
+    ['Tips', amount(report.tips ?? 0)],
+    ['Fees', amount(report.fees)],
+    ['Refunds', amount(report.refunds)],
+    ['Net Deposited', amount(report.net)],
+    ['Exceptions', String(report.exceptions.length)],
+    ['Closed At', report.closedAt || ''],
+  ].map((row) => row.map(csvText).join(','));
+  return `${summary.join('\r\n')}\r\n\r\n${buildCsv(toExportRows(report.transfers, 'merchant'))}`;
+}
+
+// ==================
+// Service
+// ==================
+
+const snapshotIndex = createLockedStore<SnapshotRef[]>(INDEX_KEY, () => [], 'Settlement');
+
+const getSnapshotKey = ({ merchantId, businessDate }: SnapshotRef): string =>
+  `${SNAPSHOT_KEY_PREFIX}${merchantId}_${businessDate}`;
+
+export const settlementService = {
+  /**
+   * Build the live report for a business day from TransferSim
+   * Uses the device timezone, like the merchant dashboard.
+   */
+  async loadReport(merchant: MerchantProfile, businessDate: string): Promise<SettlementReport> {
+    const tzOffset = getDeviceTzOffset(businessDate);
+    const { start } = getBusinessDayBounds(businessDate, tzOffset);
+    const transfers = await transferSimApi.getMerchantTransfersSince(start);
+    return buildSettlementReport(transfers, merchant, businessDate, tzOffset);
+  },
+
+  /**
+   * Closed-day snapshot for a merchant's business date, if the day was closed
+   */
+  async getSnapshot(merchantId: string, businessDate: string): Promise<SettlementReport | null> {
+    const json = await AsyncStorage.getItem(getSnapshotKey({ merchantId, businessDate }));
+    if (!json) return null;
+    try {
+      return JSON.parse(json);
+    } catch {
+      console.warn('[Settlement] Snapshot for', businessDate, 'is corrupt, ignoring');
+      return null;
+    }
+  },
+
+  /**
+   * Close the day: store the report as a snapshot (replacing an earlier close of the same day)
+   */
+  async closeDay(report: SettlementReport): Promise<SettlementReport> {
+    const closed: SettlementReport = { ...report, closedAt: new Date().toISOString() };
+    const ref: SnapshotRef = { merchantId: report.merchantId, businessDate: report.businessDate };
+    await AsyncStorage.setItem(getSnapshotKey(ref), JSON.stringify(closed));
+
+    let dropped: SnapshotRef[] = [];
+    await snapshotIndex.update((refs) => {
+      const next = [ref, ...refs.filter((r) => getSnapshotKey(r) !== getSnapshotKey(ref))]
+        .sort((a, b) => b.businessDate.localeCompare(a.businessDate));
+      dropped = next.slice(MAX_SNAPSHOTS);
+      return next.slice(0, MAX_SNAPSHOTS);
+    });
+    if (dropped.length > 0) {
+      await AsyncStorage.multiRemove(dropped.map(getSnapshotKey));
+    }
+    console.log(`[Settlement] Closed ${report.businessDate}: net ${formatMoney(report.net, report.currency)}`);
+    return closed;
+  },
+
+  /**
+   * Write the report as CSV and open the share sheet
+   */
+  async exportReport(report: SettlementReport): Promise<void> {
+    const file = new File(Paths.cache, `mwsim-settlement-${report.businessDate}.csv`);
+    file.create({ overwrite: true });
+    file.write(buildSettlementCsv(report));
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing is not available on this device');
+    }
+    await Sharing.shareAsync(file.uri, {
+      mimeType: 'text/csv',
+      UTI: 'public.comma-separated-values-text',
+      dialogTitle: 'Export settlement report',
+    });
+  },
+
+  /**
+   * Remove all closed-day snapshots (deep logout / device reset)
+   */
+  async clearAll(): Promise<void> {
+    const refs = await snapshotIndex.read();
+    await AsyncStorage.multiRemove(refs.map(getSnapshotKey));
+    await snapshotIndex.clear();
+  },
+};
@@ -0,0 +1,111 @@
+/**
+ * Tips Service
+ *
+ * Tip prompts for food & beverage merchants. The merchant configures up to
+ * four presets (percentage of the bill or a flat amount); the payer picks one
+ * on the QR confirm screen and the tip is sent as `tipAmount` alongside the
+ * total, so TransferSim records it separately from the bill.
+ *
+ * Tips are pooled per business day and can be split evenly across staff.
+ */
+
+import type { MerchantCategory, TipPreset, TipSettings, TransferWithRecipientType } from '../types';
+import { money, percentOf, splitMoney, toAmount } from './money';
+import { DEFAULT_CURRENCY, formatMoney } from './currency';
+
+/** Categories that can turn on tip prompts */
+export const TIP_CATEGORIES: MerchantCategory[] = ['FOOD_AND_BEVERAGE'];
+
+export const MAX_TIP_PRESETS = 4;
+export const MAX_TIP_PERCENT = 50;
+export const MAX_FLAT_TIP = 100;
+
+export const DEFAULT_TIP_SETTINGS: TipSettings = {
+  enabled: true,
+  presets: [
+    { type: 'PERCENT', value: 15 },
+    { type: 'PERCENT', value: 18 },
+    { type: 'PERCENT', value: 20 },
+  ],
+  allowCustom: true,
+};
+
+export function supportsTips(category: MerchantCategory | undefined): boolean {
+  return !!category && TIP_CATEGORIES.includes(category);
+}
+
+/**
+ * Tip amount for a preset on a bill, rounded to the currency's smallest unit
+ */
+export function calculateTip(baseAmount: number, preset: TipPreset, currency: string = DEFAULT_CURRENCY): number {
+  if (preset.type === 'FLAT') return toAmount(money(preset.value, currency));
+  return toAmount(percentOf(money(baseAmount, currency), preset.value));
+}
+
+/**
+ * Button label for a preset ("15%", "$2.00")
+ */
+export function formatTipPreset(preset: TipPreset, currency: string = DEFAULT_CURRENCY): string {
+  if (preset.type === 'PERCENT') return `${preset.value}%`;
+  return formatMoney(preset.value, currency);
+}
+
+/**
+ * Validate a merchant's tip settings before saving
+ * @returns Error message, or null when the settings are valid
+ */
+export function validateTipSettings(settings: TipSettings, currency: string = DEFAULT_CURRENCY): string | null {
+  if (!settings.enabled) return null;
+  if (settings.presets.length === 0 && !settings.allowCustom) {
+    return 'Add at least one tip preset or allow custom tips';
+  }
+  if (settings.presets.length > MAX_TIP_PRESETS) {
+    return `You can offer up to ${MAX_TIP_PRESETS} tip presets`;
+  }
+  for (const preset of settings.presets) {
+    if (!Number.isFinite(preset.value) || preset.value <= 0) {
+      return 'Tip presets must be greater than zero';
+    }
+    if (preset.type === 'PERCENT' && preset.value > MAX_TIP_PERCENT) {
+      return `Percentage tips can be at most ${MAX_TIP_PERCENT}%`;
+    }
+    if (preset.type === 'FLAT' && preset.value > MAX_FLAT_TIP) {
+      return `Flat tips can be at most ${formatMoney(MAX_FLAT_TIP, currency)}`;
+    }
+  }
+  const labels = settings.presets.map((preset) => formatTipPreset(preset, currency));
+  if (new Set(labels).size !== labels.length) {
+    return 'Tip presets must be different from each other';
+  }
+  return null;
+}
+
+/**
+ * Validate a payer's tip against the bill
+ * @returns Error message, or null when the tip can be sent
+ */
+export function validateTipAmount(tip: number, baseAmount: number): string | null {
+  if (!Number.isFinite(tip) || tip < 0) {
+    return 'Please enter a valid tip';
+  }
+  if (tip > baseAmount) {
+    return "The tip can't be more than the bill";
+  }
+  return null;
+}
+
+// ==================
+// Reporting
+// ==================
+
+export function getTipAmount(transfer: TransferWithRecipientType): number {
+  return transfer.tipAmount ? toAmount(transfer.tipAmount) : 0;
+}
+
+/**
+ * Split a tip pool evenly across staff
+ * Leftover cents (or yen) go to the first shares so the split always adds up to the pool.
+ */
+export function splitTipPool(total: number, shares: number, currency: string = DEFAULT_CURRENCY): number[] {
+  return splitMoney(money(total, currency), shares).map(toAmount);
+}
@@ -16,10 +16,17 @@
 import axios, { AxiosInstance } from 'axios';
 import { secureStorage } from './secureStorage';
 import { getTransferSimUrl, getEnvironmentConfig } from './environment';
+import { getRefundedAmount, validateRefundAmount } from './refunds';
+import { sanitizeFeeSchedule, setActiveFeeSchedule, getActiveFeeSchedule } from './fees';
+import { DEFAULT_CURRENCY, normalizeCurrency, sanitizeFxQuote } from './currency';
+import { parseMoney, parseMoneyValue, zeroMoney } from './money';
 import type {
   Alias,
   AliasType,
   AliasLookupResult,
+  AliasBatchLookupResult,
+  AliasBatchLookupResponse,
+  AliasHashLookup,
   P2PEnrollment,
   Transfer,
   ReceiveToken,
@@ -29,22 +36,44 @@ import type {
   MerchantCategory,
   MerchantEnrollmentRequest,
   MerchantDashboardResponse,
+  MerchantStaffMember,
+  MerchantStaffRole,
+  MerchantStaffInvitation,
+  TipSettings,
+  FeeSchedule,
+  FxQuote,
+  Money,
   ResolvedMerchantToken,
   TransferWithRecipientType,
   TransferDirection,
   TransferStatus,
+  TransferHistoryFilters,
+  MoneyRequest,
+  MoneyRequestDirection,
+  MoneyRequestStatus,
+  CreateMoneyRequestRequest,
+  OrderDetails,
 } from '../types';
 
+/**
+ * Optional amount from the API (number or decimal string), exact to the minor unit
+ */
+function optionalMoney(value: unknown, currency: string): Money | undefined {
+  return parseMoney(value, currency) ?? undefined;
+}
+
 /**
  * Sanitizes a transfer object from the API to ensure all required fields
  * have safe default values. This prevents crashes from malformed data.
  */
 function sanitizeTransfer(transfer: Partial<Transfer>): Transfer {
+  const currency = normalizeCurrency(transfer.currency);
+  const targetCurrency = transfer.targetCurrency ? normalizeCurrency(transfer.targetCurrency) : undefined;
   return {
     transferId: transfer.transferId || `unknown-${Date.now()}`,
     direction: (transfer.direction as TransferDirection) || 'sent',
-    amount: typeof transfer.amount === 'number' ? transfer.amount : Number(transfer.amount) || 0,
-    currency: transfer.currency || 'CAD',
+    amount: parseMoneyValue(transfer.amount, currency),
+    currency,
     status: (transfer.status as TransferStatus) || 'PENDING',
     createdAt: transfer.createdAt || new Date().toISOString(),
     // Optional fields - pass through as-is
@@ -60,6 +89,13 @@ function sanitizeTransfer(transfer: Partial<Transfer>): Transfer {
     recipientBankName: transfer.recipientBankName,
     recipientProfileImageUrl: transfer.recipientProfileImageUrl,
     completedAt: transfer.completedAt,
+    targetAmount: targetCurrency ? optionalMoney(transfer.targetAmount, targetCurrency) : undefined,
+    targetCurrency,
+    fxRate: transfer.fxRate !== undefined ? Number(transfer.fxRate) || undefined : undefined,
+    refundedAmount: optionalMoney(transfer.refundedAmount, currency),
+    refunds: Array.isArray(transfer.refunds)
+      ? transfer.refunds.map((refund) => ({ ...refund, amount: parseMoneyValue(refund.amount, currency) }))
+      : undefined,
   };
 }
 
@@ -90,8 +126,9 @@ function sanitizeMerchantTransfer(transfer: Partial<TransferWithRecipientType>):
     recipientType: transfer.recipientType || 'individual',
     merchantName: transfer.merchantName,
     merchantCategory: transfer.merchantCategory,
-    feeAmount: typeof transfer.feeAmount === 'number' ? transfer.feeAmount : undefined,
-    grossAmount: typeof transfer.grossAmount === 'number' ? transfer.grossAmount : undefined,
+    feeAmount: optionalMoney(transfer.feeAmount, base.currency),
+    grossAmount: optionalMoney(transfer.grossAmount, base.currency),
+    tipAmount: optionalMoney(transfer.tipAmount, base.currency),
   };
 }
 
@@ -108,6 +145,48 @@ function sanitizeMerchantTransfers(transfers: unknown): TransferWithRecipientTyp
     .map(sanitizeMerchantTransfer);
 }
 
+/**
+ * Sanitizes a money request from the API so the request screens never
+ * crash on missing fields (same approach as sanitizeTransfer).
+ */
+function sanitizeMoneyRequest(request: Partial<MoneyRequest>): MoneyRequest {
+  return {
+    requestId: request.requestId || `unknown-${Date.now()}`,
+    direction: (request.direction as MoneyRequestDirection) || 'incoming',
+    status: (request.status as MoneyRequestStatus) || 'PENDING',
+    amount: parseMoneyValue(request.amount, normalizeCurrency(request.currency)),
+    currency: normalizeCurrency(request.currency),
+    createdAt: request.createdAt || new Date().toISOString(),
+    // Optional fields - pass through as-is
+    description: request.description,
+    requesterAlias: request.requesterAlias,
+    requesterDisplayName: request.requesterDisplayName,
+    requesterBankName: request.requesterBankName,
+    requesterProfileImageUrl: request.requesterProfileImageUrl,
+    requesterInitialsColor: request.requesterInitialsColor,
+    payerAlias: request.payerAlias,
+    payerDisplayName: request.payerDisplayName,
+    payerProfileImageUrl: request.payerProfileImageUrl,
+    transferId: request.transferId,
+    declineReason: request.declineReason,
+    expiresAt: request.expiresAt,
+    respondedAt: request.respondedAt,
+  };
+}
+
+/**
+ * Sanitizes an array of money requests, filtering out any that are completely invalid.
+ */
+function sanitizeMoneyRequests(requests: unknown): MoneyRequest[] {
+  if (!Array.isArray(requests)) {
+    console.warn('[TransferSim] Expected money requests array, got:', typeof requests);
+    return [];
+  }
+  return requests
+    .filter((r): r is Partial<MoneyRequest> => r != null && typeof r === 'object')
+    .map(sanitizeMoneyRequest);
+}
+
 // UUID regex pattern for detecting raw user IDs in alias fields
 const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
@@ -414,6 +493,25 @@ export const transferSimApi = {
     return data;
   },
 
+  /**
+   * Look up several aliases at once (device contacts)
+   * Sends SHA-256 hashes of the normalized phone numbers/emails rather than
+   * the values themselves (no names or other contact details). Phone number
+   * hashes can be reversed by brute force, so treat them as personal data.
+   * TransferSim hashes its registered aliases the same way and matches on the
+   * hash. It accepts up to 50 aliases per request.
+   */
+  async lookupAliases(aliases: AliasHashLookup[]): Promise<AliasBatchLookupResult[]> {
+    if (aliases.length === 0) {
+      return [];
+    }
+    const { data } = await getTransferSimClient().post<AliasBatchLookupResponse>('/api/v1/aliases/lookup/batch', {
+      aliases,
+    });
+    console.log('[TransferSim] lookupAliases - found:', data.results.filter((r) => r.found).length, 'of', aliases.length);
+    return data.results;
+  },
+
   // ==================
   // Transfers
   // ==================
@@ -422,6 +520,10 @@ export const transferSimApi = {
    * Initiate a P2P transfer
    * @param senderBsimId - Required for multi-bank support. Identifies which bank to debit.
    * @param recipientAliasType - Optional alias type (EMAIL, PHONE, USERNAME). Required when sending via QR token.
+   * @param idempotencyKey - Optional key so a retried request never creates a second transfer (used by scheduled transfers).
+   * @param tipAmount - Optional tip for a merchant, already included in `amount`; recorded separately by TransferSim.
+   * @param currency - Currency of `amount`, i.e. the source account's currency.
+   * @param fxQuoteId - FX quote the sender confirmed, when the recipient's currency differs.
    */
   async sendMoney(
     recipientAlias: string,
@@ -429,12 +531,16 @@ export const transferSimApi = {
     sourceAccountId: string,
     senderBsimId: string,
     description?: string,
-    recipientAliasType?: AliasType
+    recipientAliasType?: AliasType,
+    idempotencyKey?: string,
+    tipAmount?: number,
+    currency: string = DEFAULT_CURRENCY,
+    fxQuoteId?: string
   ): Promise<{ transferId: string; status: string }> {
     const requestBody: Record<string, unknown> = {
       recipientAlias,
       amount,
-      currency: 'CAD',
+      currency: normalizeCurrency(currency),
       sourceAccountId,
       senderBsimId,
       description,
@@ -443,8 +549,18 @@ export const transferSimApi = {
     if (recipientAliasType) {
       requestBody.recipientAliasType = recipientAliasType;
     }
+    if (tipAmount && tipAmount > 0) {
+      requestBody.tipAmount = tipAmount;
+    }
+    if (fxQuoteId) {
+      requestBody.fxQuoteId = fxQuoteId;
+    }
     console.log('[TransferSim] sendMoney request:', JSON.stringify(requestBody, null, 2));
-    const { data } = await getTransferSimClient().post<TransferResponse>('/api/v1/transfers', requestBody);
+    const { data } = await getTransferSimClient().post<TransferResponse>(
+      '/api/v1/transfers',
+      requestBody,
+      idempotencyKey ? { headers: { 'Idempotency-Key': idempotencyKey } } : undefined
+    );
     return {
       transferId: data.transferId,
       status: data.status,
@@ -462,15 +578,31 @@ export const transferSimApi = {
   /**
    * Get transfer history
    * Automatically resolves UUID aliases to display names via WSIM's profile API.
+   *
+   * @param filters - Optional status set, date range (sent with tzOffset so
+   *   dates match the user's local day), and counterparty search query
    */
   async getTransfers(
     direction?: 'sent' | 'received' | 'all',
     limit: number = 20,
-    offset: number = 0
+    offset: number = 0,
+    filters?: TransferHistoryFilters
   ): Promise<{ transfers: Transfer[]; total: number }> {
-    console.log('[TransferSim] getTransfers - direction:', direction, 'limit:', limit);
+    console.log('[TransferSim] getTransfers - direction:', direction, 'limit:', limit, 'offset:', offset, 'filters:', filters);
+    const params: Record<string, string | number> = { direction: direction || 'all', limit, offset };
+    if (filters?.statuses && filters.statuses.length > 0) {
+      params.status = filters.statuses.join(',');
+    }
+    if (filters?.fromDate || filters?.toDate) {
+      if (filters.fromDate) params.fromDate = filters.fromDate;
+      if (filters.toDate) params.toDate = filters.toDate;
+      params.tzOffset = new Date().getTimezoneOffset();
+    }
+    if (filters?.query?.trim()) {
+      params.q = filters.query.trim();
+    }
     const { data } = await getTransferSimClient().get<TransferListResponse>('/api/v1/transfers', {
-      params: { direction: direction || 'all', limit, offset },
+      params,
     });
     console.log('[TransferSim] getTransfers response:', JSON.stringify(data, null, 2));
 
@@ -522,6 +654,126 @@ export const transferSimApi = {
     await getTransferSimClient().post(`/api/v1/transfers/${transferId}/cancel`);
   },
 
+  // ==================
+  // FX Quotes
+  // ==================
+
+  /**
+   * Quote a cross-currency transfer before the sender confirms it
+   * POST /api/v1/fx/quotes
+   *
+   * The quote is locked until `expiresAt`; pass its `quoteId` to sendMoney.
+   * @returns The quote, or null when TransferSim can't convert between the currencies
+   */
+  async getFxQuote(fromCurrency: string, toCurrency: string, amount: number): Promise<FxQuote | null> {
+    const { data } = await getTransferSimClient().post('/api/v1/fx/quotes', {
+      fromCurrency: normalizeCurrency(fromCurrency),
+      toCurrency: normalizeCurrency(toCurrency),
+      amount,
+    });
+    const quote = sanitizeFxQuote(data, fromCurrency, toCurrency, amount);
+    if (!quote) {
+      console.warn('[TransferSim] getFxQuote returned no usable rate:', JSON.stringify(data));
+    }
+    return quote;
+  },
+
+  // ==================
+  // Money Requests
+  // ==================
+
+  /**
+   * Ask another user to pay you
+   * POST /api/v1/requests
+   *
+   * The payer receives a `payment_request` push notification that deep links
+   * to the RequestApproval screen.
+   */
+  async createMoneyRequest(request: CreateMoneyRequestRequest): Promise<MoneyRequest> {
+    console.log('[TransferSim] createMoneyRequest:', JSON.stringify(request, null, 2));
+    const { data } = await getTransferSimClient().post<MoneyRequest>('/api/v1/requests', {
+      ...request,
+      currency: normalizeCurrency(request.currency),
+    });
+    return sanitizeMoneyRequest({ ...data, direction: 'outgoing' });
+  },
+
+  /**
+   * List money requests
+   * GET /api/v1/requests
+   *
+   * @param direction 'outgoing' (I requested), 'incoming' (requested of me) or 'all'
+   * @param status Optional status filter (e.g. 'PENDING' for the approval inbox)
+   */
+  async listMoneyRequests(
+    direction: MoneyRequestDirection | 'all' = 'all',
+    status?: MoneyRequestStatus,
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<{ requests: MoneyRequest[]; total: number }> {
+    const params: Record<string, string | number> = { direction, limit, offset };
+    if (status) {
+      params.status = status;
+    }
+    const { data } = await getTransferSimClient().get<{ requests: MoneyRequest[]; total: number }>(
+      '/api/v1/requests',
+      { params }
+    );
+    return {
+      requests: sanitizeMoneyRequests(data.requests),
+      total: data.total || 0,
+    };
+  },
+
+  /**
+   * Get a single money request
+   * Used when opening the RequestApproval deep link from a push notification
+   * GET /api/v1/requests/:requestId
+   */
+  async getMoneyRequest(requestId: string): Promise<MoneyRequest> {
+    const { data } = await getTransferSimClient().get<MoneyRequest>(`/api/v1/requests/${requestId}`);
+    return sanitizeMoneyRequest(data);
+  },
+
+  /**
+   * Approve (pay) an incoming money request
+   * POST /api/v1/requests/:requestId/approve
+   *
+   * TransferSim creates the transfer from the chosen account and returns its ID.
+   * @param senderBsimId - Required for multi-bank support. Identifies which bank to debit.
+   */
+  async approveMoneyRequest(
+    requestId: string,
+    sourceAccountId: string,
+    senderBsimId: string
+  ): Promise<{ requestId: string; status: MoneyRequestStatus; transferId?: string }> {
+    const { data } = await getTransferSimClient().post(`/api/v1/requests/${requestId}/approve`, {
+      sourceAccountId,
+      senderBsimId,
+    });
+    return {
+      requestId: data.requestId || requestId,
+      status: data.status || 'APPROVED',
+      transferId: data.transferId,
+    };
+  },
+
+  /**
+   * Decline an incoming money request
+   * POST /api/v1/requests/:requestId/decline
+   */
+  async declineMoneyRequest(requestId: string, reason?: string): Promise<void> {
+    await getTransferSimClient().post(`/api/v1/requests/${requestId}/decline`, { reason });
+  },
+
+  /**
+   * Cancel an outgoing money request that has not been answered yet
+   * POST /api/v1/requests/:requestId/cancel
+   */
+  async cancelMoneyRequest(requestId: string): Promise<void> {
+    await getTransferSimClient().post(`/api/v1/requests/${requestId}/cancel`);
+  },
+
   // ==================
   // Tokens (QR/NFC)
   // ==================
@@ -621,6 +873,7 @@ export const transferSimApi = {
     description?: string;
     merchantCategory?: MerchantCategory;
     receivingAccountId?: string;
+    tipSettings?: TipSettings;
   }): Promise<MerchantProfile> {
     const { data } = await getTransferSimClient().put<MerchantProfile>('/api/v1/micro-merchants/me', updates);
     return data;
@@ -634,6 +887,74 @@ export const transferSimApi = {
     await getTransferSimClient().put('/api/v1/micro-merchants/me', { isActive: false });
   },
 
+  /**
+   * List staff with access to the merchant account (owner included)
+   * GET /api/v1/micro-merchants/me/staff
+   */
+  async getMerchantStaff(): Promise<MerchantStaffMember[]> {
+    const { data } = await getTransferSimClient().get<{ staff: MerchantStaffMember[] }>('/api/v1/micro-merchants/me/staff');
+    return data.staff || [];
+  },
+
+  /**
+   * Invite someone to the merchant account by alias
+   * POST /api/v1/micro-merchants/me/staff
+   */
+  async inviteMerchantStaff(alias: string, role: MerchantStaffRole): Promise<MerchantStaffMember> {
+    console.log('[TransferSim] inviteMerchantStaff:', alias, role);
+    const { data } = await getTransferSimClient().post<MerchantStaffMember>('/api/v1/micro-merchants/me/staff', {
+      alias: alias.trim(),
+      role,
+    });
+    return data;
+  },
+
+  /**
+   * Change a staff member's role
+   * PATCH /api/v1/micro-merchants/me/staff/:staffId
+   */
+  async updateMerchantStaffRole(staffId: string, role: MerchantStaffRole): Promise<MerchantStaffMember> {
+    const { data } = await getTransferSimClient().patch<MerchantStaffMember>(
+      `/api/v1/micro-merchants/me/staff/${staffId}`,
+      { role }
+    );
+    return data;
+  },
+
+  /**
+   * Remove a staff member or cancel a pending invitation
+   * DELETE /api/v1/micro-merchants/me/staff/:staffId
+   */
+  async removeMerchantStaff(staffId: string): Promise<void> {
+    await getTransferSimClient().delete(`/api/v1/micro-merchants/me/staff/${staffId}`);
+  },
+
+  /**
+   * Pending invitations for the current user to join other merchants
+   * GET /api/v1/micro-merchants/invitations
+   */
+  async getStaffInvitations(): Promise<MerchantStaffInvitation[]> {
+    try {
+      const { data } = await getTransferSimClient().get<{ invitations: MerchantStaffInvitation[] }>(
+        '/api/v1/micro-merchants/invitations'
+      );
+      return data.invitations || [];
+    } catch (error: any) {
+      console.log('[TransferSim] getStaffInvitations failed:', error.response?.status || error.message);
+      return [];
+    }
+  },
+
+  /**
+   * Accept or decline a staff invitation
+   * POST /api/v1/micro-merchants/invitations/:invitationId/accept (or /decline)
+   */
+  async respondToStaffInvitation(invitationId: string, accept: boolean): Promise<void> {
+    await getTransferSimClient().post(
+      `/api/v1/micro-merchants/invitations/${invitationId}/${accept ? 'accept' : 'decline'}`
+    );
+  },
+
   /**
    * Upload merchant logo
    * POST /api/v1/micro-merchants/me/profile/logo
@@ -721,18 +1042,39 @@ export const transferSimApi = {
   /**
    * Generate a merchant receive token (for QR code display)
    * Uses the standard token endpoint with asMerchant: true
+   * Pass orderDetails for an itemized invoice; amount must be its total.
    * POST /api/v1/tokens/receive
    */
-  async generateMerchantToken(amount?: number, description?: string): Promise<ReceiveToken> {
+  async generateMerchantToken(
+    amount?: number,
+    description?: string,
+    orderDetails?: OrderDetails
+  ): Promise<ReceiveToken> {
     const { data } = await getTransferSimClient().post<ReceiveToken>('/api/v1/tokens/receive', {
       amount,
       description,
+      orderDetails,
       asMerchant: true,  // Key flag to generate merchant token
       expiresInSeconds: 300, // 5 minutes
     });
     return data;
   },
 
+  /**
+   * Generate a long-lived static merchant token (for printed counter posters)
+   * Same endpoint as generateMerchantToken, but with no amount so the payer
+   * enters it, and a 1-year expiry instead of 5 minutes.
+   * POST /api/v1/tokens/receive
+   */
+  async generateStaticMerchantToken(): Promise<ReceiveToken> {
+    const { data } = await getTransferSimClient().post<ReceiveToken>('/api/v1/tokens/receive', {
+      asMerchant: true,
+      isStatic: true,
+      expiresInSeconds: 365 * 24 * 60 * 60, // 1 year
+    });
+    return data;
+  },
+
   /**
    * Resolve a token (when scanning QR)
    * Returns recipientType and merchant info automatically
@@ -765,6 +1107,77 @@ export const transferSimApi = {
     };
   },
 
+  /**
+   * Get every merchant transaction created at or after `since`
+   * The transactions endpoint has no date filter, so this pages newest-first
+   * and stops at the first page that reaches past `since` (or at `maxTransfers`).
+   */
+  async getMerchantTransfersSince(since: Date, maxTransfers: number = 3000): Promise<TransferWithRecipientType[]> {
+    const pageSize = 100;
+    const transfers: TransferWithRecipientType[] = [];
+    let offset = 0;
+    while (transfers.length < maxTransfers) {
+      const page = await transferSimApi.getMerchantTransfers(pageSize, offset);
+      offset += page.transfers.length;
+      transfers.push(...page.transfers.filter((t) => new Date(t.createdAt) >= since));
+      const oldest = page.transfers[page.transfers.length - 1];
+      const pastRange = !!oldest && new Date(oldest.createdAt) < since;
+      if (page.transfers.length < pageSize || offset >= page.total || pastRange) break;
+    }
+    return transfers;
+  },
+
+  /**
+   * Refund a merchant payment back to the payer (full or partial)
+   * The amount is checked against what is left to refund before calling the API.
+   * The Idempotency-Key is derived from the refund state, so retrying the same
+   * refund never refunds twice while a later partial refund still goes through.
+   * POST /api/v1/micro-merchants/me/transactions/:transferId/refunds
+   *
+   * @returns The updated transaction (refundedAmount, refunds, status)
+   */
+  async refundTransfer(
+    transfer: TransferWithRecipientType,
+    amount: number,
+    reason?: string
+  ): Promise<TransferWithRecipientType> {
+    const error = validateRefundAmount(transfer, amount);
+    if (error) {
+      throw new Error(error);
+    }
+    const refundedBefore = getRefundedAmount(transfer);
+    console.log('[TransferSim] refundTransfer:', transfer.transferId, amount);
+    const { data } = await getTransferSimClient().post<TransferWithRecipientType>(
+      `/api/v1/micro-merchants/me/transactions/${transfer.transferId}/refunds`,
+      { amount, reason },
+      { headers: { 'Idempotency-Key': `refund-${transfer.transferId}-${refundedBefore.toFixed(2)}-${amount.toFixed(2)}` } }
+    );
+    return sanitizeMerchantTransfer(data);
+  },
+
+  /**
+   * Get the full merchant dashboard response (all periods, fees, recent transactions)
+   * GET /api/v1/micro-merchants/me/dashboard
+   *
+   * Passes tzOffset so "today" is calculated in the user's local timezone.
+   * Used by the analytics screen; getMerchantStats reduces it for the home dashboard.
+   */
+  async getMerchantDashboard(): Promise<MerchantDashboardResponse> {
+    // Pass timezone offset so server calculates "today" in user's local timezone
+    const tzOffset = new Date().getTimezoneOffset();
+    const { data } = await getTransferSimClient().get<MerchantDashboardResponse>(
+      '/api/v1/micro-merchants/me/dashboard',
+      { params: { tzOffset } }
+    );
+
+    console.log('[TransferSim] Dashboard response:', JSON.stringify(data, null, 2));
+
+    return {
+      ...data,
+      recentTransactions: sanitizeMerchantTransfers(data.recentTransactions || []),
+    };
+  },
+
   /**
    * Get merchant dashboard stats (today's revenue, transaction count)
    * GET /api/v1/micro-merchants/me/dashboard
@@ -778,41 +1191,53 @@ export const transferSimApi = {
    * We map this to the UI's expected format.
    * Passes tzOffset for correct "Today" calculation in user's local timezone.
    */
-  async getMerchantStats(): Promise<{ todayRevenue: number; todayTransactionCount: number; weekRevenue: number }> {
-    // Pass timezone offset so server calculates "today" in user's local timezone
-    const tzOffset = new Date().getTimezoneOffset();
-    const { data } = await getTransferSimClient().get<MerchantDashboardResponse>(
-      '/api/v1/micro-merchants/me/dashboard',
-      { params: { tzOffset } }
-    );
-
-    console.log('[TransferSim] Dashboard response:', JSON.stringify(data, null, 2));
+  async getMerchantStats(): Promise<{
+    todayRevenue: Money;
+    todayTransactionCount: number;
+    weekRevenue: Money;
+    todayTips: Money;
+    weekTips: Money;
+  }> {
+    const data = await transferSimApi.getMerchantDashboard();
 
     // Parse the structured response into the UI's expected format
-    // TransferSim returns decimal strings (e.g., "500.00"), convert to numbers
-    const todayRevenue = data.today?.totalReceived
-      ? parseFloat(data.today.totalReceived)
-      : 0;
+    // TransferSim returns decimal strings (e.g., "500.00"), parsed exactly into Money
+    const todayRevenue = parseMoney(data.today?.totalReceived) || zeroMoney();
     const todayTransactionCount = data.today?.totalTransactions ?? 0;
-    const weekRevenue = data.last7Days?.totalReceived
-      ? parseFloat(data.last7Days.totalReceived)
-      : 0;
+    const weekRevenue = parseMoney(data.last7Days?.totalReceived) || zeroMoney();
+    // Tips are part of the revenue above, reported separately
+    const todayTips = parseMoney(data.today?.totalTips) || zeroMoney();
+    const weekTips = parseMoney(data.last7Days?.totalTips) || zeroMoney();
 
     return {
       todayRevenue,
       todayTransactionCount,
       weekRevenue,
+      todayTips,
+      weekTips,
     };
   },
 
   /**
-   * Calculate fee for a given amount (for display purposes)
-   * Fee structure: $0.25 for amounts < $200, $0.50 for amounts >= $200
+   * Fetch the Micro Merchant fee schedule and make it the active schedule
+   * GET /api/v1/micro-merchants/fee-schedule
+   *
+   * Falls back to the local fee table when the response can't be used, and
+   * keeps the current schedule when the endpoint is unreachable, so fee
+   * estimates always work.
    */
-  calculateMerchantFee(amount: number): number {
-    if (amount < 200) {
-      return 0.25;
+  async getFeeSchedule(): Promise<FeeSchedule> {
+    try {
+      const { data } = await getTransferSimClient().get('/api/v1/micro-merchants/fee-schedule');
+      const schedule = sanitizeFeeSchedule(data);
+      if (!schedule) {
+        console.warn('[TransferSim] Fee schedule response unusable, using local fee table');
+      }
+      setActiveFeeSchedule(schedule);
+    } catch (error: any) {
+      // Keep the schedule already active (the local table unless an earlier fetch succeeded)
+      console.log('[TransferSim] getFeeSchedule failed, keeping current schedule:', error.response?.status || error.message);
     }
-    return 0.50;
+    return getActiveFeeSchedule();
   },
 };
@@ -152,6 +152,41 @@ export interface PendingPayment {
   expiresAt: string;
 }
 
+/**
+ * A card payment the user has already responded to (payment history)
+ * Field names match WSIM /mobile/payment/history response
+ */
+export interface PaymentHistoryItem {
+  requestId: string;
+  status: PaymentRequest['status'];
+  merchantName: string;
+  merchantLogoUrl?: string;
+  amount: number;
+  currency: string;
+  orderId: string;
+  orderDescription?: string;
+  cardId?: string;              // Card used to pay (absent for cancelled/expired requests)
+  cardType?: string;
+  cardLastFour?: string;
+  bankName?: string;
+  createdAt: string;
+  completedAt?: string;
+  orderDetails?: OrderDetails;  // Stored purchase breakdown, same shape as PaymentRequest
+}
+
+/**
+ * Client-side filters for the payment history screen
+ * Dates are inclusive ISO date strings (YYYY-MM-DD)
+ */
+export interface PaymentHistoryFilters {
+  cardId?: string;
+  merchantQuery?: string;
+  startDate?: string;
+  endDate?: string;
+  minAmount?: number;
+  maxAmount?: number;
+}
+
 // P2P Transfer types
 
 export type AliasType = 'EMAIL' | 'PHONE' | 'USERNAME' | 'RANDOM_KEY';
@@ -188,11 +223,50 @@ export type TransferStatus =
 
 export type TransferDirection = 'sent' | 'received';
 
+/**
+ * Server-side filters for transfer history (GET /api/v1/transfers)
+ * Dates are inclusive local calendar dates (YYYY-MM-DD).
+ */
+export interface TransferHistoryFilters {
+  statuses?: TransferStatus[];
+  fromDate?: string;
+  toDate?: string;
+  query?: string;              // Free-text counterparty search (alias or display name)
+}
+
+/**
+ * An exact amount of money: integer minor units (cents for CAD) plus currency
+ * Transfers, money requests and contracts carry Money; the API sanitizers parse the
+ * server's decimal amounts into it (see services/money.ts). Request payloads send decimals.
+ */
+export interface Money {
+  minor: number;
+  currency: string;
+}
+
+/**
+ * Locked exchange rate for a cross-currency transfer
+ * POST /api/v1/fx/quotes
+ */
+export interface FxQuote {
+  quoteId: string;
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;                    // Units of toCurrency per 1 fromCurrency
+  sourceAmount: number;
+  targetAmount: number;
+  expiresAt: string;
+}
+
 export interface Transfer {
   transferId: string;
   direction: TransferDirection;
-  amount: number;
+  amount: Money;
   currency: string;
+  // Cross-currency transfers (amount/currency are the sender's side)
+  targetAmount?: Money;
+  targetCurrency?: string;
+  fxRate?: number;
   description?: string;
   status: TransferStatus;
 
@@ -212,6 +286,23 @@ export interface Transfer {
 
   createdAt: string;
   completedAt?: string;
+
+  // Merchant refunds (a full refund moves the transfer to REVERSED)
+  refundedAmount?: Money;          // Total refunded so far
+  refunds?: TransferRefund[];
+}
+
+export type TransferRefundStatus = 'PENDING' | 'COMPLETED' | 'FAILED';
+
+/**
+ * A full or partial refund of a Micro Merchant payment, back to the payer
+ */
+export interface TransferRefund {
+  refundId: string;
+  amount: Money;
+  status: TransferRefundStatus;
+  reason?: string;
+  createdAt: string;
 }
 
 export interface AliasLookupResult {
@@ -223,6 +314,25 @@ export interface AliasLookupResult {
   initialsColor?: string;     // Hex color for initials avatar fallback (e.g., "#3949AB")
   isMerchant?: boolean;       // Whether recipient is a registered Micro Merchant
   merchantLogoUrl?: string;   // Merchant logo URL (only if isMerchant: true)
+  currency?: string;          // Currency of the recipient's receiving account
+}
+
+/**
+ * Batch alias lookup (device contacts)
+ * Aliases are sent as the SHA-256 (lowercase hex) of the normalized alias,
+ * and each result echoes the hash it was looked up with.
+ */
+export interface AliasHashLookup {
+  aliasHash: string;
+  aliasType: AliasType;
+}
+
+export interface AliasBatchLookupResult extends AliasLookupResult {
+  aliasHash: string;
+}
+
+export interface AliasBatchLookupResponse {
+  results: AliasBatchLookupResult[];
 }
 
 export interface ReceiveToken {
@@ -231,6 +341,7 @@ export interface ReceiveToken {
   expiresAt: string;
   amount?: number;
   description?: string;
+  orderDetails?: OrderDetails;  // Itemized merchant invoice (amount is the invoice total)
 }
 
 export interface ResolvedToken {
@@ -241,6 +352,8 @@ export interface ResolvedToken {
   recipientBankName: string;
   amount?: number;
   description?: string;
+  orderDetails?: OrderDetails;     // Present when a merchant generated an itemized invoice
+  currency?: string;               // Recipient's currency (and the currency of `amount`)
   expiresAt: string;
 }
 
@@ -269,6 +382,255 @@ export interface P2PState {
   lastUsedAccountId?: string;
 }
 
+// ===========================
+// P2P Money Request Types
+// ===========================
+
+/**
+ * Status of a P2P money request
+ * Must match TransferSim API enum values
+ */
+export type MoneyRequestStatus =
+  | 'PENDING'
+  | 'APPROVED'
+  | 'DECLINED'
+  | 'CANCELLED'
+  | 'EXPIRED';
+
+/**
+ * Direction of a money request from the current user's point of view
+ * - outgoing: I asked someone to pay me
+ * - incoming: someone asked me to pay them
+ */
+export type MoneyRequestDirection = 'outgoing' | 'incoming';
+
+/**
+ * P2P money request (the P2P counterpart of a card PaymentRequest)
+ * Field names match TransferSim API response
+ */
+export interface MoneyRequest {
+  requestId: string;
+  direction: MoneyRequestDirection;
+  status: MoneyRequestStatus;
+  amount: Money;
+  currency: string;
+  description?: string;
+
+  // Requester info (the person who will receive the money)
+  requesterAlias?: string;
+  requesterDisplayName?: string;
+  requesterBankName?: string;
+  requesterProfileImageUrl?: string;
+  requesterInitialsColor?: string;
+
+  // Payer info (the person being asked to pay)
+  payerAlias?: string;
+  payerDisplayName?: string;
+  payerProfileImageUrl?: string;
+
+  transferId?: string;             // Set once an approved request has been paid
+  declineReason?: string;
+  createdAt: string;
+  expiresAt?: string;
+  respondedAt?: string;
+}
+
+/**
+ * Create money request payload
+ * Field names must match TransferSim API contract
+ */
+export interface CreateMoneyRequestRequest {
+  payerAlias: string;
+  payerAliasType?: AliasType;
+  amount: number;
+  currency?: string;               // Defaults to CAD
+  description?: string;
+  expiresInHours?: number;
+}
+
+// ===========================
+// Scheduled Transfer Types
+// ===========================
+
+/**
+ * How often a scheduled transfer repeats
+ * - ONCE: single transfer on a future date
+ * - WEEKLY / BIWEEKLY: every 7 / 14 days from the start date
+ * - MONTHLY: same day of month as the start date (clamped to month length)
+ */
+export type ScheduledTransferFrequency = 'ONCE' | 'WEEKLY' | 'BIWEEKLY' | 'MONTHLY';
+
+export type ScheduledTransferStatus = 'ACTIVE' | 'PAUSED' | 'COMPLETED' | 'CANCELLED';
+
+/**
+ * A P2P transfer the app sends on the user's behalf
+ * Stored locally on the device; each occurrence is sent via TransferSim sendMoney.
+ * Dates are local calendar dates in YYYY-MM-DD format.
+ */
+export interface ScheduledTransfer {
+  scheduleId: string;
+  recipientAlias: string;
+  recipientAliasType?: AliasType;
+  recipientDisplayName?: string;
+  amount: number;
+  currency: string;
+  description?: string;
+  sourceAccountId: string;
+  senderBsimId: string;
+  frequency: ScheduledTransferFrequency;
+  startDate: string;
+  nextRunDate: string;
+  status: ScheduledTransferStatus;
+  occurrenceCount: number;         // Number of occurrences sent so far
+  lastRunAt?: string;
+  lastTransferId?: string;
+  lastError?: string;              // Set when the most recent attempt failed (retried on next run)
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ===========================
+// Saved Payee Types
+// ===========================
+
+/**
+ * Where a payee came from
+ * - TRANSFER: learned automatically from a completed transfer
+ * - MANUAL: added by the user from the payee book
+ */
+export type PayeeSource = 'TRANSFER' | 'MANUAL';
+
+/**
+ * A saved P2P recipient, stored locally in the payee book
+ * Details are refreshed from lookupAlias, so a renamed recipient shows their
+ * new display name and a removed alias is flagged instead of silently failing.
+ */
+export interface Payee {
+  payeeId: string;
+  alias: string;
+  aliasType?: AliasType;
+  displayName?: string;
+  nickname?: string;               // Set by the user; shown instead of displayName
+  profileImageUrl?: string;
+  initialsColor?: string;
+  bankName?: string;
+  currency?: string;               // Currency of the payee's receiving account
+  isMerchant: boolean;
+  merchantLogoUrl?: string;
+  isFavourite: boolean;
+  source: PayeeSource;
+  transferCount: number;           // Completed transfers sent to this payee
+  lastPaidAt?: string;             // createdAt of the latest counted transfer
+  aliasRemoved?: boolean;          // lookupAlias no longer finds the alias
+  lastVerifiedAt?: string;         // Last successful lookupAlias sync
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ===========================
+// Device Contact Types
+// ===========================
+
+/**
+ * A phone number (E.164) or email address from a device contact,
+ * normalized so it can be looked up as a TransferSim alias
+ */
+export interface ContactIdentifier {
+  value: string;
+  aliasType: 'PHONE' | 'EMAIL';
+  label?: string;                  // e.g. "mobile", "work"
+}
+
+/**
+ * A device contact with the identifiers that could be aliases
+ * Contacts stay on the device; only identifiers are sent for lookup.
+ */
+export interface DeviceContact {
+  contactId: string;
+  name: string;
+  imageUri?: string;
+  identifiers: ContactIdentifier[];
+  /** Set when one of the identifiers is a registered alias ("on mwsim") */
+  match?: {
+    identifier: ContactIdentifier;
+    lookup: AliasLookupResult;
+  };
+}
+
+// ===========================
+// Bill Split Types
+// ===========================
+
+/**
+ * How a bill is divided between the people in a split
+ * - EVEN: equal shares (leftover cents go to the first people in the list)
+ * - SHARES: weighted shares (2 shares for someone who ordered for two)
+ * - ITEMS: everyone pays for their own items; tax and tip are spread in proportion
+ */
+export type BillSplitMethod = 'EVEN' | 'SHARES' | 'ITEMS';
+
+/**
+ * How each participant's share is settled
+ * - REQUEST: the organizer paid the bill and sends everyone a money request
+ * - SEND: the organizer sends everyone their share as a P2P transfer
+ */
+export type BillSplitSettleMode = 'REQUEST' | 'SEND';
+
+export type BillSplitShareStatus = 'PENDING' | 'REQUESTED' | 'SENT' | 'PAID' | 'DECLINED' | 'FAILED';
+
+/**
+ * One person in a bill split (never the organizer, whose share isn't collected)
+ */
+export interface BillSplitParticipant {
+  participantId: string;
+  alias: string;
+  aliasType?: AliasType;
+  displayName?: string;
+  profileImageUrl?: string;
+  initialsColor?: string;
+  shares?: number;                 // Weight for the SHARES method (default 1)
+  amount: number;                  // This person's share of the total
+  status: BillSplitShareStatus;
+  requestId?: string;              // REQUEST mode: the money request sent to them
+  transferId?: string;             // SEND mode transfer, or the transfer that paid the request
+  sendAttempt?: number;            // SEND mode: bumped when a transfer fails, so the retry is a new transfer
+  paidManually?: boolean;          // Marked paid by the organizer (cash, e-transfer, ...)
+  lastError?: string;              // Set when issuing the request or transfer failed
+}
+
+/**
+ * A line on the bill for the ITEMS method
+ */
+export interface BillSplitItem {
+  itemId: string;
+  name: string;
+  amount: number;
+  participantIds: string[];        // Who shared the item (BILL_SPLIT_ORGANIZER_ID for the organizer)
+}
+
+/**
+ * A bill split organized from this device
+ * Stored locally; the tracker follows each share through its money request or transfer.
+ */
+export interface BillSplit {
+  splitId: string;
+  description: string;
+  total: number;
+  currency: string;
+  method: BillSplitMethod;
+  settleMode: BillSplitSettleMode;
+  includeOrganizer: boolean;       // The organizer pays a share of the bill too
+  organizerShares?: number;        // Organizer's weight for the SHARES method
+  organizerAmount: number;         // Organizer's own share (0 when not included)
+  participants: BillSplitParticipant[];
+  items?: BillSplitItem[];
+  merchantName?: string;           // Set when the bill came from a merchant QR payment
+  sourceAccountId?: string;        // SEND mode: account the shares are sent from
+  senderBsimId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 // ===========================
 // Micro Merchant Types
 // ===========================
@@ -320,6 +682,90 @@ export interface MerchantProfile {
   // Stats (optional, for dashboard)
   todayRevenue?: number;
   todayTransactionCount?: number;
+  // Staff access
+  role?: MerchantStaffRole;          // Current user's role; absent means owner (single-user merchants)
+  // Tips (food & beverage merchants)
+  tipSettings?: TipSettings;
+}
+
+/**
+ * Fee for a range of payment amounts: flat, percentage, or both, optionally
+ * clamped to a minimum and capped at a maximum
+ */
+export interface FeeTier {
+  minAmount: number;                 // Tier applies from this gross amount (inclusive) up to the next tier
+  flat?: number;                     // e.g. 0.25
+  percentage?: number;               // e.g. 2.9 for 2.9%
+  minFee?: number;
+  maxFee?: number;                   // Cap
+}
+
+/**
+ * Micro Merchant fee schedule
+ * GET /api/v1/micro-merchants/fee-schedule
+ */
+export interface FeeSchedule {
+  scheduleId: string;
+  currency: string;
+  tiers: FeeTier[];                  // Default tiers, ascending by minAmount
+  categoryTiers?: Partial<Record<MerchantCategory, FeeTier[]>>; // Per-category overrides
+  updatedAt?: string;
+}
+
+/**
+ * A tip button shown to payers: a percentage of the bill or a flat amount
+ */
+export interface TipPreset {
+  type: 'PERCENT' | 'FLAT';
+  value: number;                     // 15 for 15%, or 2.00 for $2
+}
+
+/**
+ * Merchant tip prompt configuration
+ * Returned on the merchant profile and on resolved merchant QR tokens
+ */
+export interface TipSettings {
+  enabled: boolean;
+  presets: TipPreset[];              // Up to 4, shown in order
+  allowCustom: boolean;              // Payer may enter their own tip
+}
+
+/**
+ * Staff roles on a Micro Merchant account
+ * OWNER: everything, including payouts and deactivation
+ * MANAGER: refunds, exports, reports and cashier management
+ * CASHIER: show the payment QR and see incoming payments
+ */
+export type MerchantStaffRole = 'OWNER' | 'MANAGER' | 'CASHIER';
+
+export type MerchantStaffStatus = 'INVITED' | 'ACTIVE';
+
+/**
+ * A person with access to a merchant account
+ * GET /api/v1/micro-merchants/me/staff
+ */
+export interface MerchantStaffMember {
+  staffId: string;
+  alias: string;                     // Alias the invitation was sent to
+  displayName?: string;              // Set once the invitation is accepted
+  role: MerchantStaffRole;
+  status: MerchantStaffStatus;
+  invitedAt: string;
+  joinedAt?: string;
+}
+
+/**
+ * Pending invitation to join another user's merchant account
+ * GET /api/v1/micro-merchants/invitations
+ */
+export interface MerchantStaffInvitation {
+  invitationId: string;
+  merchantId: string;
+  merchantName: string;
+  logoImageUrl?: string;
+  role: MerchantStaffRole;
+  invitedByName?: string;
+  createdAt: string;
 }
 
 /**
@@ -329,8 +775,9 @@ export interface TransferWithRecipientType extends Transfer {
   recipientType?: RecipientType;     // 'individual' or 'merchant'
   merchantName?: string;             // Business name if merchant
   merchantCategory?: MerchantCategory;
-  feeAmount?: number;                // Fee deducted (for merchant payments)
-  grossAmount?: number;              // Amount before fee
+  feeAmount?: Money;                 // Fee deducted (for merchant payments)
+  grossAmount?: Money;               // Amount before fee (includes any tip)
+  tipAmount?: Money;                 // Tip part of grossAmount, recorded separately from the bill
 }
 
 /**
@@ -345,6 +792,7 @@ export interface ResolvedMerchantToken extends ResolvedToken {
   profileImageUrl?: string;          // Individual recipient's profile image URL (from WSIM)
   initialsColor?: string;            // Hex color for initials fallback
   feeAmount?: number;                // Calculated fee for display
+  tipSettings?: TipSettings;         // Merchant's tip prompt, if tipping is enabled
 }
 
 /**
@@ -379,6 +827,7 @@ export interface MerchantPeriodStats {
   totalReceived: string;      // Decimal string, e.g., "500.00"
   totalTransactions: number;
   totalFees: string;          // Decimal string, e.g., "3.50"
+  totalTips?: string;         // Decimal string, part of totalReceived
 }
 
 /**
@@ -411,6 +860,43 @@ export const P2P_THEME_COLORS = {
   },
 };
 
+// ===========================
+// Receipt Types
+// ===========================
+
+/**
+ * What a receipt was generated from
+ * - p2p: personal transfer (sent or received)
+ * - merchant: payment received by a Micro Merchant (shows gross, fee, net)
+ * - card: card payment approved through WSIM
+ */
+export type ReceiptKind = 'p2p' | 'merchant' | 'card';
+
+/**
+ * Proof-of-payment receipt, built on the device from a Transfer,
+ * TransferWithRecipientType or card PaymentRequest/PaymentHistoryItem
+ */
+export interface Receipt {
+  receiptId: string;               // transferId or card payment requestId
+  kind: ReceiptKind;
+  direction: TransferDirection;    // From the viewer's side
+  statusLabel: string;             // e.g. "Completed", "Paid"
+  isSuccessful: boolean;
+  counterpartyLabel: string;       // e.g. "Paid to", "Received from"
+  counterpartyName: string;
+  counterpartyDetail?: string;     // Alias or bank/account
+  amount: number;                  // Amount the payer paid (gross for merchant payments)
+  feeAmount?: number;              // Merchant processing fee
+  netAmount?: number;              // Amount credited to the merchant after fee
+  currency: string;
+  description?: string;
+  paymentMethod?: string;          // e.g. "VISA •••• 4242"
+  orderId?: string;
+  orderDetails?: OrderDetails;
+  createdAt: string;
+  completedAt?: string;
+}
+
 // ===========================
 // ContractSim Types
 // ===========================
@@ -441,13 +927,18 @@ export type EscrowType = 'full' | 'partial' | 'none';
 
 /**
  * Settlement type determines how funds are distributed
+ * - winner_takes_all: winners split the pot evenly
+ * - proportional: winners split the pot in proportion to their stakes
+ * - custom: winners split the pot by the payout shares agreed at creation
  */
 export type SettlementType = 'winner_takes_all' | 'proportional' | 'custom';
 
 /**
  * Party role in the contract
+ * Two-party contracts have a creator and a counterparty; pools have a
+ * creator and any number of participants.
  */
-export type PartyRole = 'creator' | 'counterparty';
+export type PartyRole = 'creator' | 'counterparty' | 'participant';
 
 /**
  * Outcome type for a party
@@ -459,6 +950,11 @@ export type OutcomeType = 'winner' | 'loser' | 'refund' | 'custom';
  */
 export type PredicateOperator = 'equals' | 'not_equals' | 'greater_than' | 'less_than' | 'contains' | 'in';
 
+/**
+ * How a contract's conditions combine: all must be true (and) or any (or)
+ */
+export type ConditionLogic = 'and' | 'or';
+
 /**
  * Condition status
  */
@@ -476,12 +972,11 @@ export interface ContractParty {
   displayName: string;
   profileImageUrl?: string;
   initialsColor?: string;
-  stake: {
-    amount: number;
-    currency: string;
-  };
+  stake: Money;
   outcomeIfTrue: OutcomeType;
   outcomeIfFalse: OutcomeType;
+  prediction?: string;             // Pools: this party's own prediction
+  payoutShare?: number;            // Pools with custom settlement: % of the pot if this party wins
   accepted: boolean;
   acceptedAt?: string;
   funded: boolean;
@@ -513,14 +1008,55 @@ export interface ContractCondition {
   resolvedAt?: string;
 }
 
+/**
+ * Milestone status
+ * - pending: waiting for the payee to deliver
+ * - delivered: waiting for the payer to release or reject
+ * - released: paid out to the payee
+ * - rejected: sent back to the payee, who can deliver again
+ */
+export type MilestoneStatus = 'pending' | 'delivered' | 'released' | 'rejected';
+
+/**
+ * A tranche of an escrow or milestone contract
+ * The creator funds every milestone up front and releases each one to the
+ * counterparty once it's delivered. Escrow contracts have a single milestone.
+ */
+export interface ContractMilestone {
+  id: string;
+  index: number;
+  title: string;
+  description?: string;
+  amount: Money;
+  status: MilestoneStatus;
+  dueAt?: string;
+  deliveredAt?: string;
+  deliveryNote?: string;
+  autoReleaseAt?: string;          // Escrow: released automatically unless the payer rejects first
+  releasedAt?: string;
+  rejectedAt?: string;
+  rejectionReason?: string;
+}
+
+/**
+ * Amount paid out to one party when a contract settles
+ */
+export interface ContractPayout {
+  partyId: string;
+  amount: Money;
+}
+
 /**
  * Contract outcome after resolution
+ * Pools settle with 'pool_settled' and list every winner and payout.
  */
 export interface ContractOutcome {
   winnerId?: string;
   winnerDisplayName?: string;
-  result: 'party_a_wins' | 'party_b_wins' | 'draw' | 'cancelled' | 'expired';
-  settledAmount?: number;
+  winnerIds?: string[];
+  result: 'party_a_wins' | 'party_b_wins' | 'draw' | 'cancelled' | 'expired' | 'pool_settled';
+  settledAmount?: Money;
+  payouts?: ContractPayout[];
   settledAt?: string;
 }
 
@@ -541,6 +1077,94 @@ export interface ContractDispute {
   resolution?: string;
 }
 
+/**
+ * Kind of evidence submitted to a dispute
+ */
+export type DisputeEvidenceType = 'text' | 'url' | 'photo';
+
+/**
+ * One piece of evidence submitted by a party
+ */
+export interface DisputeEvidence {
+  id: string;
+  partyId: string;
+  type: DisputeEvidenceType;
+  description?: string;            // The statement, or a caption for a link/photo
+  url?: string;                    // Link, or the uploaded photo's URL
+  createdAt: string;
+}
+
+/**
+ * Evidence to submit: a statement, a link, or a photo from the device
+ */
+export type DisputeEvidenceInput =
+  | { type: 'text'; description: string }
+  | { type: 'url'; url: string; description?: string }
+  | { type: 'photo'; imageUri: string; description?: string };
+
+/**
+ * Entry in a dispute's history
+ * partyId is absent for entries made by ContractSim (review, resolution).
+ */
+export interface DisputeHistoryEvent {
+  id: string;
+  type: 'raised' | 'evidence_added' | 'under_review' | 'resolved' | 'rejected';
+  partyId?: string;
+  description?: string;
+  evidence?: DisputeEvidence;
+  createdAt: string;
+}
+
+/**
+ * Raise a dispute request
+ */
+export interface DisputeContractRequest {
+  reason: string;
+  description?: string;
+  url?: string;
+}
+
+/**
+ * Terms that can change while a two-party contract is negotiated
+ */
+export interface ContractTerms {
+  creatorStake: Money;
+  counterpartyStake: Money;
+  expiresAt: string;
+  prediction?: string;             // The creator's prediction
+}
+
+/**
+ * Status of a revision in a negotiation thread
+ * A new counter-offer supersedes the pending one.
+ */
+export type ContractOfferStatus = 'pending' | 'accepted' | 'superseded';
+
+/**
+ * One revision in a contract's negotiation thread
+ * Revision 1 is the original proposal; each counter-offer adds the next.
+ */
+export interface ContractOffer {
+  id: string;
+  revision: number;
+  partyId: string;                 // The party who proposed these terms
+  terms: ContractTerms;
+  message?: string;
+  status: ContractOfferStatus;
+  createdAt: string;
+}
+
+/**
+ * Counter-offer request: only the terms being changed, and an optional message
+ */
+export interface CounterOfferRequest {
+  creatorStake?: number;
+  counterpartyStake?: number;
+  expiresAt?: string;
+  prediction?: string;
+  message?: string;
+}
+
 /**
  * Full contract object
  */
@@ -554,7 +1178,7 @@ export interface Contract {
   conditions: ContractCondition[];
   escrowType: EscrowType;
   settlementType: SettlementType;
-  totalPot: number;
+  totalPot: Money;
   currency: string;
   createdAt: string;
   acceptedAt?: string;
@@ -565,9 +1189,14 @@ export interface Contract {
   fundingDeadline: string;
   outcome?: ContractOutcome;
   dispute?: ContractDispute;
+  conditionLogic?: ConditionLogic;  // Defaults to 'and'
+  milestones?: ContractMilestone[]; // Escrow and milestone contracts
+  autoReleaseHours?: number;       // Escrow: hours after delivery before funds release automatically
+  offers?: ContractOffer[];        // Negotiation thread while proposed, oldest revision first
   // Convenience fields for UI
   myRole?: PartyRole;
-  counterparty?: ContractParty;
+  myPartyId?: string;              // Identifies the user's party (pools have several participants)
+  counterparty?: ContractParty;    // Two-party contracts only
   conditionsSummary?: string;
 }
 
@@ -579,17 +1208,36 @@ export interface ContractListItem {
   type: ContractType;
   status: ContractStatus;
   title: string;
-  totalPot: number;
+  totalPot: Money;
   currency: string;
   myRole: PartyRole;
   counterpartyName: string;
   counterpartyProfileImageUrl?: string;
   counterpartyInitialsColor?: string;
+  participantCount?: number;       // All parties including the creator (pools have more than 2)
   conditionsSummary?: string;
   expiresAt: string;
   createdAt: string;
 }
 
+/**
+ * Value type of an oracle event field
+ * 'team' values are team IDs from the event's teams.
+ */
+export type OracleEventFieldType = 'number' | 'string' | 'boolean' | 'team';
+
+/**
+ * A field of an oracle event's result that conditions can test
+ * (e.g. { name: 'total_score', label: 'Total score', type: 'number' })
+ */
+export interface OracleEventField {
+  name: string;
+  label: string;
+  type: OracleEventFieldType;
+  unit?: string;                   // e.g. "points"
+  options?: { id: string; name: string }[]; // Allowed values for team fields
+}
+
 /**
  * Oracle event (for browsing available events)
  */
@@ -603,27 +1251,62 @@ export interface OracleEvent {
   startsAt: string;
   endsAt?: string;
   teams?: { id: string; name: string }[];
+  fields?: OracleEventField[];     // Result schema; events without one only support the winner
   result?: {
     winner?: string;
     score?: string;
   };
 }
 
+/**
+ * A participant invited to a pool, with the stake they're asked to put in
+ */
+export interface ContractParticipantInput {
+  alias: string;
+  stake: number;
+  payoutShare?: number;            // Custom settlement only
+}
+
+/**
+ * A milestone entered when creating an escrow or milestone contract
+ */
+export interface ContractMilestoneInput {
+  title: string;
+  description?: string;
+  amount: number;
+  dueAt?: string;
+}
+
 /**
  * Create contract request
+ * Two-party contracts set counterpartyAlias and theirStake; pools set
+ * participants instead. Each pool participant makes their own prediction
+ * when accepting.
+ *
+ * Escrow and milestone contracts have no event: the creator pays myStake
+ * (the milestones' total) and the counterparty puts nothing in.
  */
 export interface CreateContractRequest {
   type: ContractType;
   title: string;
   description?: string;
-  counterpartyAlias: string;
-  event: {
+  counterpartyAlias?: string;
+  participants?: ContractParticipantInput[];
+  settlementType?: SettlementType; // Defaults to winner_takes_all
+  event?: {
     oracle: string;
     event_id: string;
     myPrediction: string;
   };
+  conditions?: ContractPredicate[]; // Conditions on the event's fields, built on the Conditions step
+  conditionLogic?: ConditionLogic;
+  conditionsSummary?: string;      // Plain-English summary of the conditions
+  milestones?: ContractMilestoneInput[];
+  autoReleaseHours?: number;       // Escrow only
   myStake: number;
-  theirStake: number;
+  theirStake?: number;
+  myPayoutShare?: number;          // Custom settlement only
+  currency?: string;               // Stake currency (the funding account's); defaults to CAD
   expiresInHours?: number;
 }
 
@@ -633,6 +1316,7 @@ export interface CreateContractRequest {
 export type ContractNotificationType =
   | 'contract.proposed'
   | 'contract.accepted'
+  | 'contract.countered'
   | 'contract.funded'
   | 'contract.outcome'
   | 'contract.settled'
@@ -665,6 +1349,15 @@ export const CONTRACT_TYPE_INFO: Record<ContractType, { label: string; icon: str
   custom: { label: 'Custom', icon: '📝', description: 'Custom terms' },
 };
 
+/**
+ * Settlement type display info
+ */
+export const SETTLEMENT_TYPE_INFO: Record<SettlementType, { label: string; description: string }> = {
+  winner_takes_all: { label: 'Split evenly', description: 'Winners share the pot equally' },
+  proportional: { label: 'By stake', description: 'Winners share the pot in proportion to their stakes' },
+  custom: { label: 'Custom %', description: 'Winners get the share of the pot agreed up front' },
+};
+
 // Navigation types
 export type RootStackParamList = {
   Welcome: undefined;